@@ -1,6 +1,7 @@
-import { useState, useEffect, Component, type ReactNode, type ErrorInfo, useCallback } from "react";
+import { useState, useEffect, useRef, Component, type ReactNode, type ErrorInfo, useCallback } from "react";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "./lib/queryClient";
+import { rememberScoreVersions } from "./lib/scoreOutbox";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider, useTheme } from "@/components/ThemeProvider";
@@ -14,6 +15,7 @@ import { SettingsPanel } from "@/components/SettingsPanel";
 import { SaveLoadDialog } from "@/components/SaveLoadDialog";
 import { BottomNav } from "@/components/BottomNav";
 import { isLeader } from "@/lib/game-utils";
+import { DEFAULT_HOLE_COUNT } from "@/lib/constants";
 import { PushPrompt } from "@/components/PushPrompt";
 import { SponsorCardFlow } from "@/components/SponsorCardFlow";
 
@@ -136,11 +138,15 @@ function GameApp() {
 
   const handleStartTournamentGame = async () => {
     // Fetch existing scores from server first
-    let serverScores: Record<string, Array<{ hole: number; par: number; strokes: number; scratches: number; penalties: number }>> = {};
+    let serverScores: Record<string, Array<{ tournamentPlayerId: number; round: number; hole: number; par: number; strokes: number; scratches: number; penalties: number; version: number }>> = {};
     try {
       const res = await apiRequest("GET", `/api/tournaments/${tournament.roomCode}/my-scores?deviceId=${tournament.deviceId}`);
       const data = await res.json();
       serverScores = data.scores || {};
+      // Later edits from this device are checked against these versions
+      if (tournament.roomCode) {
+        rememberScoreVersions(tournament.roomCode, Object.values(serverScores).flat());
+      }
     } catch (err) {
       console.log("No existing scores to restore or error fetching:", err);
     }
@@ -161,16 +167,19 @@ function GameApp() {
     // Reset local game and populate with tournament players
     game.resetGame();
     
+    // Players who missed the cut have no card in later rounds
+    const activePlayers = tournament.myPlayers.filter(tp => tp.cutAfterRound == null);
+
     // Add players and restore their scores immediately
-    tournament.myPlayers.forEach((tp, idx) => {
+    activePlayers.forEach((tp, idx) => {
       game.addPlayer(tp.playerName, idx);
     });
     
-    game.startGame(startingHole);
+    game.startGame(startingHole, tournament.tournamentInfo?.holeCount ?? DEFAULT_HOLE_COUNT);
     
     // Use a small delay to ensure state is updated, then restore scores
     setTimeout(() => {
-      tournament.myPlayers.forEach((tp, idx) => {
+      activePlayers.forEach((tp, idx) => {
         const scores = serverScores[tp.id.toString()];
         if (scores && game.players[idx]) {
           const localPlayerId = game.players[idx].id;
@@ -212,6 +221,40 @@ function GameApp() {
     await handleStartTournamentGame();
   }, [tournament.roomCode, handleStartTournamentGame]);
 
+  // Players still in a sudden-death playoff score it from the game tab, even after finishing their round
+  const hasPlayoffToScore = !!tournament.playoff?.currentRound
+    && tournament.myPlayers.some(tp => tournament.playoff!.remainingPlayerIds.includes(tp.id));
+
+  useEffect(() => {
+    if (hasPlayoffToScore && screen === "game") {
+      setActiveTab("game");
+    }
+  }, [hasPlayoffToScore]);
+
+  // When the director starts the next round, a finished card starts over on a fresh one
+  const currentRound = tournament.tournamentInfo?.currentRound;
+  const lastRoundRef = useRef(currentRound);
+  const [roundStarted, setRoundStarted] = useState(false);
+  useEffect(() => {
+    const previous = lastRoundRef.current;
+    lastRoundRef.current = currentRound;
+    if (previous === undefined || currentRound === undefined || currentRound <= previous) return;
+    if (screen === "game" && game.isComplete) {
+      // Pick up who made the cut before building the new card
+      setRoundStarted(true);
+      tournament.refreshPlayers();
+    }
+  }, [currentRound]);
+
+  useEffect(() => {
+    if (!roundStarted) return;
+    setRoundStarted(false);
+    if (tournament.myPlayers.some(tp => tp.cutAfterRound == null)) {
+      setViewOnly(false);
+      handleStartTournamentGame();
+    }
+  }, [tournament.myPlayers]);
+
   const handleViewOnly = () => {
     console.log("handleViewOnly triggered");
     setViewOnly(true);
@@ -232,7 +275,7 @@ function GameApp() {
   };
 
   const handleTabChange = (tab: ActiveTab) => {
-    if (viewOnly && (tab === "game" || tab === "save")) return;
+    if (viewOnly && (tab === "save" || (tab === "game" && !hasPlayoffToScore))) return;
     setActiveTab(tab);
   };
 
@@ -314,12 +357,14 @@ function GameApp() {
           currentPlayer={currentPlayer}
           currentHole={game.currentHole}
           holesCompleted={game.holesCompleted}
+          holeCount={game.holeCount}
           scores={game.scores}
           isLeader={playerIsLeader}
           leftHandedMode={game.settings.leftHandedMode}
           onPreviousPlayer={game.previousPlayer}
           onNextPlayer={game.nextPlayer}
           onUpdateScore={(score) => game.updateScore(currentPlayer.id, game.currentHole, score)}
+          onReplaceScore={(playerId, hole, score) => game.updateScore(playerId, hole, score)}
           onNextCard={game.nextCard}
           onUndo={game.undo}
           canUndo={true}
@@ -332,6 +377,8 @@ function GameApp() {
         <SummaryScreen
           players={game.players}
           scores={game.scores}
+          startingHole={game.startingHole}
+          holeCount={game.holeCount}
           onNewGame={handleNewGame}
           isGameOver={game.isComplete}
           viewOnly={viewOnly}
@@ -0,0 +1,91 @@
+import { calculateHandicap, DEFAULT_HANDICAP_POLICY, type HandicapPolicy, type PlayerTournamentHistory } from '../../../shared/schema';
+
+const NOW = new Date('2026-06-01T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+// History rows newest first, one a week apart unless daysAgo says otherwise
+const history = (toPar: number[], options: { holesPlayed?: number[]; daysAgo?: number[] } = {}): PlayerTournamentHistory[] =>
+  toPar.map((relativeToPar, i) => {
+    const holesPlayed = options.holesPlayed?.[i] ?? 18;
+    const totalPar = holesPlayed * 3;
+    return {
+      id: i + 1,
+      universalPlayerId: 1,
+      tournamentId: null,
+      tournamentName: `Round ${i + 1}`,
+      courseName: null,
+      totalStrokes: totalPar + relativeToPar,
+      totalPar,
+      holesPlayed,
+      relativeToPar,
+      totalScratches: 0,
+      totalPenalties: 0,
+      completedAt: new Date(NOW.getTime() - (options.daysAgo?.[i] ?? i * 7) * DAY),
+      isManualEntry: false,
+      supersededAt: null,
+    };
+  });
+
+const policy = (overrides: Partial<HandicapPolicy> = {}): HandicapPolicy => ({ ...DEFAULT_HANDICAP_POLICY, ...overrides });
+
+describe('calculateHandicap', () => {
+  it('averages the best rounds among the most recent ones', () => {
+    const result = calculateHandicap(history([4, 1, 6, 2, 3, -5]), policy({ recentRounds: 5, bestRounds: 2, provisionalRounds: 1, maxIncrease: null }), NOW);
+    expect(result.handicap).toBe(1.5);
+    expect(result.rounds.map(r => r.counted)).toEqual([false, true, false, true, false]);
+  });
+
+  it('scales short rounds to 18 holes when the policy normalizes', () => {
+    const rounds = history([3], { holesPlayed: [9] });
+    const settings = { bestRounds: 1, provisionalRounds: 1, maxIncrease: null };
+    expect(calculateHandicap(rounds, policy({ ...settings, normalizeTo18: true }), NOW).handicap).toBe(6);
+    expect(calculateHandicap(rounds, policy({ ...settings, normalizeTo18: false }), NOW).handicap).toBe(3);
+  });
+
+  it('counts every round while the player is provisional', () => {
+    const result = calculateHandicap(history([1, 2, 2]), policy(), NOW);
+    expect(result.isProvisional).toBe(true);
+    expect(result.handicap).toBe(1.7);
+  });
+
+  it('counts only the best provisional rounds when the policy limits them', () => {
+    const result = calculateHandicap(history([1, 2, 2]), policy({ provisionalBestRounds: 1 }), NOW);
+    expect(result.handicap).toBe(1);
+  });
+
+  it('stops being provisional once enough rounds are played', () => {
+    const rounds = history([2, 4, 6, 8]);
+    const provisional = calculateHandicap(rounds, policy({ provisionalRounds: 5, bestRounds: 2, maxIncrease: null }), NOW);
+    expect([provisional.isProvisional, provisional.handicap]).toEqual([true, 5]);
+    const established = calculateHandicap(rounds, policy({ provisionalRounds: 4, bestRounds: 2, maxIncrease: null }), NOW);
+    expect([established.isProvisional, established.handicap]).toEqual([false, 3]);
+  });
+
+  it('caps a rise at the lowest handicap of the past year plus the allowed increase', () => {
+    const result = calculateHandicap(history([10, 10, 10, 0]), policy({ recentRounds: 3, bestRounds: 1, provisionalRounds: 1, maxIncrease: 3 }), NOW);
+    expect(result.average).toBe(10);
+    expect(result.lowHandicap).toBe(0);
+    expect(result.capped).toBe(true);
+    expect(result.handicap).toBe(3);
+  });
+
+  it('ignores handicaps from more than a year ago when capping', () => {
+    const rounds = history([10, 10, 10, 0], { daysAgo: [0, 400, 410, 420] });
+    const result = calculateHandicap(rounds, policy({ recentRounds: 3, bestRounds: 1, provisionalRounds: 1, maxIncrease: 3 }), NOW);
+    expect(result.lowHandicap).toBe(null);
+    expect(result.capped).toBe(false);
+    expect(result.handicap).toBe(10);
+  });
+
+  it('does not cap when the policy has no maximum increase', () => {
+    const result = calculateHandicap(history([10, 10, 10, 0]), policy({ recentRounds: 3, bestRounds: 1, provisionalRounds: 1, maxIncrease: null }), NOW);
+    expect(result.capped).toBe(false);
+    expect(result.handicap).toBe(10);
+  });
+
+  it('has no handicap without any rounds', () => {
+    const result = calculateHandicap([], policy(), NOW);
+    expect(result.average).toBe(null);
+    expect(result.handicap).toBe(null);
+  });
+});
@@ -0,0 +1,37 @@
+import { allocateHandicapStrokes } from '../../../shared/schema';
+
+const strokeIndex = (holes: number) => Array.from({ length: holes }, (_, i) => i + 1);
+
+describe('allocateHandicapStrokes', () => {
+  it('gives one stroke a hole for an 18 handicap', () => {
+    expect(allocateHandicapStrokes(18, strokeIndex(18))).toEqual(Array(18).fill(1));
+  });
+
+  it('gives the remainder to the hardest holes', () => {
+    const strokes = allocateHandicapStrokes(20, [5, 1, 18, 2, ...strokeIndex(18).filter(i => ![5, 1, 18, 2].includes(i))]);
+    expect(strokes.slice(0, 4)).toEqual([1, 2, 1, 2]);
+    expect(strokes.reduce((sum, s) => sum + s, 0)).toBe(20);
+  });
+
+  it('scales the handicap to a 9-hole round', () => {
+    expect(allocateHandicapStrokes(9, strokeIndex(9))).toEqual([1, 1, 1, 1, 1, 0, 0, 0, 0]);
+    expect(allocateHandicapStrokes(36, strokeIndex(9))).toEqual(Array(9).fill(2));
+  });
+
+  it('gives strokes back on the easiest holes for a plus handicap', () => {
+    expect(allocateHandicapStrokes(-2, strokeIndex(18))).toEqual([...Array(16).fill(0), -1, -1]);
+  });
+
+  it('takes more than one stroke a hole back for a large plus handicap', () => {
+    expect(allocateHandicapStrokes(-20, strokeIndex(18))).toEqual([...Array(16).fill(-1), -2, -2]);
+  });
+
+  it('hands out the whole rounded allowance', () => {
+    expect(allocateHandicapStrokes(27.4, strokeIndex(18)).reduce((sum, s) => sum + s, 0)).toBe(27);
+    expect(allocateHandicapStrokes(0, strokeIndex(18))).toEqual(Array(18).fill(0));
+  });
+
+  it('allocates nothing without holes', () => {
+    expect(allocateHandicapStrokes(12, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+import { rankLeaderboard, type LeaderboardEntry, type TournamentScore } from '../../../shared/schema';
+
+// Scorecard on par-3 holes; strokes[0] is hole `firstHole`
+const card = (playerId: number, strokes: number[], firstHole = 1): TournamentScore[] =>
+  strokes.map((s, i) => ({
+    id: 0,
+    tournamentPlayerId: playerId,
+    round: 1,
+    hole: firstHole + i,
+    par: 3,
+    strokes: s,
+    scratches: 0,
+    penalties: 0,
+    version: 1,
+    updatedAt: new Date(0),
+  }));
+
+const par = (holes: number) => Array(holes).fill(3);
+
+const withHoles = (strokes: number[], changes: Record<number, number>) =>
+  strokes.map((s, i) => changes[i + 1] ?? s);
+
+const entry = (playerId: number, scores: TournamentScore[], overrides: Partial<LeaderboardEntry> = {}): LeaderboardEntry => {
+  const totalStrokes = scores.reduce((sum, s) => sum + s.strokes, 0);
+  const totalPar = scores.reduce((sum, s) => sum + s.par, 0);
+  return {
+    playerId,
+    playerName: `Player ${playerId}`,
+    groupName: null,
+    totalStrokes,
+    totalPar,
+    holesCompleted: scores.length,
+    relativeToPar: totalStrokes - totalPar,
+    totalScratches: 0,
+    totalPenalties: 0,
+    handicap: null,
+    netStrokes: totalStrokes,
+    netRelativeToPar: totalStrokes - totalPar,
+    position: 0,
+    tieBreak: null,
+    cutAfterRound: null,
+    divisionId: null,
+    rounds: [],
+    ...overrides,
+  };
+};
+
+const rank = (cards: TournamentScore[][], overrides: Partial<LeaderboardEntry>[] = [], options: { policy?: 'shared' | 'countback' | 'fewest_scratches'; round?: number } = {}) => {
+  const leaderboard = cards.map((scores, i) => entry(i + 1, scores, overrides[i]));
+  const holeScores = new Map(cards.map((scores, i) => [i + 1, scores] as const));
+  rankLeaderboard(leaderboard, holeScores, 'gross', options.policy ?? 'shared', 18, options.round);
+  return leaderboard.map(e => ({ playerId: e.playerId, position: e.position, tieBreak: e.tieBreak }));
+};
+
+describe('rankLeaderboard', () => {
+  it('orders by score and lets tied players share a position', () => {
+    const result = rank([
+      card(1, withHoles(par(18), { 1: 4 })),
+      card(2, par(18)),
+      card(3, withHoles(par(18), { 5: 4 })),
+    ]);
+    expect(result).toEqual([
+      { playerId: 2, position: 1, tieBreak: null },
+      { playerId: 1, position: 2, tieBreak: null },
+      { playerId: 3, position: 2, tieBreak: 'shared' },
+    ]);
+  });
+
+  it('breaks a tie on the back nine first', () => {
+    const result = rank([
+      card(1, withHoles(par(18), { 1: 2, 12: 4 })),
+      card(2, withHoles(par(18), { 1: 4, 12: 2 })),
+    ], [], { policy: 'countback' });
+    expect(result).toEqual([
+      { playerId: 2, position: 1, tieBreak: null },
+      { playerId: 1, position: 2, tieBreak: 'countback_9' },
+    ]);
+  });
+
+  it('falls through to the last 3 holes when the last 9 and 6 are level', () => {
+    const result = rank([
+      card(1, withHoles(par(18), { 13: 2, 16: 4 })),
+      card(2, withHoles(par(18), { 13: 4, 16: 2 })),
+    ], [], { policy: 'countback' });
+    expect(result).toEqual([
+      { playerId: 2, position: 1, tieBreak: null },
+      { playerId: 1, position: 2, tieBreak: 'countback_3' },
+    ]);
+  });
+
+  it('judges countback only on holes both players have finished', () => {
+    // Player 1's birdie on 17 is on a hole player 2 has not reached yet
+    const result = rank([
+      card(1, withHoles(par(18), { 1: 4, 17: 2 })),
+      card(2, par(12)),
+    ], [], { policy: 'countback' });
+    expect(result).toEqual([
+      { playerId: 1, position: 1, tieBreak: null },
+      { playerId: 2, position: 1, tieBreak: 'shared' },
+    ]);
+  });
+
+  it('shares the position when countback cannot separate the players', () => {
+    const result = rank([card(1, par(18)), card(2, par(18))], [], { policy: 'countback' });
+    expect(result.map(r => r.position)).toEqual([1, 1]);
+    expect(result[1].tieBreak).toBe('shared');
+  });
+
+  it('splits a tie on fewest scratches', () => {
+    const result = rank([card(1, par(18)), card(2, par(18))], [{ totalScratches: 2 }, { totalScratches: 1 }], { policy: 'fewest_scratches' });
+    expect(result).toEqual([
+      { playerId: 2, position: 1, tieBreak: null },
+      { playerId: 1, position: 2, tieBreak: 'fewest_scratches' },
+    ]);
+  });
+
+  it('lists players who missed the cut below everyone who made it', () => {
+    const result = rank([
+      card(1, withHoles(par(18), { 1: 4 })),
+      card(2, withHoles(par(18), { 1: 2, 2: 2 })),
+      card(3, par(18)),
+      card(4, withHoles(par(18), { 1: 2 })),
+    ], [{}, { cutAfterRound: 1 }, {}, { cutAfterRound: 1 }]);
+    expect(result).toEqual([
+      { playerId: 3, position: 1, tieBreak: null },
+      { playerId: 1, position: 2, tieBreak: null },
+      { playerId: 2, position: 3, tieBreak: null },
+      { playerId: 4, position: 4, tieBreak: null },
+    ]);
+  });
+
+  it('does not share a position across the cut line', () => {
+    const result = rank([card(1, par(18)), card(2, par(18))], [{ cutAfterRound: 1 }, {}]);
+    expect(result).toEqual([
+      { playerId: 2, position: 1, tieBreak: null },
+      { playerId: 1, position: 2, tieBreak: null },
+    ]);
+  });
+
+  it('ranks cut players on score within a single round', () => {
+    const result = rank([
+      card(1, par(18)),
+      card(2, withHoles(par(18), { 1: 2 })),
+    ], [{}, { cutAfterRound: 1 }], { round: 1 });
+    expect(result.map(r => r.playerId)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,66 @@
+import { allocatePlaceAmounts, splitPayoutsByStanding } from '../../../shared/schema';
+
+const standings = (...positions: number[]) => positions.map((position, i) => ({ playerId: i + 1, position }));
+
+describe('allocatePlaceAmounts', () => {
+  it('pays each place its share of the pool', () => {
+    expect(allocatePlaceAmounts(1000, [50, 30, 20])).toEqual([500, 300, 200]);
+  });
+
+  it('snaps places to $5 and lets the largest absorb the rounding', () => {
+    expect(allocatePlaceAmounts(123, [60, 40])).toEqual([73, 50]);
+  });
+
+  it('gives the rounding to the first of equally large places', () => {
+    expect(allocatePlaceAmounts(100, [33, 33, 34])).toEqual([30, 35, 35]);
+  });
+
+  it('always adds up to the pool', () => {
+    const amounts = allocatePlaceAmounts(437, [40, 25, 15, 12, 8]);
+    expect(amounts.reduce((sum, v) => sum + v, 0)).toBe(437);
+  });
+
+  it('pays nothing when no places are paid', () => {
+    expect(allocatePlaceAmounts(500, [])).toEqual([]);
+  });
+});
+
+describe('splitPayoutsByStanding', () => {
+  it('pays places in order and nothing past the last paid place', () => {
+    expect(splitPayoutsByStanding([500, 300, 200], standings(1, 2, 3, 4))).toEqual([
+      { playerId: 1, places: [1], amount: 500 },
+      { playerId: 2, places: [2], amount: 300 },
+      { playerId: 3, places: [3], amount: 200 },
+      { playerId: 4, places: [4], amount: 0 },
+    ]);
+  });
+
+  it('pools the places a tie spans and splits them evenly', () => {
+    expect(splitPayoutsByStanding([500, 300, 200], standings(1, 2, 2, 4))).toEqual([
+      { playerId: 1, places: [1], amount: 500 },
+      { playerId: 2, places: [2, 3], amount: 250 },
+      { playerId: 3, places: [2, 3], amount: 250 },
+      { playerId: 4, places: [4], amount: 0 },
+    ]);
+  });
+
+  it('splits only the paid places when a tie runs past the last one, leftover cents first', () => {
+    expect(splitPayoutsByStanding([500, 300, 200], standings(1, 2, 3, 3, 3))).toEqual([
+      { playerId: 1, places: [1], amount: 500 },
+      { playerId: 2, places: [2], amount: 300 },
+      { playerId: 3, places: [3, 4, 5], amount: 66.67 },
+      { playerId: 4, places: [3, 4, 5], amount: 66.67 },
+      { playerId: 5, places: [3, 4, 5], amount: 66.66 },
+    ]);
+  });
+
+  it('never pays out more or less than the places it spans', () => {
+    const results = splitPayoutsByStanding([73, 50], standings(1, 1, 1));
+    expect(results.map(r => r.amount)).toEqual([41, 41, 41]);
+    expect(splitPayoutsByStanding([100], standings(1, 1, 1)).reduce((sum, r) => sum + Math.round(r.amount * 100), 0)).toBe(10000);
+  });
+
+  it('pays nobody when the field is empty', () => {
+    expect(splitPayoutsByStanding([500, 300, 200], [])).toEqual([]);
+  });
+});
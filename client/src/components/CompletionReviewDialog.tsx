@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Link2, Loader2 } from "lucide-react";
+import type { CompletionPreviewEntry, LinkSuggestion, UniversalPlayer, UniversalPlayerMatch } from "@shared/schema";
+import { UniversalPlayerMatchList } from "./UniversalPlayerMatchList";
+
+interface CompletionReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roomCode: string;
+  directorPin: string;
+  isCompleting: boolean;
+  onConfirm: () => void;
+}
+
+const ACTION_LABELS: Record<CompletionPreviewEntry["action"], string> = {
+  save: "Save",
+  update: "Rewrite",
+  remove: "Remove",
+  skip: "Skip",
+  already_recorded: "Already saved",
+};
+
+const formatToPar = (value: number) => (value > 0 ? `+${value}` : value === 0 ? "E" : `${value}`);
+const formatHandicap = (value: number | null, isProvisional: boolean | null) =>
+  value === null ? "—" : `${value}${isProvisional ? "P" : ""}`;
+
+export function CompletionReviewDialog({ open, onOpenChange, roomCode, directorPin, isCompleting, onConfirm }: CompletionReviewDialogProps) {
+  const [entries, setEntries] = useState<CompletionPreviewEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [linkingId, setLinkingId] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<UniversalPlayer[]>([]);
+  const [suggestions, setSuggestions] = useState<Record<number, UniversalPlayerMatch[]>>({});
+
+  const loadPreview = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/complete`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, dryRun: true }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not preview the results");
+      }
+      const data = await response.json();
+      setEntries(data.entries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not preview the results");
+      return;
+    }
+    // Suggestions are a convenience; the review still works without them
+    fetch(`/api/tournaments/${roomCode}/link-suggestions?directorPin=${encodeURIComponent(directorPin)}`)
+      .then(r => (r.ok ? r.json() : []))
+      .then((list: LinkSuggestion[]) => setSuggestions(Object.fromEntries(list.map(item => [item.tournamentPlayerId, item.matches]))))
+      .catch(() => {});
+  }, [roomCode, directorPin]);
+
+  useEffect(() => {
+    if (!open) return;
+    setEntries(null);
+    setLinkingId(null);
+    loadPreview();
+  }, [open, loadPreview]);
+
+  const handleSearch = async (query: string) => {
+    setSearchQuery(query);
+    if (query.length < 2) {
+      setSearchResults([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/universal-players/search?query=${encodeURIComponent(query)}&directorPin=${encodeURIComponent(directorPin)}`);
+      if (response.ok) setSearchResults(await response.json());
+    } catch (err) {
+      console.error("Search error:", err);
+    }
+  };
+
+  const startLinking = (entry: CompletionPreviewEntry) => {
+    setLinkingId(entry.tournamentPlayerId);
+    setSearchResults([]);
+    handleSearch(entry.playerName);
+  };
+
+  const handleLink = async (tournamentPlayerId: number, universalPlayerId: number) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/players/${tournamentPlayerId}/link-universal`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, universalPlayerId }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not link the player");
+      }
+      setLinkingId(null);
+      await loadPreview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not link the player");
+    }
+  };
+
+  const handleCreateAndLink = async (entry: CompletionPreviewEntry) => {
+    setError(null);
+    try {
+      const response = await fetch("/api/universal-players", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, name: entry.playerName, email: null, contactInfo: null }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not create the player");
+      }
+      const created = await response.json();
+      await handleLink(entry.tournamentPlayerId!, created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create the player");
+    }
+  };
+
+  const saveCount = entries?.filter(e => e.action === "save" || e.action === "update").length ?? 0;
+  const entryKey = (entry: CompletionPreviewEntry) => entry.tournamentPlayerId ?? `history-${entry.previousHistory?.id}`;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isCompleting && onOpenChange(next)}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col" data-testid="dialog-completion-review">
+        <DialogHeader>
+          <DialogTitle>Review Before Saving</DialogTitle>
+          <DialogDescription>
+            Nothing has been saved yet. These history rows and handicap changes are written when you end the tournament.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-2 text-sm">
+          {!entries && !error && (
+            <div className="flex justify-center py-6"><Loader2 className="w-5 h-5 animate-spin opacity-60" /></div>
+          )}
+          {entries?.length === 0 && <p className="text-center text-muted-foreground py-4">No players on the leaderboard</p>}
+          {entries?.map(entry => (
+            <div key={entryKey(entry)} className="border rounded-md p-2 space-y-1" data-testid={`row-completion-${entryKey(entry)}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">
+                  {entry.playerName}
+                  {entry.universalPlayerName && entry.universalPlayerName !== entry.playerName && (
+                    <span className="font-normal text-muted-foreground"> → {entry.universalPlayerName}</span>
+                  )}
+                </span>
+                <Badge variant={entry.action === "save" || entry.action === "update" ? "default" : entry.action === "already_recorded" ? "secondary" : "destructive"}>
+                  {ACTION_LABELS[entry.action]}
+                </Badge>
+              </div>
+              {entry.previousHistory && (
+                <div className="text-xs text-muted-foreground line-through">
+                  Saved before: {entry.previousHistory.totalStrokes} strokes · {formatToPar(entry.previousHistory.relativeToPar)} over {entry.previousHistory.holesPlayed} holes
+                </div>
+              )}
+              {(entry.history || entry.action === "remove") && (
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{entry.history ? `${entry.history.totalStrokes} strokes · ${formatToPar(entry.history.relativeToPar)} over ${entry.history.holesPlayed} holes` : "History row deleted"}</span>
+                  <span data-testid={`text-completion-handicap-${entryKey(entry)}`}>
+                    HCP {formatHandicap(entry.handicapBefore, entry.isProvisionalBefore)} → {formatHandicap(entry.handicapAfter, entry.isProvisionalAfter)}
+                  </span>
+                </div>
+              )}
+              {entry.linkFromUniversalId && <p className="text-xs text-muted-foreground">Will be linked from the universal ID entered for this player</p>}
+              {entry.skipReason && <p className="text-xs text-destructive">{entry.skipReason}</p>}
+              {entry.action === "skip" && !entry.universalPlayerId && entry.tournamentPlayerId !== null && (
+                linkingId === entry.tournamentPlayerId ? (
+                  <div className="space-y-1">
+                    <Input
+                      className="h-8 text-xs"
+                      value={searchQuery}
+                      placeholder="Search universal players..."
+                      onChange={(e) => handleSearch(e.target.value)}
+                      autoFocus
+                      data-testid={`input-completion-link-${entry.tournamentPlayerId}`}
+                    />
+                    {searchResults.map(result => (
+                      <button
+                        key={result.id}
+                        className="w-full text-left text-xs px-2 py-1 rounded hover-elevate"
+                        onClick={() => handleLink(entry.tournamentPlayerId!, result.id)}
+                        data-testid={`button-completion-link-${entry.tournamentPlayerId}-${result.id}`}
+                      >
+                        {result.name} <span className="opacity-60">· {result.uniqueCode}</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    {(suggestions[entry.tournamentPlayerId!]?.length ?? 0) > 0 && (
+                      <UniversalPlayerMatchList matches={suggestions[entry.tournamentPlayerId!]} onLink={(match) => handleLink(entry.tournamentPlayerId!, match.universalPlayer.id)} />
+                    )}
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="outline" className="h-7 gap-1 text-xs" onClick={() => startLinking(entry)} data-testid={`button-completion-start-link-${entry.tournamentPlayerId}`}>
+                        <Link2 className="w-3 h-3" />Find a player
+                      </Button>
+                      <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => handleCreateAndLink(entry)} data-testid={`button-completion-create-${entry.tournamentPlayerId}`}>
+                        Create new player
+                      </Button>
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          ))}
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCompleting}>Cancel</Button>
+          <Button variant="destructive" onClick={onConfirm} disabled={isCompleting || !entries} data-testid="button-confirm-complete-tournament">
+            {isCompleting ? "Saving..." : `End & Save ${saveCount} ${saveCount === 1 ? "Result" : "Results"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
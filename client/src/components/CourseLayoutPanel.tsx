@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Course, CourseHole } from "@shared/schema";
+import { useTournament } from "@/contexts/TournamentContext";
+import { DEFAULT_HOLE_COUNT } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+interface CourseLayoutPanelProps {
+  roomCode: string;
+  directorPin: string;
+}
+
+interface CourseRow {
+  par: number | null;
+  cardId: string;
+  description: string;
+  holeCardId: number | null;
+}
+
+const PAR_CARDS = [1, 2, 3, 4, 5];
+
+const toRows = (holeCount: number, layout: CourseHole[] | null): CourseRow[] =>
+  Array.from({ length: holeCount }, (_, i) => {
+    const hole = layout?.find(h => h.hole === i + 1);
+    return { par: hole?.par ?? null, cardId: hole?.cardId ?? "", description: hole?.description ?? "", holeCardId: hole?.holeCardId ?? null };
+  });
+
+export function CourseLayoutPanel({ roomCode, directorPin }: CourseLayoutPanelProps) {
+  const tournament = useTournament();
+  const holeCount = tournament.tournamentInfo?.holeCount ?? DEFAULT_HOLE_COUNT;
+  const layout = tournament.tournamentInfo?.courseLayout ?? null;
+  const [rows, setRows] = useState<CourseRow[]>(() => toRows(holeCount, layout));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/director/courses?directorPin=${encodeURIComponent(directorPin)}`)
+      .then(r => (r.ok ? r.json() : []))
+      .then(setCourses)
+      .catch(() => {});
+  }, [directorPin]);
+
+  // Follow the saved layout until the director starts editing
+  useEffect(() => {
+    if (!isDirty) setRows(toRows(holeCount, layout));
+  }, [holeCount, JSON.stringify(layout)]);
+
+  const updateRow = (index: number, change: Partial<CourseRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...change } : row)));
+    setIsDirty(true);
+  };
+
+  const save = async (body: { holes: CourseHole[] } | { courseId: number }) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/course${"courseId" in body ? "/apply" : ""}`, {
+        method: "courseId" in body ? "POST" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, ...body }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not save the course");
+      }
+      setIsDirty(false);
+      await tournament.refreshLeaderboard();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the course");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => save({
+    holes: rows.flatMap((row, i) => row.par === null ? [] : [{
+      hole: i + 1,
+      par: row.par,
+      cardId: row.cardId.trim() || null,
+      description: row.description.trim() || null,
+      holeCardId: row.holeCardId,
+    }]),
+  });
+
+  const handleClear = () => {
+    if (!confirm("Clear the course layout? Players will draw par on every hole again.")) return;
+    save({ holes: [] });
+  };
+
+  const handleLoadCourse = (value: string) => {
+    if (layout && !confirm("Replace the current course layout?")) return;
+    setIsDirty(false);
+    save({ courseId: Number(value) });
+  };
+
+  const definedPars = rows.filter(row => row.par !== null).map(row => row.par!);
+  const totalPar = definedPars.reduce((sum, par) => sum + par, 0);
+
+  return (
+    <div className="space-y-2 text-sm" data-testid="panel-course-layout">
+      <p className="text-xs opacity-60">
+        {definedPars.length === 0
+          ? "No course set — players draw par on every hole."
+          : `${definedPars.length} of ${holeCount} holes set · Par ${totalPar}. Holes without a par are still drawn.`}
+      </p>
+      {courses.length > 0 && (
+        <Select value="" onValueChange={handleLoadCourse} disabled={isSaving}>
+          <SelectTrigger className="h-8 text-xs" data-testid="select-load-course">
+            <SelectValue placeholder="Load a course from your library..." />
+          </SelectTrigger>
+          <SelectContent>
+            {courses.map(course => (
+              <SelectItem key={course.id} value={String(course.id)}>{course.name} ({course.cardIds.length} holes)</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <div className="space-y-1">
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center gap-2" data-testid={`row-course-hole-${index + 1}`}>
+            <span className="w-6 text-xs font-bold text-center">{index + 1}</span>
+            <div className="flex gap-1">
+              {PAR_CARDS.map(par => (
+                <button
+                  key={par}
+                  type="button"
+                  className={cn(
+                    "h-7 w-7 rounded border text-xs font-bold",
+                    row.par === par ? "border-primary bg-primary text-primary-foreground" : "border-muted-foreground/30"
+                  )}
+                  onClick={() => updateRow(index, row.par === par ? { par: null, holeCardId: null } : { par })}
+                  data-testid={`button-course-par-${index + 1}-${par}`}
+                >
+                  {par}
+                </button>
+              ))}
+            </div>
+            <Input
+              placeholder="Card"
+              className="h-7 w-16 text-xs"
+              value={row.cardId}
+              onChange={(e) => updateRow(index, { cardId: e.target.value })}
+              disabled={row.par === null}
+              data-testid={`input-course-card-${index + 1}`}
+            />
+            <Input
+              placeholder="Description"
+              className="h-7 flex-1 min-w-0 text-xs"
+              value={row.description}
+              onChange={(e) => updateRow(index, { description: e.target.value })}
+              disabled={row.par === null}
+              data-testid={`input-course-description-${index + 1}`}
+            />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex gap-2">
+        <Button size="sm" className="flex-1" onClick={handleSave} disabled={isSaving || !isDirty} data-testid="button-save-course">
+          {isSaving ? "Saving..." : "Save Course"}
+        </Button>
+        {layout && (
+          <Button size="sm" variant="outline" onClick={handleClear} disabled={isSaving} data-testid="button-clear-course">
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, ChevronUp, Edit2, Flag, Loader2, Plus, Trash2, X } from "lucide-react";
+import type { Course, HoleCard, TableDiagram as TableDiagramData } from "@shared/schema";
+import { PoolBall, TableDiagram } from "./TableDiagram";
+import { cn } from "@/lib/utils";
+
+interface CourseLibraryTabProps {
+  directorPin: string;
+}
+
+interface CardDraft {
+  id: number | null;
+  name: string;
+  par: number;
+  diagram: TableDiagramData;
+}
+
+interface CourseDraft {
+  id: number | null;
+  name: string;
+  cardIds: number[];
+}
+
+const PAR_CARDS = [1, 2, 3, 4, 5];
+const BALLS = Array.from({ length: 16 }, (_, i) => i);
+
+export function CourseLibraryTab({ directorPin }: CourseLibraryTabProps) {
+  const [cards, setCards] = useState<HoleCard[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cardDraft, setCardDraft] = useState<CardDraft | null>(null);
+  const [selectedBall, setSelectedBall] = useState<number | null>(0);
+  const [courseDraft, setCourseDraft] = useState<CourseDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const load = useCallback(async () => {
+    try {
+      const query = `directorPin=${encodeURIComponent(directorPin)}`;
+      const [cardsRes, coursesRes] = await Promise.all([
+        fetch(`/api/director/hole-cards?${query}`),
+        fetch(`/api/director/courses?${query}`),
+      ]);
+      if (!cardsRes.ok || !coursesRes.ok) throw new Error("Could not load the course library");
+      setCards(await cardsRes.json());
+      setCourses(await coursesRes.json());
+    } catch (err) {
+      toast({ title: "Course library", description: err instanceof Error ? err.message : "Could not load the course library", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [directorPin, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const send = async (method: string, url: string, body: Record<string, unknown> = {}) => {
+    const response = await fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ directorPin, ...body }),
+    });
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new Error(err.error || "Request failed");
+    }
+    return response.json();
+  };
+
+  const openCard = (card: HoleCard | null) => {
+    setCardDraft(card
+      ? { id: card.id, name: card.name, par: card.par, diagram: card.diagram }
+      : { id: null, name: "", par: 3, diagram: { balls: [] } });
+    setSelectedBall(0);
+    setError(null);
+  };
+
+  const placeBall = (position: { x: number; y: number }) => {
+    if (!cardDraft || selectedBall === null) return;
+    const balls = cardDraft.diagram.balls.filter(b => b.ball !== selectedBall);
+    setCardDraft({ ...cardDraft, diagram: { balls: [...balls, { ball: selectedBall, ...position }] } });
+  };
+
+  const removeBall = (ball: number) => {
+    if (!cardDraft) return;
+    setCardDraft({ ...cardDraft, diagram: { balls: cardDraft.diagram.balls.filter(b => b.ball !== ball) } });
+  };
+
+  const handleSaveCard = async () => {
+    if (!cardDraft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { id, ...card } = cardDraft;
+      await send(id ? "PUT" : "POST", id ? `/api/director/hole-cards/${id}` : "/api/director/hole-cards", card);
+      setCardDraft(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the card");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteCard = async (card: HoleCard) => {
+    if (!confirm(`Delete ${card.name}?`)) return;
+    try {
+      await send("DELETE", `/api/director/hole-cards/${card.id}`);
+      await load();
+    } catch (err) {
+      toast({ title: "Could not delete card", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const moveCourseCard = (index: number, offset: number) => {
+    if (!courseDraft) return;
+    const cardIds = [...courseDraft.cardIds];
+    const [moved] = cardIds.splice(index, 1);
+    cardIds.splice(index + offset, 0, moved);
+    setCourseDraft({ ...courseDraft, cardIds });
+  };
+
+  const handleSaveCourse = async () => {
+    if (!courseDraft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const { id, ...course } = courseDraft;
+      await send(id ? "PUT" : "POST", id ? `/api/director/courses/${id}` : "/api/director/courses", course);
+      setCourseDraft(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the course");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteCourse = async (course: Course) => {
+    if (!confirm(`Delete ${course.name}? Tournaments already using it keep their layout.`)) return;
+    try {
+      await send("DELETE", `/api/director/courses/${course.id}`);
+      await load();
+    } catch (err) {
+      toast({ title: "Could not delete course", description: err instanceof Error ? err.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const cardById = (id: number) => cards.find(c => c.id === id);
+  const coursePar = (cardIds: number[]) => cardIds.reduce((sum, id) => sum + (cardById(id)?.par ?? 0), 0);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin opacity-60" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold">Hole Cards</h2>
+            <p className="text-sm text-muted-foreground">Each card is a par and the table layout players set up for it.</p>
+          </div>
+          <Button size="sm" className="gap-1" onClick={() => openCard(null)} data-testid="button-new-hole-card">
+            <Plus className="w-4 h-4" />Card
+          </Button>
+        </div>
+        {cards.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No hole cards yet</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {cards.map(card => (
+              <div key={card.id} className="rounded-lg border p-2 space-y-2" data-testid={`hole-card-${card.id}`}>
+                <TableDiagram diagram={card.diagram} />
+                <div className="flex items-center justify-between gap-1">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold truncate">{card.name}</p>
+                    <p className="text-xs text-muted-foreground">Par {card.par}</p>
+                  </div>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openCard(card)} data-testid={`button-edit-hole-card-${card.id}`}>
+                      <Edit2 className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleDeleteCard(card)} data-testid={`button-delete-hole-card-${card.id}`}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h2 className="text-lg font-semibold">Courses</h2>
+            <p className="text-sm text-muted-foreground">An ordered set of cards a tournament can load as its course.</p>
+          </div>
+          <Button
+            size="sm"
+            className="gap-1"
+            onClick={() => { setCourseDraft({ id: null, name: "", cardIds: [] }); setError(null); }}
+            disabled={cards.length === 0}
+            data-testid="button-new-course"
+          >
+            <Plus className="w-4 h-4" />Course
+          </Button>
+        </div>
+        {courses.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No courses yet</p>
+        ) : (
+          <div className="space-y-2">
+            {courses.map(course => (
+              <div key={course.id} className="flex items-center gap-2 rounded-lg border p-2" data-testid={`course-${course.id}`}>
+                <Flag className="w-4 h-4 opacity-60" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-semibold truncate">{course.name}</p>
+                  <p className="text-xs text-muted-foreground">{course.cardIds.length} holes · Par {coursePar(course.cardIds)}</p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => { setCourseDraft({ id: course.id, name: course.name, cardIds: course.cardIds }); setError(null); }} data-testid={`button-edit-course-${course.id}`}>
+                  <Edit2 className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleDeleteCourse(course)} data-testid={`button-delete-course-${course.id}`}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      <Dialog open={!!cardDraft} onOpenChange={(open) => !open && setCardDraft(null)}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{cardDraft?.id ? "Edit Hole Card" : "New Hole Card"}</DialogTitle>
+            <DialogDescription>Pick a ball, then tap the table to place it. Tap a placed ball to select it.</DialogDescription>
+          </DialogHeader>
+          {cardDraft && (
+            <div className="space-y-3">
+              <div className="flex gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label className="text-xs">Name</Label>
+                  <Input value={cardDraft.name} onChange={(e) => setCardDraft({ ...cardDraft, name: e.target.value })} placeholder="Bank the 8" data-testid="input-hole-card-name" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Par</Label>
+                  <div className="flex gap-1">
+                    {PAR_CARDS.map(par => (
+                      <button
+                        key={par}
+                        type="button"
+                        className={cn(
+                          "h-9 w-8 rounded border text-sm font-bold",
+                          cardDraft.par === par ? "border-primary bg-primary text-primary-foreground" : "border-muted-foreground/30"
+                        )}
+                        onClick={() => setCardDraft({ ...cardDraft, par })}
+                        data-testid={`button-hole-card-par-${par}`}
+                      >
+                        {par}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {BALLS.map(ball => {
+                  const isPlaced = cardDraft.diagram.balls.some(b => b.ball === ball);
+                  return (
+                    <button
+                      key={ball}
+                      type="button"
+                      className={cn(
+                        "h-8 w-8 rounded-full p-0.5 border-2",
+                        selectedBall === ball ? "border-sky-400" : "border-transparent",
+                        isPlaced && selectedBall !== ball && "opacity-40"
+                      )}
+                      onClick={() => setSelectedBall(ball)}
+                      aria-label={ball === 0 ? "Cue ball" : `Ball ${ball}`}
+                      data-testid={`button-pick-ball-${ball}`}
+                    >
+                      <svg viewBox="-4 -4 8 8" className="w-full h-full">
+                        <PoolBall ball={ball} cx={0} cy={0} />
+                      </svg>
+                    </button>
+                  );
+                })}
+              </div>
+              <TableDiagram
+                diagram={cardDraft.diagram}
+                selectedBall={selectedBall}
+                onTableClick={placeBall}
+                onBallClick={(b) => setSelectedBall(b.ball)}
+              />
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => selectedBall !== null && removeBall(selectedBall)}
+                  disabled={selectedBall === null || !cardDraft.diagram.balls.some(b => b.ball === selectedBall)}
+                  data-testid="button-remove-ball"
+                >
+                  Remove {selectedBall === 0 ? "cue ball" : `ball ${selectedBall}`}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setCardDraft({ ...cardDraft, diagram: { balls: [] } })} disabled={cardDraft.diagram.balls.length === 0}>
+                  Clear table
+                </Button>
+              </div>
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setCardDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveCard} disabled={isSaving || !cardDraft?.name.trim()} data-testid="button-save-hole-card">
+              {isSaving ? "Saving..." : "Save Card"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!courseDraft} onOpenChange={(open) => !open && setCourseDraft(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{courseDraft?.id ? "Edit Course" : "New Course"}</DialogTitle>
+            <DialogDescription>Cards are played in this order, starting at hole 1.</DialogDescription>
+          </DialogHeader>
+          {courseDraft && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Name</Label>
+                <Input value={courseDraft.name} onChange={(e) => setCourseDraft({ ...courseDraft, name: e.target.value })} placeholder="Friday Night 9" data-testid="input-course-name" />
+              </div>
+              <div className="space-y-1 max-h-72 overflow-y-auto">
+                {courseDraft.cardIds.map((cardId, index) => (
+                  <div key={`${cardId}-${index}`} className="flex items-center gap-2 text-sm" data-testid={`row-course-card-${index + 1}`}>
+                    <span className="w-6 text-xs font-bold text-center">{index + 1}</span>
+                    <span className="flex-1 truncate">{cardById(cardId)?.name ?? "Missing card"}</span>
+                    <span className="text-xs text-muted-foreground">Par {cardById(cardId)?.par ?? "?"}</span>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveCourseCard(index, -1)} disabled={index === 0}>
+                      <ChevronUp className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveCourseCard(index, 1)} disabled={index === courseDraft.cardIds.length - 1}>
+                      <ChevronDown className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setCourseDraft({ ...courseDraft, cardIds: courseDraft.cardIds.filter((_, i) => i !== index) })}>
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <Select value="" onValueChange={(v) => setCourseDraft({ ...courseDraft, cardIds: [...courseDraft.cardIds, Number(v)] })}>
+                <SelectTrigger disabled={courseDraft.cardIds.length >= 36} data-testid="select-add-course-card">
+                  <SelectValue placeholder={`Add hole ${courseDraft.cardIds.length + 1}...`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {cards.map(card => (
+                    <SelectItem key={card.id} value={String(card.id)}>{card.name} (par {card.par})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{courseDraft.cardIds.length} holes · Par {coursePar(courseDraft.cardIds)}</p>
+              {error && <p className="text-xs text-destructive">{error}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setCourseDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveCourse} disabled={isSaving || !courseDraft?.name.trim() || courseDraft.cardIds.length === 0} data-testid="button-save-course-library">
+              {isSaving ? "Saving..." : "Save Course"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
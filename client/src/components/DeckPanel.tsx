@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Minus, Plus } from "lucide-react";
+import type { Course, DeckCard, HoleCard } from "@shared/schema";
+import { useTournament } from "@/contexts/TournamentContext";
+
+interface DeckPanelProps {
+  roomCode: string;
+  directorPin: string;
+}
+
+const PAR_CARDS = [1, 2, 3, 4, 5];
+
+export function DeckPanel({ roomCode, directorPin }: DeckPanelProps) {
+  const tournament = useTournament();
+  const info = tournament.tournamentInfo;
+  const savedDeck = info?.deckCards ?? null;
+  const [cards, setCards] = useState<DeckCard[]>(savedDeck ?? []);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [holeCards, setHoleCards] = useState<HoleCard[]>([]);
+
+  useEffect(() => {
+    const query = `directorPin=${encodeURIComponent(directorPin)}`;
+    Promise.all([
+      fetch(`/api/director/courses?${query}`).then(r => (r.ok ? r.json() : [])),
+      fetch(`/api/director/hole-cards?${query}`).then(r => (r.ok ? r.json() : [])),
+    ])
+      .then(([courseList, cardList]) => {
+        setCourses(courseList);
+        setHoleCards(cardList);
+      })
+      .catch(() => {});
+  }, [directorPin]);
+
+  // Follow the saved deck until the director starts editing
+  useEffect(() => {
+    if (!isDirty) setCards(savedDeck ?? []);
+  }, [JSON.stringify(savedDeck)]);
+
+  if (!info) return null;
+  const isLocked = info.isStarted;
+  const libraryCards = cards.filter(c => c.holeCardId !== null);
+
+  const changeCount = (par: number, delta: number) => {
+    setCards(prev => {
+      if (delta > 0) return [...prev, { par, holeCardId: null }];
+      const index = prev.findIndex(c => c.par === par && c.holeCardId === null);
+      return index === -1 ? prev : prev.filter((_, i) => i !== index);
+    });
+    setIsDirty(true);
+  };
+
+  const handleAddCourse = (value: string) => {
+    const course = courses.find(c => c.id === Number(value));
+    if (!course) return;
+    const added = course.cardIds.flatMap(id => {
+      const card = holeCards.find(c => c.id === id);
+      return card ? [{ par: card.par, holeCardId: card.id }] : [];
+    });
+    setCards(prev => [...prev, ...added]);
+    setIsDirty(true);
+  };
+
+  const save = async (deck: DeckCard[]) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/deck`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, cards: deck }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not save the deck");
+      }
+      setIsDirty(false);
+      await tournament.refreshLeaderboard();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save the deck");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!confirm("Remove the deck? Groups will draw physical par cards again.")) return;
+    save([]);
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/deck/export?directorPin=${encodeURIComponent(directorPin)}`);
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not export the deck");
+      }
+      const data = await response.json();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `tournament-${roomCode}-deck.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not export the deck");
+    }
+  };
+
+  if (info.courseLayout && !savedDeck) {
+    return <p className="text-xs opacity-60" data-testid="panel-deck">This tournament plays a fixed course. Clear the course layout to deal par from a deck.</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm" data-testid="panel-deck">
+      <p className="text-xs opacity-60">
+        {cards.length === 0
+          ? "No deck — groups draw physical par cards."
+          : isLocked
+            ? info.deckDealt
+              ? `${cards.length} cards, shuffled when the tournament started. Every group gets the same card on each hole.`
+              : `${cards.length} cards. The deck was added after the start and is not dealt.`
+            : `${cards.length} cards, shuffled when the tournament starts.`}
+      </p>
+      <div className="space-y-1">
+        {PAR_CARDS.map(par => {
+          const count = cards.filter(c => c.par === par && c.holeCardId === null).length;
+          return (
+            <div key={par} className="flex items-center gap-2" data-testid={`row-deck-par-${par}`}>
+              <span className="w-12 text-xs font-bold">Par {par}</span>
+              <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => changeCount(par, -1)} disabled={isLocked || count === 0} data-testid={`button-deck-remove-${par}`}>
+                <Minus className="w-3 h-3" />
+              </Button>
+              <span className="w-6 text-center text-xs" data-testid={`text-deck-count-${par}`}>{count}</span>
+              <Button size="icon" variant="outline" className="h-7 w-7" onClick={() => changeCount(par, 1)} disabled={isLocked} data-testid={`button-deck-add-${par}`}>
+                <Plus className="w-3 h-3" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+      {libraryCards.length > 0 && (
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="opacity-70">{libraryCards.length} library cards with table diagrams</span>
+          {!isLocked && (
+            <button
+              className="underline-offset-2 hover:underline text-muted-foreground"
+              onClick={() => { setCards(prev => prev.filter(c => c.holeCardId === null)); setIsDirty(true); }}
+              data-testid="button-deck-remove-library"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      )}
+      {!isLocked && courses.length > 0 && (
+        <Select value="" onValueChange={handleAddCourse}>
+          <SelectTrigger className="h-8 text-xs" data-testid="select-deck-course">
+            <SelectValue placeholder="Add the cards from a course..." />
+          </SelectTrigger>
+          <SelectContent>
+            {courses.map(course => (
+              <SelectItem key={course.id} value={String(course.id)}>{course.name} ({course.cardIds.length} cards)</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex gap-2">
+        {!isLocked && (
+          <Button size="sm" className="flex-1" onClick={() => save(cards)} disabled={isSaving || !isDirty} data-testid="button-save-deck">
+            {isSaving ? "Saving..." : "Save Deck"}
+          </Button>
+        )}
+        {!isLocked && savedDeck && (
+          <Button size="sm" variant="outline" onClick={handleRemove} disabled={isSaving} data-testid="button-clear-deck">
+            Remove
+          </Button>
+        )}
+        {info.deckDealt && (
+          <Button size="sm" variant="outline" className="flex-1" onClick={handleExport} data-testid="button-export-deck">
+            Export Seed & Draws
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
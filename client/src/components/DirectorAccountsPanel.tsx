@@ -0,0 +1,328 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Archive, KeyRound, ShieldCheck, UserPlus, Users } from "lucide-react";
+import type { LegacyDirectorRecords } from "@shared/schema";
+
+interface DirectorAccountsPanelProps {
+  directorPin: string;
+}
+
+interface DirectorAccount {
+  id: number;
+  name: string;
+  email: string | null;
+  isAdmin: boolean;
+  isActive: boolean;
+  lastLoginAt: string | null;
+}
+
+export function DirectorAccountsPanel({ directorPin }: DirectorAccountsPanelProps) {
+  const [directors, setDirectors] = useState<DirectorAccount[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newPin, setNewPin] = useState("");
+  const [newIsAdmin, setNewIsAdmin] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [rotatingId, setRotatingId] = useState<number | null>(null);
+  const [rotatePin, setRotatePin] = useState("");
+  const [legacyRecords, setLegacyRecords] = useState<LegacyDirectorRecords[]>([]);
+  const [legacyTargets, setLegacyTargets] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const loadDirectors = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/directors?directorPin=${encodeURIComponent(directorPin)}`);
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not load directors");
+      }
+      setDirectors(await response.json());
+    } catch (error) {
+      console.error("Failed to load directors:", error);
+      toast({ title: "Could not load directors", variant: "destructive" });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [directorPin, toast]);
+
+  const loadLegacyRecords = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/directors/legacy-records?directorPin=${encodeURIComponent(directorPin)}`);
+      if (!response.ok) return;
+      setLegacyRecords(await response.json());
+    } catch (error) {
+      console.error("Failed to load legacy records:", error);
+    }
+  }, [directorPin]);
+
+  useEffect(() => {
+    loadDirectors();
+    loadLegacyRecords();
+  }, [loadDirectors, loadLegacyRecords]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/directors", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, name: newName, email: newEmail, pin: newPin, isAdmin: newIsAdmin }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not create director");
+      }
+      setNewName("");
+      setNewEmail("");
+      setNewPin("");
+      setNewIsAdmin(false);
+      toast({ title: "Director added" });
+      await loadDirectors();
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not create director", variant: "destructive" });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleUpdate = async (id: number, updates: { isAdmin?: boolean; isActive?: boolean }) => {
+    try {
+      const response = await fetch(`/api/directors/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, ...updates }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not update director");
+      }
+      await loadDirectors();
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not update director", variant: "destructive" });
+    }
+  };
+
+  const handleRotatePin = async (id: number) => {
+    try {
+      const response = await fetch(`/api/directors/${id}/rotate-pin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, pin: rotatePin }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not rotate PIN");
+      }
+      setRotatingId(null);
+      setRotatePin("");
+      toast({ title: "PIN updated", description: "Existing sessions for this director were signed out." });
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not rotate PIN", variant: "destructive" });
+    }
+  };
+
+  const handleAssignLegacy = async (legacyPin: string) => {
+    const directorId = legacyTargets[legacyPin];
+    if (!directorId) return;
+    try {
+      const response = await fetch(`/api/directors/${directorId}/assign-legacy`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, legacyPin }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not assign the records");
+      }
+      const result: { tournaments: number; contentDefaults: boolean } = await response.json();
+      const record = legacyRecords.find(r => r.legacyPin === legacyPin);
+      toast({
+        title: `Assigned ${result.tournaments} tournament${result.tournaments === 1 ? "" : "s"}`,
+        description: record?.hasContentDefaults && !result.contentDefaults
+          ? "That director already has content defaults, so the legacy ones were left for someone else."
+          : undefined,
+      });
+      await loadLegacyRecords();
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not assign the records", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-4" data-testid="director-accounts-panel">
+      <div className="flex items-center gap-2 font-semibold">
+        <Users className="w-4 h-4" />
+        <span>Director Accounts</span>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading directors...</p>
+      ) : (
+        <div className="space-y-2">
+          {directors.map((director) => (
+            <div key={director.id} className="rounded-md border p-3 space-y-2" data-testid={`director-row-${director.id}`}>
+              <div className="flex items-center gap-2">
+                <span className={`font-medium flex-1 ${director.isActive ? "" : "line-through opacity-60"}`}>
+                  {director.name}
+                </span>
+                {director.isAdmin && (
+                  <Badge variant="secondary" className="gap-1">
+                    <ShieldCheck className="w-3 h-3" />
+                    Admin
+                  </Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {director.email || "No email"} · Last sign-in {director.lastLoginAt ? new Date(director.lastLoginAt).toLocaleString() : "never"}
+              </p>
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <Switch
+                    checked={director.isActive}
+                    onCheckedChange={(checked) => handleUpdate(director.id, { isActive: checked })}
+                    data-testid={`switch-director-active-${director.id}`}
+                  />
+                  Active
+                </label>
+                <label className="flex items-center gap-2">
+                  <Switch
+                    checked={director.isAdmin}
+                    onCheckedChange={(checked) => handleUpdate(director.id, { isAdmin: checked })}
+                    data-testid={`switch-director-admin-${director.id}`}
+                  />
+                  Admin
+                </label>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setRotatingId(rotatingId === director.id ? null : director.id);
+                    setRotatePin("");
+                  }}
+                  data-testid={`button-rotate-pin-${director.id}`}
+                >
+                  <KeyRound className="w-3 h-3 mr-1" />
+                  Rotate PIN
+                </Button>
+              </div>
+              {rotatingId === director.id && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    pattern="[0-9]*"
+                    maxLength={4}
+                    placeholder="New 4-digit PIN"
+                    value={rotatePin}
+                    onChange={(e) => setRotatePin(e.target.value.replace(/\D/g, "").slice(0, 4))}
+                    data-testid={`input-rotate-pin-${director.id}`}
+                  />
+                  <Button size="sm" onClick={() => handleRotatePin(director.id)} disabled={rotatePin.length !== 4}>
+                    Save
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {legacyRecords.length > 0 && (
+        <div className="space-y-2 border-t pt-4" data-testid="legacy-records">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            <Archive className="w-4 h-4" />
+            Legacy Records
+          </div>
+          <p className="text-xs text-muted-foreground">
+            These were set up with a shared PIN before director accounts existed. That PIN no longer signs anyone in; assign them to a director.
+          </p>
+          {legacyRecords.map((record) => (
+            <div key={record.legacyPin} className="rounded-md border p-3 space-y-2" data-testid={`legacy-record-${record.legacyPin}`}>
+              <p className="text-sm">
+                {record.directorName || "Unnamed director"}
+                <span className="text-muted-foreground">
+                  {" "}· {record.tournaments.length} tournament{record.tournaments.length === 1 ? "" : "s"}
+                  {record.hasContentDefaults && " · content defaults"}
+                </span>
+              </p>
+              {record.tournaments.length > 0 && (
+                <p className="text-xs text-muted-foreground truncate">{record.tournaments.map(t => t.name).join(", ")}</p>
+              )}
+              <div className="flex items-center gap-2">
+                <Select
+                  value={legacyTargets[record.legacyPin] ?? ""}
+                  onValueChange={(value) => setLegacyTargets(prev => ({ ...prev, [record.legacyPin]: value }))}
+                >
+                  <SelectTrigger className="h-8 flex-1 text-xs" data-testid={`select-legacy-director-${record.legacyPin}`}>
+                    <SelectValue placeholder="Choose a director" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {directors.filter(d => d.isActive).map(d => (
+                      <SelectItem key={d.id} value={String(d.id)}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => handleAssignLegacy(record.legacyPin)}
+                  disabled={!legacyTargets[record.legacyPin]}
+                  data-testid={`button-assign-legacy-${record.legacyPin}`}
+                >
+                  Assign
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3 border-t pt-4">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <UserPlus className="w-4 h-4" />
+          Add Director
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-director-name">Name</Label>
+          <Input id="new-director-name" value={newName} onChange={(e) => setNewName(e.target.value)} data-testid="input-new-director-name" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-director-email">Email (optional)</Label>
+          <Input id="new-director-email" type="email" value={newEmail} onChange={(e) => setNewEmail(e.target.value)} data-testid="input-new-director-email" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-director-pin">PIN</Label>
+          <Input
+            id="new-director-pin"
+            type="password"
+            inputMode="numeric"
+            pattern="[0-9]*"
+            maxLength={4}
+            value={newPin}
+            onChange={(e) => setNewPin(e.target.value.replace(/\D/g, "").slice(0, 4))}
+            data-testid="input-new-director-pin"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <Switch checked={newIsAdmin} onCheckedChange={setNewIsAdmin} data-testid="switch-new-director-admin" />
+          Admin (can manage director accounts)
+        </label>
+        <Button
+          onClick={handleCreate}
+          disabled={isCreating || !newName.trim() || newPin.length !== 4}
+          className="w-full"
+          data-testid="button-create-director"
+        >
+          {isCreating ? "Adding..." : "Add Director"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
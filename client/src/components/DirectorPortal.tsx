@@ -43,12 +43,31 @@ import {
   DollarSign,
   GripHorizontal,
   Megaphone,
+  UserCog,
+  History,
+  Flag,
+  Layers,
 } from "lucide-react";
 import { useTournament } from "@/contexts/TournamentContext";
 import { apiRequest } from "@/lib/queryClient";
+import { DEFAULT_HOLE_COUNT } from "@/lib/constants";
 import { NotificationsTab } from "./NotificationsTab";
 import { PayoutCalculator } from "./PayoutCalculator";
 import { SponsorSettingsPanel } from "./SponsorSettingsPanel";
+import { LeaderboardRankingToggle, LeaderboardRoundToggle, LeaderboardDivisionToggle, getRankedRelativeToPar, describeTieBreak, formatLeaderboardPosition } from "./LeaderboardRankingToggle";
+import { TieBreakPolicySelect } from "./TieBreakPolicySelect";
+import { HoleCountSelect } from "./HoleCountSelect";
+import { PlayoffPanel } from "./PlayoffPanel";
+import { RoundsPanel } from "./RoundsPanel";
+import { DivisionsPanel } from "./DivisionsPanel";
+import { TournamentStaffPanel } from "./TournamentStaffPanel";
+import { CourseLayoutPanel } from "./CourseLayoutPanel";
+import { DeckPanel } from "./DeckPanel";
+import { HoleDifficultyPanel } from "./HoleDifficultyPanel";
+import { ScoreHistoryDialog } from "./ScoreHistoryDialog";
+import { CompletionReviewDialog } from "./CompletionReviewDialog";
+import { UniversalPlayerMatchList } from "./UniversalPlayerMatchList";
+import type { TournamentRole, ScoreConflict, ScoreRejection, TieBreakPolicy, UniversalPlayerMatch, LinkSuggestion } from "@shared/schema";
 
 interface UniversalPlayer {
   id: number;
@@ -67,6 +86,26 @@ interface DirectorPortalProps {
 
 type NavTab = "dashboard" | "leaderboard" | "notify";
 
+const ROLE_RANK: Record<TournamentRole, number> = { scorer: 1, assistant: 2, head: 3 };
+
+// Lowest staff role that can see each dashboard panel
+const PANEL_MIN_ROLE: Record<string, TournamentRole> = {
+  debug: "scorer",
+  status: "scorer",
+  controls: "head",
+  stats: "scorer",
+  leaderboard: "scorer",
+  groups: "assistant",
+  addplayer: "assistant",
+  players: "scorer",
+  payout: "head",
+  sponsors: "head",
+  staff: "head",
+  course: "head",
+  deck: "head",
+  difficulty: "assistant",
+};
+
 interface EditPlayerData {
   id: number;
   playerName: string;
@@ -87,8 +126,15 @@ interface ScoreEntryData {
   playerId: number;
   playerName: string;
   scores: HoleScore[];
+  // Server copy as loaded, to send only edited holes along with the version they were based on
+  original: HoleScore[];
+  versions: Record<number, number>;
+  round: number; // the round the scores were loaded for; the server refuses them once it's over
 }
 
+const isSameHoleScore = (a: HoleScore | undefined, b: HoleScore) =>
+  !!a && a.par === b.par && a.strokes === b.strokes && a.scratches === b.scratches && a.penalties === b.penalties;
+
 function formatRuntime(startedAt: string | null, completedAt: string | null, now: number): string | null {
   if (!startedAt) return null;
   const start = new Date(startedAt).getTime();
@@ -139,6 +185,8 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   const [playerSortBy, setPlayerSortBy] = useState<"name" | "hole" | "score">("name");
   const [isCompleting, setIsCompleting] = useState(false);
   const [showConfirmComplete, setShowConfirmComplete] = useState(false);
+  // Possible existing identities for a player being added (tournamentPlayer null) or linked
+  const [linkPrompt, setLinkPrompt] = useState<{ playerName: string; matches: UniversalPlayerMatch[]; tournamentPlayer: typeof tournament.allPlayers[0] | null } | null>(null);
   const [dnfPlayer, setDnfPlayer] = useState<{ id: number; name: string } | null>(null);
 
   // Universal player search
@@ -151,7 +199,10 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   // Score entry state
   const [scoreEntryPlayer, setScoreEntryPlayer] = useState<ScoreEntryData | null>(null);
   const [isSavingScores, setIsSavingScores] = useState(false);
-  const [numHoles, setNumHoles] = useState(18);
+  const [scoreConflicts, setScoreConflicts] = useState<ScoreConflict[]>([]);
+  const [scoreRejections, setScoreRejections] = useState<ScoreRejection[]>([]);
+  const [historyPlayer, setHistoryPlayer] = useState<{ id: number; playerName: string } | null>(null);
+  const [numHoles, setNumHoles] = useState(DEFAULT_HOLE_COUNT);
   
   // Leaderboard sorting
   type LeaderboardSort = "score" | "name" | "id" | "handicap";
@@ -196,7 +247,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
     setGroupStartingHoles(updated);
     setIsSavingStartingHoles(true);
     try {
-      const directorPin = localStorage.getItem("directorPin") || "3141";
+      const directorPin = tournament.directorPin || "";
       await apiRequest("PUT", `/api/tournaments/${tournament.roomCode}/group-starting-holes`, {
         directorPin,
         holes: updated,
@@ -216,7 +267,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
     }
     setIsSearching(true);
     try {
-      const directorPin = localStorage.getItem("directorPin") || "3141";
+      const directorPin = tournament.directorPin || "";
       const res = await fetch(`/api/universal-players/search?query=${encodeURIComponent(query)}&directorPin=${directorPin}`);
       if (res.ok) {
         const data = await res.json();
@@ -240,7 +291,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   const handleCreateUniversalPlayer = async (): Promise<UniversalPlayer | null> => {
     if (!newPlayerName.trim()) return null;
     try {
-      const directorPin = localStorage.getItem("directorPin") || "3141";
+      const directorPin = tournament.directorPin || "";
       const res = await apiRequest("POST", "/api/universal-players", {
         name: newPlayerName.trim(),
         email: newPlayerContact.includes("@") ? newPlayerContact.trim() : null,
@@ -266,7 +317,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   useEffect(() => {
     const fetchUniversalPlayers = async () => {
       try {
-        const directorPin = localStorage.getItem("directorPin") || "3141";
+        const directorPin = tournament.directorPin || "";
         const res = await fetch(`/api/universal-players?directorPin=${directorPin}`);
         if (res.ok) {
           const data: UniversalPlayer[] = await res.json();
@@ -290,6 +341,20 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
     }
   };
 
+  const ranking = tournament.leaderboardRanking;
+  const isHandicapped = !!tournament.tournamentInfo?.isHandicapped;
+  const holeCount = tournament.tournamentInfo?.holeCount ?? DEFAULT_HOLE_COUNT;
+  const currentRound = tournament.tournamentInfo?.currentRound ?? 1;
+  // Official par for holes on the course layout; undefined where par is still drawn
+  const coursePar = (hole: number) => tournament.tournamentInfo?.courseLayout?.find(h => h.hole === hole)?.par;
+  // The cumulative leaderboard counts holes across every round played so far
+  const holesInView = holeCount * (tournament.leaderboardRound === null ? currentRound : 1);
+
+  // Until /my-role answers, show the most restricted view rather than flashing head-only controls
+  const directorRole: TournamentRole = tournament.directorRole ?? "scorer";
+  const hasRole = (minimum: TournamentRole) => ROLE_RANK[directorRole] >= ROLE_RANK[minimum];
+  const canViewPanel = (panelId: string) => hasRole(PANEL_MIN_ROLE[panelId] ?? "head");
+
   const sortedLeaderboard = [...tournament.leaderboard].sort((a, b) => {
     const dir = leaderboardSortAsc ? 1 : -1;
     switch (leaderboardSort) {
@@ -311,17 +376,67 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
       }
       case "score":
       default:
-        return dir * (a.relativeToPar - b.relativeToPar || a.totalStrokes - b.totalStrokes || b.holesCompleted - a.holesCompleted);
+        // The server order already applies the tournament's tie-break policy
+        return dir * (tournament.leaderboard.indexOf(a) - tournament.leaderboard.indexOf(b));
     }
   });
 
+  const handleTieBreakPolicyChange = async (policy: TieBreakPolicy) => {
+    const ok = await tournament.setTieBreakPolicy(policy);
+    if (!ok) {
+      alert("Failed to update tie-break rule. Please try again.");
+    }
+  };
+
+  const handleHoleCountChange = async (count: number) => {
+    try {
+      const response = await fetch(`/api/tournaments/${tournament.roomCode}/hole-count`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin: tournament.directorPin || "", holeCount: count }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        alert(err.error || "Failed to update hole count. Please try again.");
+        return;
+      }
+      await tournament.refreshLeaderboard();
+    } catch (err) {
+      console.error("Failed to update hole count:", err);
+      alert("Failed to update hole count. Please try again.");
+    }
+  };
+
 
   const handleAddPlayer = async () => {
     if (!newPlayerName.trim()) return;
+    
+    // Offer existing universal players before creating what may be a duplicate
+    if (!selectedUniversalPlayer && !newPlayerUniversalId.trim()) {
+      try {
+        const res = await apiRequest("POST", "/api/universal-players/match", {
+          playerName: newPlayerName.trim(),
+          contactInfo: newPlayerContact.trim() || null,
+          directorPin: tournament.directorPin || "",
+        });
+        const matches: UniversalPlayerMatch[] = await res.json();
+        if (matches.length > 0) {
+          setLinkPrompt({ playerName: newPlayerName.trim(), matches, tournamentPlayer: null });
+          return;
+        }
+      } catch (err) {
+        console.error("Failed to match universal players:", err);
+      }
+    }
+    await addPlayer(selectedUniversalPlayer?.id);
+  };
+
+  // Without an existing universal player id a new one is created for the entrant
+  const addPlayer = async (existingUniversalPlayerId: number | undefined) => {
     setIsAdding(true);
     
     // Get or create universal player - use returned value directly to avoid async state issues
-    let universalPlayerId = selectedUniversalPlayer?.id;
+    let universalPlayerId = existingUniversalPlayerId;
     if (!universalPlayerId && newPlayerName.trim()) {
       const createdPlayer = await handleCreateUniversalPlayer();
       universalPlayerId = createdPlayer?.id;
@@ -337,7 +452,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
     // Link to universal player using the universalPlayerId FK
     if (newPlayer && universalPlayerId) {
       try {
-        const directorPin = localStorage.getItem("directorPin") || "3141";
+        const directorPin = tournament.directorPin || "";
         await apiRequest("POST", `/api/tournaments/${tournament.roomCode}/players/${newPlayer.id}/link-universal`, {
           universalPlayerId,
           directorPin,
@@ -364,7 +479,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
 
   const handleUnassignDevice = async (playerId: number) => {
     try {
-      const directorPin = localStorage.getItem("directorPin") || "3141";
+      const directorPin = tournament.directorPin || "";
       await apiRequest("POST", `/api/tournaments/${tournament.roomCode}/players/${playerId}/unassign-device`, {
         directorPin,
       });
@@ -377,14 +492,14 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   const handleCompleteTournament = async () => {
     setIsCompleting(true);
     try {
-      const directorPin = localStorage.getItem("directorPin") || "3141";
+      const directorPin = tournament.directorPin || "";
       const res = await apiRequest("POST", `/api/tournaments/${tournament.roomCode}/complete`, {
         directorPin,
       });
       const data = await res.json();
       setShowConfirmComplete(false);
       
-      const savedCount = data.saved?.length || 0;
+      const savedCount = (data.saved?.length || 0) + (data.updated?.length || 0);
       const skippedCount = data.skipped?.length || 0;
       const duplicateCount = data.alreadyRecorded?.length || 0;
       const totalCount = savedCount + skippedCount + duplicateCount;
@@ -392,6 +507,8 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
       const parts: string[] = [];
       parts.push(`Records saved: ${savedCount}/${totalCount}. ${duplicateCount} duplicate${duplicateCount !== 1 ? "s" : ""}.`);
       if (data.saved?.length > 0) parts.push(`Saved: ${data.saved.join(", ")}`);
+      if (data.updated?.length > 0) parts.push(`Rewritten: ${data.updated.join(", ")}`);
+      if (data.removed?.length > 0) parts.push(`Removed: ${data.removed.join(", ")}`);
       if (data.skipped?.length > 0) parts.push(`Skipped: ${data.skipped.join(", ")}`);
       if (data.alreadyRecorded?.length > 0) parts.push(`Already recorded: ${data.alreadyRecorded.join(", ")}`);
       alert(parts.join("\n\n"));
@@ -416,7 +533,25 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
 
   const handleLinkPlayer = async (player: typeof tournament.allPlayers[0]) => {
     try {
-      const directorPin = localStorage.getItem("directorPin") || "3141";
+      const directorPin = tournament.directorPin || "";
+      const res = await fetch(`/api/tournaments/${tournament.roomCode}/link-suggestions?directorPin=${encodeURIComponent(directorPin)}&playerId=${player.id}`);
+      if (res.ok) {
+        const suggestions: LinkSuggestion[] = await res.json();
+        const matches = suggestions[0]?.matches ?? [];
+        if (matches.length > 0) {
+          setLinkPrompt({ playerName: player.playerName, matches, tournamentPlayer: player });
+          return;
+        }
+      }
+    } catch (err) {
+      console.error("Failed to get link suggestions:", err);
+    }
+    await createAndLinkUniversalPlayer(player);
+  };
+
+  const createAndLinkUniversalPlayer = async (player: typeof tournament.allPlayers[0]) => {
+    try {
+      const directorPin = tournament.directorPin || "";
       
       const res = await apiRequest("POST", "/api/universal-players", {
         name: player.playerName,
@@ -437,6 +572,29 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
     }
   };
 
+  const linkExistingUniversalPlayer = async (player: typeof tournament.allPlayers[0], universalPlayerId: number) => {
+    try {
+      await apiRequest("POST", `/api/tournaments/${tournament.roomCode}/players/${player.id}/link-universal`, {
+        universalPlayerId,
+        directorPin: tournament.directorPin || "",
+      });
+      await tournament.refreshPlayers();
+    } catch (err) {
+      console.error("Failed to link player:", err);
+    }
+  };
+
+  const handleLinkPromptChoice = async (match: UniversalPlayerMatch | null) => {
+    if (!linkPrompt) return;
+    const { tournamentPlayer } = linkPrompt;
+    setLinkPrompt(null);
+    if (tournamentPlayer) {
+      await (match ? linkExistingUniversalPlayer(tournamentPlayer, match.universalPlayer.id) : createAndLinkUniversalPlayer(tournamentPlayer));
+    } else {
+      await addPlayer(match?.universalPlayer.id);
+    }
+  };
+
   const handleSavePlayer = async () => {
     if (editingPlayer) {
       await tournament.updatePlayer(editingPlayer.id, {
@@ -452,34 +610,42 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   // Open score entry for a player
   const handleOpenScoreEntry = async (player: typeof tournament.allPlayers[0]) => {
     try {
-      const directorPin = localStorage.getItem("directorPin") || "3141";
+      const directorPin = tournament.directorPin || "";
       const res = await fetch(`/api/tournaments/${tournament.roomCode}/players/${player.id}/scores?directorPin=${encodeURIComponent(directorPin)}`);
       const existingScores = res.ok ? await res.json() : [];
       
-      // Determine number of holes from existing scores or default to 18
+      // Determine number of holes from existing scores or default to the tournament's round length
       const maxHole = existingScores.length > 0 
         ? Math.max(...existingScores.map((s: HoleScore) => s.hole)) 
-        : 18;
-      const holesCount = Math.max(maxHole, 18);
+        : holeCount;
+      const holesCount = Math.max(maxHole, holeCount);
       setNumHoles(holesCount);
       
       // Initialize scores for all holes
       const scores: HoleScore[] = [];
+      const versions: Record<number, number> = {};
+      for (const s of existingScores) {
+        versions[s.hole] = s.version;
+      }
       for (let i = 1; i <= holesCount; i++) {
         const existing = existingScores.find((s: HoleScore) => s.hole === i);
         scores.push({
           hole: i,
-          par: existing?.par || 0,
+          par: existing?.par || coursePar(i) || 0,
           strokes: existing?.strokes || 0,
           scratches: existing?.scratches || 0,
           penalties: existing?.penalties || 0,
         });
       }
       
+      setScoreConflicts([]);
       setScoreEntryPlayer({
         playerId: player.id,
         playerName: player.playerName,
         scores,
+        original: scores,
+        versions,
+        round: tournament.tournamentInfo?.currentRound ?? 1,
       });
     } catch (err) {
       console.error("Failed to load player scores:", err);
@@ -501,31 +667,76 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   const handleSaveScores = async () => {
     if (!scoreEntryPlayer) return;
     setIsSavingScores(true);
+    setScoreRejections([]);
     
     try {
-      // Filter out holes with no scores entered
-      const scoresToSave = scoreEntryPlayer.scores.filter(s => s.par > 0 && s.strokes > 0);
+      // Only send holes that were entered and edited since the scores were loaded
+      const scoresToSave = scoreEntryPlayer.scores.filter(s =>
+        s.par > 0 && s.strokes > 0 && !isSameHoleScore(scoreEntryPlayer.original.find(o => o.hole === s.hole), s)
+      );
       
       if (scoresToSave.length > 0) {
-        await apiRequest("POST", `/api/tournaments/${tournament.roomCode}/scores/batch`, {
-          scores: scoresToSave.map(s => ({
-            tournamentPlayerId: scoreEntryPlayer.playerId,
-            hole: s.hole,
-            par: s.par,
-            strokes: s.strokes,
-            scratches: s.scratches,
-            penalties: s.penalties,
-          })),
+        const response = await fetch(`/api/tournaments/${tournament.roomCode}/scores/batch`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            directorPin: tournament.directorPin || undefined,
+            scores: scoresToSave.map(s => ({
+              tournamentPlayerId: scoreEntryPlayer.playerId,
+              round: scoreEntryPlayer.round,
+              hole: s.hole,
+              par: s.par,
+              strokes: s.strokes,
+              scratches: s.scratches,
+              penalties: s.penalties,
+              version: scoreEntryPlayer.versions[s.hole] ?? 0,
+            })),
+          }),
         });
+
+        // Someone else changed some of these holes, or the server refused some: keep the dialog open
+        // with the rest saved so the director can resolve or fix them
+        if (response.status === 409 || response.status === 422) {
+          const data = await response.json();
+          const saved: { hole: number; version: number }[] = data.saved || [];
+          const savedHoles = new Set(saved.map(s => s.hole));
+          setScoreEntryPlayer({
+            ...scoreEntryPlayer,
+            original: scoreEntryPlayer.original.map(o => savedHoles.has(o.hole) ? scoreEntryPlayer.scores.find(s => s.hole === o.hole) ?? o : o),
+            versions: { ...scoreEntryPlayer.versions, ...Object.fromEntries(saved.map(s => [s.hole, s.version])) },
+          });
+          setScoreConflicts(data.conflicts || []);
+          setScoreRejections(data.rejected || []);
+          await tournament.refreshLeaderboard();
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to save scores: ${response.status}`);
+        }
       }
       
       await tournament.refreshLeaderboard();
       setScoreEntryPlayer(null);
     } catch (err) {
       console.error("Failed to save scores:", err);
+    } finally {
+      setIsSavingScores(false);
     }
-    
-    setIsSavingScores(false);
+  };
+
+  // Keep mine: re-base the edit on the server's version so the next save overwrites it.
+  // Use theirs: load the server's values into the editor.
+  const handleResolveScoreConflict = (conflict: ScoreConflict, keep: "mine" | "server") => {
+    if (!scoreEntryPlayer) return;
+    const { hole, current } = conflict;
+    const serverScore: HoleScore = { hole, par: current.par, strokes: current.strokes, scratches: current.scratches, penalties: current.penalties };
+    setScoreEntryPlayer({
+      ...scoreEntryPlayer,
+      scores: keep === "server" ? scoreEntryPlayer.scores.map(s => s.hole === hole ? serverScore : s) : scoreEntryPlayer.scores,
+      original: [...scoreEntryPlayer.original.filter(o => o.hole !== hole), serverScore],
+      versions: { ...scoreEntryPlayer.versions, [hole]: current.version },
+    });
+    setScoreConflicts(scoreConflicts.filter(c => c.hole !== hole));
   };
 
   // Distribute players evenly across the set number of tables
@@ -620,12 +831,12 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
   });
 
   // Calculate stats
-  const leadingHole = tournament.leaderboard.length > 0
-    ? Math.max(...tournament.leaderboard.map(e => e.holesCompleted))
-    : 0;
-  const laggingHole = tournament.leaderboard.length > 0
-    ? Math.min(...tournament.leaderboard.map(e => e.holesCompleted))
-    : 0;
+  // Progress through the round in play, whichever leaderboard view is showing
+  const roundProgress = tournament.leaderboard
+    .filter(e => e.cutAfterRound === null)
+    .map(e => e.rounds.find(r => r.round === currentRound)?.holesCompleted ?? 0);
+  const leadingHole = roundProgress.length > 0 ? Math.max(...roundProgress) : 0;
+  const laggingHole = roundProgress.length > 0 ? Math.min(...roundProgress) : 0;
 
   const themeClasses: Record<DirectorTheme, string> = {
     "default": "bg-background text-foreground",
@@ -649,7 +860,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
     }
   }, [directorTheme]);
 
-  const MOBILE_PANELS = [
+  const ALL_MOBILE_PANELS = [
     { id: "debug" as const,      label: "Debug" },
     { id: "status" as const,     label: "Status" },
     { id: "controls" as const,   label: "Controls" },
@@ -660,8 +871,14 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
     { id: "players" as const,    label: `Players (${tournament.allPlayers.length})` },
     { id: "payout" as const,     label: "Payout" },
     { id: "sponsors" as const,   label: "Sponsors" },
+    { id: "staff" as const,      label: "Staff" },
+    { id: "course" as const,     label: "Course" },
+    { id: "deck" as const,       label: "Deck" },
+    { id: "difficulty" as const, label: "Difficulty" },
   ];
-  type MobilePanelId = typeof MOBILE_PANELS[number]["id"];
+  type MobilePanelId = typeof ALL_MOBILE_PANELS[number]["id"];
+  const MOBILE_PANELS = ALL_MOBILE_PANELS.filter(panel => canViewPanel(panel.id));
+  const activeMobilePanel = MOBILE_PANELS[Math.min(mobileCardIndex, MOBILE_PANELS.length - 1)];
 
   const renderMobileCard = (panelId: MobilePanelId) => {
     switch (panelId) {
@@ -704,7 +921,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
             </div>
             <div className={`w-4 h-4 rounded-full ${tournament.tournamentInfo?.isStarted ? "bg-green-500 animate-pulse" : tournament.tournamentInfo?.isActive ? "bg-amber-500" : "bg-gray-400"}`} />
           </div>
-          {tournament.tournamentInfo?.isActive && !tournament.tournamentInfo?.isStarted && (
+          {hasRole("head") && tournament.tournamentInfo?.isActive && !tournament.tournamentInfo?.isStarted && (
             <Button onClick={handleStartTournament} disabled={isStarting || tournament.allPlayers.length === 0} className="w-full bg-green-600 hover:bg-green-700" data-testid="button-start-tournament-mobile">
               <Play className="w-4 h-4 mr-2" />{isStarting ? "Starting..." : "Start Tournament"}
             </Button>
@@ -726,23 +943,10 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
             <p className="text-xs text-muted-foreground mb-1">Room Code</p>
             <p className="text-5xl font-mono font-bold tracking-widest">{tournament.roomCode || "—"}</p>
           </div>
-          {showConfirmComplete ? (
-            <div className="space-y-2 p-3 border border-destructive/30 rounded-lg bg-destructive/5">
-              <p className="font-medium text-destructive">End Tournament?</p>
-              <p className="text-sm text-muted-foreground">Saves all scores and updates handicaps.</p>
-              <div className="flex gap-2">
-                <Button variant="outline" className="flex-1" onClick={() => setShowConfirmComplete(false)} disabled={isCompleting}>Cancel</Button>
-                <Button variant="destructive" className="flex-1" onClick={handleCompleteTournament} disabled={isCompleting} data-testid="button-confirm-complete-tournament-mobile">
-                  {isCompleting ? "Saving..." : "End & Save"}
-                </Button>
-              </div>
-            </div>
-          ) : (
-            <Button variant="destructive" className="w-full gap-2" onClick={() => setShowConfirmComplete(true)} disabled={!tournament.tournamentInfo?.isStarted} data-testid="button-complete-tournament-mobile">
-              <Trophy className="w-4 h-4" />
-              {tournament.tournamentInfo?.isActive ? "End Tournament" : "Re-Save Scores"}
-            </Button>
-          )}
+          <Button variant="destructive" className="w-full gap-2" onClick={() => setShowConfirmComplete(true)} disabled={!tournament.tournamentInfo?.isStarted} data-testid="button-complete-tournament-mobile">
+            <Trophy className="w-4 h-4" />
+            {tournament.tournamentInfo?.isActive ? "End Tournament" : "Re-Save Scores"}
+          </Button>
         </div>
       );
       case "stats": return (
@@ -750,8 +954,8 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
           {[
             { label: "Players", value: tournament.allPlayers.length },
             { label: "Groups",  value: Object.keys(groupedPlayers).length },
-            { label: "Lagging", value: laggingHole },
-            { label: "Leading", value: leadingHole },
+            { label: "Lagging", value: `${laggingHole}/${holeCount}` },
+            { label: "Leading", value: `${leadingHole}/${holeCount}` },
           ].map(({ label, value }) => (
             <div key={label} className="flex flex-col items-center justify-center rounded-lg bg-muted/40 py-8">
               <p className="text-4xl font-bold leading-none">{value}</p>
@@ -762,26 +966,51 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
       );
       case "leaderboard": return (
         <div>
+          {tournament.divisions.length > 0 && (
+            <div className="flex justify-end px-4 py-2 border-b">
+              <LeaderboardDivisionToggle division={tournament.leaderboardDivision} divisions={tournament.divisions} onChange={tournament.setLeaderboardDivision} />
+            </div>
+          )}
           {tournament.leaderboard.length === 0 ? (
             <p className="text-center text-muted-foreground py-12">No scores yet</p>
           ) : (
             <>
+              {(isHandicapped || currentRound > 1) && (
+                <div className="flex justify-end gap-2 px-4 py-2 border-b">
+                  {currentRound > 1 && (
+                    <LeaderboardRoundToggle round={tournament.leaderboardRound} currentRound={currentRound} onChange={tournament.setLeaderboardRound} />
+                  )}
+                  {isHandicapped && (
+                    <LeaderboardRankingToggle ranking={ranking} onChange={tournament.setLeaderboardRanking} />
+                  )}
+                </div>
+              )}
               {leadingHole !== laggingHole && (
                 <p className="text-xs text-muted-foreground text-center py-2 px-4 border-b">
                   Groups are on different holes — standings are live
                 </p>
               )}
-              {tournament.leaderboard.map((entry, index) => (
+              {hasRole("head") && tournament.roomCode && (
+                <div className="p-3 border-b space-y-3">
+                  <RoundsPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                  <DivisionsPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                  <PlayoffPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                </div>
+              )}
+              {tournament.leaderboard.map((entry) => (
                 <div key={entry.playerId} className="flex items-center gap-3 px-4 py-3 border-b last:border-0">
-                  <span className={`w-7 h-7 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${
-                    index === 0 ? "bg-yellow-500 text-yellow-950" :
-                    index === 1 ? "bg-gray-300 text-gray-700" :
-                    index === 2 ? "bg-amber-600 text-amber-50" : "bg-muted text-muted-foreground"
-                  }`}>{index + 1}</span>
-                  <span className="flex-1 truncate">{entry.playerName}</span>
-                  <span className="text-xs text-muted-foreground shrink-0">{entry.holesCompleted}/18</span>
+                  <span className={`min-w-[1.75rem] h-7 px-1 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${
+                    entry.position === 1 ? "bg-yellow-500 text-yellow-950" :
+                    entry.position === 2 ? "bg-gray-300 text-gray-700" :
+                    entry.position === 3 ? "bg-amber-600 text-amber-50" : "bg-muted text-muted-foreground"
+                  }`}>{formatLeaderboardPosition(entry, tournament.leaderboard, tournament.leaderboardRound)}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{entry.playerName}</p>
+                    {entry.tieBreak && <p className="text-xs text-muted-foreground">{describeTieBreak(entry.tieBreak)}</p>}
+                  </div>
+                  <span className="text-xs text-muted-foreground shrink-0">{entry.holesCompleted}/{holesInView}</span>
                   <span className="font-mono font-bold shrink-0 w-10 text-right">
-                    {entry.relativeToPar === 0 ? "E" : entry.relativeToPar > 0 ? `+${entry.relativeToPar}` : entry.relativeToPar}
+                    {(() => { const v = getRankedRelativeToPar(entry, ranking); return v === 0 ? "E" : v > 0 ? `+${v}` : v; })()}
                   </span>
                 </div>
               ))}
@@ -837,7 +1066,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                   <div className="flex items-center gap-1">
                     <Button variant="outline" size="sm" onClick={() => handleUpdateGroupStartingHole(groupName, Math.max(1, (groupStartingHoles[groupName] ?? 1) - 1))} disabled={(groupStartingHoles[groupName] ?? 1) <= 1} data-testid={`button-dec-hole-${groupName}-mobile`} className="px-2">−</Button>
                     <span className="w-5 text-center text-sm font-bold">{groupStartingHoles[groupName] ?? 1}</span>
-                    <Button variant="outline" size="sm" onClick={() => handleUpdateGroupStartingHole(groupName, Math.min(18, (groupStartingHoles[groupName] ?? 1) + 1))} disabled={(groupStartingHoles[groupName] ?? 1) >= 18} data-testid={`button-inc-hole-${groupName}-mobile`} className="px-2">+</Button>
+                    <Button variant="outline" size="sm" onClick={() => handleUpdateGroupStartingHole(groupName, Math.min(holeCount, (groupStartingHoles[groupName] ?? 1) + 1))} disabled={(groupStartingHoles[groupName] ?? 1) >= holeCount} data-testid={`button-inc-hole-${groupName}-mobile`} className="px-2">+</Button>
                   </div>
                 </div>
               ))}
@@ -940,12 +1169,12 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                       </p>
                     </div>
                     <div className="flex items-center gap-0.5 shrink-0">
-                      {player.deviceId && (
+                      {hasRole("assistant") && player.deviceId && (
                         <Button variant="ghost" size="icon" className="h-8 w-8 text-orange-600" onClick={() => handleUnassignDevice(player.id)} data-testid={`button-unassign-device-mobile-${player.id}`}>
                           <Unlink className="w-4 h-4" />
                         </Button>
                       )}
-                      {!player.universalPlayerId && (
+                      {hasRole("assistant") && !player.universalPlayerId && (
                         <Button variant="ghost" size="icon" className="h-8 w-8 text-amber-600" onClick={() => handleLinkPlayer(player)} data-testid={`button-link-player-mobile-${player.id}`}>
                           <Link2 className="w-4 h-4" />
                         </Button>
@@ -953,10 +1182,17 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                       <Button variant="ghost" size="icon" className="h-8 w-8 text-blue-600" onClick={() => handleOpenScoreEntry(player)} data-testid={`button-enter-scores-mobile-${player.id}`}>
                         <ClipboardList className="w-4 h-4" />
                       </Button>
-                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEditPlayer(player)} data-testid={`button-edit-player-mobile-${player.id}`}>
-                        <Edit2 className="w-4 h-4" />
-                      </Button>
-                      {!player.isDnf && (
+                      {hasRole("assistant") && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setHistoryPlayer({ id: player.id, playerName: player.playerName })} data-testid={`button-score-history-mobile-${player.id}`}>
+                          <History className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {hasRole("assistant") && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEditPlayer(player)} data-testid={`button-edit-player-mobile-${player.id}`}>
+                          <Edit2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {hasRole("assistant") && !player.isDnf && (
                         <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => { if (tournament.tournamentInfo?.isStarted) { setDnfPlayer({ id: player.id, name: player.playerName }); } else { handleRemovePlayer(player.id); } }} data-testid={`button-remove-player-mobile-${player.id}`}>
                           <Trash2 className="w-4 h-4" />
                         </Button>
@@ -972,7 +1208,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
       case "payout": return (
         <div className="p-3">
           <PayoutCalculator
-            directorPin={localStorage.getItem("directorPin") || "3141"}
+            directorPin={tournament.directorPin || ""}
             linkedRoomCode={tournament.roomCode || undefined}
           />
         </div>
@@ -982,13 +1218,49 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
           {tournament.roomCode ? (
             <SponsorSettingsPanel
               roomCode={tournament.roomCode}
-              directorPin={localStorage.getItem("directorPin") || "3141"}
+              directorPin={tournament.directorPin || ""}
             />
           ) : (
             <p className="text-sm text-muted-foreground text-center py-4">No tournament connected</p>
           )}
         </div>
       );
+      case "staff": return (
+        <div className="p-3">
+          {tournament.roomCode ? (
+            <TournamentStaffPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No tournament connected</p>
+          )}
+        </div>
+      );
+      case "course": return (
+        <div className="p-3">
+          {tournament.roomCode ? (
+            <CourseLayoutPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No tournament connected</p>
+          )}
+        </div>
+      );
+      case "deck": return (
+        <div className="p-3">
+          {tournament.roomCode ? (
+            <DeckPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No tournament connected</p>
+          )}
+        </div>
+      );
+      case "difficulty": return (
+        <div className="p-3">
+          {tournament.roomCode ? (
+            <HoleDifficultyPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">No tournament connected</p>
+          )}
+        </div>
+      );
       default: return null;
     }
   };
@@ -1061,6 +1333,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
             <Trophy className="w-5 h-5" />
             Leaderboard
           </button>
+          {hasRole("head") && (
           <button
             className={`flex-1 py-3 px-2 flex flex-col items-center gap-1 text-xs font-medium transition-colors ${
               activeTab === "notify" 
@@ -1073,6 +1346,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
             <Bell className="w-5 h-5" />
             Notify
           </button>
+          )}
         </div>
       </div>
 
@@ -1091,12 +1365,12 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
         >
           {/* Panel label bar */}
           <div className="flex items-center justify-between px-4 py-2 border-b bg-muted/30 shrink-0">
-            <span className="font-semibold text-sm">{MOBILE_PANELS[mobileCardIndex].label}</span>
+            <span className="font-semibold text-sm">{activeMobilePanel.label}</span>
             <span className="text-xs text-muted-foreground">{mobileCardIndex + 1} / {MOBILE_PANELS.length}</span>
           </div>
           {/* Panel content */}
           <div className="flex-1 overflow-y-auto">
-            {renderMobileCard(MOBILE_PANELS[mobileCardIndex].id)}
+            {renderMobileCard(activeMobilePanel.id)}
           </div>
           {/* Bottom nav: prev/dots/next */}
           <div className="flex items-center justify-between px-3 py-2 border-t shrink-0">
@@ -1125,7 +1399,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
       <div className="flex-1 overflow-y-auto p-4 pb-20">
         {/* Dashboard Tab — desktop only */}
         {activeTab === "dashboard" && (
-          <DashboardGrid storageKey={`dp-layout-${localStorage.getItem("directorPin") || "default"}`}>
+          <DashboardGrid storageKey="dp-layout-default">
 
             {/* Status Panel */}
             <div key="status" className="h-full">
@@ -1151,7 +1425,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                       tournament.tournamentInfo?.isActive ? "bg-amber-500" : "bg-gray-400"
                     }`} />
                   </div>
-                  {tournament.tournamentInfo?.isActive && !tournament.tournamentInfo?.isStarted && (
+                  {hasRole("head") && tournament.tournamentInfo?.isActive && !tournament.tournamentInfo?.isStarted && (
                     <Button
                       onClick={handleStartTournament}
                       disabled={isStarting || tournament.allPlayers.length === 0}
@@ -1173,31 +1447,20 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
             </div>
 
             {/* Controls Panel */}
-            <div key="controls" className="h-full">
-              <Card className="h-full flex flex-col overflow-hidden">
-                <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
-                  <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
-                    <Power className="w-3 h-3" />Controls
-                  </span>
-                  <GripHorizontal className="w-3 h-3 opacity-30" />
-                </div>
-                <div className="flex-1 overflow-y-auto p-2 space-y-2">
-                  <div className="px-2 py-1 rounded bg-muted/50">
-                    <p className="text-xs opacity-60">Room Code</p>
-                    <p className="text-xl font-mono font-bold tracking-widest">{tournament.roomCode || "—"}</p>
+            {canViewPanel("controls") && (
+              <div key="controls" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <Power className="w-3 h-3" />Controls
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
                   </div>
-                  {showConfirmComplete ? (
-                    <div className="space-y-1 p-2 border border-destructive/30 rounded bg-destructive/5">
-                      <p className="text-xs font-medium text-destructive">End Tournament?</p>
-                      <p className="text-xs opacity-70">Saves all scores and updates handicaps.</p>
-                      <div className="flex gap-1">
-                        <Button variant="outline" size="sm" className="flex-1" onClick={() => setShowConfirmComplete(false)} disabled={isCompleting}>Cancel</Button>
-                        <Button variant="destructive" size="sm" className="flex-1" onClick={handleCompleteTournament} disabled={isCompleting} data-testid="button-confirm-complete-tournament">
-                          {isCompleting ? "Saving..." : "End & Save"}
-                        </Button>
-                      </div>
+                  <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                    <div className="px-2 py-1 rounded bg-muted/50">
+                      <p className="text-xs opacity-60">Room Code</p>
+                      <p className="text-xl font-mono font-bold tracking-widest">{tournament.roomCode || "—"}</p>
                     </div>
-                  ) : (
                     <Button
                       variant="destructive"
                       size="sm"
@@ -1209,10 +1472,10 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                       <Trophy className="w-3 h-3" />
                       {tournament.tournamentInfo?.isActive ? "End Tournament" : "Re-Save Scores"}
                     </Button>
-                  )}
-                </div>
-              </Card>
-            </div>
+                  </div>
+                </Card>
+              </div>
+            )}
 
             {/* Stats Panel */}
             <div key="stats" className="h-full">
@@ -1225,8 +1488,8 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                   {[
                     { label: "Players", value: tournament.allPlayers.length },
                     { label: "Groups", value: Object.keys(groupedPlayers).length },
-                    { label: "Lagging", value: laggingHole },
-                    { label: "Leading", value: leadingHole },
+                    { label: "Lagging", value: `${laggingHole}/${holeCount}` },
+                    { label: "Leading", value: `${leadingHole}/${holeCount}` },
                   ].map(({ label, value }) => (
                     <div key={label} className="flex flex-col items-center justify-center rounded bg-muted/40 py-1.5">
                       <p className="text-2xl font-bold leading-none">{value}</p>
@@ -1247,24 +1510,39 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                   <GripHorizontal className="w-3 h-3 opacity-30" />
                 </div>
                 <div className="flex-1 overflow-y-auto">
+                  {tournament.divisions.length > 0 && (
+                    <div className="flex justify-end px-2 py-1 border-b">
+                      <LeaderboardDivisionToggle division={tournament.leaderboardDivision} divisions={tournament.divisions} onChange={tournament.setLeaderboardDivision} />
+                    </div>
+                  )}
                   {tournament.leaderboard.length === 0 ? (
                     <p className="text-center opacity-40 py-4 text-sm">No scores yet</p>
                   ) : (
                     <>
+                      {(isHandicapped || currentRound > 1) && (
+                        <div className="flex justify-end gap-1 px-2 py-1 border-b">
+                          {currentRound > 1 && (
+                            <LeaderboardRoundToggle round={tournament.leaderboardRound} currentRound={currentRound} onChange={tournament.setLeaderboardRound} />
+                          )}
+                          {isHandicapped && (
+                            <LeaderboardRankingToggle ranking={ranking} onChange={tournament.setLeaderboardRanking} />
+                          )}
+                        </div>
+                      )}
                       {leadingHole !== laggingHole && (
                         <p className="text-xs opacity-50 text-center py-1 border-b">Groups on different holes — standings are live</p>
                       )}
-                      {tournament.leaderboard.map((entry, index) => (
+                      {tournament.leaderboard.map((entry) => (
                         <div key={entry.playerId} className="flex items-center gap-2 px-2 py-1.5 border-b last:border-0">
-                          <span className={`w-5 h-5 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${
-                            index === 0 ? "bg-yellow-500 text-yellow-950" :
-                            index === 1 ? "bg-gray-300 text-gray-700" :
-                            index === 2 ? "bg-amber-600 text-amber-50" : "bg-muted text-muted-foreground"
-                          }`}>{index + 1}</span>
-                          <span className="flex-1 text-sm truncate">{entry.playerName}</span>
-                          <span className="text-xs opacity-40 shrink-0">{entry.holesCompleted}/18</span>
+                          <span className={`min-w-[1.25rem] h-5 px-1 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${
+                            entry.position === 1 ? "bg-yellow-500 text-yellow-950" :
+                            entry.position === 2 ? "bg-gray-300 text-gray-700" :
+                            entry.position === 3 ? "bg-amber-600 text-amber-50" : "bg-muted text-muted-foreground"
+                          }`}>{formatLeaderboardPosition(entry, tournament.leaderboard, tournament.leaderboardRound)}</span>
+                          <span className="flex-1 text-sm truncate" title={entry.tieBreak ? describeTieBreak(entry.tieBreak) : undefined}>{entry.playerName}</span>
+                          <span className="text-xs opacity-40 shrink-0">{entry.holesCompleted}/{holesInView}</span>
                           <span className="font-mono text-sm font-bold shrink-0 w-8 text-right">
-                            {entry.relativeToPar === 0 ? "E" : entry.relativeToPar > 0 ? `+${entry.relativeToPar}` : entry.relativeToPar}
+                            {(() => { const v = getRankedRelativeToPar(entry, ranking); return v === 0 ? "E" : v > 0 ? `+${v}` : v; })()}
                           </span>
                         </div>
                       ))}
@@ -1275,141 +1553,145 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
             </div>
 
             {/* Group Tools Panel */}
-            <div key="groups" className="h-full">
-              <Card className="h-full flex flex-col overflow-hidden">
-                <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
-                  <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
-                    <Wand2 className="w-3 h-3" />Group Tools
-                  </span>
-                  <GripHorizontal className="w-3 h-3 opacity-30" />
-                </div>
-                <div className="flex-1 overflow-y-auto p-2 space-y-2">
-                  <div className="flex items-center gap-2">
-                    <span className="text-xs opacity-60 whitespace-nowrap">Tables:</span>
-                    <div className="flex items-center gap-1">
-                      <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => setNumTables(Math.max(2, numTables - 1))} disabled={numTables <= 2} data-testid="button-decrease-num-tables">-</Button>
-                      <span className="w-6 text-center font-bold text-sm">{numTables}</span>
-                      <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => setNumTables(Math.min(12, numTables + 1))} disabled={numTables >= 12} data-testid="button-increase-num-tables">+</Button>
-                    </div>
+            {canViewPanel("groups") && (
+              <div key="groups" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <Wand2 className="w-3 h-3" />Group Tools
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
                   </div>
-                  <div className="grid grid-cols-3 gap-1 text-center">
-                    {[
-                      { label: "Players", value: tournament.allPlayers.length },
-                      { label: "Tables", value: Math.min(numTables, tournament.allPlayers.length) },
-                      { label: "Per Table", value: tournament.allPlayers.length > 0 ? Math.ceil(tournament.allPlayers.length / Math.min(numTables, tournament.allPlayers.length)) : 0 },
-                    ].map(({ label, value }) => (
-                      <div key={label} className="rounded bg-muted/40 py-1">
-                        <p className="text-lg font-bold leading-none">{value}</p>
-                        <p className="text-xs opacity-60">{label}</p>
+                  <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs opacity-60 whitespace-nowrap">Tables:</span>
+                      <div className="flex items-center gap-1">
+                        <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => setNumTables(Math.max(2, numTables - 1))} disabled={numTables <= 2} data-testid="button-decrease-num-tables">-</Button>
+                        <span className="w-6 text-center font-bold text-sm">{numTables}</span>
+                        <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => setNumTables(Math.min(12, numTables + 1))} disabled={numTables >= 12} data-testid="button-increase-num-tables">+</Button>
                       </div>
-                    ))}
-                  </div>
-                  <div className="grid grid-cols-2 gap-1">
-                    <Button variant="outline" size="sm" onClick={handleAutoAssignGroups} disabled={isAutoAssigning || tournament.allPlayers.length === 0} className="gap-1 text-xs" data-testid="button-auto-assign-groups">
-                      <Grid3X3 className="w-3 h-3" />{isAutoAssigning ? "Assigning..." : "Auto-Assign"}
-                    </Button>
-                    <Button variant="outline" size="sm" onClick={handleShuffleGroups} disabled={isShuffling || tournament.allPlayers.length === 0} className="gap-1 text-xs" data-testid="button-shuffle-groups">
-                      <Shuffle className="w-3 h-3" />{isShuffling ? "Shuffling..." : "Shuffle"}
-                    </Button>
-                  </div>
-                  <Button variant="ghost" size="sm" onClick={handleClearGroups} disabled={tournament.allPlayers.length === 0} className="w-full text-destructive text-xs" data-testid="button-clear-groups">
-                    Clear All Groups
-                  </Button>
-                  {tournament.allPlayers.length === 0 && (
-                    <p className="text-xs opacity-50 text-center flex items-center justify-center gap-1">
-                      <AlertCircle className="w-3 h-3" />Add players first
-                    </p>
-                  )}
-                  {/* Starting holes per group */}
-                  {Object.keys(groupedPlayers).filter(g => g !== "Unassigned").length > 0 && (
-                    <div className="space-y-1 pt-2 border-t">
-                      <p className="text-xs opacity-60 mb-1">Start Hole {isSavingStartingHoles && <span className="opacity-50">(saving…)</span>}</p>
-                      {Object.keys(groupedPlayers).filter(g => g !== "Unassigned").sort().map(groupName => (
-                        <div key={groupName} className="flex items-center gap-1">
-                          <span className="text-xs truncate flex-1">{groupName}</span>
-                          <Button variant="outline" size="sm" onClick={() => handleUpdateGroupStartingHole(groupName, Math.max(1, (groupStartingHoles[groupName] ?? 1) - 1))} disabled={(groupStartingHoles[groupName] ?? 1) <= 1} data-testid={`button-dec-hole-${groupName}`} className="px-1.5">−</Button>
-                          <span className="w-4 text-center text-xs font-bold">{groupStartingHoles[groupName] ?? 1}</span>
-                          <Button variant="outline" size="sm" onClick={() => handleUpdateGroupStartingHole(groupName, Math.min(18, (groupStartingHoles[groupName] ?? 1) + 1))} disabled={(groupStartingHoles[groupName] ?? 1) >= 18} data-testid={`button-inc-hole-${groupName}`} className="px-1.5">+</Button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-1 text-center">
+                      {[
+                        { label: "Players", value: tournament.allPlayers.length },
+                        { label: "Tables", value: Math.min(numTables, tournament.allPlayers.length) },
+                        { label: "Per Table", value: tournament.allPlayers.length > 0 ? Math.ceil(tournament.allPlayers.length / Math.min(numTables, tournament.allPlayers.length)) : 0 },
+                      ].map(({ label, value }) => (
+                        <div key={label} className="rounded bg-muted/40 py-1">
+                          <p className="text-lg font-bold leading-none">{value}</p>
+                          <p className="text-xs opacity-60">{label}</p>
                         </div>
                       ))}
                     </div>
-                  )}
-                </div>
-              </Card>
-            </div>
-
-            {/* Add Player Panel */}
-            <div key="addplayer" className="h-full">
-              <Card className="h-full flex flex-col overflow-hidden">
-                <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
-                  <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
-                    <UserPlus className="w-3 h-3" />Add Player
-                  </span>
-                  <GripHorizontal className="w-3 h-3 opacity-30" />
-                </div>
-                <div className="flex-1 overflow-y-auto p-2 space-y-2">
-                  <div className="flex items-center gap-2 flex-wrap">
-                    <Button variant={showUniversalSearch ? "default" : "outline"} size="sm" onClick={() => setShowUniversalSearch(!showUniversalSearch)} className="gap-1 text-xs" data-testid="button-toggle-universal-search">
-                      <Search className="w-3 h-3" />{showUniversalSearch ? "Hide Search" : "Find Existing"}
+                    <div className="grid grid-cols-2 gap-1">
+                      <Button variant="outline" size="sm" onClick={handleAutoAssignGroups} disabled={isAutoAssigning || tournament.allPlayers.length === 0} className="gap-1 text-xs" data-testid="button-auto-assign-groups">
+                        <Grid3X3 className="w-3 h-3" />{isAutoAssigning ? "Assigning..." : "Auto-Assign"}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={handleShuffleGroups} disabled={isShuffling || tournament.allPlayers.length === 0} className="gap-1 text-xs" data-testid="button-shuffle-groups">
+                        <Shuffle className="w-3 h-3" />{isShuffling ? "Shuffling..." : "Shuffle"}
+                      </Button>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={handleClearGroups} disabled={tournament.allPlayers.length === 0} className="w-full text-destructive text-xs" data-testid="button-clear-groups">
+                      Clear All Groups
                     </Button>
-                    {selectedUniversalPlayer && (
-                      <div className="flex items-center gap-1 px-2 py-0.5 bg-green-500/20 text-green-700 dark:text-green-400 rounded text-xs">
-                        <Link2 className="w-3 h-3" />
-                        <span className="truncate max-w-24">{selectedUniversalPlayer.name}</span>
-                        <button onClick={() => setSelectedUniversalPlayer(null)} className="hover:text-destructive ml-1">×</button>
+                    {tournament.allPlayers.length === 0 && (
+                      <p className="text-xs opacity-50 text-center flex items-center justify-center gap-1">
+                        <AlertCircle className="w-3 h-3" />Add players first
+                      </p>
+                    )}
+                    {/* Starting holes per group */}
+                    {Object.keys(groupedPlayers).filter(g => g !== "Unassigned").length > 0 && (
+                      <div className="space-y-1 pt-2 border-t">
+                        <p className="text-xs opacity-60 mb-1">Start Hole {isSavingStartingHoles && <span className="opacity-50">(saving…)</span>}</p>
+                        {Object.keys(groupedPlayers).filter(g => g !== "Unassigned").sort().map(groupName => (
+                          <div key={groupName} className="flex items-center gap-1">
+                            <span className="text-xs truncate flex-1">{groupName}</span>
+                            <Button variant="outline" size="sm" onClick={() => handleUpdateGroupStartingHole(groupName, Math.max(1, (groupStartingHoles[groupName] ?? 1) - 1))} disabled={(groupStartingHoles[groupName] ?? 1) <= 1} data-testid={`button-dec-hole-${groupName}`} className="px-1.5">−</Button>
+                            <span className="w-4 text-center text-xs font-bold">{groupStartingHoles[groupName] ?? 1}</span>
+                            <Button variant="outline" size="sm" onClick={() => handleUpdateGroupStartingHole(groupName, Math.min(holeCount, (groupStartingHoles[groupName] ?? 1) + 1))} disabled={(groupStartingHoles[groupName] ?? 1) >= holeCount} data-testid={`button-inc-hole-${groupName}`} className="px-1.5">+</Button>
+                          </div>
+                        ))}
                       </div>
                     )}
                   </div>
-                  {showUniversalSearch && (
-                    <div className="border rounded p-2 space-y-1 bg-muted/30">
-                      <div className="relative">
-                        <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 opacity-50" />
-                        <Input value={universalSearchQuery} onChange={(e) => handleSearchUniversalPlayers(e.target.value)} placeholder="Search name or email..." className="pl-7 h-8 text-sm" data-testid="input-universal-search" />
-                      </div>
-                      {isSearching && <p className="text-xs opacity-60">Searching...</p>}
-                      {universalSearchResults.length > 0 && (
-                        <div className="max-h-32 overflow-y-auto space-y-0.5">
-                          {universalSearchResults.map(player => (
-                            <button key={player.id} onClick={() => handleSelectUniversalPlayer(player)} className="w-full text-left p-1.5 rounded hover:bg-muted flex items-center gap-2 text-xs" data-testid={`button-select-universal-${player.id}`}>
-                              <div className="flex-1 min-w-0">
-                                <p className="font-medium truncate">{player.name}</p>
-                                <p className="opacity-60 truncate">{player.email || "No email"}</p>
-                              </div>
-                              {player.handicap !== null && (
-                                <span className="font-mono font-bold shrink-0">
-                                  {player.isProvisional && <Star className="w-2 h-2 inline mr-0.5 text-amber-500" />}
-                                  {player.handicap.toFixed(1)}
-                                </span>
-                              )}
-                            </button>
-                          ))}
+                </Card>
+              </div>
+            )}
+
+            {/* Add Player Panel */}
+            {canViewPanel("addplayer") && (
+              <div key="addplayer" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <UserPlus className="w-3 h-3" />Add Player
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Button variant={showUniversalSearch ? "default" : "outline"} size="sm" onClick={() => setShowUniversalSearch(!showUniversalSearch)} className="gap-1 text-xs" data-testid="button-toggle-universal-search">
+                        <Search className="w-3 h-3" />{showUniversalSearch ? "Hide Search" : "Find Existing"}
+                      </Button>
+                      {selectedUniversalPlayer && (
+                        <div className="flex items-center gap-1 px-2 py-0.5 bg-green-500/20 text-green-700 dark:text-green-400 rounded text-xs">
+                          <Link2 className="w-3 h-3" />
+                          <span className="truncate max-w-24">{selectedUniversalPlayer.name}</span>
+                          <button onClick={() => setSelectedUniversalPlayer(null)} className="hover:text-destructive ml-1">×</button>
                         </div>
                       )}
-                      {universalSearchQuery.length >= 2 && universalSearchResults.length === 0 && !isSearching && (
-                        <p className="text-xs opacity-60 text-center py-1">No players found</p>
-                      )}
                     </div>
-                  )}
-                  <div className="flex gap-1">
-                    <Input ref={playerNameInputRef} autoFocus value={newPlayerName} onChange={(e) => { setNewPlayerName(e.target.value); if (selectedUniversalPlayer && e.target.value !== selectedUniversalPlayer.name) setSelectedUniversalPlayer(null); }} placeholder="Player name *" className="flex-1 h-8 text-sm" data-testid="input-director-player-name" />
-                    <Input value={newPlayerGroup} onChange={(e) => setNewPlayerGroup(e.target.value)} placeholder="Group" className="w-16 h-8 text-sm" data-testid="input-director-player-group" />
-                  </div>
-                  <div className="flex gap-1">
-                    <div className="flex-1 relative">
-                      <Hash className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 opacity-50" />
-                      <Input value={newPlayerUniversalId} onChange={(e) => setNewPlayerUniversalId(e.target.value)} placeholder="Universal ID" className="pl-7 h-8 text-sm" data-testid="input-director-player-uid" />
+                    {showUniversalSearch && (
+                      <div className="border rounded p-2 space-y-1 bg-muted/30">
+                        <div className="relative">
+                          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 opacity-50" />
+                          <Input value={universalSearchQuery} onChange={(e) => handleSearchUniversalPlayers(e.target.value)} placeholder="Search name or email..." className="pl-7 h-8 text-sm" data-testid="input-universal-search" />
+                        </div>
+                        {isSearching && <p className="text-xs opacity-60">Searching...</p>}
+                        {universalSearchResults.length > 0 && (
+                          <div className="max-h-32 overflow-y-auto space-y-0.5">
+                            {universalSearchResults.map(player => (
+                              <button key={player.id} onClick={() => handleSelectUniversalPlayer(player)} className="w-full text-left p-1.5 rounded hover:bg-muted flex items-center gap-2 text-xs" data-testid={`button-select-universal-${player.id}`}>
+                                <div className="flex-1 min-w-0">
+                                  <p className="font-medium truncate">{player.name}</p>
+                                  <p className="opacity-60 truncate">{player.email || "No email"}</p>
+                                </div>
+                                {player.handicap !== null && (
+                                  <span className="font-mono font-bold shrink-0">
+                                    {player.isProvisional && <Star className="w-2 h-2 inline mr-0.5 text-amber-500" />}
+                                    {player.handicap.toFixed(1)}
+                                  </span>
+                                )}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        {universalSearchQuery.length >= 2 && universalSearchResults.length === 0 && !isSearching && (
+                          <p className="text-xs opacity-60 text-center py-1">No players found</p>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex gap-1">
+                      <Input ref={playerNameInputRef} autoFocus value={newPlayerName} onChange={(e) => { setNewPlayerName(e.target.value); if (selectedUniversalPlayer && e.target.value !== selectedUniversalPlayer.name) setSelectedUniversalPlayer(null); }} placeholder="Player name *" className="flex-1 h-8 text-sm" data-testid="input-director-player-name" />
+                      <Input value={newPlayerGroup} onChange={(e) => setNewPlayerGroup(e.target.value)} placeholder="Group" className="w-16 h-8 text-sm" data-testid="input-director-player-group" />
                     </div>
-                    <div className="flex-1 relative">
-                      <Mail className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 opacity-50" />
-                      <Input value={newPlayerContact} onChange={(e) => setNewPlayerContact(e.target.value)} placeholder="Contact" className="pl-7 h-8 text-sm" data-testid="input-director-player-contact" />
+                    <div className="flex gap-1">
+                      <div className="flex-1 relative">
+                        <Hash className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 opacity-50" />
+                        <Input value={newPlayerUniversalId} onChange={(e) => setNewPlayerUniversalId(e.target.value)} placeholder="Universal ID" className="pl-7 h-8 text-sm" data-testid="input-director-player-uid" />
+                      </div>
+                      <div className="flex-1 relative">
+                        <Mail className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 opacity-50" />
+                        <Input value={newPlayerContact} onChange={(e) => setNewPlayerContact(e.target.value)} placeholder="Contact" className="pl-7 h-8 text-sm" data-testid="input-director-player-contact" />
+                      </div>
                     </div>
+                    <Button onClick={handleAddPlayer} disabled={isAdding || !newPlayerName.trim()} size="sm" className="w-full" data-testid="button-director-add-player">
+                      {isAdding ? "Adding..." : selectedUniversalPlayer ? "Add (Linked)" : "Add Player"}
+                    </Button>
                   </div>
-                  <Button onClick={handleAddPlayer} disabled={isAdding || !newPlayerName.trim()} size="sm" className="w-full" data-testid="button-director-add-player">
-                    {isAdding ? "Adding..." : selectedUniversalPlayer ? "Add (Linked)" : "Add Player"}
-                  </Button>
-                </div>
-              </Card>
-            </div>
+                </Card>
+              </div>
+            )}
 
             {/* Players Panel */}
             <div key="players" className="h-full">
@@ -1453,12 +1735,12 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                               </p>
                             </div>
                             <div className="flex items-center gap-0.5 shrink-0">
-                              {player.deviceId && (
+                              {hasRole("assistant") && player.deviceId && (
                                 <Button variant="ghost" size="icon" className="h-7 w-7 text-orange-600" onClick={() => handleUnassignDevice(player.id)} title="Unassign device" data-testid={`button-unassign-device-${player.id}`}>
                                   <Unlink className="w-3 h-3" />
                                 </Button>
                               )}
-                              {!player.universalPlayerId && (
+                              {hasRole("assistant") && !player.universalPlayerId && (
                                 <Button variant="ghost" size="icon" className="h-7 w-7 text-amber-600" onClick={() => handleLinkPlayer(player)} title="Link for handicap" data-testid={`button-link-player-${player.id}`}>
                                   <Link2 className="w-3 h-3" />
                                 </Button>
@@ -1466,10 +1748,17 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                               <Button variant="ghost" size="icon" className="h-7 w-7 text-blue-600" onClick={() => handleOpenScoreEntry(player)} title="Enter scores" data-testid={`button-enter-scores-${player.id}`}>
                                 <ClipboardList className="w-3 h-3" />
                               </Button>
-                              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleEditPlayer(player)} data-testid={`button-edit-player-${player.id}`}>
-                                <Edit2 className="w-3 h-3" />
-                              </Button>
-                              {!player.isDnf && (
+                              {hasRole("assistant") && (
+                                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setHistoryPlayer({ id: player.id, playerName: player.playerName })} title="Score history" data-testid={`button-score-history-${player.id}`}>
+                                  <History className="w-3 h-3" />
+                                </Button>
+                              )}
+                              {hasRole("assistant") && (
+                                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleEditPlayer(player)} data-testid={`button-edit-player-${player.id}`}>
+                                  <Edit2 className="w-3 h-3" />
+                                </Button>
+                              )}
+                              {hasRole("assistant") && !player.isDnf && (
                                 <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => { if (tournament.tournamentInfo?.isStarted) { setDnfPlayer({ id: player.id, name: player.playerName }); } else { handleRemovePlayer(player.id); } }} title={tournament.tournamentInfo?.isStarted ? "Mark DNF" : "Remove"} data-testid={`button-remove-player-${player.id}`}>
                                   <Trash2 className="w-3 h-3" />
                                 </Button>
@@ -1485,44 +1774,132 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
             </div>
 
             {/* Payout Calculator Panel */}
-            <div key="payout" className="h-full">
-              <Card className="h-full flex flex-col overflow-hidden">
-                <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
-                  <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
-                    <DollarSign className="w-3 h-3" />Payout Calculator
-                  </span>
-                  <GripHorizontal className="w-3 h-3 opacity-30" />
-                </div>
-                <div className="flex-1 overflow-y-auto p-2">
-                  <PayoutCalculator
-                    directorPin={localStorage.getItem("directorPin") || "3141"}
-                    linkedRoomCode={tournament.roomCode || undefined}
-                  />
-                </div>
-              </Card>
-            </div>
+            {canViewPanel("payout") && (
+              <div key="payout" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <DollarSign className="w-3 h-3" />Payout Calculator
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2">
+                    <PayoutCalculator
+                      directorPin={tournament.directorPin || ""}
+                      linkedRoomCode={tournament.roomCode || undefined}
+                    />
+                  </div>
+                </Card>
+              </div>
+            )}
 
             {/* Sponsors Panel */}
-            <div key="sponsors" className="h-full">
-              <Card className="h-full flex flex-col overflow-hidden">
-                <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
-                  <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
-                    <Megaphone className="w-3 h-3" />Sponsors
-                  </span>
-                  <GripHorizontal className="w-3 h-3 opacity-30" />
-                </div>
-                <div className="flex-1 overflow-y-auto p-2">
-                  {tournament.roomCode ? (
-                    <SponsorSettingsPanel
-                      roomCode={tournament.roomCode}
-                      directorPin={localStorage.getItem("directorPin") || "3141"}
-                    />
-                  ) : (
-                    <p className="text-xs text-muted-foreground text-center py-4">No tournament connected</p>
-                  )}
-                </div>
-              </Card>
-            </div>
+            {canViewPanel("sponsors") && (
+              <div key="sponsors" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <Megaphone className="w-3 h-3" />Sponsors
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2">
+                    {tournament.roomCode ? (
+                      <SponsorSettingsPanel
+                        roomCode={tournament.roomCode}
+                        directorPin={tournament.directorPin || ""}
+                      />
+                    ) : (
+                      <p className="text-xs text-muted-foreground text-center py-4">No tournament connected</p>
+                    )}
+                  </div>
+                </Card>
+              </div>
+            )}
+
+            {/* Staff Panel */}
+            {canViewPanel("staff") && (
+              <div key="staff" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <UserCog className="w-3 h-3" />Staff
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2">
+                    {tournament.roomCode ? (
+                      <TournamentStaffPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                    ) : (
+                      <p className="text-xs text-muted-foreground text-center py-4">No tournament connected</p>
+                    )}
+                  </div>
+                </Card>
+              </div>
+            )}
+
+            {/* Course Layout Panel */}
+            {canViewPanel("course") && (
+              <div key="course" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <Flag className="w-3 h-3" />Course
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2">
+                    {tournament.roomCode ? (
+                      <CourseLayoutPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                    ) : (
+                      <p className="text-xs text-muted-foreground text-center py-4">No tournament connected</p>
+                    )}
+                  </div>
+                </Card>
+              </div>
+            )}
+
+            {/* Par-Card Deck Panel */}
+            {canViewPanel("deck") && (
+              <div key="deck" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <Layers className="w-3 h-3" />Deck
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2">
+                    {tournament.roomCode ? (
+                      <DeckPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                    ) : (
+                      <p className="text-xs text-muted-foreground text-center py-4">No tournament connected</p>
+                    )}
+                  </div>
+                </Card>
+              </div>
+            )}
+
+            {/* Hole Difficulty Panel */}
+            {canViewPanel("difficulty") && (
+              <div key="difficulty" className="h-full">
+                <Card className="h-full flex flex-col overflow-hidden">
+                  <div className="drag-handle flex items-center justify-between px-2 py-1 border-b bg-muted/30 cursor-grab active:cursor-grabbing select-none shrink-0">
+                    <span className="text-xs font-semibold opacity-60 flex items-center gap-1">
+                      <BarChart3 className="w-3 h-3" />Difficulty
+                    </span>
+                    <GripHorizontal className="w-3 h-3 opacity-30" />
+                  </div>
+                  <div className="flex-1 overflow-y-auto p-2">
+                    {tournament.roomCode ? (
+                      <HoleDifficultyPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                    ) : (
+                      <p className="text-xs text-muted-foreground text-center py-4">No tournament connected</p>
+                    )}
+                  </div>
+                </Card>
+              </div>
+            )}
 
           </DashboardGrid>
         )}
@@ -1531,10 +1908,36 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
         {activeTab === "leaderboard" && (
           <div className="space-y-4">
             <Card className="p-4">
-              <h3 className="font-semibold mb-3 flex items-center gap-2">
-                <Trophy className="w-4 h-4" />
-                Full Leaderboard
-              </h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold flex items-center gap-2">
+                  <Trophy className="w-4 h-4" />
+                  Full Leaderboard
+                </h3>
+                <div className="flex items-center gap-2">
+                  {hasRole("head") && (
+                    <>
+                      <HoleCountSelect holeCount={holeCount} onChange={handleHoleCountChange} />
+                      <TieBreakPolicySelect policy={tournament.tieBreakPolicy} onChange={handleTieBreakPolicyChange} />
+                    </>
+                  )}
+                  {tournament.divisions.length > 0 && (
+                    <LeaderboardDivisionToggle division={tournament.leaderboardDivision} divisions={tournament.divisions} onChange={tournament.setLeaderboardDivision} />
+                  )}
+                  {currentRound > 1 && (
+                    <LeaderboardRoundToggle round={tournament.leaderboardRound} currentRound={currentRound} onChange={tournament.setLeaderboardRound} />
+                  )}
+                  {isHandicapped && (
+                    <LeaderboardRankingToggle ranking={ranking} onChange={tournament.setLeaderboardRanking} />
+                  )}
+                </div>
+              </div>
+              {hasRole("head") && tournament.roomCode && (
+                <div className="mb-3 space-y-3">
+                  <RoundsPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                  <DivisionsPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                  <PlayoffPanel roomCode={tournament.roomCode} directorPin={tournament.directorPin || ""} />
+                </div>
+              )}
               <div className="flex gap-1 mb-3 flex-wrap">
                 {(["score", "name", "id", "handicap"] as LeaderboardSort[]).map(col => (
                   <Button
@@ -1556,36 +1959,48 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                 {sortedLeaderboard.map((entry, index) => {
                   const tp = tournament.allPlayers.find(p => p.id === entry.playerId);
                   const up = tp?.universalPlayerId ? universalPlayersMap.get(tp.universalPlayerId) : null;
-                  const originalRank = tournament.leaderboard.findIndex(e => e.playerId === entry.playerId) + 1;
+                  const rankedToPar = getRankedRelativeToPar(entry, ranking);
                   return (
                     <div
                       key={entry.playerId}
                       className="flex items-center gap-3 p-3 rounded-lg hover:bg-black/5 dark:hover:bg-white/5"
                       data-testid={`leaderboard-row-${entry.playerId}`}
                     >
-                      <span className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
-                        originalRank === 1 ? "bg-yellow-500 text-yellow-950" :
-                        originalRank === 2 ? "bg-gray-300 text-gray-700" :
-                        originalRank === 3 ? "bg-amber-600 text-amber-50" :
+                      <span className={`min-w-[2rem] h-8 px-1 rounded-full flex items-center justify-center text-sm font-bold ${
+                        entry.position === 1 ? "bg-yellow-500 text-yellow-950" :
+                        entry.position === 2 ? "bg-gray-300 text-gray-700" :
+                        entry.position === 3 ? "bg-amber-600 text-amber-50" :
                         "bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
                       }`}>
-                        {originalRank}
+                        {formatLeaderboardPosition(entry, tournament.leaderboard, tournament.leaderboardRound)}
                       </span>
                       <div className="flex-1 min-w-0">
                         <p className="font-medium truncate">{entry.playerName}</p>
                         <p className="text-xs opacity-60">
-                          {tp?.universalId || ""}{tp?.universalId ? " • " : ""}{entry.groupName || "No group"} • {entry.holesCompleted}/18 holes
-                          {up?.handicap != null ? ` • HC: ${up.handicap}` : ""}
+                          {tp?.universalId || ""}{tp?.universalId ? " • " : ""}{entry.groupName || "No group"} • {entry.holesCompleted}/{holesInView} holes
+                          {entry.handicap != null ? ` • HC: ${entry.handicap}` : up?.handicap != null ? ` • HC: ${up.handicap}` : ""}
                         </p>
+                        {tournament.leaderboardRound === null && entry.rounds.length > 1 && (
+                          <p className="text-xs opacity-60 font-mono" data-testid={`text-round-scores-${entry.playerId}`}>
+                            {entry.rounds.map(r => `R${r.round} ${r.relativeToPar === 0 ? "E" : r.relativeToPar > 0 ? `+${r.relativeToPar}` : r.relativeToPar}`).join(" · ")}
+                          </p>
+                        )}
+                        {entry.tieBreak && (
+                          <p className="text-xs opacity-60" data-testid={`text-tie-break-${entry.playerId}`}>{describeTieBreak(entry.tieBreak)}</p>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className={`font-mono text-lg font-bold ${
-                          entry.relativeToPar < 0 ? "text-green-600" :
-                          entry.relativeToPar > 0 ? "text-red-500" : ""
+                          rankedToPar < 0 ? "text-green-600" :
+                          rankedToPar > 0 ? "text-red-500" : ""
                         }`}>
-                          {entry.relativeToPar > 0 ? "+" : ""}{entry.relativeToPar}
+                          {rankedToPar > 0 ? "+" : ""}{rankedToPar}
+                        </p>
+                        <p className="text-xs opacity-60">
+                          {ranking === "net"
+                            ? `${entry.netStrokes} net • ${entry.relativeToPar > 0 ? "+" : ""}${entry.relativeToPar} gross`
+                            : `${entry.totalStrokes} strokes`}
                         </p>
-                        <p className="text-xs opacity-60">{entry.totalStrokes} strokes</p>
                       </div>
                     </div>
                   );
@@ -1599,8 +2014,8 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
         )}
 
         {/* Notify Tab */}
-        {activeTab === "notify" && (
-          <NotificationsTab directorPin={localStorage.getItem("directorPin") || "3141"} />
+        {activeTab === "notify" && hasRole("head") && (
+          <NotificationsTab directorPin={tournament.directorPin || ""} />
         )}
       </div>
       )}
@@ -1676,7 +2091,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
       </Dialog>
 
       {/* Score Entry Dialog */}
-      <Dialog open={!!scoreEntryPlayer} onOpenChange={(open) => !open && setScoreEntryPlayer(null)}>
+      <Dialog open={!!scoreEntryPlayer} onOpenChange={(open) => { if (!open) { setScoreEntryPlayer(null); setScoreConflicts([]); setScoreRejections([]); } }}>
         <DialogContent className="max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
@@ -1710,19 +2125,19 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                     variant="outline"
                     size="sm"
                     onClick={() => {
-                      const newNum = Math.min(36, numHoles + 1);
+                      const newNum = Math.min(holeCount, numHoles + 1);
                       setNumHoles(newNum);
                       if (scoreEntryPlayer.scores.length < newNum) {
                         setScoreEntryPlayer({
                           ...scoreEntryPlayer,
                           scores: [
                             ...scoreEntryPlayer.scores,
-                            { hole: newNum, par: 0, strokes: 0, scratches: 0, penalties: 0 },
+                            { hole: newNum, par: coursePar(newNum) ?? 0, strokes: 0, scratches: 0, penalties: 0 },
                           ],
                         });
                       }
                     }}
-                    disabled={numHoles >= 36}
+                    disabled={numHoles >= holeCount}
                     data-testid="button-increase-holes"
                   >
                     +
@@ -1752,6 +2167,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                       max={15}
                       value={score.par || ""}
                       onChange={(e) => handleUpdateHoleScore(score.hole, "par", parseInt(e.target.value) || 0)}
+                      disabled={coursePar(score.hole) !== undefined}
                       className="text-center h-9"
                       placeholder="0"
                       data-testid={`input-par-${score.hole}`}
@@ -1791,6 +2207,42 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
               </div>
 
               <div className="pt-4 border-t mt-4 space-y-3">
+                {scoreConflicts.map((conflict) => {
+                  const mine = conflict.attempted;
+                  const theirs = conflict.current;
+                  return (
+                    <div key={conflict.hole} className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-sm space-y-2" data-testid={`score-conflict-${conflict.hole}`}>
+                      <div className="flex items-center gap-2 font-medium">
+                        <AlertCircle className="w-4 h-4 text-amber-600" />
+                        Hole {conflict.hole} was changed on another device
+                      </div>
+                      <div className="grid grid-cols-2 gap-2 text-xs">
+                        <div>
+                          <div className="opacity-70">Yours</div>
+                          <div className="font-mono">Par {mine.par} · {mine.strokes}/{mine.scratches}/{mine.penalties}</div>
+                        </div>
+                        <div>
+                          <div className="opacity-70">Saved</div>
+                          <div className="font-mono">Par {theirs.par} · {theirs.strokes}/{theirs.scratches}/{theirs.penalties}</div>
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" className="flex-1" onClick={() => handleResolveScoreConflict(conflict, "server")} data-testid={`button-conflict-use-saved-${conflict.hole}`}>
+                          Use Saved
+                        </Button>
+                        <Button size="sm" className="flex-1" onClick={() => handleResolveScoreConflict(conflict, "mine")} data-testid={`button-conflict-keep-mine-${conflict.hole}`}>
+                          Keep Mine
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+                {scoreRejections.map((rejection) => (
+                  <div key={rejection.index} className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm" data-testid={`score-rejected-${rejection.hole ?? rejection.index}`}>
+                    <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+                    <span>{rejection.hole !== null ? `Hole ${rejection.hole} not saved: ` : "Not saved: "}{rejection.error}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm">
                   <span className="opacity-70">Total Par:</span>
                   <span className="font-mono font-bold">
@@ -1827,7 +2279,7 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
                   <Button
                     className="flex-1 gap-2"
                     onClick={handleSaveScores}
-                    disabled={isSavingScores}
+                    disabled={isSavingScores || scoreConflicts.length > 0}
                     data-testid="button-save-scores"
                   >
                     <Save className="w-4 h-4" />
@@ -1840,6 +2292,38 @@ export function DirectorPortal({ onClose }: DirectorPortalProps) {
         </DialogContent>
       </Dialog>
 
+      <ScoreHistoryDialog
+        roomCode={tournament.roomCode || ""}
+        directorPin={tournament.directorPin || ""}
+        player={historyPlayer}
+        onClose={() => setHistoryPlayer(null)}
+      />
+
+      <Dialog open={!!linkPrompt} onOpenChange={(open) => !open && setLinkPrompt(null)}>
+        <DialogContent className="sm:max-w-md" data-testid="dialog-link-suggestions">
+          <DialogHeader>
+            <DialogTitle>Is {linkPrompt?.playerName} already a player?</DialogTitle>
+            <DialogDescription>
+              Linking to an existing player keeps their handicap history together. Pick a match or create a new player.
+            </DialogDescription>
+          </DialogHeader>
+          {linkPrompt && <UniversalPlayerMatchList matches={linkPrompt.matches} onLink={handleLinkPromptChoice} />}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setLinkPrompt(null)}>Cancel</Button>
+            <Button onClick={() => handleLinkPromptChoice(null)} data-testid="button-link-create-new">Create New Player</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CompletionReviewDialog
+        open={showConfirmComplete}
+        onOpenChange={setShowConfirmComplete}
+        roomCode={tournament.roomCode || ""}
+        directorPin={tournament.directorPin || ""}
+        isCompleting={isCompleting}
+        onConfirm={handleCompleteTournament}
+      />
+
       <Dialog open={!!dnfPlayer} onOpenChange={() => setDnfPlayer(null)}>
         <DialogContent className="sm:max-w-sm">
           <DialogHeader>
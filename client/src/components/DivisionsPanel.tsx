@@ -0,0 +1,247 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp, Layers, Plus, RefreshCw, X } from "lucide-react";
+import type { TournamentDivision, TournamentPlayer } from "@shared/schema";
+import { useTournament } from "@/contexts/TournamentContext";
+
+interface DivisionsPanelProps {
+  roomCode: string;
+  directorPin: string;
+}
+
+// Handicap bounds are kept as typed so a half-entered number isn't reformatted under the cursor
+interface DivisionDraft {
+  id?: number;
+  name: string;
+  minHandicap: string;
+  maxHandicap: string;
+}
+
+const toDraft = (division: TournamentDivision): DivisionDraft => ({
+  id: division.id,
+  name: division.name,
+  minHandicap: division.minHandicap === null ? "" : String(division.minHandicap),
+  maxHandicap: division.maxHandicap === null ? "" : String(division.maxHandicap),
+});
+
+const parseBound = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function DivisionsPanel({ roomCode, directorPin }: DivisionsPanelProps) {
+  const tournament = useTournament();
+  const [divisions, setDivisions] = useState<TournamentDivision[]>([]);
+  const [drafts, setDrafts] = useState<DivisionDraft[]>([]);
+  const [showPlayers, setShowPlayers] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDivisions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/divisions`);
+      if (!response.ok) return;
+      const data: TournamentDivision[] = await response.json();
+      setDivisions(data);
+      setDrafts(data.map(toDraft));
+    } catch (err) {
+      console.error("Failed to load divisions:", err);
+    }
+  }, [roomCode]);
+
+  useEffect(() => {
+    loadDivisions();
+  }, [loadDivisions]);
+
+  const updateDraft = (index: number, patch: Partial<DivisionDraft>) => {
+    setDrafts(prev => prev.map((d, i) => (i === index ? { ...d, ...patch } : d)));
+  };
+
+  const describeFlights = (result: { assigned: number; unflighted: number }) =>
+    `${result.assigned} flighted by handicap${result.unflighted > 0 ? `, ${result.unflighted} without a flight` : ""}`;
+
+  const refreshAfterChange = () => Promise.all([tournament.refreshPlayers(), tournament.refreshLeaderboard()]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/divisions`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          directorPin,
+          divisions: drafts.map(d => ({ id: d.id, name: d.name, minHandicap: parseBound(d.minHandicap), maxHandicap: parseBound(d.maxHandicap) })),
+        }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not save divisions");
+      }
+      const data = await response.json();
+      setDivisions(data.divisions);
+      setDrafts(data.divisions.map(toDraft));
+      setMessage(describeFlights(data));
+      // The viewer may have been looking at a division that was just removed
+      if (tournament.leaderboardDivision !== null && !data.divisions.some((d: TournamentDivision) => d.id === tournament.leaderboardDivision)) {
+        tournament.setLeaderboardDivision(null);
+      }
+      await refreshAfterChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save divisions");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssign = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/divisions/assign`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not assign flights");
+      }
+      setMessage(describeFlights(await response.json()));
+      await refreshAfterChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not assign flights");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePlayerDivision = async (player: TournamentPlayer, value: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/players/${player.id}/division`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, auto: value === "auto", divisionId: value === "auto" || value === "none" ? null : Number(value) }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not move the player");
+      }
+      await refreshAfterChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not move the player");
+    }
+  };
+
+  const divisionName = (divisionId: number | null) => divisions.find(d => d.id === divisionId)?.name ?? "none";
+  const isDirty = JSON.stringify(drafts) !== JSON.stringify(divisions.map(toDraft));
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2 text-sm" data-testid="panel-divisions">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Flights &amp; Divisions
+        </span>
+        {divisions.some(d => d.minHandicap !== null || d.maxHandicap !== null) && (
+          <Button size="sm" variant="ghost" className="h-7 gap-1 text-xs" onClick={handleAssign} disabled={isSaving} data-testid="button-assign-flights">
+            <RefreshCw className="w-3 h-3" />Re-flight
+          </Button>
+        )}
+      </div>
+
+      {drafts.length === 0 && (
+        <p className="text-xs opacity-60">One leaderboard for everyone. Add flights by handicap band, or divisions you fill by hand.</p>
+      )}
+      {drafts.map((draft, index) => (
+        <div key={draft.id ?? `new-${index}`} className="flex items-center gap-1" data-testid={`row-division-${index}`}>
+          <Input
+            className="h-8 flex-1 min-w-0"
+            value={draft.name}
+            placeholder="Name"
+            onChange={(e) => updateDraft(index, { name: e.target.value })}
+            data-testid={`input-division-name-${index}`}
+          />
+          <Input
+            type="number"
+            step="0.1"
+            className="h-8 w-16"
+            value={draft.minHandicap}
+            placeholder="Min"
+            onChange={(e) => updateDraft(index, { minHandicap: e.target.value })}
+            data-testid={`input-division-min-${index}`}
+          />
+          <Input
+            type="number"
+            step="0.1"
+            className="h-8 w-16"
+            value={draft.maxHandicap}
+            placeholder="Max"
+            onChange={(e) => updateDraft(index, { maxHandicap: e.target.value })}
+            data-testid={`input-division-max-${index}`}
+          />
+          <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))} data-testid={`button-remove-division-${index}`}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+      {drafts.length > 0 && (
+        <p className="text-xs opacity-60">Handicap bands include the minimum and stop below the maximum. Leave both empty for a division filled by hand.</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="gap-1 text-xs"
+          onClick={() => setDrafts(prev => [...prev, { name: `Flight ${String.fromCharCode(65 + prev.length)}`, minHandicap: "", maxHandicap: "" }])}
+          data-testid="button-add-division"
+        >
+          <Plus className="w-3 h-3" />Add
+        </Button>
+        {isDirty && (
+          <Button size="sm" className="text-xs" onClick={handleSave} disabled={isSaving} data-testid="button-save-divisions">
+            {isSaving ? "Saving..." : "Save Divisions"}
+          </Button>
+        )}
+      </div>
+
+      {message && <p className="text-xs opacity-70" data-testid="text-flight-result">{message}</p>}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {divisions.length > 0 && tournament.allPlayers.length > 0 && (
+        <div className="space-y-1">
+          <button className="flex items-center gap-1 text-xs font-medium" onClick={() => setShowPlayers(prev => !prev)} data-testid="button-toggle-division-players">
+            {showPlayers ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+            Player placement
+          </button>
+          {showPlayers && tournament.allPlayers.map(player => (
+            <div key={player.id} className="flex items-center justify-between gap-2" data-testid={`row-division-player-${player.id}`}>
+              <span className="truncate text-xs">
+                {player.playerName}
+                {player.handicapSnapshot !== null && <span className="opacity-60"> · {player.handicapSnapshot}</span>}
+              </span>
+              <Select
+                value={player.divisionAssignedManually ? (player.divisionId === null ? "none" : String(player.divisionId)) : "auto"}
+                onValueChange={(value) => handlePlayerDivision(player, value)}
+              >
+                <SelectTrigger className="h-7 w-36 text-xs" data-testid={`select-player-division-${player.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto ({divisionName(player.divisionId)})</SelectItem>
+                  {divisions.map(d => (
+                    <SelectItem key={d.id} value={String(d.id)}>{d.name}</SelectItem>
+                  ))}
+                  <SelectItem value="none">No division</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
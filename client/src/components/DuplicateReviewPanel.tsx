@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronDown, ChevronUp, Copy, RefreshCw } from "lucide-react";
+import type { DuplicatePair, DuplicatePlayerSummary } from "@shared/schema";
+
+interface DuplicateReviewPanelProps {
+  directorPin: string;
+  onMerged: () => void;
+}
+
+const formatDate = (value: string | Date | null) => (value ? new Date(value).toLocaleDateString() : "—");
+
+function PlayerColumn({ summary }: { summary: DuplicatePlayerSummary }) {
+  const { player } = summary;
+  const rows: [string, string][] = [
+    ["Email", player.email || "—"],
+    ["Phone", player.phoneNumber || "—"],
+    ["Contact", player.contactInfo || "—"],
+    ["Handicap", player.handicap === null ? "—" : `${player.handicap}${player.isProvisional ? "P" : ""}`],
+    ["Events", String(player.completedTournaments)],
+    ["Last played", formatDate(summary.lastPlayedAt)],
+    ["Login PIN", summary.hasPin ? "Set" : "None"],
+    ["Created", formatDate(player.createdAt)],
+  ];
+  return (
+    <div className="min-w-0 space-y-1" data-testid={`duplicate-player-${player.id}`}>
+      <p className="font-medium truncate">{player.name}</p>
+      <p className="text-xs font-mono opacity-60">{player.uniqueCode}</p>
+      {rows.map(([label, value]) => (
+        <p key={label} className="text-xs truncate">
+          <span className="opacity-60">{label}:</span> {value}
+        </p>
+      ))}
+      {summary.recentTournaments.length > 0 && (
+        <p className="text-xs opacity-60 truncate">{summary.recentTournaments.join(", ")}</p>
+      )}
+    </div>
+  );
+}
+
+export function DuplicateReviewPanel({ directorPin, onMerged }: DuplicateReviewPanelProps) {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [busyPairId, setBusyPairId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const loadPairs = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/universal-players/duplicates?directorPin=${encodeURIComponent(directorPin)}`);
+      if (response.ok) setPairs(await response.json());
+    } catch (error) {
+      console.error("Failed to load duplicate players:", error);
+    }
+  }, [directorPin]);
+
+  useEffect(() => {
+    loadPairs();
+  }, [loadPairs]);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      const response = await fetch("/api/universal-players/duplicates/scan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not scan for duplicates");
+      }
+      const data = await response.json();
+      await loadPairs();
+      setIsExpanded(data.queued > 0);
+      toast({ title: data.queued > 0 ? `${data.queued} possible duplicates` : "No duplicates found" });
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not scan for duplicates", variant: "destructive" });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // The source player is deleted by the merge, which also drops every queued pair it was in
+  const handleMerge = async (pair: DuplicatePair, source: DuplicatePlayerSummary, target: DuplicatePlayerSummary) => {
+    if (!confirm(`Merge ${source.player.name} (${source.player.uniqueCode}) into ${target.player.name} (${target.player.uniqueCode})? ${source.player.uniqueCode} will be deleted.`)) return;
+    setBusyPairId(pair.id);
+    try {
+      const response = await fetch("/api/universal-players/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, sourceId: source.player.id, targetId: target.player.id }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not merge the players");
+      }
+      toast({ title: "Players merged!" });
+      await loadPairs();
+      onMerged();
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not merge the players", variant: "destructive" });
+    } finally {
+      setBusyPairId(null);
+    }
+  };
+
+  const handleDismiss = async (pair: DuplicatePair) => {
+    setBusyPairId(pair.id);
+    try {
+      const response = await fetch(`/api/universal-players/duplicates/${pair.id}/dismiss`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not dismiss the pair");
+      }
+      setPairs(prev => prev.filter(p => p.id !== pair.id));
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not dismiss the pair", variant: "destructive" });
+    } finally {
+      setBusyPairId(null);
+    }
+  };
+
+  return (
+    <Card className="p-3 space-y-3" data-testid="duplicate-review-panel">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          className="flex items-center gap-2 text-sm font-medium"
+          onClick={() => setIsExpanded(prev => !prev)}
+          disabled={pairs.length === 0}
+          data-testid="button-toggle-duplicates"
+        >
+          <Copy className="w-4 h-4" />
+          {pairs.length === 0 ? "No possible duplicates" : `${pairs.length} possible ${pairs.length === 1 ? "duplicate" : "duplicates"}`}
+          {pairs.length > 0 && (isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+        </button>
+        <Button size="sm" variant="ghost" className="h-7 gap-1 text-xs" onClick={handleScan} disabled={isScanning} data-testid="button-scan-duplicates">
+          <RefreshCw className={`w-3 h-3 ${isScanning ? "animate-spin" : ""}`} />
+          {isScanning ? "Scanning..." : "Scan"}
+        </Button>
+      </div>
+
+      {isExpanded && pairs.map(pair => (
+        <div key={pair.id} className="border rounded-md p-3 space-y-3" data-testid={`duplicate-pair-${pair.id}`}>
+          <p className="text-xs">
+            <span className="font-bold">{Math.round(pair.score * 100)}%</span>
+            <span className="opacity-70"> · {pair.reasons.join(", ")}</span>
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <PlayerColumn summary={pair.playerA} />
+            <PlayerColumn summary={pair.playerB} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" variant="outline" className="text-xs" onClick={() => handleMerge(pair, pair.playerB, pair.playerA)} disabled={busyPairId === pair.id} data-testid={`button-keep-a-${pair.id}`}>
+              Keep {pair.playerA.player.uniqueCode}
+            </Button>
+            <Button size="sm" variant="outline" className="text-xs" onClick={() => handleMerge(pair, pair.playerA, pair.playerB)} disabled={busyPairId === pair.id} data-testid={`button-keep-b-${pair.id}`}>
+              Keep {pair.playerB.player.uniqueCode}
+            </Button>
+          </div>
+          <Button size="sm" variant="ghost" className="w-full text-xs" onClick={() => handleDismiss(pair)} disabled={busyPairId === pair.id} data-testid={`button-dismiss-duplicate-${pair.id}`}>
+            Not a duplicate
+          </Button>
+        </div>
+      ))}
+    </Card>
+  );
+}
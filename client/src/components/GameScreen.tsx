@@ -1,26 +1,40 @@
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { ChevronLeft, ChevronRight, Undo2 } from "lucide-react";
-import type { Player, HoleScore, SetupTime } from "@shared/schema";
-import { LEADER_ICON_URL, MAX_HOLES } from "@/lib/constants";
+import { AlertCircle, ChevronLeft, ChevronRight, CloudOff, RotateCcw, Undo2, X } from "lucide-react";
+import type { Player, HoleScore, SetupTime, HoleCard } from "@shared/schema";
+import { LEADER_ICON_URL } from "@/lib/constants";
 import { getScoreCallout } from "@/lib/game-utils";
 import { cn } from "@/lib/utils";
 import { DrawDialog } from "./DrawDialog";
 import { TableSetupDialog } from "./TableSetupDialog";
+import { PlayoffScoreCard } from "./PlayoffScoreCard";
 import { useTournament } from "@/contexts/TournamentContext";
 
+type HoleCardSummary = Pick<HoleCard, "id" | "name" | "par" | "diagram">;
+
+interface DeckDrawResult {
+  round: number;
+  hole: number;
+  position: number;
+  deckSize: number;
+  par: number;
+  holeCard: HoleCardSummary | null;
+}
+
 interface GameScreenProps {
   players: Player[];
   currentPlayer: Player;
   currentHole: number;
   holesCompleted: number;
+  holeCount: number;
   scores: Record<string, HoleScore[]>;
   isLeader: boolean;
   leftHandedMode?: boolean;
   onPreviousPlayer: () => void;
   onNextPlayer: () => void;
   onUpdateScore: (score: Partial<HoleScore>) => void;
+  onReplaceScore?: (playerId: string, hole: number, score: Partial<HoleScore>) => void;
   onNextCard: () => void;
   onUndo: () => void;
   canUndo: boolean;
@@ -33,12 +47,14 @@ export function GameScreen({
   currentPlayer,
   currentHole,
   holesCompleted,
+  holeCount,
   scores,
   isLeader,
   leftHandedMode = false,
   onPreviousPlayer,
   onNextPlayer,
   onUpdateScore,
+  onReplaceScore,
   onNextCard,
   onUndo,
   canUndo,
@@ -93,6 +109,30 @@ export function GameScreen({
     penalties: 0,
   };
 
+  // Tournaments with a course layout fix par for the holes it lists, so there is nothing to draw
+  const courseHole = tournament.isConnected
+    ? tournament.tournamentInfo?.courseLayout?.find(h => h.hole === currentHole)
+    : undefined;
+
+  // Library cards on the course carry a table diagram for the setup screen
+  const [holeCards, setHoleCards] = useState<HoleCardSummary[]>([]);
+  const courseCardIds = (tournament.tournamentInfo?.courseLayout ?? []).flatMap(h => h.holeCardId ? [h.holeCardId] : []).join(",");
+  useEffect(() => {
+    if (!tournament.roomCode || !courseCardIds) return;
+    fetch(`/api/tournaments/${tournament.roomCode}/hole-cards`)
+      .then(r => (r.ok ? r.json() : []))
+      .then(setHoleCards)
+      .catch(() => {});
+  }, [tournament.roomCode, courseCardIds]);
+  const courseHoleCard = courseHole?.holeCardId ? holeCards.find(c => c.id === courseHole.holeCardId) : undefined;
+
+  // A dealt deck gives every group the same card on a hole, so the server draws it instead of the players
+  const deckActive = tournament.isConnected && !!tournament.tournamentInfo?.deckDealt && !courseHole;
+  const [deckDraw, setDeckDraw] = useState<DeckDrawResult | null>(null);
+  const [deckError, setDeckError] = useState<string | null>(null);
+  const drawnCard = deckDraw?.hole === currentHole ? deckDraw : null;
+  const holeCard = courseHoleCard ?? drawnCard?.holeCard ?? undefined;
+
   const [par, setPar] = useState(currentScore.par || 0);
   const [strokes, setStrokes] = useState(currentScore.strokes || 0);
   const [scratches, setScratches] = useState(currentScore.scratches || 0);
@@ -104,13 +144,21 @@ export function GameScreen({
   // current player's score is a reliable proxy for whether par was drawn.
   // scores is intentionally omitted from deps: we only want this to fire
   // on hole/player transitions, not on every individual score keystroke.
+  // Holes on the course layout take the official par instead of the dialog,
+  // and a dealt deck takes the card the server draws.
   useEffect(() => {
     const existingPar = scores[currentPlayer.id]?.find((s) => s.hole === currentHole)?.par;
     if (!existingPar || existingPar === 0) {
-      setShowDrawDialog(true);
+      if (courseHole) {
+        handleDrawPar(courseHole.par);
+      } else if (deckActive) {
+        drawFromDeck();
+      } else {
+        setShowDrawDialog(true);
+      }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentHole, currentPlayer.id]);
+  }, [currentHole, currentPlayer.id, courseHole?.par, deckActive]);
 
   useEffect(() => {
     // Track player changes to avoid updating score during player switch
@@ -170,6 +218,27 @@ export function GameScreen({
     penalties: acc.penalties + score.penalties,
   }), { scratches: 0, strokes: 0, penalties: 0 });
 
+  // Another device (or the director) changed a hole this device also edited
+  const scoreConflict = tournament.scoreConflicts[0] ?? null;
+  const conflictPlayerName = scoreConflict
+    ? tournament.myPlayers.find(tp => tp.id === scoreConflict.tournamentPlayerId)?.playerName ?? "Player"
+    : "";
+
+  const formatConflictScore = (s: { par: number; strokes: number; scratches: number; penalties: number }) =>
+    `${s.strokes + s.scratches + s.penalties} total (${s.strokes} strokes, ${s.scratches} scratches, ${s.penalties} penalties) · par ${s.par}`;
+
+  const handleResolveConflict = (keep: "mine" | "server") => {
+    if (!scoreConflict) return;
+    if (keep === "server") {
+      const localPlayer = players.find(p => p.name.toLowerCase().trim() === conflictPlayerName.toLowerCase().trim());
+      if (localPlayer && onReplaceScore) {
+        const { par, strokes, scratches, penalties } = scoreConflict.current;
+        onReplaceScore(localPlayer.id, scoreConflict.hole, { hole: scoreConflict.hole, par, strokes, scratches, penalties });
+      }
+    }
+    tournament.resolveScoreConflict(scoreConflict, keep);
+  };
+
   const handleMercy = () => {
     if (par > 0) {
       setStrokes(par + 5);
@@ -177,11 +246,32 @@ export function GameScreen({
     }
   };
 
-  const handleDrawPar = (selectedPar: number) => {
+  const drawFromDeck = async () => {
+    setDeckError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${tournament.roomCode}/deck/draw`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deviceId: tournament.deviceId, hole: currentHole }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not draw from the deck");
+      }
+      const result: DeckDrawResult = await response.json();
+      setDeckDraw(result);
+      handleDrawPar(result.par, result.holeCard ?? undefined);
+    } catch (err) {
+      setDeckError(err instanceof Error ? err.message : "Could not draw from the deck");
+    }
+  };
+
+  const handleDrawPar = (selectedPar: number, card = holeCard) => {
     setPendingPar(selectedPar);
     setDrawConfirmTime(Date.now());
     setShowDrawDialog(false);
-    if (holesCompleted === 0) {
+    // The first hole skips setup unless there is a diagram to copy
+    if (holesCompleted === 0 && !card) {
       onSetParForAll(selectedPar);
       setPar(selectedPar);
     } else {
@@ -216,7 +306,7 @@ export function GameScreen({
   });
 
   const canAdvance = par > 0 && strokes > 0 && allPlayersHaveScores;
-  const isLastHole = holesCompleted >= MAX_HOLES - 1;
+  const isLastHole = holesCompleted >= holeCount - 1;
   const isLastPlayer = players.indexOf(currentPlayer) === players.length - 1;
   const isFinishingGame = isLastHole && isLastPlayer && allPlayersHaveScores;
 
@@ -228,6 +318,14 @@ export function GameScreen({
   
   const shooterInfo = `${shootersRemaining} shooter${shootersRemaining !== 1 ? "s" : ""} remaining`;
 
+  // A sudden-death playoff involving this device's players takes over the scoring screen
+  const playoffPlayers = tournament.playoff?.currentRound
+    ? tournament.myPlayers.filter(tp => tournament.playoff!.remainingPlayerIds.includes(tp.id))
+    : [];
+  if (playoffPlayers.length > 0) {
+    return <PlayoffScoreCard players={playoffPlayers} />;
+  }
+
   return (
     <div 
       className={cn("flex flex-col p-4 pb-4", leftHandedMode && "left-handed")}
@@ -286,11 +384,38 @@ export function GameScreen({
 
       <div className="h-0.5 mb-4" style={{ backgroundColor: currentPlayer.color }} />
 
+      {tournament.pendingScoreCount > 0 && (
+        <div className="flex items-center justify-center gap-2 mb-3 text-sm text-amber-600" data-testid="text-pending-sync">
+          <CloudOff className="w-4 h-4" />
+          {tournament.pendingScoreCount} score{tournament.pendingScoreCount === 1 ? "" : "s"} pending sync
+        </div>
+      )}
+
+      {/* Scores the server refused stay here until the scorer retries or discards them */}
+      {tournament.rejectedScores.map(rejection => (
+        <div
+          key={`${rejection.tournamentPlayerId}-${rejection.round}-${rejection.hole}`}
+          className="flex items-center gap-2 mb-3 rounded-md border border-destructive/50 bg-destructive/10 p-2 text-sm"
+          data-testid={`score-rejected-${rejection.tournamentPlayerId}-${rejection.hole}`}
+        >
+          <AlertCircle className="w-4 h-4 text-destructive shrink-0" />
+          <span className="flex-1">
+            {tournament.myPlayers.find(tp => tp.id === rejection.tournamentPlayerId)?.playerName ?? "Player"} hole {rejection.hole} not saved: {rejection.error}
+          </span>
+          <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={() => tournament.retryRejectedScore(rejection)} data-testid={`button-retry-rejected-${rejection.tournamentPlayerId}-${rejection.hole}`}>
+            <RotateCcw className="w-3 h-3" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={() => tournament.discardRejectedScore(rejection)} data-testid={`button-discard-rejected-${rejection.tournamentPlayerId}-${rejection.hole}`}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+
       {/* Hole & Shooters Remaining */}
       <div className="flex justify-between items-center mb-3">
         <div className="flex items-baseline gap-2">
           <div className="text-lg font-bold" data-testid="text-hole">Hole {currentHole}</div>
-          <div className="text-sm text-muted-foreground" data-testid="text-holes-progress">{holesCompleted}/{MAX_HOLES} played</div>
+          <div className="text-sm text-muted-foreground" data-testid="text-holes-progress">{holesCompleted}/{holeCount} played</div>
         </div>
         <div className="text-sm text-muted-foreground" data-testid="text-shooters-remaining">{shooterInfo}</div>
       </div>
@@ -301,6 +426,16 @@ export function GameScreen({
         <span className="text-base font-bold w-32 h-11 flex items-center px-3 rounded-md bg-muted" data-testid="text-par-display">
           {par > 0 ? par : "—"}
         </span>
+        {courseHole && (courseHole.cardId || courseHole.description) && (
+          <span className="text-sm text-muted-foreground truncate" data-testid="text-course-hole">
+            {[courseHole.cardId, courseHole.description].filter(Boolean).join(" · ")}
+          </span>
+        )}
+        {drawnCard && (
+          <span className="text-sm text-muted-foreground truncate" data-testid="text-deck-card">
+            {[`Card ${drawnCard.position} of ${drawnCard.deckSize}`, drawnCard.holeCard?.name].filter(Boolean).join(" · ")}
+          </span>
+        )}
         {par > 0 && strokes >= par + 5 && (
           <Button
             variant="outline"
@@ -398,7 +533,7 @@ export function GameScreen({
           >
             {isFinishingGame ? "Finish Game" : "Next Card"}
           </Button>
-          {par === 0 && (
+          {par === 0 && !courseHole && !deckActive && (
             <button
               className="text-xs text-muted-foreground underline-offset-2 hover:underline"
               onClick={() => setShowDrawDialog(true)}
@@ -407,6 +542,15 @@ export function GameScreen({
               Set par to continue
             </button>
           )}
+          {par === 0 && deckActive && deckError && (
+            <button
+              className="text-xs text-destructive underline-offset-2 hover:underline"
+              onClick={drawFromDeck}
+              data-testid="button-retry-deck-draw"
+            >
+              {deckError} — tap to draw again
+            </button>
+          )}
         </div>
       </div>
 
@@ -420,6 +564,7 @@ export function GameScreen({
         <TableSetupDialog
           hole={currentHole}
           par={pendingPar}
+          card={holeCard}
           onConfirm={handleTableReady}
         />
       )}
@@ -452,6 +597,40 @@ export function GameScreen({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!scoreConflict}>
+        <DialogContent className="sm:max-w-sm [&>button]:hidden">
+          <DialogHeader>
+            <DialogTitle>Score Changed Elsewhere</DialogTitle>
+            <DialogDescription className="pt-2">
+              {conflictPlayerName}'s hole {scoreConflict?.hole} was updated on another device before this one synced. Which score should count?
+            </DialogDescription>
+          </DialogHeader>
+          {scoreConflict && (
+            <div className="space-y-2 text-sm">
+              <div className="rounded-md border p-3" data-testid="text-conflict-mine">
+                <div className="font-semibold">This device</div>
+                <div className="text-muted-foreground">{formatConflictScore(scoreConflict.attempted)}</div>
+              </div>
+              <div className="rounded-md border p-3" data-testid="text-conflict-server">
+                <div className="font-semibold">Saved on server</div>
+                <div className="text-muted-foreground">{formatConflictScore(scoreConflict.current)}</div>
+              </div>
+              {tournament.scoreConflicts.length > 1 && (
+                <p className="text-xs text-muted-foreground">{tournament.scoreConflicts.length - 1} more to review</p>
+              )}
+            </div>
+          )}
+          <DialogFooter className="flex gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => handleResolveConflict("server")} data-testid="button-conflict-use-server">
+              Use Server Score
+            </Button>
+            <Button onClick={() => handleResolveConflict("mine")} data-testid="button-conflict-keep-mine">
+              Keep Mine
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
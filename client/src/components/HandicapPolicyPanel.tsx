@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { Target } from "lucide-react";
+import type { HandicapPolicy } from "@shared/schema";
+
+interface HandicapPolicyPanelProps {
+  directorPin: string;
+}
+
+// Number inputs are kept as text while editing; blank means "none" for the nullable fields
+interface PolicyForm {
+  recentRounds: string;
+  bestRounds: string;
+  normalizeTo18: boolean;
+  maxIncrease: string;
+  provisionalRounds: string;
+  provisionalBestRounds: string;
+  capProvisional: boolean;
+}
+
+const toForm = (policy: HandicapPolicy): PolicyForm => ({
+  recentRounds: String(policy.recentRounds),
+  bestRounds: String(policy.bestRounds),
+  normalizeTo18: policy.normalizeTo18,
+  maxIncrease: policy.maxIncrease === null ? "" : String(policy.maxIncrease),
+  provisionalRounds: String(policy.provisionalRounds),
+  provisionalBestRounds: policy.provisionalBestRounds === null ? "" : String(policy.provisionalBestRounds),
+  capProvisional: policy.capProvisional,
+});
+
+const toPolicy = (form: PolicyForm): HandicapPolicy => ({
+  recentRounds: parseInt(form.recentRounds),
+  bestRounds: parseInt(form.bestRounds),
+  normalizeTo18: form.normalizeTo18,
+  maxIncrease: form.maxIncrease.trim() ? parseFloat(form.maxIncrease) : null,
+  provisionalRounds: parseInt(form.provisionalRounds),
+  provisionalBestRounds: form.provisionalBestRounds.trim() ? parseInt(form.provisionalBestRounds) : null,
+  capProvisional: form.capProvisional,
+});
+
+export function HandicapPolicyPanel({ directorPin }: HandicapPolicyPanelProps) {
+  const [form, setForm] = useState<PolicyForm | null>(null);
+  const [defaults, setDefaults] = useState<HandicapPolicy | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadPolicy = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/handicap-policy?directorPin=${encodeURIComponent(directorPin)}`);
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not load the handicap policy");
+      }
+      const data = await response.json();
+      setForm(toForm(data.policy));
+      setDefaults(data.defaults);
+    } catch (error) {
+      console.error("Failed to load handicap policy:", error);
+      toast({ title: "Could not load the handicap policy", variant: "destructive" });
+    }
+  }, [directorPin, toast]);
+
+  useEffect(() => {
+    loadPolicy();
+  }, [loadPolicy]);
+
+  const update = (change: Partial<PolicyForm>) => setForm(prev => (prev ? { ...prev, ...change } : prev));
+
+  const handleSave = async (recalculate: boolean) => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/handicap-policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, policy: toPolicy(form), recalculate }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not save the handicap policy");
+      }
+      const data = await response.json();
+      setForm(toForm(data.policy));
+      toast({
+        title: "Handicap policy saved",
+        description: recalculate ? `Recalculated handicaps for ${data.recalculated} players` : "New results will use it",
+      });
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not save the handicap policy", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!form) return null;
+
+  const numberField = (id: keyof PolicyForm, label: string, hint?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`handicap-${id}`} className="text-xs">{label}</Label>
+      <Input
+        id={`handicap-${id}`}
+        type="number"
+        min={0}
+        className="h-8"
+        value={form[id] as string}
+        placeholder={hint}
+        onChange={(e) => update({ [id]: e.target.value })}
+        data-testid={`input-handicap-${id}`}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="p-4 space-y-4" data-testid="handicap-policy-panel">
+      <div className="flex items-center gap-2 font-semibold">
+        <Target className="w-4 h-4" />
+        <span>Handicap Policy</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {numberField("bestRounds", "Best rounds counted")}
+        {numberField("recentRounds", "Of the most recent")}
+        {numberField("maxIncrease", "Max rise above past-year low", "No cap")}
+        {numberField("provisionalRounds", "Rounds to lose provisional")}
+        {numberField("provisionalBestRounds", "Provisional: best rounds", "All rounds")}
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <Switch checked={form.normalizeTo18} onCheckedChange={(checked) => update({ normalizeTo18: checked })} data-testid="switch-handicap-normalize" />
+        Scale each round to 18 holes
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <Switch checked={form.capProvisional} onCheckedChange={(checked) => update({ capProvisional: checked })} data-testid="switch-handicap-cap-provisional" />
+        Cap provisional handicaps too
+      </label>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => handleSave(false)} disabled={isSaving} data-testid="button-save-handicap-policy">
+          Save
+        </Button>
+        <Button className="flex-1" onClick={() => handleSave(true)} disabled={isSaving} data-testid="button-save-recalculate-handicaps">
+          {isSaving ? "Saving..." : "Save & Recalculate All"}
+        </Button>
+      </div>
+      {defaults && (
+        <button
+          className="text-xs text-muted-foreground underline-offset-2 hover:underline"
+          onClick={() => setForm(toForm(defaults))}
+          data-testid="button-handicap-policy-defaults"
+        >
+          Reset to defaults
+        </button>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { HandicapRevision, HandicapRevisionReason } from "@shared/schema";
+
+// The public profile endpoint leaves out the director id
+type TrendRevision = Omit<HandicapRevision, "actorDirectorId" | "createdAt"> & { createdAt: string | Date };
+
+interface HandicapTrendChartProps {
+  revisions: TrendRevision[];
+}
+
+const REASON_LABELS: Record<HandicapRevisionReason, string> = {
+  tournament_completion: "Tournament completed",
+  history_edit: "History edited",
+  merge: "Profiles merged",
+  manual_override: "Set by a director",
+  bulk_recalculation: "Recalculated for everyone",
+};
+
+export const describeRevisionReason = (reason: string) =>
+  REASON_LABELS[reason as HandicapRevisionReason] ?? reason;
+
+const chartConfig = {
+  handicap: { label: "Handicap", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+export function HandicapTrendChart({ revisions }: HandicapTrendChartProps) {
+  // A cleared handicap leaves a gap in the line rather than dropping to zero
+  const data = revisions.map(revision => ({
+    date: new Date(revision.createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+    handicap: revision.handicap,
+    detail: `${describeRevisionReason(revision.reason)}${revision.isProvisional ? " (provisional)" : ""}${revision.actorName ? ` · ${revision.actorName}` : ""}`,
+  }));
+
+  if (data.length === 0) {
+    return <p className="text-xs text-muted-foreground text-center py-4">No handicap changes recorded yet</p>;
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className="h-40 w-full" data-testid="chart-handicap-trend">
+      <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="date" tickLine={false} axisLine={false} fontSize={10} />
+        <YAxis tickLine={false} axisLine={false} fontSize={10} allowDecimals />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(label, payload) => (
+                <div>
+                  <div>{label}</div>
+                  <div className="font-normal text-muted-foreground">{payload[0]?.payload?.detail}</div>
+                </div>
+              )}
+            />
+          }
+        />
+        <Line type="monotone" dataKey="handicap" stroke="var(--color-handicap)" strokeWidth={2} dot={{ r: 3 }} connectNulls={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,27 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HOLE_COUNT_OPTIONS } from "@/lib/constants";
+import { cn } from "@/lib/utils";
+
+interface HoleCountSelectProps {
+  holeCount: number;
+  onChange: (holeCount: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function HoleCountSelect({ holeCount, onChange, disabled, className }: HoleCountSelectProps) {
+  // Keep an unusual count set through the API selectable alongside the presets
+  const options = Array.from(new Set([...HOLE_COUNT_OPTIONS, holeCount])).sort((a, b) => a - b);
+  return (
+    <Select value={String(holeCount)} onValueChange={(v) => onChange(Number(v))} disabled={disabled}>
+      <SelectTrigger className={cn("h-8 w-auto gap-2 text-xs", className)} data-testid="select-hole-count">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(count => (
+          <SelectItem key={count} value={String(count)}>{count} holes</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { allocateHandicapStrokes, type HoleDifficulty, type HoleDifficultyGrouping, type HoleDifficultyScope } from "@shared/schema";
+import { getScoreCallout } from "@/lib/game-utils";
+import { cn } from "@/lib/utils";
+
+interface HoleDifficultyPanelProps {
+  roomCode: string;
+  directorPin: string;
+}
+
+const formatToPar = (value: number) => (value > 0 ? `+${value.toFixed(2)}` : value.toFixed(2));
+
+// Callout buckets, best score first
+const describeDistribution = (distribution: Record<number, number>) =>
+  Object.keys(distribution)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map(diff => `${getScoreCallout(diff, 0)} ${distribution[diff]}`)
+    .join(" · ");
+
+export function HoleDifficultyPanel({ roomCode, directorPin }: HoleDifficultyPanelProps) {
+  const [scope, setScope] = useState<HoleDifficultyScope>("tournament");
+  const [groupBy, setGroupBy] = useState<HoleDifficultyGrouping>("hole");
+  const [holes, setHoles] = useState<HoleDifficulty[]>([]);
+  const [tournamentCount, setTournamentCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [handicap, setHandicap] = useState("");
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/tournaments/${roomCode}/hole-difficulty?directorPin=${encodeURIComponent(directorPin)}&scope=${scope}&by=${groupBy}`)
+      .then(async r => {
+        if (!r.ok) {
+          const err = await r.json().catch(() => ({}));
+          throw new Error(err.error || "Could not load hole difficulty");
+        }
+        return r.json();
+      })
+      .then(data => {
+        setHoles(data.holes);
+        setTournamentCount(data.tournamentCount);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Could not load hole difficulty"))
+      .finally(() => setIsLoading(false));
+  }, [roomCode, directorPin, scope, groupBy]);
+
+  // Preview how a handicap's strokes fall across the holes using this stroke index
+  const parsedHandicap = parseFloat(handicap);
+  const allocation = groupBy === "hole" && !isNaN(parsedHandicap)
+    ? allocateHandicapStrokes(parsedHandicap, holes.map(h => h.strokeIndex))
+    : null;
+
+  return (
+    <div className="space-y-2 text-sm" data-testid="panel-hole-difficulty">
+      <div className="flex gap-2">
+        <Select value={scope} onValueChange={(v) => setScope(v as HoleDifficultyScope)}>
+          <SelectTrigger className="h-8 text-xs" data-testid="select-difficulty-scope">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="tournament">This tournament</SelectItem>
+            <SelectItem value="completed">Completed events</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={groupBy} onValueChange={(v) => setGroupBy(v as HoleDifficultyGrouping)}>
+          <SelectTrigger className="h-8 text-xs" data-testid="select-difficulty-grouping">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="hole">By hole</SelectItem>
+            <SelectItem value="card">By card</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {scope === "completed" && !isLoading && (
+        <p className="text-xs opacity-60">{tournamentCount} completed {tournamentCount === 1 ? "tournament" : "tournaments"}</p>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      {!error && !isLoading && holes.length === 0 && (
+        <p className="text-xs text-muted-foreground text-center py-4">
+          {groupBy === "card" ? "No scores on course or deck cards yet" : "No scores yet"}
+        </p>
+      )}
+      {holes.length > 0 && (
+        <table className={cn("w-full text-xs", isLoading && "opacity-50")}>
+          <thead>
+            <tr className="text-left opacity-60">
+              <th className="font-medium py-1 w-8" title="Stroke index (1 is the hardest)">SI</th>
+              <th className="font-medium py-1">{groupBy === "hole" ? "Hole" : "Card"}</th>
+              <th className="font-medium py-1 text-right">Avg</th>
+              <th className="font-medium py-1 text-right">Scratch</th>
+              {allocation && <th className="font-medium py-1 text-right">Strokes</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {holes.map((entry, i) => (
+              <tr key={entry.key} className="border-t align-top" data-testid={`row-difficulty-${entry.key}`}>
+                <td className="py-1 font-bold">{entry.strokeIndex}</td>
+                <td className="py-1">
+                  <div>{entry.label} <span className="opacity-60">· par {entry.averagePar} · {entry.scoreCount} scores</span></div>
+                  <div className="opacity-60">{describeDistribution(entry.distribution)}</div>
+                </td>
+                <td className="py-1 text-right font-mono">{formatToPar(entry.averageToPar)}</td>
+                <td className="py-1 text-right">{Math.round(entry.scratchRate * 100)}%</td>
+                {allocation && <td className="py-1 text-right font-mono">{allocation[i]}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {groupBy === "hole" && holes.length > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs opacity-70">Strokes for handicap</span>
+          <Input
+            type="number"
+            step="0.1"
+            className="h-7 w-20 text-xs"
+            value={handicap}
+            onChange={(e) => setHandicap(e.target.value)}
+            data-testid="input-difficulty-handicap"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
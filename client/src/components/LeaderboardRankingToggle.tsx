@@ -0,0 +1,115 @@
+import type { LeaderboardEntry, LeaderboardRanking, TieBreakRule } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface LeaderboardRankingToggleProps {
+  ranking: LeaderboardRanking;
+  onChange: (ranking: LeaderboardRanking) => void;
+  className?: string;
+}
+
+export function LeaderboardRankingToggle({ ranking, onChange, className }: LeaderboardRankingToggleProps) {
+  return (
+    <div className={cn("inline-flex rounded-md border p-0.5 text-xs", className)}>
+      {(["gross", "net"] as const).map(opt => (
+        <button
+          key={opt}
+          type="button"
+          onClick={() => onChange(opt)}
+          className={cn(
+            "px-2 py-0.5 rounded capitalize",
+            ranking === opt ? "bg-primary text-primary-foreground" : "opacity-60 hover:opacity-100"
+          )}
+          data-testid={`button-ranking-${opt}`}
+        >
+          {opt}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface LeaderboardRoundToggleProps {
+  round: number | null;
+  currentRound: number;
+  onChange: (round: number | null) => void;
+  className?: string;
+}
+
+// Cumulative standings ("Total") or a single round played so far
+export function LeaderboardRoundToggle({ round, currentRound, onChange, className }: LeaderboardRoundToggleProps) {
+  const options = [null, ...Array.from({ length: currentRound }, (_, i) => i + 1)];
+  return (
+    <div className={cn("inline-flex rounded-md border p-0.5 text-xs", className)}>
+      {options.map(opt => (
+        <button
+          key={opt ?? "total"}
+          type="button"
+          onClick={() => onChange(opt)}
+          className={cn(
+            "px-2 py-0.5 rounded",
+            round === opt ? "bg-primary text-primary-foreground" : "opacity-60 hover:opacity-100"
+          )}
+          data-testid={`button-leaderboard-round-${opt ?? "total"}`}
+        >
+          {opt === null ? "Total" : `R${opt}`}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface LeaderboardDivisionToggleProps {
+  division: number | null;
+  divisions: { id: number; name: string }[];
+  onChange: (divisionId: number | null) => void;
+  className?: string;
+}
+
+// The whole field ("All") or one flight/division, each ranked on its own
+export function LeaderboardDivisionToggle({ division, divisions, onChange, className }: LeaderboardDivisionToggleProps) {
+  const options = [{ id: null, name: "All" }, ...divisions];
+  return (
+    <div className={cn("inline-flex flex-wrap rounded-md border p-0.5 text-xs", className)}>
+      {options.map(opt => (
+        <button
+          key={opt.id ?? "all"}
+          type="button"
+          onClick={() => onChange(opt.id)}
+          className={cn(
+            "px-2 py-0.5 rounded",
+            division === opt.id ? "bg-primary text-primary-foreground" : "opacity-60 hover:opacity-100"
+          )}
+          data-testid={`button-leaderboard-division-${opt.id ?? "all"}`}
+        >
+          {opt.name}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function getRankedRelativeToPar(entry: LeaderboardEntry, ranking: LeaderboardRanking): number {
+  return ranking === "net" ? entry.netRelativeToPar : entry.relativeToPar;
+}
+
+const TIE_BREAK_LABELS: Record<TieBreakRule, string> = {
+  countback_9: "Split on last 9 holes",
+  countback_6: "Split on last 6 holes",
+  countback_3: "Split on last 3 holes",
+  countback_1: "Split on last hole",
+  fewest_scratches: "Split on fewest scratches",
+  fewest_penalties: "Split on fewest penalties",
+  playoff: "Decided in playoff",
+  shared: "Tied",
+};
+
+export function describeTieBreak(rule: TieBreakRule): string {
+  return TIE_BREAK_LABELS[rule];
+}
+
+// "T3" when another player holds the same position; "MC" for a missed cut in the cumulative view
+export function formatLeaderboardPosition(entry: LeaderboardEntry, leaderboard: LeaderboardEntry[], round: number | null = null): string {
+  if (round === null && entry.cutAfterRound !== null) return "MC";
+  const isShared = leaderboard.some(e => e.playerId !== entry.playerId && e.position === entry.position);
+  return isShared ? `T${entry.position}` : String(entry.position);
+}
@@ -6,8 +6,9 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Send, CheckCircle, AlertCircle, Zap, Loader2, User, Users, Bell, BellOff, Clock, Search, ShieldAlert, X, Inbox, Timer, ArrowDownCircle, ArrowUpDown } from "lucide-react";
+import { Send, CheckCircle, AlertCircle, Zap, Loader2, User, Users, Bell, BellOff, Clock, Search, ShieldAlert, X, Inbox, Timer, ArrowDownCircle, ArrowUpDown, ShieldCheck, RotateCcw, SlidersHorizontal, LockKeyhole } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
@@ -61,14 +62,27 @@ interface SentNotification {
 
 interface CheatAlert {
   id: number;
-  roomCode: string;
+  roomCode: string | null;
   playerName: string;
-  hole: number;
-  par: number;
-  scratches: number;
+  hole: number | null;
+  par: number | null;
+  scratches: number | null;
   alertType: string;
   message: string;
-  timestamp: string;
+  status: "open" | "confirmed" | "dismissed";
+  reviewNote: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+interface CheatRules {
+  parWithScratch: boolean;
+  belowParWithScratch: boolean;
+  scoreReduction: boolean;
+  rapidScoring: boolean;
+  rapidScoringWindowSeconds: number;
+  rapidScoringMinScores: number;
 }
 
 const PRESET_TEMPLATES: PresetTemplate[] = [
@@ -168,48 +182,203 @@ function applyLeaderboardData(template: string, leaderboard: LeaderboardEntry[])
 }
 
 type AlertSortField = "time" | "player" | "type";
+type AlertStatusFilter = "open" | "confirmed" | "dismissed" | "all";
+
+const ALERT_STATUS_STYLES: Record<CheatAlert["status"], { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-amber-500/15 text-amber-700 dark:text-amber-400" },
+  confirmed: { label: "Confirmed", className: "bg-red-500/15 text-red-700 dark:text-red-400" },
+  dismissed: { label: "Dismissed", className: "bg-muted text-muted-foreground" },
+};
+
+function CheatRulesCard({ directorPin }: { directorPin: string }) {
+  const [roomCode, setRoomCode] = useState<string>("");
+  const [draft, setDraft] = useState<CheatRules | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  const { data: tournaments = [] } = useQuery<Tournament[]>({
+    queryKey: ["/api/tournaments", directorPin],
+    queryFn: async () => {
+      const res = await fetch(`/api/tournaments?directorPin=${directorPin}`);
+      if (!res.ok) throw new Error("Failed to load tournaments");
+      return res.json();
+    },
+  });
+
+  const activeTournaments = tournaments.filter((t) => t.isActive);
+
+  useEffect(() => {
+    if (!roomCode && activeTournaments.length > 0) {
+      setRoomCode(activeTournaments[0].roomCode);
+    }
+  }, [activeTournaments.length]);
+
+  const { data: rulesData } = useQuery<{ rules: CheatRules; defaults: CheatRules }>({
+    queryKey: ["/api/tournaments", roomCode, "cheat-rules", directorPin],
+    queryFn: async () => {
+      const res = await fetch(`/api/tournaments/${roomCode}/cheat-rules?directorPin=${encodeURIComponent(directorPin)}`);
+      if (!res.ok) throw new Error("Failed to load rules");
+      return res.json();
+    },
+    enabled: !!roomCode,
+  });
+
+  useEffect(() => {
+    if (rulesData) setDraft(rulesData.rules);
+  }, [rulesData]);
+
+  const handleSave = async () => {
+    if (!draft || !roomCode) return;
+    setSaving(true);
+    setSaved(false);
+    try {
+      await apiRequest("PUT", `/api/tournaments/${roomCode}/cheat-rules`, { directorPin, rules: draft });
+      queryClient.invalidateQueries({ queryKey: ["/api/tournaments", roomCode, "cheat-rules"] });
+      setSaved(true);
+    } catch {
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (activeTournaments.length === 0) return null;
+
+  const toggles: { key: keyof CheatRules; label: string }[] = [
+    { key: "parWithScratch", label: "Par with scratches" },
+    { key: "belowParWithScratch", label: "Below par with scratches" },
+    { key: "scoreReduction", label: "Score reductions" },
+    { key: "rapidScoring", label: "Rapid scoring" },
+  ];
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Detection Rules
+        </h3>
+        <Select value={roomCode} onValueChange={(v) => { setRoomCode(v); setDraft(null); setSaved(false); }}>
+          <SelectTrigger className="w-48" data-testid="select-cheat-rules-tournament">
+            <SelectValue placeholder="Tournament" />
+          </SelectTrigger>
+          <SelectContent>
+            {activeTournaments.map((t) => (
+              <SelectItem key={t.roomCode} value={t.roomCode}>{t.name} ({t.roomCode})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {!draft ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          {toggles.map(({ key, label }) => (
+            <div key={key} className="flex items-center justify-between">
+              <Label htmlFor={`rule-${key}`} className="text-sm font-normal">{label}</Label>
+              <Switch
+                id={`rule-${key}`}
+                checked={draft[key] as boolean}
+                onCheckedChange={(checked) => { setDraft({ ...draft, [key]: checked }); setSaved(false); }}
+                data-testid={`switch-rule-${key}`}
+              />
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Rapid window (seconds)</Label>
+              <Input
+                type="number"
+                min={10}
+                max={3600}
+                value={draft.rapidScoringWindowSeconds}
+                onChange={(e) => { setDraft({ ...draft, rapidScoringWindowSeconds: parseInt(e.target.value) || 0 }); setSaved(false); }}
+                disabled={!draft.rapidScoring}
+                data-testid="input-rule-rapid-window"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Scores in window</Label>
+              <Input
+                type="number"
+                min={2}
+                max={18}
+                value={draft.rapidScoringMinScores}
+                onChange={(e) => { setDraft({ ...draft, rapidScoringMinScores: parseInt(e.target.value) || 0 }); setSaved(false); }}
+                disabled={!draft.rapidScoring}
+                data-testid="input-rule-rapid-count"
+              />
+            </div>
+          </div>
+          <Button size="sm" className="w-full" onClick={handleSave} disabled={saving} data-testid="button-save-cheat-rules">
+            {saving ? "Saving..." : saved ? "Saved" : "Save Rules"}
+          </Button>
+        </>
+      )}
+    </Card>
+  );
+}
 
 function ReceivedPane({ directorPin }: { directorPin: string }) {
   const { data: alerts = [], isLoading } = useQuery<CheatAlert[]>({
-    queryKey: ["/api/alerts", directorPin],
+    queryKey: ["/api/alerts", directorPin, "all"],
     queryFn: async () => {
-      const res = await fetch(`/api/alerts?directorPin=${encodeURIComponent(directorPin)}`);
+      const res = await fetch(`/api/alerts?directorPin=${encodeURIComponent(directorPin)}&status=all`);
       if (!res.ok) return [];
       return res.json();
     },
     refetchInterval: 10000,
   });
 
-  const [dismissing, setDismissing] = useState<number | null>(null);
+  const [updating, setUpdating] = useState<number | null>(null);
   const [sortField, setSortField] = useState<AlertSortField>("time");
+  const [statusFilter, setStatusFilter] = useState<AlertStatusFilter>("open");
+  const [reviewing, setReviewing] = useState<{ id: number; status: "confirmed" | "dismissed" } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
 
-  const sortedAlerts = [...alerts].sort((a, b) => {
+  const filteredAlerts = statusFilter === "all" ? alerts : alerts.filter((a) => a.status === statusFilter);
+
+  const sortedAlerts = [...filteredAlerts].sort((a, b) => {
     if (sortField === "player") {
       const cmp = a.playerName.localeCompare(b.playerName);
-      return cmp !== 0 ? cmp : new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+      return cmp !== 0 ? cmp : new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     }
     if (sortField === "type") {
       const cmp = a.alertType.localeCompare(b.alertType);
-      return cmp !== 0 ? cmp : new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+      return cmp !== 0 ? cmp : new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
     }
-    return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
   });
 
-  const handleDismiss = async (id: number) => {
-    setDismissing(id);
+  const handleReview = async (id: number, status: CheatAlert["status"], note?: string) => {
+    setUpdating(id);
     try {
-      await apiRequest("POST", `/api/alerts/${id}/dismiss`, { directorPin });
+      await apiRequest("POST", `/api/alerts/${id}/review`, { directorPin, status, note });
       queryClient.invalidateQueries({ queryKey: ["/api/alerts", directorPin] });
+      setReviewing(null);
+      setReviewNote("");
     } catch {
     } finally {
-      setDismissing(null);
+      setUpdating(null);
     }
   };
 
   return (
     <div className="p-4 space-y-4">
       {!isLoading && alerts.length > 0 && (
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-2 flex-wrap">
+          <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as AlertStatusFilter)}>
+            <SelectTrigger className="w-36" data-testid="select-alert-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="confirmed">Confirmed</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+              <SelectItem value="all">All History</SelectItem>
+            </SelectContent>
+          </Select>
           <ArrowUpDown className="w-4 h-4 text-muted-foreground flex-shrink-0" />
           <Select value={sortField} onValueChange={(v) => setSortField(v as AlertSortField)}>
             <SelectTrigger className="w-40" data-testid="select-alert-sort">
@@ -230,14 +399,14 @@ function ReceivedPane({ directorPin }: { directorPin: string }) {
         </div>
       )}
 
-      {!isLoading && alerts.length === 0 && (
+      {!isLoading && sortedAlerts.length === 0 && (
         <Card className="p-6">
           <div className="flex flex-col items-center text-center gap-3">
             <Inbox className="w-10 h-10 text-muted-foreground" />
             <div>
-              <p className="font-medium">No alerts</p>
+              <p className="font-medium">{statusFilter === "open" || alerts.length === 0 ? "No alerts" : "No alerts with this status"}</p>
               <p className="text-sm text-muted-foreground">
-                Cheat detection alerts will appear here when suspicious scores are submitted.
+                Cheat detection alerts will appear here when suspicious scores are submitted or a PIN is locked out.
               </p>
             </div>
           </div>
@@ -250,14 +419,17 @@ function ReceivedPane({ directorPin }: { directorPin: string }) {
           below_par_with_scratch: { icon: AlertCircle, color: "text-red-500", label: "Highly Suspicious" },
           rapid_scoring: { icon: Timer, color: "text-orange-500", label: "Rapid Scoring" },
           score_reduction: { icon: ArrowDownCircle, color: "text-blue-500", label: "Score Reduced" },
+          login_lockout: { icon: LockKeyhole, color: "text-purple-500", label: "PIN Lockout" },
         };
         const config = alertConfig[alert.alertType] || alertConfig.par_with_scratch;
         const AlertIcon = config.icon;
+        const statusStyle = ALERT_STATUS_STYLES[alert.status] || ALERT_STATUS_STYLES.open;
+        const isReviewing = reviewing?.id === alert.id;
 
         return (
           <Card
             key={alert.id}
-            className="p-4"
+            className={cn("p-4", alert.status === "dismissed" && "opacity-70")}
             data-testid={`alert-${alert.id}`}
           >
             <div className="flex items-start gap-3">
@@ -265,34 +437,97 @@ function ReceivedPane({ directorPin }: { directorPin: string }) {
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2">
                   <p className="font-semibold text-sm">{config.label}</p>
+                  <span className={cn("text-xs px-1.5 py-0.5 rounded", statusStyle.className)} data-testid={`text-alert-status-${alert.id}`}>
+                    {statusStyle.label}
+                  </span>
                 </div>
                 <p className="text-sm mt-1">
                   <span className="font-medium">{alert.playerName}</span> &mdash; {alert.message}
                 </p>
                 <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground flex-wrap">
-                  <span>Room: {alert.roomCode}</span>
-                  <span>Hole {alert.hole}</span>
-                  <span>{new Date(alert.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</span>
+                  {alert.roomCode && <span>Room: {alert.roomCode}</span>}
+                  {alert.hole != null && <span>Hole {alert.hole}</span>}
+                  <span>{new Date(alert.createdAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}</span>
                 </div>
-              </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => handleDismiss(alert.id)}
-                disabled={dismissing === alert.id}
-                data-testid={`button-dismiss-alert-${alert.id}`}
-              >
-                {dismissing === alert.id ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : (
-                  <X className="w-4 h-4" />
+                {alert.status !== "open" && (
+                  <p className="text-xs text-muted-foreground mt-2 border-l-2 pl-2">
+                    {statusStyle.label}
+                    {alert.reviewedBy ? ` by ${alert.reviewedBy}` : ""}
+                    {alert.reviewedAt ? ` · ${new Date(alert.reviewedAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}` : ""}
+                    {alert.reviewNote && <span className="block text-foreground mt-0.5">{alert.reviewNote}</span>}
+                  </p>
                 )}
-              </Button>
+                {isReviewing && (
+                  <div className="mt-3 space-y-2">
+                    <Textarea
+                      value={reviewNote}
+                      onChange={(e) => setReviewNote(e.target.value)}
+                      placeholder="Review note (optional)"
+                      rows={2}
+                      data-testid={`input-alert-note-${alert.id}`}
+                    />
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => { setReviewing(null); setReviewNote(""); }}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={reviewing.status === "confirmed" ? "destructive" : "default"}
+                        onClick={() => handleReview(alert.id, reviewing.status, reviewNote)}
+                        disabled={updating === alert.id}
+                        data-testid={`button-submit-review-${alert.id}`}
+                      >
+                        {updating === alert.id ? <Loader2 className="w-4 h-4 animate-spin" /> : reviewing.status === "confirmed" ? "Confirm" : "Dismiss"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+              {!isReviewing && (
+                <div className="flex items-center gap-0.5 flex-shrink-0">
+                  {alert.status === "open" ? (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-red-600"
+                        title="Confirm"
+                        onClick={() => { setReviewing({ id: alert.id, status: "confirmed" }); setReviewNote(""); }}
+                        data-testid={`button-confirm-alert-${alert.id}`}
+                      >
+                        <ShieldCheck className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Dismiss"
+                        onClick={() => { setReviewing({ id: alert.id, status: "dismissed" }); setReviewNote(""); }}
+                        data-testid={`button-dismiss-alert-${alert.id}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Reopen"
+                      onClick={() => handleReview(alert.id, "open")}
+                      disabled={updating === alert.id}
+                      data-testid={`button-reopen-alert-${alert.id}`}
+                    >
+                      {updating === alert.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           </Card>
         );
       })}
 
+      <CheatRulesCard directorPin={directorPin} />
+
       <Card className="p-4">
         <h3 className="font-semibold mb-2">Alert Types</h3>
         <ul className="text-sm text-muted-foreground space-y-2">
@@ -306,14 +541,14 @@ function ReceivedPane({ directorPin }: { directorPin: string }) {
           </li>
           <li className="flex items-start gap-2">
             <Timer className="w-4 h-4 text-orange-500 flex-shrink-0 mt-0.5" />
-            <span><span className="font-medium text-foreground">Rapid Scoring</span> &mdash; 3+ holes submitted within 2 minutes.</span>
+            <span><span className="font-medium text-foreground">Rapid Scoring</span> &mdash; Several holes submitted within the tournament's rapid-scoring window.</span>
           </li>
           <li className="flex items-start gap-2">
             <ArrowDownCircle className="w-4 h-4 text-blue-500 flex-shrink-0 mt-0.5" />
             <span><span className="font-medium text-foreground">Score Reduced</span> &mdash; A previously submitted score was lowered.</span>
           </li>
         </ul>
-        <p className="text-xs text-muted-foreground mt-3">Alerts refresh automatically every 10 seconds. Dismiss after reviewing.</p>
+        <p className="text-xs text-muted-foreground mt-3">Alerts refresh automatically every 10 seconds. Confirm or dismiss each one after reviewing; reviewed alerts stay in the history.</p>
       </Card>
     </div>
   );
@@ -6,6 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Card } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 import { DollarSign, Minus, Plus, GripVertical, Save, Loader2, Check } from "lucide-react";
+import { allocatePlaceAmounts, calculatePrizePool, type TournamentDivision } from "@shared/schema";
+import { PayoutResultsPanel } from "./PayoutResultsPanel";
 
 const PLACE_COLORS = [
   "bg-yellow-500",
@@ -180,10 +182,14 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Each division keeps its own payout; null is the payout for the whole field
+  const [divisions, setDivisions] = useState<TournamentDivision[]>([]);
+  const [divisionId, setDivisionId] = useState<number | null>(null);
+  // Bumped on save so the payout sheet re-reads the config it is built from
+  const [savedVersion, setSavedVersion] = useState(0);
 
-  const netEntryPerPlayer = Math.max(0, entryFee - greenFee);
   const totalGreenFee = numPlayers * greenFee;
-  const totalPrizePool = numPlayers * netEntryPerPlayer + addedPrize;
+  const totalPrizePool = calculatePrizePool({ numPlayers, entryFee, greenFee, addedPrize });
 
   useEffect(() => {
     if (linkedRoomCode) {
@@ -191,10 +197,21 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
     }
   }, [linkedRoomCode]);
 
+  useEffect(() => {
+    setDivisions([]);
+    setDivisionId(null);
+    if (!selectedRoomCode || selectedRoomCode === "none") return;
+    fetch(`/api/tournaments/${selectedRoomCode}/divisions`)
+      .then(r => (r.ok ? r.json() : []))
+      .then(setDivisions)
+      .catch(() => {});
+  }, [selectedRoomCode]);
+
   useEffect(() => {
     if (!selectedRoomCode || selectedRoomCode === "none" || !directorPin) return;
     setIsLoading(true);
-    fetch(`/api/tournaments/${selectedRoomCode}/payout?directorPin=${encodeURIComponent(directorPin)}`)
+    const divisionQuery = divisionId === null ? "" : `&divisionId=${divisionId}`;
+    fetch(`/api/tournaments/${selectedRoomCode}/payout?directorPin=${encodeURIComponent(directorPin)}${divisionQuery}`)
       .then(r => r.json())
       .then(data => {
         if (data && data.numPlayers) {
@@ -208,7 +225,7 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
       })
       .catch(() => {})
       .finally(() => setIsLoading(false));
-  }, [selectedRoomCode, directorPin]);
+  }, [selectedRoomCode, directorPin, divisionId]);
 
   const adjustSpots = (newCount: number) => {
     const clamped = Math.max(1, Math.min(10, newCount));
@@ -232,6 +249,7 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           directorPin,
+          divisionId,
           numPlayers,
           entryFee,
           greenFee,
@@ -241,6 +259,7 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
         }),
       });
       if (res.ok) {
+        setSavedVersion(v => v + 1);
         setSaveSuccess(true);
         setTimeout(() => setSaveSuccess(false), 2000);
       }
@@ -251,21 +270,11 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
   };
 
   const payouts = (() => {
-    const rawAmounts = percentages.map(pct => (pct / 100) * totalPrizePool);
-    const snapped = rawAmounts.map(a => Math.round(a / 5) * 5);
-    const snappedTotal = snapped.reduce((s, v) => s + v, 0);
-    const diff = totalPrizePool - snappedTotal;
-    if (diff !== 0) {
-      let maxIdx = 0;
-      for (let i = 1; i < snapped.length; i++) {
-        if (snapped[i] > snapped[maxIdx]) maxIdx = i;
-      }
-      snapped[maxIdx] += diff;
-    }
+    const amounts = allocatePlaceAmounts(totalPrizePool, percentages);
     return percentages.map((pct, i) => ({
       place: i + 1,
       percentage: pct,
-      amount: snapped[i],
+      amount: amounts[i],
     }));
   })();
 
@@ -313,6 +322,23 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
             </div>
           )}
 
+          {divisions.length > 0 && (
+            <div>
+              <Label className="text-xs">Division</Label>
+              <Select value={divisionId === null ? "all" : String(divisionId)} onValueChange={(value) => setDivisionId(value === "all" ? null : Number(value))}>
+                <SelectTrigger data-testid="select-payout-division">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Whole field</SelectItem>
+                  {divisions.map(d => (
+                    <SelectItem key={d.id} value={String(d.id)}>{d.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
             <div>
               <Label htmlFor="numPlayers" className="text-xs">Number of Players</Label>
@@ -478,6 +504,15 @@ export function PayoutCalculator({ directorPin, tournaments, linkedRoomCode, onC
               {saveSuccess ? "Saved" : "Save to Tournament"}
             </Button>
           )}
+
+          {directorPin && (selectedRoomCode && selectedRoomCode !== "none") && (
+            <PayoutResultsPanel
+              roomCode={selectedRoomCode}
+              directorPin={directorPin}
+              divisionId={divisionId}
+              savedVersion={savedVersion}
+            />
+          )}
         </div>
       )}
     </Card>
@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Download, RefreshCw, Undo2 } from "lucide-react";
+import type { PayoutMethod, PayoutResultEntry, PayoutResults } from "@shared/schema";
+
+interface PayoutResultsPanelProps {
+  roomCode: string;
+  directorPin: string;
+  divisionId: number | null;
+  savedVersion: number;
+}
+
+const METHOD_LABELS: Record<PayoutMethod, string> = {
+  cash: "Cash",
+  venmo: "Venmo",
+  paypal: "PayPal",
+  zelle: "Zelle",
+  check: "Check",
+  other: "Other",
+};
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString("en-US", { minimumFractionDigits: Number.isInteger(amount) ? 0 : 2, maximumFractionDigits: 2 })}`;
+
+// "1st" or, for a tie, "T2 (2nd–3rd)" so the sheet shows which places were split
+const formatPlaces = (entry: PayoutResultEntry) => {
+  const ordinal = (n: number) => `${n}${n % 10 === 1 && n % 100 !== 11 ? "st" : n % 10 === 2 && n % 100 !== 12 ? "nd" : n % 10 === 3 && n % 100 !== 13 ? "rd" : "th"}`;
+  if (entry.places.length === 1) return ordinal(entry.places[0]);
+  return `T${entry.position} (${ordinal(entry.places[0])}–${ordinal(entry.places[entry.places.length - 1])})`;
+};
+
+export function PayoutResultsPanel({ roomCode, directorPin, divisionId, savedVersion }: PayoutResultsPanelProps) {
+  const [results, setResults] = useState<PayoutResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [method, setMethod] = useState<PayoutMethod>("cash");
+  const [busyPlayerId, setBusyPlayerId] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  const divisionQuery = divisionId === null ? "" : `&divisionId=${divisionId}`;
+
+  const loadResults = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/payout/results?directorPin=${encodeURIComponent(directorPin)}${divisionQuery}`);
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        setResults(null);
+        setError(err.error || "Could not load the payout sheet");
+        return;
+      }
+      setResults(await response.json());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load payout results:", err);
+    }
+  }, [roomCode, directorPin, divisionQuery]);
+
+  useEffect(() => {
+    loadResults();
+  }, [loadResults, savedVersion]);
+
+  const handleMarkPaid = async (entry: PayoutResultEntry) => {
+    setBusyPlayerId(entry.tournamentPlayerId);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/payout/results/${entry.tournamentPlayerId}/paid`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, divisionId, method }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not mark the payout paid");
+      }
+      setResults(await response.json());
+    } catch (err) {
+      toast({ title: err instanceof Error ? err.message : "Could not mark the payout paid", variant: "destructive" });
+    } finally {
+      setBusyPlayerId(null);
+    }
+  };
+
+  const handleUnmark = async (tournamentPlayerId: number) => {
+    setBusyPlayerId(tournamentPlayerId);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/payout/results/${tournamentPlayerId}/paid?directorPin=${encodeURIComponent(directorPin)}${divisionQuery}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not update the payout");
+      }
+      setResults(await response.json());
+    } catch (err) {
+      toast({ title: err instanceof Error ? err.message : "Could not update the payout", variant: "destructive" });
+    } finally {
+      setBusyPlayerId(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+    const rows = [
+      ["Place", "Player", "Amount", "Status", "Method", "Paid At", "Paid By", "Note"],
+      ...results.results.map(entry => [
+        formatPlaces(entry),
+        entry.playerName,
+        entry.amount.toFixed(2),
+        entry.paid ? "Paid" : "Unpaid",
+        entry.paid ? METHOD_LABELS[entry.paid.method] : "",
+        entry.paid ? new Date(entry.paid.paidAt).toLocaleString() : "",
+        entry.paid?.paidBy ?? "",
+        entry.paid?.note ?? "",
+      ]),
+    ];
+    const csv = rows
+      .map((row) => row.map((value) => `"${String(value).replace(/"/g, '""')}"`).join(","))
+      .join("\n");
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    const suffix = results.divisionName ? `-${results.divisionName.toLowerCase().replace(/[^a-z0-9]+/g, "-")}` : "";
+    anchor.download = `tournament-${roomCode.toLowerCase()}${suffix}-payouts.csv`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    URL.revokeObjectURL(url);
+  };
+
+  if (!results) {
+    return error ? <p className="text-xs text-muted-foreground text-center" data-testid="text-payout-results-error">{error}</p> : null;
+  }
+
+  const paidTotal = results.results.reduce((sum, entry) => sum + (entry.paid?.amount ?? 0), 0);
+
+  return (
+    <div className="border-t pt-3 space-y-2 text-sm" data-testid="panel-payout-results">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">
+          Payout Sheet{results.divisionName && <span className="font-normal text-muted-foreground"> · {results.divisionName}</span>}
+        </span>
+        <div className="flex items-center gap-1">
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={loadResults} data-testid="button-refresh-payout-results">
+            <RefreshCw className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="outline" className="h-7 gap-1 text-xs" onClick={handleExport} disabled={results.results.length === 0} data-testid="button-export-payouts">
+            <Download className="w-3 h-3" />Export
+          </Button>
+        </div>
+      </div>
+
+      {!results.isFinal && (
+        <p className="text-xs text-muted-foreground">Standings are still live; amounts can change until the tournament is completed.</p>
+      )}
+      {results.results.length === 0 && <p className="text-xs text-muted-foreground text-center py-2">Nobody has finished in the money yet</p>}
+
+      {results.results.length > 0 && (
+        <div className="flex items-center gap-2">
+          <span className="text-xs opacity-70">Pay by</span>
+          <Select value={method} onValueChange={(value) => setMethod(value as PayoutMethod)}>
+            <SelectTrigger className="h-7 w-28 text-xs" data-testid="select-payout-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METHOD_LABELS) as PayoutMethod[]).map(m => (
+                <SelectItem key={m} value={m}>{METHOD_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {results.results.map(entry => (
+        <div key={entry.tournamentPlayerId} className="flex items-center gap-2" data-testid={`row-payout-result-${entry.tournamentPlayerId}`}>
+          <span className="text-xs font-medium w-20 shrink-0">{formatPlaces(entry)}</span>
+          <div className="flex-1 min-w-0">
+            <p className="truncate">{entry.playerName}</p>
+            {entry.paid && (
+              <p className="text-xs text-muted-foreground truncate">
+                {METHOD_LABELS[entry.paid.method]} · {new Date(entry.paid.paidAt).toLocaleString()}
+                {entry.paid.paidBy && ` · ${entry.paid.paidBy}`}
+                {entry.paid.amount !== entry.amount && <span className="text-destructive"> · paid {formatMoney(entry.paid.amount)}</span>}
+              </p>
+            )}
+          </div>
+          <span className="font-bold w-16 text-right" data-testid={`text-payout-result-amount-${entry.tournamentPlayerId}`}>{formatMoney(entry.amount)}</span>
+          {entry.paid ? (
+            <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={() => handleUnmark(entry.tournamentPlayerId)} disabled={busyPlayerId === entry.tournamentPlayerId} data-testid={`button-unmark-paid-${entry.tournamentPlayerId}`}>
+              <Undo2 className="w-3 h-3" />
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" className="h-7 gap-1 text-xs shrink-0" onClick={() => handleMarkPaid(entry)} disabled={busyPlayerId === entry.tournamentPlayerId} data-testid={`button-mark-paid-${entry.tournamentPlayerId}`}>
+              <Check className="w-3 h-3" />Paid
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {results.stalePaid.map(stale => (
+        <div key={stale.tournamentPlayerId} className="flex items-center gap-2 text-xs" data-testid={`row-payout-stale-${stale.tournamentPlayerId}`}>
+          <Badge variant="destructive" className="shrink-0">Out of the money</Badge>
+          <span className="flex-1 truncate">{stale.playerName} was paid {formatMoney(stale.amount)} ({METHOD_LABELS[stale.method]})</span>
+          <Button size="icon" variant="ghost" className="h-7 w-7 shrink-0" onClick={() => handleUnmark(stale.tournamentPlayerId)} disabled={busyPlayerId === stale.tournamentPlayerId} data-testid={`button-unmark-stale-${stale.tournamentPlayerId}`}>
+            <Undo2 className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex justify-between text-xs text-muted-foreground border-t pt-2">
+        <span data-testid="text-payout-paid-total">Paid {formatMoney(paidTotal)} of {formatMoney(results.pool)}</span>
+        {results.unassigned > 0 && <span>{formatMoney(results.unassigned)} not yet placed</span>}
+      </div>
+    </div>
+  );
+}
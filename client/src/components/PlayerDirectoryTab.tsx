@@ -36,10 +36,13 @@ import {
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { UniversalPlayer, PlayerTournamentHistory } from "@shared/schema";
+import type { UniversalPlayer, PlayerTournamentHistory, HandicapRevision } from "@shared/schema";
+import { HandicapTrendChart } from "./HandicapTrendChart";
+import { DuplicateReviewPanel } from "./DuplicateReviewPanel";
 
 interface PlayerDirectoryTabProps {
   directorPin: string;
+  isAdmin?: boolean;
   onNotifyPlayer?: (playerId: number, playerName: string) => void;
 }
 
@@ -59,11 +62,12 @@ interface LiveTournamentStat {
 interface PlayerWithHistory extends UniversalPlayer {
   recentHistory?: PlayerTournamentHistory[];
   liveTournaments?: LiveTournamentStat[];
+  handicapRevisions?: HandicapRevision[];
   ppt?: number | null;
   ppc?: number | null;
 }
 
-export function PlayerDirectoryTab({ directorPin, onNotifyPlayer }: PlayerDirectoryTabProps) {
+export function PlayerDirectoryTab({ directorPin, isAdmin = false, onNotifyPlayer }: PlayerDirectoryTabProps) {
   const { toast } = useToast();
   const [players, setPlayers] = useState<PlayerWithHistory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -609,26 +613,30 @@ export function PlayerDirectoryTab({ directorPin, onNotifyPlayer }: PlayerDirect
           <Plus className="w-4 h-4 mr-2" />
           Add
         </Button>
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={handleExportPlayers}
-          disabled={isExporting}
-          title="Export players"
-          data-testid="button-export-players"
-        >
-          <Download className="w-4 h-4" />
-        </Button>
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={() => importFileRef.current?.click()}
-          disabled={isImporting}
-          title="Import players"
-          data-testid="button-import-players"
-        >
-          <Upload className="w-4 h-4" />
-        </Button>
+        {isAdmin && (
+          <>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleExportPlayers}
+              disabled={isExporting}
+              title="Export players"
+              data-testid="button-export-players"
+            >
+              <Download className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => importFileRef.current?.click()}
+              disabled={isImporting}
+              title="Import players"
+              data-testid="button-import-players"
+            >
+              <Upload className="w-4 h-4" />
+            </Button>
+          </>
+        )}
       </div>
 
       <div className="flex items-center gap-2">
@@ -649,6 +657,8 @@ export function PlayerDirectoryTab({ directorPin, onNotifyPlayer }: PlayerDirect
         <span className="text-sm text-muted-foreground">{filteredPlayers.length} players</span>
       </div>
 
+      {isAdmin && <DuplicateReviewPanel directorPin={directorPin} onMerged={fetchPlayers} />}
+
       {isLoading ? (
         <div className="text-center py-8 text-muted-foreground">Loading players...</div>
       ) : filteredPlayers.length === 0 ? (
@@ -1067,6 +1077,16 @@ export function PlayerDirectoryTab({ directorPin, onNotifyPlayer }: PlayerDirect
                         </div>
                       </div>
 
+                      {(showPlayerDialog.handicapRevisions?.length || 0) > 0 && (
+                        <div className="border-t pt-3" data-testid="section-handicap-trend">
+                          <h4 className="text-sm font-medium mb-2 flex items-center gap-1.5">
+                            <Target className="w-4 h-4" />
+                            Handicap Trend
+                          </h4>
+                          <HandicapTrendChart revisions={showPlayerDialog.handicapRevisions!} />
+                        </div>
+                      )}
+
                       <div className="border-t pt-3">
                         <h4 className="text-sm font-medium mb-3 flex items-center gap-1.5">
                           <BarChart3 className="w-4 h-4" />
@@ -5,6 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { User, Lock, Loader2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { useCooldown, formatCooldown } from "@/hooks/use-cooldown";
+import type { HandicapCalculation } from "@shared/schema";
 
 interface PlayerLoginDialogProps {
   isOpen: boolean;
@@ -22,6 +24,7 @@ export interface PlayerProfile {
   contactInfo: string | null;
   handicap: string;
   isProvisional: boolean;
+  handicapCalculation?: HandicapCalculation | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -49,6 +52,8 @@ export function PlayerLoginDialog({ isOpen, onClose, onLoginSuccess }: PlayerLog
   const [playerName, setPlayerName] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const cooldown = useCooldown(lockedUntil);
 
   const resetState = () => {
     setStep("code");
@@ -100,12 +105,20 @@ export function PlayerLoginDialog({ isOpen, onClose, onLoginSuccess }: PlayerLog
     setError(null);
 
     try {
-      const response = await apiRequest("POST", "/api/player/login", {
-        playerCode: playerCode.toUpperCase(),
-        pin: pinToUse
+      // Plain fetch so error bodies (including lockout cooldowns) reach the dialog
+      const response = await fetch("/api/player/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ playerCode: playerCode.toUpperCase(), pin: pinToUse }),
       });
       const data = await response.json();
 
+      if (response.status === 429) {
+        setLockedUntil(Date.now() + (data.retryAfter ?? 60) * 1000);
+        setPin("");
+        return;
+      }
+
       if (!response.ok) {
         setError(data.error || "Invalid PIN");
         return;
@@ -228,13 +241,17 @@ export function PlayerLoginDialog({ isOpen, onClose, onLoginSuccess }: PlayerLog
                   className="font-mono text-center tracking-widest text-2xl"
                   maxLength={4}
                   onKeyDown={(e) => {
-                    if (e.key === "Enter" && pin.length === 4) handleLogin();
+                    if (e.key === "Enter" && pin.length === 4 && cooldown === 0) handleLogin();
                   }}
                   data-testid="input-pin-login"
                 />
               </div>
 
-              {error && (
+              {cooldown > 0 ? (
+                <p className="text-sm text-destructive text-center" data-testid="text-login-cooldown">
+                  Too many incorrect PINs. Try again in {formatCooldown(cooldown)}.
+                </p>
+              ) : error && (
                 <p className="text-sm text-destructive text-center">{error}</p>
               )}
 
@@ -252,7 +269,7 @@ export function PlayerLoginDialog({ isOpen, onClose, onLoginSuccess }: PlayerLog
                 <Button
                   className="flex-1"
                   onClick={() => handleLogin()}
-                  disabled={isLoading || pin.length !== 4}
+                  disabled={isLoading || pin.length !== 4 || cooldown > 0}
                   data-testid="button-login"
                 >
                   {isLoading ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Lock className="w-4 h-4 mr-2" />}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -6,9 +6,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { ArrowLeft, Trophy, Target, TrendingUp, Lock, Calendar, LogOut, Loader2, AlertTriangle, Ban, Mail, Phone, Shirt, Pencil, Save, X } from "lucide-react";
+import { ArrowLeft, Trophy, Target, TrendingUp, Lock, Calendar, LogOut, Loader2, AlertTriangle, Ban, Mail, Phone, Shirt, Pencil, Save, X, Smartphone } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import type { HandicapRevision } from "@shared/schema";
 import type { PlayerProfile, TournamentHistoryEntry } from "./PlayerLoginDialog";
+import { HandicapTrendChart } from "./HandicapTrendChart";
 
 interface PlayerProfilePageProps {
   player: PlayerProfile;
@@ -19,6 +21,8 @@ interface PlayerProfilePageProps {
   onPlayerUpdated?: (player: PlayerProfile) => void;
 }
 
+type PlayerHandicapRevision = Omit<HandicapRevision, "actorDirectorId" | "createdAt"> & { createdAt: string };
+
 const T_SHIRT_SIZES = ["XS", "S", "M", "L", "XL", "2XL", "3XL"];
 
 export function PlayerProfilePage({ player, history, playerPin, onLogout, onBack, onPlayerUpdated }: PlayerProfilePageProps) {
@@ -90,6 +94,16 @@ export function PlayerProfilePage({ player, history, playerPin, onLogout, onBack
     }
   };
 
+  const calculation = player.handicapCalculation ?? null;
+  const [handicapRevisions, setHandicapRevisions] = useState<PlayerHandicapRevision[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/player/${player.uniqueCode}/handicap-revisions`)
+      .then(r => (r.ok ? r.json() : []))
+      .then(setHandicapRevisions)
+      .catch(() => {});
+  }, [player.uniqueCode, player.handicap]);
+
   const avgStrokes = history.length > 0
     ? Math.round(history.reduce((sum, h) => sum + h.totalStrokes, 0) / history.length)
     : 0;
@@ -277,6 +291,69 @@ export function PlayerProfilePage({ player, history, playerPin, onLogout, onBack
           </CardContent>
         </Card>
 
+        {calculation && calculation.handicap !== null && (
+          <Card data-testid="card-handicap-calculation">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Target className="w-5 h-5" />
+                How Your Handicap Is Worked Out
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <p className="text-muted-foreground">
+                {calculation.isProvisional
+                  ? calculation.policy.provisionalBestRounds === null
+                    ? `Provisional: the average of all your rounds until you have ${calculation.policy.provisionalRounds}.`
+                    : `Provisional: the average of your best ${calculation.policy.provisionalBestRounds} rounds until you have ${calculation.policy.provisionalRounds}.`
+                  : `The average of your best ${calculation.policy.bestRounds} of your last ${calculation.policy.recentRounds} rounds.`}
+                {calculation.policy.normalizeTo18 && " Each round is scaled to 18 holes."}
+              </p>
+              <div className="space-y-1">
+                {calculation.rounds.map((round) => (
+                  <div
+                    key={round.historyId}
+                    className={`flex items-center justify-between gap-2 ${round.counted ? "font-medium" : "text-muted-foreground line-through"}`}
+                    data-testid={`handicap-round-${round.historyId}`}
+                  >
+                    <span className="truncate">{round.tournamentName}</span>
+                    <span className="shrink-0 text-xs">
+                      {formatRelativeToPar(round.relativeToPar)} over {round.holesPlayed}
+                      {calculation.policy.normalizeTo18 && round.holesPlayed !== 18 && ` → ${formatRelativeToPar(round.adjusted)} per 18`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="border-t pt-2 space-y-1">
+                <div className="flex justify-between">
+                  <span>Average of counted rounds</span>
+                  <span className="font-bold">{calculation.average}</span>
+                </div>
+                {calculation.capped && (
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Capped at {calculation.policy.maxIncrease} above your past-year low of {calculation.lowHandicap}</span>
+                    <span className="font-bold">{calculation.handicap}</span>
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">Updated {formatDate(calculation.calculatedAt)}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {handicapRevisions.length > 1 && (
+          <Card data-testid="card-handicap-trend">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <TrendingUp className="w-5 h-5" />
+                Handicap Trend
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <HandicapTrendChart revisions={handicapRevisions} />
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-lg">
@@ -341,6 +418,8 @@ export function PlayerProfilePage({ player, history, playerPin, onLogout, onBack
             )}
           </CardContent>
         </Card>
+
+        <SignedInDevicesCard onSignedOutEverywhere={onLogout} />
       </div>
 
       <ChangePinDialog
@@ -352,6 +431,115 @@ export function PlayerProfilePage({ player, history, playerPin, onLogout, onBack
   );
 }
 
+interface PlayerDeviceSession {
+  id: number;
+  deviceLabel: string | null;
+  lastSeenAt: string;
+  isCurrent: boolean;
+}
+
+function SignedInDevicesCard({ onSignedOutEverywhere }: { onSignedOutEverywhere: () => void }) {
+  const [sessions, setSessions] = useState<PlayerDeviceSession[]>([]);
+  const [isRevokingAll, setIsRevokingAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sessionToken = localStorage.getItem("playerSessionToken");
+
+  const loadSessions = useCallback(async () => {
+    if (!sessionToken) return;
+    try {
+      const response = await apiRequest("POST", "/api/player/sessions", { sessionToken });
+      setSessions(await response.json());
+    } catch (err) {
+      console.error("Failed to load signed-in devices:", err);
+    }
+  }, [sessionToken]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: number) => {
+    setError(null);
+    try {
+      await apiRequest("POST", "/api/player/sessions/revoke", { sessionToken, sessionId });
+      await loadSessions();
+    } catch (err) {
+      setError("Failed to sign out device");
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    setIsRevokingAll(true);
+    setError(null);
+    try {
+      await apiRequest("POST", "/api/player/sessions/revoke-all", { sessionToken });
+      onSignedOutEverywhere();
+    } catch (err) {
+      setError("Failed to sign out everywhere");
+      setIsRevokingAll(false);
+    }
+  };
+
+  if (!sessionToken) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Smartphone className="w-5 h-5" />
+          Signed-in Devices
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className="flex items-center justify-between gap-2 p-3 bg-muted rounded-lg"
+            data-testid={`device-session-${session.id}`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm truncate">
+                {session.deviceLabel || "Unknown device"}
+                {session.isCurrent && (
+                  <Badge variant="secondary" className="ml-2 text-xs">This device</Badge>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Last active {new Date(session.lastSeenAt).toLocaleString()}
+              </p>
+            </div>
+            {!session.isCurrent && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRevoke(session.id)}
+                data-testid={`button-revoke-device-${session.id}`}
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        {error && (
+          <p className="text-sm text-destructive text-center">{error}</p>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleRevokeAll}
+          disabled={isRevokingAll}
+          data-testid="button-sign-out-everywhere"
+        >
+          {isRevokingAll ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <LogOut className="w-4 h-4 mr-2" />}
+          Sign Out Everywhere
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
 interface ChangePinDialogProps {
   isOpen: boolean;
   onClose: () => void;
@@ -398,7 +586,8 @@ function ChangePinDialog({ isOpen, onClose, playerCode }: ChangePinDialogProps)
       const response = await apiRequest("POST", "/api/player/set-pin", {
         playerCode,
         currentPin,
-        newPin
+        newPin,
+        sessionToken: localStorage.getItem("playerSessionToken") || undefined
       });
       const data = await response.json();
 
@@ -425,7 +614,7 @@ function ChangePinDialog({ isOpen, onClose, playerCode }: ChangePinDialogProps)
             Change PIN
           </DialogTitle>
           <DialogDescription>
-            Enter your current PIN and choose a new 4-digit PIN
+            Enter your current PIN and choose a new 4-digit PIN. Other devices will be signed out.
           </DialogDescription>
         </DialogHeader>
 
@@ -6,7 +6,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { PlayerColorPicker } from "./PlayerColorPicker";
 import { ChevronUp, ChevronDown, X, ArrowLeft } from "lucide-react";
 import type { Player } from "@shared/schema";
-import { LOGO_URL, MAX_PLAYERS } from "@/lib/constants";
+import { LOGO_URL, MAX_PLAYERS, DEFAULT_HOLE_COUNT } from "@/lib/constants";
 
 interface PlayerSetupProps {
   players: Player[];
@@ -202,7 +202,7 @@ export function PlayerSetup({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {Array.from({ length: 18 }, (_, i) => i + 1).map((h) => (
+              {Array.from({ length: DEFAULT_HOLE_COUNT }, (_, i) => i + 1).map((h) => (
                 <SelectItem key={h} value={h.toString()}>
                   Hole {h}
                 </SelectItem>
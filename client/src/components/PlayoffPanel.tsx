@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Swords, Trash2, X } from "lucide-react";
+import type { LeaderboardEntry, PlayoffHole } from "@shared/schema";
+import { useTournament } from "@/contexts/TournamentContext";
+import { cn } from "@/lib/utils";
+import { DEFAULT_HOLE_COUNT } from "@/lib/constants";
+
+interface PlayoffPanelProps {
+  roomCode: string;
+  directorPin: string;
+}
+
+const PAR_CARDS = [1, 2, 3, 4, 5];
+
+export function PlayoffPanel({ roomCode, directorPin }: PlayoffPanelProps) {
+  const tournament = useTournament();
+  const standing = tournament.playoff;
+  const [tiedGroup, setTiedGroup] = useState<LeaderboardEntry[] | null>(null);
+  const coursePar = (hole: number | null) => tournament.tournamentInfo?.courseLayout?.find(h => h.hole === hole)?.par;
+  const [holes, setHoles] = useState<PlayoffHole[]>(() => {
+    const lastHole = tournament.tournamentInfo?.holeCount ?? DEFAULT_HOLE_COUNT;
+    return [{ hole: lastHole, par: coursePar(lastHole) ?? 3 }];
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const playerName = (id: number) => tournament.allPlayers.find(p => p.id === id)?.playerName ?? "Player";
+
+  const tiedGroups = Array.from(
+    tournament.leaderboard.reduce((groups, entry) => {
+      groups.set(entry.position, [...(groups.get(entry.position) || []), entry]);
+      return groups;
+    }, new Map<number, LeaderboardEntry[]>()).values()
+  ).filter(group => group.length > 1);
+
+  const updateHole = (index: number, change: Partial<PlayoffHole>) =>
+    setHoles(prev => prev.map((h, i) => (i === index ? { ...h, ...change } : h)));
+
+  const handleStart = async () => {
+    if (!tiedGroup) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/playoffs`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, playerIds: tiedGroup.map(e => e.playerId), holes }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not start the playoff");
+      }
+      setTiedGroup(null);
+      await tournament.refreshLeaderboard();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not start the playoff");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!standing || !confirm("Cancel this playoff? The players will share their position again.")) return;
+    try {
+      await fetch(`/api/tournaments/${roomCode}/playoffs/${standing.playoff.id}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin }),
+      });
+      await tournament.refreshLeaderboard();
+    } catch (err) {
+      console.error("Failed to cancel playoff:", err);
+    }
+  };
+
+  if (standing) {
+    const rounds = Array.from({ length: standing.currentRound ?? 0 }, (_, i) => i + 1);
+    return (
+      <div className="rounded-lg border p-3 space-y-2 text-sm" data-testid="panel-playoff">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold flex items-center gap-2">
+            <Swords className="w-4 h-4" />
+            Playoff for position {standing.playoff.position}
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 gap-1 text-destructive" onClick={handleCancel} data-testid="button-cancel-playoff">
+            <X className="w-3 h-3" />Cancel
+          </Button>
+        </div>
+        {standing.currentHole && (
+          <p className="text-xs opacity-60">
+            Playing playoff hole {standing.currentRound} · {standing.currentHole.hole ? `Hole ${standing.currentHole.hole}` : "Par card"} · Par {standing.currentHole.par}
+          </p>
+        )}
+        <div className="space-y-1">
+          {standing.playoff.playerIds.map(id => {
+            const out = standing.eliminated.find(e => e.tournamentPlayerId === id);
+            return (
+              <div key={id} className={cn("flex items-center gap-2", out && "opacity-50")} data-testid={`playoff-player-${id}`}>
+                <span className={cn("flex-1 truncate", out && "line-through")}>{playerName(id)}</span>
+                {rounds.map(round => {
+                  const score = standing.scores.find(s => s.tournamentPlayerId === id && s.round === round);
+                  return (
+                    <span key={round} className="w-6 text-center font-mono text-xs">
+                      {score ? score.strokes + score.scratches + score.penalties : "·"}
+                    </span>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  if (tiedGroups.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2 text-sm" data-testid="panel-playoff">
+      <span className="font-semibold flex items-center gap-2">
+        <Swords className="w-4 h-4" />
+        Ties
+      </span>
+      {tiedGroups.map(group => (
+        <div key={group[0].position} className="flex items-center gap-2">
+          <span className="flex-1 truncate">
+            T{group[0].position}: {group.map(e => e.playerName).join(", ")}
+          </span>
+          <Button size="sm" variant="outline" className="h-7" onClick={() => { setTiedGroup(group); setError(null); }} data-testid={`button-start-playoff-${group[0].position}`}>
+            Playoff
+          </Button>
+        </div>
+      ))}
+
+      <Dialog open={!!tiedGroup} onOpenChange={(open) => !open && setTiedGroup(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Sudden-Death Playoff</DialogTitle>
+            <DialogDescription>
+              {tiedGroup?.map(e => e.playerName).join(", ")} play these holes in order, repeating until one player is left.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {holes.map((hole, index) => (
+              <div key={index} className="flex items-center gap-2" data-testid={`row-playoff-hole-${index}`}>
+                <span className="w-6 text-xs opacity-60">{index + 1}.</span>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="Card"
+                  className="h-8 w-20"
+                  value={hole.hole ?? ""}
+                  onChange={(e) => {
+                    const hole = e.target.value ? Math.max(1, parseInt(e.target.value) || 1) : null;
+                    // Course holes play at their official par
+                    updateHole(index, { hole, par: coursePar(hole) ?? holes[index].par });
+                  }}
+                  data-testid={`input-playoff-hole-${index}`}
+                />
+                <div className="flex gap-1 flex-1">
+                  {PAR_CARDS.map(par => (
+                    <button
+                      key={par}
+                      type="button"
+                      className={cn(
+                        "h-8 flex-1 rounded border text-sm font-bold",
+                        hole.par === par ? "border-primary bg-primary text-primary-foreground" : "border-muted-foreground/30"
+                      )}
+                      onClick={() => updateHole(index, { par })}
+                      data-testid={`button-playoff-par-${index}-${par}`}
+                    >
+                      {par}
+                    </button>
+                  ))}
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setHoles(prev => prev.filter((_, i) => i !== index))} disabled={holes.length === 1}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full gap-1" onClick={() => setHoles(prev => [...prev, { hole: null, par: 3 }])} disabled={holes.length >= 18} data-testid="button-add-playoff-hole">
+              <Plus className="w-3 h-3" />Add hole
+            </Button>
+            <p className="text-xs opacity-60">Leave the hole blank to play a drawn par card.</p>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setTiedGroup(null)}>Cancel</Button>
+            <Button onClick={handleStart} disabled={isSaving} data-testid="button-confirm-playoff">
+              {isSaving ? "Starting..." : "Start Playoff"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
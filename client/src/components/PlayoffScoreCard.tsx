@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Check, Loader2, Minus, Plus, Swords } from "lucide-react";
+import type { TournamentPlayer } from "@shared/schema";
+import { getScoreCallout } from "@/lib/game-utils";
+import { useTournament } from "@/contexts/TournamentContext";
+
+interface PlayoffScoreCardProps {
+  players: TournamentPlayer[];
+}
+
+interface PlayoffEntry {
+  strokes: number;
+  scratches: number;
+}
+
+export function PlayoffScoreCard({ players }: PlayoffScoreCardProps) {
+  const tournament = useTournament();
+  const standing = tournament.playoff;
+  const [entries, setEntries] = useState<Record<string, PlayoffEntry>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!standing?.currentRound || !standing.currentHole) return null;
+  const { currentRound, currentHole } = standing;
+  const par = currentHole.par;
+
+  const playerName = (id: number) => tournament.allPlayers.find(p => p.id === id)?.playerName ?? "Player";
+  const savedScore = (id: number) => standing.scores.find(s => s.tournamentPlayerId === id && s.round === currentRound);
+  // Keyed by round so the steppers reset to par when the playoff moves on
+  const entryFor = (id: number): PlayoffEntry => entries[`${id}-${currentRound}`] ?? { strokes: savedScore(id)?.strokes ?? par, scratches: savedScore(id)?.scratches ?? 0 };
+  const updateEntry = (id: number, change: Partial<PlayoffEntry>) =>
+    setEntries(prev => ({ ...prev, [`${id}-${currentRound}`]: { ...entryFor(id), ...change } }));
+
+  const handleSubmit = async (id: number) => {
+    const entry = entryFor(id);
+    setSavingId(id);
+    setError(null);
+    const ok = await tournament.submitPlayoffScore(id, entry.strokes, entry.scratches, 0);
+    if (!ok) setError("Could not save the playoff score. Please try again.");
+    setSavingId(null);
+  };
+
+  return (
+    <div className="flex flex-col p-4 pb-4 gap-4">
+      <div className="text-center space-y-1">
+        <div className="flex items-center justify-center gap-2 text-2xl font-extrabold" data-testid="text-playoff-title">
+          <Swords className="w-6 h-6" />
+          Sudden-Death Playoff
+        </div>
+        <p className="text-sm text-muted-foreground" data-testid="text-playoff-hole">
+          Playoff hole {currentRound} · {currentHole.hole ? `Hole ${currentHole.hole}` : "Par card"} · Par {par}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-2 text-xs">
+        {standing.remainingPlayerIds.map(id => (
+          <span key={id} className="px-2 py-1 rounded-full bg-primary/10 text-primary font-medium">{playerName(id)}</span>
+        ))}
+        {standing.eliminated.map(e => (
+          <span key={e.tournamentPlayerId} className="px-2 py-1 rounded-full bg-muted text-muted-foreground line-through">
+            {playerName(e.tournamentPlayerId)}
+          </span>
+        ))}
+      </div>
+
+      {players.map(player => {
+        const entry = entryFor(player.id);
+        const saved = savedScore(player.id);
+        const total = entry.strokes + entry.scratches;
+        const isSaved = !!saved && saved.strokes === entry.strokes && saved.scratches === entry.scratches;
+        return (
+          <Card key={player.id} className="p-4 space-y-3" data-testid={`card-playoff-player-${player.id}`}>
+            <div className="flex items-center justify-between">
+              <span className="text-xl font-bold">{player.playerName}</span>
+              <span className="text-sm font-bold">{getScoreCallout(total, par)}</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <Button size="icon" variant="outline" className="h-12 w-12" onClick={() => updateEntry(player.id, { strokes: Math.max(1, entry.strokes - 1) })} data-testid={`button-playoff-minus-${player.id}`}>
+                <Minus className="w-5 h-5" />
+              </Button>
+              <div className="flex-1 text-center">
+                <div className="text-5xl font-extrabold leading-none" data-testid={`text-playoff-score-${player.id}`}>{total}</div>
+                {entry.scratches > 0 && (
+                  <div className="text-xs text-muted-foreground">{entry.strokes} + {entry.scratches}S</div>
+                )}
+              </div>
+              <Button size="icon" variant="outline" className="h-12 w-12" onClick={() => updateEntry(player.id, { strokes: entry.strokes + 1 })} data-testid={`button-playoff-plus-${player.id}`}>
+                <Plus className="w-5 h-5" />
+              </Button>
+            </div>
+            <div className="flex gap-3">
+              <Button variant="destructive" className="flex-1 h-11" onClick={() => updateEntry(player.id, { scratches: entry.scratches + 1 })} data-testid={`button-playoff-scratch-${player.id}`}>
+                Scratch (+1)
+              </Button>
+              <Button className="flex-1 h-11 gap-2" onClick={() => handleSubmit(player.id)} disabled={savingId !== null || isSaved} data-testid={`button-playoff-submit-${player.id}`}>
+                {savingId === player.id ? <Loader2 className="w-4 h-4 animate-spin" /> : isSaved ? <Check className="w-4 h-4" /> : null}
+                {isSaved ? "Submitted" : "Submit"}
+              </Button>
+            </div>
+          </Card>
+        );
+      })}
+
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+      <p className="text-xs text-muted-foreground text-center">
+        Everyone above the best score on a playoff hole is out. Playoff scores don't count toward your round or handicap.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flag } from "lucide-react";
+import type { RoundPairing } from "@shared/schema";
+import { useTournament } from "@/contexts/TournamentContext";
+
+interface RoundsPanelProps {
+  roomCode: string;
+  directorPin: string;
+}
+
+const ROUND_COUNT_OPTIONS = [1, 2, 3, 4];
+
+export function RoundsPanel({ roomCode, directorPin }: RoundsPanelProps) {
+  const tournament = useTournament();
+  const info = tournament.tournamentInfo;
+  const [cutSize, setCutSize] = useState("");
+  const [showAdvance, setShowAdvance] = useState(false);
+  const [pairing, setPairing] = useState<RoundPairing>("standings");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCutSize(info?.cutSize ? String(info.cutSize) : "");
+  }, [info?.cutSize]);
+
+  if (!info) return null;
+  const { roundCount, currentRound, cutAfterRound } = info;
+  const cutIsNext = cutAfterRound === currentRound;
+
+  const saveSettings = async (settings: { roundCount: number; cutAfterRound: number | null; cutSize: number | null }) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/rounds`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, ...settings }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        setError(err.error || "Could not update rounds");
+      }
+      await tournament.refreshLeaderboard();
+    } catch (err) {
+      console.error("Failed to update rounds:", err);
+      setError("Could not update rounds");
+    }
+  };
+
+  const handleRoundCountChange = (value: string) => {
+    const count = Number(value);
+    // Drop a cut that would no longer come before the final round
+    const keepCut = cutAfterRound !== null && cutAfterRound < count;
+    saveSettings({ roundCount: count, cutAfterRound: keepCut ? cutAfterRound : null, cutSize: keepCut ? info.cutSize : null });
+  };
+
+  const handleCutRoundChange = (value: string) => {
+    if (value === "none") {
+      saveSettings({ roundCount, cutAfterRound: null, cutSize: null });
+      return;
+    }
+    saveSettings({ roundCount, cutAfterRound: Number(value), cutSize: info.cutSize ?? Math.max(1, Math.ceil(tournament.allPlayers.length / 2)) });
+  };
+
+  const handleCutSizeBlur = () => {
+    const size = parseInt(cutSize);
+    if (cutAfterRound === null || isNaN(size) || size < 1 || size === info.cutSize) return;
+    saveSettings({ roundCount, cutAfterRound, cutSize: size });
+  };
+
+  const handleAdvance = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/rounds/advance`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, pairing }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not start the next round");
+      }
+      setShowAdvance(false);
+      await Promise.all([tournament.refreshLeaderboard(), tournament.refreshPlayers()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not start the next round");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2 text-sm" data-testid="panel-rounds">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold flex items-center gap-2">
+          <Flag className="w-4 h-4" />
+          Round {currentRound} of {roundCount}
+        </span>
+        <Select value={String(roundCount)} onValueChange={handleRoundCountChange}>
+          <SelectTrigger className="h-8 w-auto gap-2 text-xs" data-testid="select-round-count">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from(new Set([...ROUND_COUNT_OPTIONS, roundCount])).filter(count => count >= currentRound).map(count => (
+              <SelectItem key={count} value={String(count)}>{count} {count === 1 ? "round" : "rounds"}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {roundCount > 1 && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <Label className="text-xs opacity-70">Cut</Label>
+          <Select
+            value={cutAfterRound === null ? "none" : String(cutAfterRound)}
+            onValueChange={handleCutRoundChange}
+            disabled={cutAfterRound !== null && cutAfterRound < currentRound}
+          >
+            <SelectTrigger className="h-8 w-auto gap-2 text-xs" data-testid="select-cut-round">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No cut</SelectItem>
+              {Array.from({ length: roundCount - 1 }, (_, i) => i + 1).filter(r => r >= currentRound || r === cutAfterRound).map(r => (
+                <SelectItem key={r} value={String(r)}>After round {r}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {cutAfterRound !== null && (
+            <>
+              <span className="text-xs opacity-70">top</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-16"
+                value={cutSize}
+                onChange={(e) => setCutSize(e.target.value)}
+                onBlur={handleCutSizeBlur}
+                disabled={cutAfterRound < currentRound}
+                data-testid="input-cut-size"
+              />
+              <span className="text-xs opacity-70">plus ties</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {currentRound < roundCount && (
+        <Button variant="outline" size="sm" className="w-full" onClick={() => { setShowAdvance(true); setError(null); }} data-testid="button-advance-round">
+          Start round {currentRound + 1}
+        </Button>
+      )}
+      {error && !showAdvance && <p className="text-xs text-destructive">{error}</p>}
+
+      <Dialog open={showAdvance} onOpenChange={setShowAdvance}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Start Round {currentRound + 1}</DialogTitle>
+            <DialogDescription>
+              Round {currentRound} closes and new scores go to round {currentRound + 1}.
+              {cutIsNext && ` The cut is made now: the top ${info.cutSize} plus ties go through.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label className="text-sm">Pairings</Label>
+            <Select value={pairing} onValueChange={(v) => setPairing(v as RoundPairing)}>
+              <SelectTrigger data-testid="select-round-pairing">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standings">Re-pair by standings (leaders last)</SelectItem>
+                <SelectItem value="keep">Keep current groups</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">Groups keep their starting holes.</p>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setShowAdvance(false)}>Cancel</Button>
+            <Button onClick={handleAdvance} disabled={isSaving} data-testid="button-confirm-advance-round">
+              {isSaving ? "Starting..." : `Start Round ${currentRound + 1}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Loader2, Shield, Smartphone, User } from "lucide-react";
+import type { ScoreHistoryEntry } from "@shared/schema";
+
+interface ScoreHistoryDialogProps {
+  roomCode: string;
+  directorPin: string;
+  player: { id: number; playerName: string } | null;
+  onClose: () => void;
+}
+
+// Dates arrive as ISO strings over JSON
+type ScoreHistoryRow = Omit<ScoreHistoryEntry, "createdAt"> & { createdAt: string };
+
+const ACTOR_ICONS = {
+  director: Shield,
+  player: User,
+  device: Smartphone,
+  unknown: History,
+} as const;
+
+function formatScore(par: number | null, strokes: number | null, scratches: number | null, penalties: number | null) {
+  if (par === null || strokes === null) return "—";
+  return `${strokes}/${scratches ?? 0}/${penalties ?? 0} · par ${par}`;
+}
+
+function describeActor(entry: ScoreHistoryRow) {
+  switch (entry.actorType) {
+    case "director":
+      return entry.actorName || "Director";
+    case "player":
+      return `${entry.actorName || "Player"}${entry.actorId ? ` (${entry.actorId})` : ""}`;
+    case "device":
+      return `Device${entry.actorName ? ` scoring ${entry.actorName}` : ""}${entry.actorId ? ` · ${entry.actorId.slice(0, 8)}` : ""}`;
+    default:
+      return "Unknown";
+  }
+}
+
+export function ScoreHistoryDialog({ roomCode, directorPin, player, onClose }: ScoreHistoryDialogProps) {
+  const [history, setHistory] = useState<ScoreHistoryRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [holeFilter, setHoleFilter] = useState("all");
+
+  useEffect(() => {
+    if (!player) return;
+    setHoleFilter("all");
+    setIsLoading(true);
+    fetch(`/api/tournaments/${roomCode}/players/${player.id}/score-history?directorPin=${encodeURIComponent(directorPin)}`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setHistory)
+      .catch(err => {
+        console.error("Failed to load score history:", err);
+        setHistory([]);
+      })
+      .finally(() => setIsLoading(false));
+  }, [roomCode, directorPin, player]);
+
+  const holes = Array.from(new Set(history.map(h => h.hole))).sort((a, b) => a - b);
+  const visible = holeFilter === "all" ? history : history.filter(h => h.hole === Number(holeFilter));
+
+  return (
+    <Dialog open={!!player} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Score History: {player?.playerName}
+          </DialogTitle>
+        </DialogHeader>
+
+        {holes.length > 1 && (
+          <Select value={holeFilter} onValueChange={setHoleFilter}>
+            <SelectTrigger className="h-8 text-sm" data-testid="select-history-hole">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All holes</SelectItem>
+              {holes.map(hole => (
+                <SelectItem key={hole} value={String(hole)}>Hole {hole}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-2">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin opacity-60" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No score changes recorded</p>
+          ) : (
+            visible.map(entry => {
+              const ActorIcon = ACTOR_ICONS[entry.actorType as keyof typeof ACTOR_ICONS] ?? History;
+              return (
+                <div key={entry.id} className="rounded-md border p-2 text-sm" data-testid={`score-history-${entry.id}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-bold">{entry.round > 1 && `R${entry.round} · `}Hole {entry.hole}</span>
+                    <span className="text-xs opacity-60">
+                      {new Date(entry.createdAt).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", second: "2-digit" })}
+                    </span>
+                  </div>
+                  <div className="font-mono text-xs mt-1">
+                    {formatScore(entry.previousPar, entry.previousStrokes, entry.previousScratches, entry.previousPenalties)}
+                    {" → "}
+                    {formatScore(entry.newPar, entry.newStrokes, entry.newScratches, entry.newPenalties)}
+                  </div>
+                  <div className="flex items-center gap-1 text-xs opacity-70 mt-1">
+                    <ActorIcon className="w-3 h-3" />
+                    <span className="truncate">{describeActor(entry)}</span>
+                    <span className="ml-auto font-mono">{entry.source}</span>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">Scores shown as strokes/scratches/penalties</p>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -33,6 +33,7 @@ export function SettingsPanel({ settings, players, onUpdateSettings, onAddPlayer
   const [joinError, setJoinError] = useState<string | null>(null);
   const [titleTapCount, setTitleTapCount] = useState(0);
   const [showDirectorPortal, setShowDirectorPortal] = useState(false);
+  const [directorNameInput, setDirectorNameInput] = useState("");
   const [directorPinInput, setDirectorPinInput] = useState("");
   const [showPinPrompt, setShowPinPrompt] = useState(false);
   const [pushSupported, setPushSupported] = useState(false);
@@ -174,13 +175,14 @@ export function SettingsPanel({ settings, players, onUpdateSettings, onAddPlayer
   };
 
   const handleVerifyPin = async () => {
-    const valid = await tournament.verifyDirectorPin(directorPinInput);
+    const valid = await tournament.verifyDirectorPin(directorNameInput, directorPinInput);
     if (valid) {
       setShowPinPrompt(false);
+      setDirectorNameInput("");
       setDirectorPinInput("");
       setShowDirectorPortal(true);
     } else {
-      setJoinError("Invalid PIN");
+      setJoinError("Invalid name or PIN");
     }
   };
 
@@ -298,6 +300,13 @@ export function SettingsPanel({ settings, players, onUpdateSettings, onAddPlayer
                 <Shield className="w-4 h-4" />
                 Director Access
               </h3>
+              <Input
+                value={directorNameInput}
+                onChange={(e) => setDirectorNameInput(e.target.value)}
+                placeholder="Director name"
+                className="mb-2"
+                data-testid="input-director-name"
+              />
               <div className="flex gap-2">
                 <Input
                   type="password"
@@ -25,6 +25,7 @@ export function SplashScreen({ onStartTournamentGame, onViewOnly }: SplashScreen
   const [showTournamentManagement, setShowTournamentManagement] = useState(false);
   const [verifiedPin, setVerifiedPin] = useState<string | null>(null);
   const [directorName, setDirectorName] = useState<string | null>(null);
+  const [isAdminDirector, setIsAdminDirector] = useState(false);
   const [showPlayerLogin, setShowPlayerLogin] = useState(false);
   const [loggedInPlayer, setLoggedInPlayer] = useState<PlayerProfile | null>(null);
   const [playerHistory, setPlayerHistory] = useState<TournamentHistoryEntry[]>([]);
@@ -58,9 +59,10 @@ export function SplashScreen({ onStartTournamentGame, onViewOnly }: SplashScreen
     }
   }, []);
 
-  const handleTDSignInSuccess = (pin: string, name: string) => {
-    setVerifiedPin(pin);
+  const handleTDSignInSuccess = (token: string, name: string, isAdmin: boolean) => {
+    setVerifiedPin(token);
     setDirectorName(name);
+    setIsAdminDirector(isAdmin);
     setShowTournamentManagement(true);
   };
 
@@ -110,12 +112,19 @@ export function SplashScreen({ onStartTournamentGame, onViewOnly }: SplashScreen
     return (
       <TDDashboard 
         onClose={() => {
+          fetch("/api/director/logout", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ token: verifiedPin }),
+          }).catch(() => {});
           setShowTournamentManagement(false);
           setVerifiedPin(null);
           setDirectorName(null);
+          setIsAdminDirector(false);
         }} 
         directorPin={verifiedPin}
         directorName={directorName ?? undefined}
+        isAdmin={isAdminDirector}
       />
     );
   }
@@ -7,8 +7,10 @@ import { Trophy, Users, RefreshCw, OctagonAlert, CircleSlash, Loader2, Pencil }
 import type { Player, HoleScore, LeaderboardEntry } from "@shared/schema";
 import { calculatePlayerTotal, getLeaderboard } from "@/lib/game-utils";
 import { useTournament } from "@/contexts/TournamentContext";
+import { LeaderboardRankingToggle, LeaderboardRoundToggle, LeaderboardDivisionToggle, getRankedRelativeToPar, describeTieBreak, formatLeaderboardPosition } from "@/components/LeaderboardRankingToggle";
 import { cn } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
+import { DEFAULT_HOLE_COUNT } from "@/lib/constants";
 
 interface BoxScoreData {
   playerId: number;
@@ -20,6 +22,8 @@ interface BoxScoreData {
 interface SummaryScreenProps {
   players: Player[];
   scores: Record<string, HoleScore[]>;
+  startingHole?: number;
+  holeCount?: number;
   onNewGame: () => void;
   onSubmitToSheets?: () => void;
   isGameOver?: boolean;
@@ -27,7 +31,7 @@ interface SummaryScreenProps {
   onUpdateScore?: (playerId: string, hole: number, score: Partial<HoleScore>) => void;
 }
 
-export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, isGameOver = false, viewOnly = false, onUpdateScore }: SummaryScreenProps) {
+export function SummaryScreen({ players, scores, startingHole = 1, holeCount = DEFAULT_HOLE_COUNT, onNewGame, onSubmitToSheets, isGameOver = false, viewOnly = false, onUpdateScore }: SummaryScreenProps) {
   const [isLandscape, setIsLandscape] = useState(false);
   const [activeTab, setActiveTab] = useState<"local" | "tournament">(viewOnly ? "tournament" : "local");
   const [selectedPlayer, setSelectedPlayer] = useState<LeaderboardEntry | null>(null);
@@ -70,7 +74,8 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
     setBoxScore(null);
     setBoxScoreLoading(true);
     try {
-      const res = await apiRequest("GET", `/api/tournaments/${tournament.roomCode}/players/${entry.playerId}/box-score`);
+      const roundQuery = tournament.leaderboardRound ? `?round=${tournament.leaderboardRound}` : "";
+      const res = await apiRequest("GET", `/api/tournaments/${tournament.roomCode}/players/${entry.playerId}/box-score${roundQuery}`);
       const data: BoxScoreData = await res.json();
       setBoxScore(data);
     } catch {
@@ -83,13 +88,19 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
   const leaderboard = getLeaderboard(players, scores);
   const leader = leaderboard[0];
 
+  const currentRound = tournament.tournamentInfo?.currentRound ?? 1;
+  // The cumulative leaderboard counts holes across every round played so far
+  const tournamentHoleCount = (tournament.tournamentInfo?.holeCount ?? DEFAULT_HOLE_COUNT) * (tournament.leaderboardRound === null ? currentRound : 1);
+
+  // Columns follow the order the holes were played, wrapping past the last hole
+  const playOrder = (hole: number) => (hole - startingHole + holeCount) % holeCount;
   const allHoles = Array.from(
     new Set(
       Object.values(scores)
         .flat()
         .map((s) => s.hole)
     )
-  ).sort((a, b) => a - b);
+  ).sort((a, b) => playOrder(a) - playOrder(b));
 
   return (
     <div className="flex flex-col min-h-screen p-6 pb-8">
@@ -153,6 +164,28 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
                 <Trophy className="w-4 h-4" />
                 Live Leaderboard
               </h3>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                {tournament.divisions.length > 0 && (
+                  <LeaderboardDivisionToggle
+                    division={tournament.leaderboardDivision}
+                    divisions={tournament.divisions}
+                    onChange={tournament.setLeaderboardDivision}
+                  />
+                )}
+                {currentRound > 1 && (
+                  <LeaderboardRoundToggle
+                    round={tournament.leaderboardRound}
+                    currentRound={currentRound}
+                    onChange={tournament.setLeaderboardRound}
+                  />
+                )}
+                {tournament.tournamentInfo?.isHandicapped && (
+                  <LeaderboardRankingToggle
+                    ranking={tournament.leaderboardRanking}
+                    onChange={tournament.setLeaderboardRanking}
+                  />
+                )}
+              </div>
             </div>
             {(() => {
               const holes = tournament.leaderboard.map(e => e.holesCompleted);
@@ -162,26 +195,27 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
               ) : null;
             })()}
             <div className="space-y-2">
-              {tournament.leaderboard.map((entry, index) => {
+              {tournament.leaderboard.map((entry) => {
                 const isMyPlayer = tournament.myPlayers.some(p => p.id === entry.playerId);
+                const isNet = tournament.leaderboardRanking === "net";
+                const rankedToPar = getRankedRelativeToPar(entry, tournament.leaderboardRanking);
                 return (
                   <div
                     key={entry.playerId}
                     className={cn(
                       "flex items-center gap-3 p-3 rounded-lg border cursor-pointer hover-elevate",
-                      index === 0 && "border-primary border-2 bg-primary/5",
+                      entry.position === 1 && "border-primary border-2 bg-primary/5",
                       isMyPlayer && "bg-muted/50"
                     )}
                     onClick={() => fetchBoxScore(entry)}
                     data-testid={`tournament-leaderboard-${entry.playerId}`}
                   >
                     <span className={cn(
-                      "w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm",
-                      index === 0 && "bg-primary text-primary-foreground",
-                      index === 1 && "bg-muted",
-                      index === 2 && "bg-muted"
+                      "min-w-[2rem] h-8 px-1 rounded-full flex items-center justify-center font-bold text-sm",
+                      entry.position === 1 && "bg-primary text-primary-foreground",
+                      (entry.position === 2 || entry.position === 3) && "bg-muted"
                     )}>
-                      {index + 1}
+                      {formatLeaderboardPosition(entry, tournament.leaderboard, tournament.leaderboardRound)}
                     </span>
                     <div className="flex-1 min-w-0">
                       <p className={cn("font-medium truncate", isMyPlayer && "text-primary")}>
@@ -189,19 +223,22 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
                         {isMyPlayer && " (You)"}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        {entry.groupName || "No group"} • {entry.holesCompleted}/18 holes
+                        {entry.groupName || "No group"} • {entry.holesCompleted}/{tournamentHoleCount} holes
+                        {entry.tieBreak && ` • ${describeTieBreak(entry.tieBreak)}`}
                       </p>
                     </div>
                     <div className="text-right">
                       <p className={cn(
                         "font-mono font-bold text-lg",
-                        entry.relativeToPar < 0 && "text-green-500",
-                        entry.relativeToPar > 0 && "text-red-500"
+                        rankedToPar < 0 && "text-green-500",
+                        rankedToPar > 0 && "text-red-500"
                       )}>
-                        {entry.relativeToPar > 0 ? "+" : ""}{entry.relativeToPar}
+                        {rankedToPar > 0 ? "+" : ""}{rankedToPar}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        {entry.totalStrokes} strokes
+                        {isNet
+                          ? `${entry.netStrokes} net • HC ${entry.handicap ?? "—"}`
+                          : `${entry.totalStrokes} strokes`}
                       </p>
                     </div>
                   </div>
@@ -302,13 +339,15 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
           {isLandscape && (() => {
             const showPenaltyCols = !tournament.isConnected;
             const canEdit = !!onUpdateScore && !viewOnly;
+            const courseLayout = tournament.isConnected ? tournament.tournamentInfo?.courseLayout ?? null : null;
+            const coursePar = (hole: number) => courseLayout?.find(h => h.hole === hole)?.par;
 
             const commitEdit = (playerId: string, hole: number) => {
               const val = parseInt(editValue);
               if (!isNaN(val) && val >= 0 && onUpdateScore) {
                 const playerScores = scores[playerId] || [];
                 const existing = playerScores.find(s => s.hole === hole);
-                const par = existing?.par ?? 3;
+                const par = coursePar(hole) ?? existing?.par ?? 3;
                 const scratches = existing?.scratches ?? 0;
                 const penalties = existing?.penalties ?? 0;
                 onUpdateScore(playerId, hole, {
@@ -360,6 +399,20 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
                     </TableRow>
                   </TableHeader>
                   <TableBody>
+                    {courseLayout && (
+                      <TableRow className="bg-muted/40" data-testid="row-course-par">
+                        <TableCell className="font-semibold sticky left-0 bg-card z-10">Par</TableCell>
+                        {allHoles.map((hole) => (
+                          <TableCell key={hole} className="text-center text-muted-foreground">{coursePar(hole) ?? "-"}</TableCell>
+                        ))}
+                        <TableCell />
+                        <TableCell />
+                        {showPenaltyCols && <TableCell />}
+                        <TableCell className="text-center font-semibold">
+                          {allHoles.reduce((sum, hole) => sum + (coursePar(hole) ?? 0), 0)}
+                        </TableCell>
+                      </TableRow>
+                    )}
                     {leaderboard.map((entry, index) => {
                       const playerScores = scores[entry.player.id] || [];
                       const stats = calculatePlayerTotal(playerScores);
@@ -515,7 +568,7 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
       <Dialog open={!!selectedPlayer} onOpenChange={() => { setSelectedPlayer(null); setBoxScore(null); }}>
         <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
           {selectedPlayer && (() => {
-            const rank = tournament.leaderboard.findIndex(e => e.playerId === selectedPlayer.playerId) + 1;
+            const rank = selectedPlayer.position;
             const avgStrokesPerHole = selectedPlayer.holesCompleted > 0 
               ? (selectedPlayer.totalStrokes / selectedPlayer.holesCompleted).toFixed(1) 
               : "\u2014";
@@ -524,16 +577,16 @@ export function SummaryScreen({ players, scores, onNewGame, onSubmitToSheets, is
                 <DialogHeader>
                   <DialogTitle className="flex items-center gap-2">
                     <span className={cn(
-                      "w-7 h-7 rounded-full flex items-center justify-center font-bold text-xs",
+                      "min-w-[1.75rem] h-7 px-1 rounded-full flex items-center justify-center font-bold text-xs",
                       rank === 1 && "bg-primary text-primary-foreground",
                       rank > 1 && "bg-muted"
                     )}>
-                      {rank}
+                      {formatLeaderboardPosition(selectedPlayer, tournament.leaderboard, tournament.leaderboardRound)}
                     </span>
                     {selectedPlayer.playerName}
                   </DialogTitle>
                   <DialogDescription>
-                    {selectedPlayer.groupName || "No group"} • {selectedPlayer.holesCompleted}/18 holes played
+                    {selectedPlayer.groupName || "No group"} • {selectedPlayer.holesCompleted}/{tournamentHoleCount} holes played
                   </DialogDescription>
                 </DialogHeader>
 
@@ -1,26 +1,30 @@
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
-import { ArrowLeft, Trophy, Users, Settings, Palette, ChevronDown, ChevronUp } from "lucide-react";
+import { ArrowLeft, Trophy, Users, Settings, Palette, ChevronDown, ChevronUp, Flag } from "lucide-react";
 import { TournamentManagementTab } from "./TournamentManagementTab";
 import { PlayerDirectoryTab } from "./PlayerDirectoryTab";
+import { CourseLibraryTab } from "./CourseLibraryTab";
 import { PayoutCalculator } from "./PayoutCalculator";
 import { DirectorPortal } from "./DirectorPortal";
 import { useTournament } from "@/contexts/TournamentContext";
 import { Card } from "@/components/ui/card";
 import { DirectorContentDefaultsPanel } from "./DirectorContentDefaultsPanel";
+import { DirectorAccountsPanel } from "./DirectorAccountsPanel";
+import { HandicapPolicyPanel } from "./HandicapPolicyPanel";
 
 interface TDDashboardProps {
   onClose: () => void;
   directorPin: string;
   directorName?: string;
+  isAdmin?: boolean;
 }
 
 type DirectorTheme = "default" | "dark-green" | "dark-blue" | "light";
 
-export function TDDashboard({ onClose, directorPin, directorName }: TDDashboardProps) {
+export function TDDashboard({ onClose, directorPin, directorName, isAdmin = false }: TDDashboardProps) {
   const tournament = useTournament();
-  const [activeTab, setActiveTab] = useState<"tournaments" | "players" | "settings">("tournaments");
+  const [activeTab, setActiveTab] = useState<"tournaments" | "players" | "courses" | "settings">("tournaments");
   const [directorTheme, setDirectorTheme] = useState<DirectorTheme>(() => {
     const saved = localStorage.getItem("directorTheme");
     return (saved as DirectorTheme) || "default";
@@ -88,7 +92,7 @@ export function TDDashboard({ onClose, directorPin, directorName }: TDDashboardP
 
       <Tabs 
         value={activeTab} 
-        onValueChange={(v) => setActiveTab(v as "tournaments" | "players" | "settings")}
+        onValueChange={(v) => setActiveTab(v as "tournaments" | "players" | "courses" | "settings")}
         className="flex-1 flex flex-col"
       >
         <TabsList className="w-full h-auto rounded-none border-b bg-background p-0">
@@ -108,6 +112,14 @@ export function TDDashboard({ onClose, directorPin, directorName }: TDDashboardP
             <Users className="h-5 w-5" />
             Players
           </TabsTrigger>
+          <TabsTrigger 
+            value="courses"
+            className="flex-1 flex items-center gap-2 py-4 data-[state=active]:bg-muted rounded-none"
+            data-testid="tab-courses"
+          >
+            <Flag className="h-5 w-5" />
+            Courses
+          </TabsTrigger>
           <TabsTrigger 
             value="settings"
             className="flex-1 flex items-center gap-2 py-4 data-[state=active]:bg-muted rounded-none"
@@ -121,18 +133,27 @@ export function TDDashboard({ onClose, directorPin, directorName }: TDDashboardP
         <TabsContent value="tournaments" className="flex-1 m-0 p-0 overflow-auto">
           <TournamentManagementTab
             directorPin={directorPin}
+            isAdmin={isAdmin}
             onTournamentSelected={() => setShowDirectorPortal(true)}
           />
         </TabsContent>
 
         <TabsContent value="players" className="flex-1 m-0 p-0 overflow-auto">
-          <PlayerDirectoryTab directorPin={directorPin} />
+          <PlayerDirectoryTab directorPin={directorPin} isAdmin={isAdmin} />
+        </TabsContent>
+
+        <TabsContent value="courses" className="flex-1 m-0 p-0 overflow-auto">
+          <CourseLibraryTab directorPin={directorPin} />
         </TabsContent>
 
         <TabsContent value="settings" className="flex-1 m-0 p-0 overflow-auto">
           <div className="p-4 space-y-4">
             <DirectorContentDefaultsPanel directorPin={directorPin} />
 
+            {isAdmin && <DirectorAccountsPanel directorPin={directorPin} />}
+
+            {isAdmin && <HandicapPolicyPanel directorPin={directorPin} />}
+
             <PayoutCalculator
               directorPin={directorPin}
               tournaments={tournamentOptions}
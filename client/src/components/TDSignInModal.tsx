@@ -4,21 +4,25 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Shield } from "lucide-react";
+import { useCooldown, formatCooldown } from "@/hooks/use-cooldown";
 
 interface TDSignInModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSuccess: (pin: string, directorName: string) => void;
+  onSuccess: (token: string, directorName: string, isAdmin: boolean) => void;
 }
 
 export function TDSignInModal({ isOpen, onClose, onSuccess }: TDSignInModalProps) {
+  const [name, setName] = useState("");
   const [pin, setPin] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const cooldown = useCooldown(lockedUntil);
 
   const handlePinSubmit = async () => {
-    if (!pin.trim()) {
-      setError("Please enter the director PIN");
+    if (!name.trim() || !pin.trim()) {
+      setError("Please enter your name and director PIN");
       return;
     }
     
@@ -29,17 +33,21 @@ export function TDSignInModal({ isOpen, onClose, onSuccess }: TDSignInModalProps
       const response = await fetch("/api/director/verify", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ pin }),
+        body: JSON.stringify({ name, pin }),
       });
       
       if (response.ok) {
         const data = await response.json();
         if (data.isValid) {
           handleClose();
-          onSuccess(pin, data.directorName || "Tournament Director");
+          onSuccess(data.token, data.directorName || "Tournament Director", !!data.director?.isAdmin);
         } else {
-          setError("Invalid PIN");
+          setError("Invalid name or PIN");
         }
+      } else if (response.status === 429) {
+        const data = await response.json();
+        setLockedUntil(Date.now() + (data.retryAfter ?? 60) * 1000);
+        setError(null);
       } else {
         setError("Verification failed");
       }
@@ -51,6 +59,7 @@ export function TDSignInModal({ isOpen, onClose, onSuccess }: TDSignInModalProps
   };
 
   const handleClose = () => {
+    setName("");
     setPin("");
     setError(null);
     onClose();
@@ -67,6 +76,22 @@ export function TDSignInModal({ isOpen, onClose, onSuccess }: TDSignInModalProps
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="director-name">Director Name</Label>
+            <Input
+              id="director-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="Your name"
+              autoComplete="username"
+              data-testid="input-td-name"
+              autoFocus
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="director-pin">Director PIN</Label>
             <div className="flex items-center gap-2">
@@ -85,7 +110,6 @@ export function TDSignInModal({ isOpen, onClose, onSuccess }: TDSignInModalProps
                 className="flex-1 text-center tracking-widest text-2xl font-mono"
                 onKeyDown={(e) => e.key === "Enter" && handlePinSubmit()}
                 data-testid="input-td-pin"
-                autoFocus
               />
             </div>
             <p className="text-xs text-muted-foreground text-center">
@@ -93,7 +117,11 @@ export function TDSignInModal({ isOpen, onClose, onSuccess }: TDSignInModalProps
             </p>
           </div>
 
-          {error && (
+          {cooldown > 0 ? (
+            <p className="text-sm text-destructive text-center" data-testid="text-td-cooldown">
+              Too many incorrect PINs. Try again in {formatCooldown(cooldown)}.
+            </p>
+          ) : error && (
             <p className="text-sm text-destructive text-center">{error}</p>
           )}
 
@@ -103,7 +131,7 @@ export function TDSignInModal({ isOpen, onClose, onSuccess }: TDSignInModalProps
             </Button>
             <Button 
               onClick={handlePinSubmit}
-              disabled={pin.length < 4 || isVerifying}
+              disabled={!name.trim() || pin.length < 4 || isVerifying || cooldown > 0}
               className="flex-1"
               data-testid="button-td-signin"
             >
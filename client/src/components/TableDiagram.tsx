@@ -0,0 +1,108 @@
+import { useId, type MouseEvent } from "react";
+import type { TableBall, TableDiagram as TableDiagramData } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+// Playing surface is 2:1 like a regulation table; the rail and pockets sit around it
+const RAIL = 8;
+const SURFACE_W = 200;
+const SURFACE_H = 100;
+const BALL_R = 3.6;
+const POCKET_R = 5;
+
+const BALL_COLORS: Record<number, string> = {
+  0: "#f8f8f2",
+  1: "#facc15",
+  2: "#2563eb",
+  3: "#dc2626",
+  4: "#7c3aed",
+  5: "#f97316",
+  6: "#16a34a",
+  7: "#7f1d1d",
+  8: "#111827",
+};
+
+const ballColor = (ball: number) => BALL_COLORS[ball > 8 ? ball - 8 : ball];
+
+const POCKETS = [
+  [0, 0], [SURFACE_W / 2, -1], [SURFACE_W, 0],
+  [0, SURFACE_H], [SURFACE_W / 2, SURFACE_H + 1], [SURFACE_W, SURFACE_H],
+];
+
+interface PoolBallProps {
+  ball: number;
+  cx: number;
+  cy: number;
+  selected?: boolean;
+}
+
+export function PoolBall({ ball, cx, cy, selected }: PoolBallProps) {
+  const clipId = `ball-${useId().replace(/:/g, "")}`;
+  const isStripe = ball > 8;
+  return (
+    <g>
+      <clipPath id={clipId}>
+        <circle cx={cx} cy={cy} r={BALL_R} />
+      </clipPath>
+      <circle cx={cx} cy={cy} r={BALL_R} fill={isStripe ? "#f8f8f2" : ballColor(ball)} />
+      {isStripe && (
+        <rect x={cx - BALL_R} y={cy - BALL_R * 0.55} width={BALL_R * 2} height={BALL_R * 1.1} fill={ballColor(ball)} clipPath={`url(#${clipId})`} />
+      )}
+      <circle cx={cx} cy={cy} r={BALL_R} fill="none" stroke={selected ? "#38bdf8" : "#00000055"} strokeWidth={selected ? 1.2 : 0.4} />
+      {ball > 0 && (
+        <>
+          <circle cx={cx} cy={cy} r={BALL_R * 0.5} fill="#f8f8f2" />
+          <text x={cx} y={cy + 0.8} fontSize={2.3} fontWeight={700} textAnchor="middle" fill="#111827">{ball}</text>
+        </>
+      )}
+    </g>
+  );
+}
+
+interface TableDiagramProps {
+  diagram: TableDiagramData;
+  selectedBall?: number | null;
+  onTableClick?: (position: { x: number; y: number }) => void;
+  onBallClick?: (ball: TableBall) => void;
+  className?: string;
+}
+
+export function TableDiagram({ diagram, selectedBall = null, onTableClick, onBallClick, className }: TableDiagramProps) {
+  const handleClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (!onTableClick) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = rect.width / (SURFACE_W + RAIL * 2);
+    const x = ((e.clientX - rect.left) / scale - RAIL) / SURFACE_W;
+    const y = ((e.clientY - rect.top) / scale - RAIL) / SURFACE_H;
+    const clamp = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 1000) / 1000;
+    onTableClick({ x: clamp(x), y: clamp(y) });
+  };
+
+  return (
+    <svg
+      viewBox={`${-RAIL} ${-RAIL} ${SURFACE_W + RAIL * 2} ${SURFACE_H + RAIL * 2}`}
+      className={cn("w-full h-auto select-none", onTableClick && "cursor-crosshair", className)}
+      onClick={handleClick}
+      role="img"
+      aria-label="Table layout"
+      data-testid="svg-table-diagram"
+    >
+      <rect x={-RAIL} y={-RAIL} width={SURFACE_W + RAIL * 2} height={SURFACE_H + RAIL * 2} rx={5} fill="#5b3a1e" />
+      <rect x={0} y={0} width={SURFACE_W} height={SURFACE_H} fill="#15803d" />
+      {/* Head string and foot spot help players place balls by eye */}
+      <line x1={SURFACE_W / 4} y1={0} x2={SURFACE_W / 4} y2={SURFACE_H} stroke="#ffffff33" strokeWidth={0.5} strokeDasharray="2 2" />
+      <circle cx={SURFACE_W * 0.75} cy={SURFACE_H / 2} r={0.9} fill="#ffffff66" />
+      {POCKETS.map(([px, py], i) => (
+        <circle key={i} cx={px} cy={py} r={POCKET_R} fill="#0a0a0a" />
+      ))}
+      {diagram.balls.map(b => (
+        <g
+          key={b.ball}
+          onClick={onBallClick ? (e) => { e.stopPropagation(); onBallClick(b); } : undefined}
+          className={onBallClick ? "cursor-pointer" : undefined}
+        >
+          <PoolBall ball={b.ball} cx={b.x * SURFACE_W} cy={b.y * SURFACE_H} selected={selectedBall === b.ball} />
+        </g>
+      ))}
+    </svg>
+  );
+}
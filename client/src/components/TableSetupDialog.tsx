@@ -1,12 +1,15 @@
 import { Button } from "@/components/ui/button";
+import type { TableDiagram as TableDiagramData } from "@shared/schema";
+import { TableDiagram } from "./TableDiagram";
 
 interface TableSetupDialogProps {
   hole: number;
   par: number;
+  card?: { name: string; diagram: TableDiagramData };
   onConfirm: () => void;
 }
 
-export function TableSetupDialog({ hole, par, onConfirm }: TableSetupDialogProps) {
+export function TableSetupDialog({ hole, par, card, onConfirm }: TableSetupDialogProps) {
   return (
     <div className="fixed inset-0 bg-background/95 z-50 flex items-center justify-center p-6">
       <div className="w-full max-w-md text-center space-y-8">
@@ -15,12 +18,14 @@ export function TableSetupDialog({ hole, par, onConfirm }: TableSetupDialogProps
             Hole {hole} - Par {par}
           </h1>
           <p className="text-xl text-muted-foreground" data-testid="text-setup-instruction">
-            Set up the course according to the card.
+            {card ? `Set up ${card.name} as shown.` : "Set up the course according to the card."}
           </p>
         </div>
+
+        {card && <TableDiagram diagram={card.diagram} className="rounded-lg shadow-lg" />}
         
         <p className="text-lg" data-testid="text-setup-confirm-prompt">
-          Press the button below when the table matches the card.
+          Press the button below when the table matches the {card ? "diagram" : "card"}.
         </p>
 
         <Button
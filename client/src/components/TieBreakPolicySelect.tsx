@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TieBreakPolicy } from "@shared/schema";
+
+interface TieBreakPolicySelectProps {
+  policy: TieBreakPolicy;
+  onChange: (policy: TieBreakPolicy) => void;
+  disabled?: boolean;
+}
+
+const POLICY_LABELS: Record<TieBreakPolicy, string> = {
+  shared: "Ties share position",
+  countback: "Countback (last 9/6/3/1)",
+  fewest_scratches: "Fewest scratches",
+  fewest_penalties: "Fewest penalties",
+};
+
+export function TieBreakPolicySelect({ policy, onChange, disabled }: TieBreakPolicySelectProps) {
+  return (
+    <Select value={policy} onValueChange={(v) => onChange(v as TieBreakPolicy)} disabled={disabled}>
+      <SelectTrigger className="h-8 w-auto gap-2 text-xs" data-testid="select-tie-break-policy">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(POLICY_LABELS) as TieBreakPolicy[]).map(p => (
+          <SelectItem key={p} value={p}>{POLICY_LABELS[p]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
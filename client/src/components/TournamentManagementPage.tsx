@@ -19,6 +19,8 @@ import {
 import { useTournament } from "@/contexts/TournamentContext";
 import { DirectorPortal } from "./DirectorPortal";
 import { UniversalPlayerPortal } from "./UniversalPlayerPortal";
+import { HoleCountSelect } from "./HoleCountSelect";
+import { DEFAULT_HOLE_COUNT } from "@/lib/constants";
 
 interface TournamentManagementPageProps {
   onClose: () => void;
@@ -45,6 +47,7 @@ export function TournamentManagementPage({ onClose, directorPin }: TournamentMan
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   const [showPlayerDirectory, setShowPlayerDirectory] = useState(false);
   const [isHandicapped, setIsHandicapped] = useState(false);
+  const [holeCount, setHoleCount] = useState(DEFAULT_HOLE_COUNT);
 
   const fetchTournaments = async () => {
     try {
@@ -69,11 +72,12 @@ export function TournamentManagementPage({ onClose, directorPin }: TournamentMan
     setIsCreating(true);
     
     try {
-      const result = await tournament.createTournament(newTournamentName.trim(), directorPin, isHandicapped);
+      const result = await tournament.createTournament(newTournamentName.trim(), directorPin, isHandicapped, holeCount);
       if (result) {
         setShowCreateDialog(false);
         setNewTournamentName("");
         setIsHandicapped(false);
+        setHoleCount(DEFAULT_HOLE_COUNT);
         await fetchTournaments();
         setSelectedTournament(result.roomCode);
       }
@@ -330,6 +334,13 @@ export function TournamentManagementPage({ onClose, directorPin }: TournamentMan
                 autoFocus
               />
             </div>
+            <div className="flex items-center justify-between p-3 rounded-lg border">
+              <div className="space-y-0.5">
+                <Label>Round Length</Label>
+                <p className="text-xs text-muted-foreground">Holes each player plays in the round</p>
+              </div>
+              <HoleCountSelect holeCount={holeCount} onChange={setHoleCount} />
+            </div>
             <div className="flex items-center justify-between p-3 rounded-lg border">
               <div className="space-y-0.5">
                 <Label htmlFor="handicapped-toggle" className="cursor-pointer">Handicapped Tournament</Label>
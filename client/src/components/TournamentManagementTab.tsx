@@ -28,9 +28,12 @@ import {
 } from "lucide-react";
 import { useTournament } from "@/contexts/TournamentContext";
 import { SponsorSettingsPanel } from "@/components/SponsorSettingsPanel";
+import { HoleCountSelect } from "@/components/HoleCountSelect";
+import { DEFAULT_HOLE_COUNT } from "@/lib/constants";
 
 interface TournamentManagementTabProps {
   directorPin: string;
+  isAdmin?: boolean;
   onTournamentSelected: () => void;
 }
 
@@ -148,7 +151,7 @@ type WaitlistEntry = {
   status: string;
 };
 
-export function TournamentManagementTab({ directorPin, onTournamentSelected }: TournamentManagementTabProps) {
+export function TournamentManagementTab({ directorPin, isAdmin = false, onTournamentSelected }: TournamentManagementTabProps) {
   const tournament = useTournament();
   const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -180,6 +183,7 @@ export function TournamentManagementTab({ directorPin, onTournamentSelected }: T
   const [isWaitlistLoading, setIsWaitlistLoading] = useState(false);
   const [isSavingEventDetails, setIsSavingEventDetails] = useState(false);
   const [isHandicapped, setIsHandicapped] = useState(false);
+  const [holeCount, setHoleCount] = useState(DEFAULT_HOLE_COUNT);
   const [isImporting, setIsImporting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [showImportOptions, setShowImportOptions] = useState(false);
@@ -244,11 +248,12 @@ export function TournamentManagementTab({ directorPin, onTournamentSelected }: T
     setIsCreating(true);
     
     try {
-      const result = await tournament.createTournament(newTournamentName.trim(), directorPin, isHandicapped);
+      const result = await tournament.createTournament(newTournamentName.trim(), directorPin, isHandicapped, holeCount);
       if (result) {
         setShowCreateDialog(false);
         setNewTournamentName("");
         setIsHandicapped(false);
+        setHoleCount(DEFAULT_HOLE_COUNT);
         await fetchTournaments();
         tournament.setIsDirector(true);
         tournament.setDirectorCredentials(directorPin);
@@ -331,7 +336,13 @@ export function TournamentManagementTab({ directorPin, onTournamentSelected }: T
         body: JSON.stringify({ directorPin }),
       });
       if (response.ok) {
-        toast({ title: "Tournament Restored", description: "Tournament is now live again" });
+        const data = await response.json();
+        toast({
+          title: "Tournament Restored",
+          description: data.supersededHistory > 0
+            ? `Tournament is now live again. ${data.supersededHistory} saved results will be rewritten when you end it again.`
+            : "Tournament is now live again",
+        });
         await fetchTournaments();
       }
     } catch (err) {
@@ -704,28 +715,31 @@ export function TournamentManagementTab({ directorPin, onTournamentSelected }: T
         </Button>
       </div>
 
-      <div className="flex gap-2">
-        <Button 
-          variant="outline"
-          onClick={handleExportAll}
-          disabled={isExporting}
-          className="flex-1 gap-2"
-          data-testid="button-export-all"
-        >
-          <FileDown className="w-4 h-4" />
-          {isExporting ? "Exporting..." : "Export All Data"}
-        </Button>
-        <Button 
-          variant="outline"
-          onClick={handleImportFull}
-          disabled={isImporting}
-          className="flex-1 gap-2"
-          data-testid="button-import-all"
-        >
-          <FileUp className="w-4 h-4" />
-          {isImporting ? "Importing..." : "Import Data"}
-        </Button>
-      </div>
+      {/* Whole-site backup and restore are admin-only */}
+      {isAdmin && (
+        <div className="flex gap-2">
+          <Button 
+            variant="outline"
+            onClick={handleExportAll}
+            disabled={isExporting}
+            className="flex-1 gap-2"
+            data-testid="button-export-all"
+          >
+            <FileDown className="w-4 h-4" />
+            {isExporting ? "Exporting..." : "Export All Data"}
+          </Button>
+          <Button 
+            variant="outline"
+            onClick={handleImportFull}
+            disabled={isImporting}
+            className="flex-1 gap-2"
+            data-testid="button-import-all"
+          >
+            <FileUp className="w-4 h-4" />
+            {isImporting ? "Importing..." : "Import Data"}
+          </Button>
+        </div>
+      )}
 
       {isLoading ? (
         <div className="text-center py-8 text-muted-foreground">Loading tournaments...</div>
@@ -982,6 +996,13 @@ export function TournamentManagementTab({ directorPin, onTournamentSelected }: T
                 autoFocus
               />
             </div>
+            <div className="flex items-center justify-between p-3 rounded-lg border">
+              <div className="space-y-0.5">
+                <Label>Round Length</Label>
+                <p className="text-xs text-muted-foreground">Holes each player plays in the round</p>
+              </div>
+              <HoleCountSelect holeCount={holeCount} onChange={setHoleCount} />
+            </div>
             <div className="flex items-center justify-between p-3 rounded-lg border">
               <div className="space-y-0.5">
                 <Label htmlFor="handicapped-toggle" className="cursor-pointer">Handicapped Tournament</Label>
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2, UserPlus } from "lucide-react";
+
+interface TournamentStaffPanelProps {
+  roomCode: string;
+  directorPin: string;
+}
+
+type StaffRole = "assistant" | "scorer";
+
+interface StaffGrant {
+  directorId: number;
+  directorName: string;
+  role: StaffRole;
+}
+
+const ROLE_LABELS: Record<StaffRole, string> = {
+  assistant: "Assistant TD — players, groups & scores",
+  scorer: "Scorer — scores only",
+};
+
+export function TournamentStaffPanel({ roomCode, directorPin }: TournamentStaffPanelProps) {
+  const [staff, setStaff] = useState<StaffGrant[]>([]);
+  const [directors, setDirectors] = useState<{ id: number; name: string }[]>([]);
+  const [selectedDirectorId, setSelectedDirectorId] = useState("");
+  const [selectedRole, setSelectedRole] = useState<StaffRole>("scorer");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadStaff = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/staff?directorPin=${encodeURIComponent(directorPin)}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setStaff(data.staff || []);
+      setDirectors(data.directors || []);
+    } catch (error) {
+      console.error("Failed to load tournament staff:", error);
+    }
+  }, [roomCode, directorPin]);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  const handleGrant = async () => {
+    if (!selectedDirectorId) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/staff`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, directorId: Number(selectedDirectorId), role: selectedRole }),
+      });
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Could not grant access");
+      }
+      setSelectedDirectorId("");
+      await loadStaff();
+    } catch (error) {
+      toast({ title: error instanceof Error ? error.message : "Could not grant access", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (directorId: number) => {
+    try {
+      await fetch(`/api/tournaments/${roomCode}/staff/${directorId}?directorPin=${encodeURIComponent(directorPin)}`, { method: "DELETE" });
+      await loadStaff();
+    } catch (error) {
+      toast({ title: "Could not revoke access", variant: "destructive" });
+    }
+  };
+
+  const grantedIds = new Set(staff.map(s => s.directorId));
+  const available = directors.filter(d => !grantedIds.has(d.id));
+
+  return (
+    <div className="space-y-3">
+      {staff.length === 0 ? (
+        <p className="text-xs text-muted-foreground text-center py-2">Only you can manage this tournament</p>
+      ) : (
+        <div className="space-y-1">
+          {staff.map(grant => (
+            <div key={grant.directorId} className="flex items-center gap-2 text-sm" data-testid={`staff-row-${grant.directorId}`}>
+              <span className="flex-1 truncate">{grant.directorName}</span>
+              <span className="text-xs opacity-60 capitalize">{grant.role}</span>
+              <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => handleRevoke(grant.directorId)} data-testid={`button-revoke-staff-${grant.directorId}`}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {available.length > 0 && (
+        <div className="space-y-2 border-t pt-2">
+          <Select value={selectedDirectorId} onValueChange={setSelectedDirectorId}>
+            <SelectTrigger className="h-8 text-sm" data-testid="select-staff-director">
+              <SelectValue placeholder="Choose a director" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(d => (
+                <SelectItem key={d.id} value={String(d.id)}>{d.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={selectedRole} onValueChange={(v) => setSelectedRole(v as StaffRole)}>
+            <SelectTrigger className="h-8 text-sm" data-testid="select-staff-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ROLE_LABELS) as StaffRole[]).map(role => (
+                <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="w-full gap-1" onClick={handleGrant} disabled={isSaving || !selectedDirectorId} data-testid="button-grant-staff">
+            <UserPlus className="w-3 h-3" />{isSaving ? "Granting..." : "Grant Access"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { Button } from "@/components/ui/button";
+import { Link2 } from "lucide-react";
+import type { UniversalPlayerMatch } from "@shared/schema";
+
+interface UniversalPlayerMatchListProps {
+  matches: UniversalPlayerMatch[];
+  onLink: (match: UniversalPlayerMatch) => void;
+  disabled?: boolean;
+}
+
+export function UniversalPlayerMatchList({ matches, onLink, disabled }: UniversalPlayerMatchListProps) {
+  return (
+    <div className="space-y-1">
+      {matches.map(match => (
+        <div key={match.universalPlayer.id} className="flex items-center justify-between gap-2 rounded bg-muted/50 px-2 py-1" data-testid={`row-match-${match.universalPlayer.id}`}>
+          <div className="min-w-0 text-xs">
+            <p className="font-medium truncate">
+              {match.universalPlayer.name} <span className="font-normal opacity-60">· {match.universalPlayer.uniqueCode}</span>
+            </p>
+            <p className="opacity-60 truncate">
+              {Math.round(match.score * 100)}% · {match.reasons.join(", ")}
+              {match.universalPlayer.completedTournaments > 0 && ` · ${match.universalPlayer.completedTournaments} events`}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" className="h-7 gap-1 text-xs shrink-0" onClick={() => onLink(match)} disabled={disabled} data-testid={`button-link-match-${match.universalPlayer.id}`}>
+            <Link2 className="w-3 h-3" />Link
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
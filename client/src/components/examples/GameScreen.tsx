@@ -18,6 +18,7 @@ export default function GameScreenExample() {
       players={players}
       currentPlayer={players[0]}
       currentHole={1}
+      holeCount={18}
       scores={scores}
       isLeader={true}
       leftHandedMode={false}
@@ -1,6 +1,6 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
 import type { Player, HoleScore, GameSession, Settings, SetupTime } from "@shared/schema";
-import { PLAYER_COLORS, MAX_HOLES } from "@/lib/constants";
+import { PLAYER_COLORS, DEFAULT_HOLE_COUNT } from "@/lib/constants";
 
 interface GameState {
   players: Player[];
@@ -8,6 +8,7 @@ interface GameState {
   currentPlayerIndex: number;
   holesCompleted: number;
   startingHole: number;
+  holeCount: number;
   scores: Record<string, HoleScore[]>;
   isComplete: boolean;
   settings: Settings;
@@ -19,7 +20,7 @@ interface GameContextValue extends GameState {
   updatePlayerName: (id: string, name: string) => void;
   updatePlayerColor: (id: string, color: string) => void;
   movePlayer: (id: string, direction: "up" | "down") => void;
-  startGame: (startingHole?: number) => void;
+  startGame: (startingHole?: number, holeCount?: number) => void;
   updateScore: (playerId: string, hole: number, score: Partial<HoleScore>) => void;
   updateStartingHole: (hole: number) => void;
   nextCard: () => void;
@@ -57,6 +58,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
           ...parsed,
           holesCompleted: parsed.holesCompleted ?? 0,
           startingHole: parsed.startingHole ?? 1,
+          holeCount: parsed.holeCount ?? DEFAULT_HOLE_COUNT,
         };
       } catch {
         // Fallback to default
@@ -68,6 +70,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
       currentPlayerIndex: 0,
       holesCompleted: 0,
       startingHole: 1,
+      holeCount: DEFAULT_HOLE_COUNT,
       scores: {},
       isComplete: false,
       settings: {
@@ -186,13 +189,14 @@ export function GameProvider({ children }: { children: ReactNode }) {
     });
   };
 
-  const startGame = (startingHole: number = 1) => {
+  const startGame = (startingHole: number = 1, holeCount: number = DEFAULT_HOLE_COUNT) => {
     setGameState((prev) => ({
       ...prev,
       currentHole: startingHole,
       currentPlayerIndex: 0,
       holesCompleted: 0,
       startingHole,
+      holeCount,
       isComplete: false,
     }));
   };
@@ -260,8 +264,8 @@ export function GameProvider({ children }: { children: ReactNode }) {
       if (wouldAdvanceHole) {
         const newHolesCompleted = prev.holesCompleted + 1;
 
-        // Game complete after MAX_HOLES total holes played
-        if (newHolesCompleted >= MAX_HOLES) {
+        // Game complete after holeCount total holes played
+        if (newHolesCompleted >= prev.holeCount) {
           return {
             ...prev,
             holesCompleted: newHolesCompleted,
@@ -269,8 +273,8 @@ export function GameProvider({ children }: { children: ReactNode }) {
           };
         }
 
-        // Wrap: hole 18 → hole 1, etc.
-        const nextHole = (prev.currentHole % MAX_HOLES) + 1;
+        // Wrap: last hole → hole 1, etc.
+        const nextHole = (prev.currentHole % prev.holeCount) + 1;
         const sortedPlayers = sortPlayersByPreviousHole(prev.players, prev.scores, prev.currentHole);
         return {
           ...prev,
@@ -283,7 +287,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
 
       // Skip cycling through players and directly advance the hole
       const newHolesCompleted = prev.holesCompleted + 1;
-      const nextHole = (prev.currentHole % MAX_HOLES) + 1;
+      const nextHole = (prev.currentHole % prev.holeCount) + 1;
       const sortedPlayers = sortPlayersByPreviousHole(prev.players, prev.scores, prev.currentHole);
       return {
         ...prev,
@@ -324,6 +328,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
       currentPlayerIndex: 0,
       holesCompleted: 0,
       startingHole: 1,
+      holeCount: DEFAULT_HOLE_COUNT,
       scores: {},
       isComplete: false,
       settings: gameState.settings,
@@ -351,6 +356,7 @@ export function GameProvider({ children }: { children: ReactNode }) {
         currentPlayerIndex: games[slot].currentPlayerIndex,
         holesCompleted: games[slot].holesCompleted ?? 0,
         startingHole: games[slot].startingHole ?? 1,
+        holeCount: games[slot].holeCount ?? DEFAULT_HOLE_COUNT,
         scores: games[slot].scores,
         isComplete: games[slot].isComplete,
         settings: games[slot].settings || gameState.settings,
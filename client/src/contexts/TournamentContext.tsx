@@ -1,6 +1,7 @@
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
-import type { TournamentPlayer, LeaderboardEntry } from "@shared/schema";
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from "react";
+import type { TournamentPlayer, LeaderboardEntry, LeaderboardRanking, TieBreakPolicy, TournamentRole, PlayoffStanding, CourseHole, DeckCard } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { discardRejectedScore, enqueueScore, flushScoreOutbox, getPendingScoreCount, getRejectedScores, getScoreConflicts, resolveScoreConflict, retryRejectedScore, subscribeToOutbox, type QueuedScoreConflict, type RejectedScore } from "@/lib/scoreOutbox";
 
 interface TournamentInfo {
   id: number;
@@ -8,22 +9,46 @@ interface TournamentInfo {
   roomCode: string;
   isActive: boolean;
   isStarted: boolean;
+  isHandicapped: boolean;
+  holeCount: number;
+  roundCount: number;
+  currentRound: number;
+  cutAfterRound: number | null;
+  cutSize: number | null;
+  courseLayout: CourseHole[] | null;
+  deckCards: DeckCard[] | null;
+  deckDealt: boolean;
   startedAt: string | null;
   completedAt: string | null;
 }
 
+interface DivisionOption {
+  id: number;
+  name: string;
+}
+
 interface TournamentContextValue {
   roomCode: string | null;
   tournamentInfo: TournamentInfo | null;
   myPlayers: TournamentPlayer[];
   allPlayers: TournamentPlayer[];
   leaderboard: LeaderboardEntry[];
+  leaderboardRanking: LeaderboardRanking;
+  leaderboardRound: number | null;
+  leaderboardDivision: number | null;
+  divisions: DivisionOption[];
+  tieBreakPolicy: TieBreakPolicy;
+  playoff: PlayoffStanding | null;
   isConnected: boolean;
   isLoading: boolean;
   error: string | null;
   deviceId: string;
   isDirector: boolean;
   directorPin: string | null;
+  directorRole: TournamentRole | null;
+  pendingScoreCount: number;
+  scoreConflicts: QueuedScoreConflict[];
+  rejectedScores: RejectedScore[];
 
   joinRoom: (code: string, allowInactive?: boolean) => Promise<boolean>;
   leaveRoom: () => void;
@@ -31,10 +56,18 @@ interface TournamentContextValue {
   setDirectorCredentials: (pin: string) => void;
   assignPlayersToDevice: (playerIds: number[]) => Promise<void>;
   syncScore: (tournamentPlayerId: number, hole: number, par: number, strokes: number, scratches: number, penalties: number) => Promise<void>;
+  resolveScoreConflict: (conflict: QueuedScoreConflict, keep: "mine" | "server") => void;
+  retryRejectedScore: (rejection: RejectedScore) => void;
+  discardRejectedScore: (rejection: RejectedScore) => void;
   refreshLeaderboard: () => Promise<void>;
+  setLeaderboardRanking: (ranking: LeaderboardRanking) => void;
+  setLeaderboardRound: (round: number | null) => void;
+  setLeaderboardDivision: (divisionId: number | null) => void;
+  setTieBreakPolicy: (policy: TieBreakPolicy) => Promise<boolean>;
+  submitPlayoffScore: (tournamentPlayerId: number, strokes: number, scratches: number, penalties: number) => Promise<boolean>;
   refreshPlayers: () => Promise<void>;
-  verifyDirectorPin: (pin: string) => Promise<boolean>;
-  createTournament: (name: string, directorPin: string, isHandicapped?: boolean) => Promise<TournamentInfo | null>;
+  verifyDirectorPin: (name: string, pin: string) => Promise<boolean>;
+  createTournament: (name: string, directorPin: string, isHandicapped?: boolean, holeCount?: number) => Promise<TournamentInfo | null>;
   addPlayerToTournament: (playerName: string, groupName?: string, universalId?: string, contactInfo?: string) => Promise<TournamentPlayer | null>;
   updatePlayer: (playerId: number, data: { playerName?: string; groupName?: string; universalId?: string; contactInfo?: string }) => Promise<TournamentPlayer | null>;
   removePlayerFromTournament: (playerId: number) => Promise<void>;
@@ -68,26 +101,117 @@ export function TournamentProvider({ children }: { children: ReactNode }) {
   const [myPlayers, setMyPlayers] = useState<TournamentPlayer[]>([]);
   const [allPlayers, setAllPlayers] = useState<TournamentPlayer[]>([]);
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  // null lets the server pick (net for handicapped events, gross otherwise). Kept in a ref so
+  // polling intervals that captured an older refreshLeaderboard still honour the viewer's choice.
+  const requestedRankingRef = useRef<LeaderboardRanking | null>(null);
+  const [leaderboardRanking, setLeaderboardRankingState] = useState<LeaderboardRanking>("gross");
+  // null is the cumulative leaderboard across every round played so far
+  const requestedRoundRef = useRef<number | null>(null);
+  const [leaderboardRound, setLeaderboardRoundState] = useState<number | null>(null);
+  // null is the whole field; otherwise one division ranked on its own
+  const requestedDivisionRef = useRef<number | null>(null);
+  const [leaderboardDivision, setLeaderboardDivisionState] = useState<number | null>(null);
+  const [divisions, setDivisions] = useState<DivisionOption[]>([]);
+  const [tieBreakPolicy, setTieBreakPolicyState] = useState<TieBreakPolicy>("shared");
+  const [playoff, setPlayoff] = useState<PlayoffStanding | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDirector, setIsDirector] = useState(false);
   const [directorPin, setDirectorPin] = useState<string | null>(null);
+  const [directorRole, setDirectorRole] = useState<TournamentRole | null>(null);
+  const [pendingScoreCount, setPendingScoreCount] = useState(0);
+  const [scoreConflicts, setScoreConflicts] = useState<QueuedScoreConflict[]>([]);
+  const [rejectedScores, setRejectedScores] = useState<RejectedScore[]>([]);
   const deviceId = getDeviceId();
 
   const refreshLeaderboard = useCallback(async () => {
     if (!roomCode) return;
     try {
-      const response = await fetch(`/api/tournaments/${roomCode}/leaderboard`);
+      const params = new URLSearchParams();
+      if (requestedRankingRef.current) params.set("ranking", requestedRankingRef.current);
+      if (requestedRoundRef.current) params.set("round", String(requestedRoundRef.current));
+      if (requestedDivisionRef.current) params.set("division", String(requestedDivisionRef.current));
+      const query = params.toString() ? `?${params}` : "";
+      const response = await fetch(`/api/tournaments/${roomCode}/leaderboard${query}`);
       if (response.ok) {
         const data = await response.json();
         setTournamentInfo(data.tournament);
         setLeaderboard(data.leaderboard);
+        setLeaderboardRankingState(data.ranking ?? "gross");
+        setLeaderboardRoundState(data.round ?? null);
+        setLeaderboardDivisionState(data.division ?? null);
+        setDivisions(data.divisions ?? []);
+        setTieBreakPolicyState(data.tieBreakPolicy ?? "shared");
+        setPlayoff(data.playoff ?? null);
       }
     } catch (err) {
       console.error("Failed to refresh leaderboard:", err);
     }
   }, [roomCode]);
 
+  const setLeaderboardRanking = (ranking: LeaderboardRanking) => {
+    requestedRankingRef.current = ranking;
+    setLeaderboardRankingState(ranking);
+    refreshLeaderboard();
+  };
+
+  const setLeaderboardRound = (round: number | null) => {
+    requestedRoundRef.current = round;
+    setLeaderboardRoundState(round);
+    refreshLeaderboard();
+  };
+
+  const setLeaderboardDivision = (divisionId: number | null) => {
+    requestedDivisionRef.current = divisionId;
+    setLeaderboardDivisionState(divisionId);
+    refreshLeaderboard();
+  };
+
+  // Scores the current playoff hole; the response is the updated standing, so the card
+  // moves on (or shows the result) without waiting for the next leaderboard poll
+  const submitPlayoffScore = async (tournamentPlayerId: number, strokes: number, scratches: number, penalties: number): Promise<boolean> => {
+    if (!roomCode || !playoff?.currentRound) return false;
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/playoffs/${playoff.playoff.id}/scores`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tournamentPlayerId, round: playoff.currentRound, strokes, scratches, penalties }),
+      });
+      if (!response.ok) {
+        await refreshLeaderboard();
+        return false;
+      }
+      const standing: PlayoffStanding = await response.json();
+      if (standing.finishOrder) {
+        await refreshLeaderboard();
+      } else {
+        setPlayoff(standing);
+      }
+      return true;
+    } catch (err) {
+      console.error("Failed to submit playoff score:", err);
+      return false;
+    }
+  };
+
+  const setTieBreakPolicy = async (policy: TieBreakPolicy): Promise<boolean> => {
+    if (!roomCode || !directorPin) return false;
+    try {
+      const response = await fetch(`/api/tournaments/${roomCode}/tie-break-policy`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ directorPin, policy }),
+      });
+      if (!response.ok) return false;
+      setTieBreakPolicyState(policy);
+      await refreshLeaderboard();
+      return true;
+    } catch (err) {
+      console.error("Failed to update tie-break policy:", err);
+      return false;
+    }
+  };
+
   const refreshPlayers = useCallback(async () => {
     if (!roomCode) return;
     try {
@@ -113,6 +237,33 @@ export function TournamentProvider({ children }: { children: ReactNode }) {
     }
   }, [roomCode, refreshLeaderboard, refreshPlayers]);
 
+  // Scores queued on an earlier visit (tab closed while offline) are sent as soon as the app loads
+  useEffect(() => {
+    const updateOutboxState = () => {
+      setPendingScoreCount(roomCode ? getPendingScoreCount(roomCode) : 0);
+      setScoreConflicts(roomCode ? getScoreConflicts(roomCode) : []);
+      setRejectedScores(roomCode ? getRejectedScores(roomCode) : []);
+    };
+    updateOutboxState();
+    const unsubscribe = subscribeToOutbox(updateOutboxState);
+    flushScoreOutbox();
+    return unsubscribe;
+  }, [roomCode]);
+
+  // Staff roles are per tournament, so re-resolve whenever the room or credential changes
+  useEffect(() => {
+    if (!roomCode || !directorPin) {
+      setDirectorRole(null);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/tournaments/${roomCode}/my-role?directorPin=${encodeURIComponent(directorPin)}`)
+      .then(res => (res.ok ? res.json() : { role: null }))
+      .then(data => { if (!cancelled) setDirectorRole(data.role ?? null); })
+      .catch(() => { if (!cancelled) setDirectorRole(null); });
+    return () => { cancelled = true; };
+  }, [roomCode, directorPin]);
+
   const joinRoom = async (code: string, allowInactive?: boolean): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
@@ -152,6 +303,9 @@ export function TournamentProvider({ children }: { children: ReactNode }) {
     setMyPlayers([]);
     setAllPlayers([]);
     setLeaderboard([]);
+    requestedRankingRef.current = null;
+    requestedRoundRef.current = null;
+    requestedDivisionRef.current = null;
     setIsDirector(false);
     localStorage.removeItem("tournamentRoomCode");
   };
@@ -177,28 +331,19 @@ export function TournamentProvider({ children }: { children: ReactNode }) {
     penalties: number
   ) => {
     if (!roomCode) return;
-    try {
-      await apiRequest("POST", `/api/tournaments/${roomCode}/scores`, {
-        tournamentPlayerId,
-        hole,
-        par,
-        strokes,
-        scratches,
-        penalties,
-      });
-    } catch (err) {
-      console.error("Failed to sync score:", err);
-    }
+    // Queued first so the change survives a failed request or a closed tab
+    enqueueScore({ roomCode, tournamentPlayerId, round: tournamentInfo?.currentRound ?? 1, hole, par, strokes, scratches, penalties });
+    await flushScoreOutbox();
   };
 
-  const verifyDirectorPin = async (pin: string): Promise<boolean> => {
+  const verifyDirectorPin = async (name: string, pin: string): Promise<boolean> => {
     if (!roomCode) return false;
     try {
-      const response = await apiRequest("POST", `/api/tournaments/${roomCode}/verify-director`, { pin });
+      const response = await apiRequest("POST", `/api/tournaments/${roomCode}/verify-director`, { name, pin });
       const data = await response.json();
       if (data.isValid) {
         setIsDirector(true);
-        setDirectorPin(pin); // Store for subsequent director operations
+        setDirectorPin(data.token ?? pin); // Store session token for subsequent director operations
       }
       return data.isValid;
     } catch (err) {
@@ -206,9 +351,9 @@ export function TournamentProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const createTournament = async (name: string, pin: string, isHandicapped: boolean = false): Promise<TournamentInfo | null> => {
+  const createTournament = async (name: string, pin: string, isHandicapped: boolean = false, holeCount: number = 18): Promise<TournamentInfo | null> => {
     try {
-      const response = await apiRequest("POST", "/api/tournaments", { name, directorPin: pin, isHandicapped });
+      const response = await apiRequest("POST", "/api/tournaments", { name, directorPin: pin, isHandicapped, holeCount });
       const tournament = await response.json();
       setRoomCode(tournament.roomCode);
       setTournamentInfo(tournament);
@@ -316,19 +461,37 @@ export function TournamentProvider({ children }: { children: ReactNode }) {
         myPlayers,
         allPlayers,
         leaderboard,
+        leaderboardRanking,
+        leaderboardRound,
+        leaderboardDivision,
+        divisions,
+        tieBreakPolicy,
+        playoff,
         isConnected: !!roomCode && !!tournamentInfo,
         isLoading,
         error,
         deviceId,
         isDirector,
         directorPin,
+        directorRole,
+        pendingScoreCount,
+        scoreConflicts,
+        rejectedScores,
         joinRoom,
         leaveRoom,
         setIsDirector,
         setDirectorCredentials: (pin: string) => setDirectorPin(pin),
         assignPlayersToDevice,
         syncScore,
+        resolveScoreConflict,
+        retryRejectedScore,
+        discardRejectedScore,
         refreshLeaderboard,
+        setLeaderboardRanking,
+        setLeaderboardRound,
+        setLeaderboardDivision,
+        setTieBreakPolicy,
+        submitPlayoffScore,
         refreshPlayers,
         verifyDirectorPin,
         createTournament,
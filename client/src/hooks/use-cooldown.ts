@@ -0,0 +1,24 @@
+import * as React from "react"
+
+// Seconds left until `until` (epoch ms), ticking once a second; 0 once it has passed
+export function useCooldown(until: number | null) {
+  const [remaining, setRemaining] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!until) {
+      setRemaining(0)
+      return
+    }
+    const tick = () => setRemaining(Math.max(0, Math.ceil((until - Date.now()) / 1000)))
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [until])
+
+  return remaining
+}
+
+export function formatCooldown(seconds: number) {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`
+}
@@ -14,7 +14,9 @@ export const PAR_OPTIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
 
 export const MAX_PLAYERS = 8;
 
-export const MAX_HOLES = 18;
+export const DEFAULT_HOLE_COUNT = 18;
+
+export const HOLE_COUNT_OPTIONS = [9, 18, 27, 36];
 
 export const LOGO_URL = "https://prometheangamescom.wordpress.com/wp-content/uploads/2025/08/400x400.png";
 
@@ -0,0 +1,316 @@
+// Durable outbox for tournament score syncs. Every score change is written to localStorage
+// before any network call, so a closed tab or dropped venue Wi-Fi never loses the server copy.
+// Entries are coalesced per player/round/hole (latest edit wins) and flushed per room through
+// POST /api/tournaments/:roomCode/scores/batch, retrying with exponential backoff.
+//
+// Each write carries the server version of that hole this device last saw (0 if it never saw
+// one). When another device changed the hole in between, the server answers 409 and the entry
+// moves to a conflict list until the player picks which score to keep.
+//
+// Only entries the server confirms (saved, or answered with a conflict) leave the outbox. Entries
+// it refuses (wrong par, missed cut, a round no longer in play, room gone) move to a rejected list the scorer has to retry or
+// discard, so a score is never dropped without being shown.
+
+import type { ScoreConflict, ScoreRejection } from "@shared/schema";
+
+const STORAGE_KEY = "scoreOutbox";
+const VERSIONS_KEY = "scoreVersions";
+const CONFLICTS_KEY = "scoreConflicts";
+const REJECTED_KEY = "scoreRejections";
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60000;
+
+export interface QueuedScore {
+  roomCode: string;
+  tournamentPlayerId: number;
+  round: number; // the round the score was entered in; the server refuses it once that round is over
+  hole: number;
+  par: number;
+  strokes: number;
+  scratches: number;
+  penalties: number;
+  queuedAt: number;
+}
+
+export interface QueuedScoreConflict extends ScoreConflict {
+  roomCode: string;
+}
+
+export interface RejectedScore extends QueuedScore {
+  error: string;
+}
+
+type OutboxListener = () => void;
+
+const listeners = new Set<OutboxListener>();
+let isFlushing = false;
+let flushAgain = false;
+let failedAttempts = 0;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scoreKey(score: Pick<QueuedScore, "roomCode" | "tournamentPlayerId" | "round" | "hole">): string {
+  return `${score.roomCode}-${score.tournamentPlayerId}-${score.round}-${score.hole}`;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function readOutbox(): QueuedScore[] {
+  return readJson<QueuedScore[]>(STORAGE_KEY, []);
+}
+
+function readVersions(): Record<string, number> {
+  return readJson<Record<string, number>>(VERSIONS_KEY, {});
+}
+
+function readConflicts(): QueuedScoreConflict[] {
+  return readJson<QueuedScoreConflict[]>(CONFLICTS_KEY, []);
+}
+
+function writeConflicts(conflicts: QueuedScoreConflict[]) {
+  if (conflicts.length === 0) {
+    localStorage.removeItem(CONFLICTS_KEY);
+  } else {
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+  }
+  listeners.forEach(listener => listener());
+}
+
+function readRejections(): RejectedScore[] {
+  return readJson<RejectedScore[]>(REJECTED_KEY, []);
+}
+
+function writeRejections(rejections: RejectedScore[]) {
+  if (rejections.length === 0) {
+    localStorage.removeItem(REJECTED_KEY);
+  } else {
+    localStorage.setItem(REJECTED_KEY, JSON.stringify(rejections));
+  }
+  listeners.forEach(listener => listener());
+}
+
+// Record the server versions this device has seen, e.g. from /my-scores or a sync response
+export function rememberScoreVersions(roomCode: string, scores: { tournamentPlayerId: number; round: number; hole: number; version: number }[]) {
+  if (scores.length === 0) return;
+  const versions = readVersions();
+  for (const score of scores) {
+    versions[scoreKey({ roomCode, ...score })] = score.version;
+  }
+  localStorage.setItem(VERSIONS_KEY, JSON.stringify(versions));
+}
+
+export function getScoreConflicts(roomCode: string): QueuedScoreConflict[] {
+  return readConflicts().filter(c => c.roomCode === roomCode);
+}
+
+// Settle a conflict. Either way this device has now seen the server's version; keeping
+// "mine" re-queues the local score on top of it.
+export function resolveScoreConflict(conflict: QueuedScoreConflict, keep: "mine" | "server") {
+  const key = scoreKey(conflict);
+  rememberScoreVersions(conflict.roomCode, [conflict.current]);
+  writeConflicts(readConflicts().filter(c => scoreKey(c) !== key));
+  if (keep === "mine") {
+    enqueueScore({
+      roomCode: conflict.roomCode,
+      tournamentPlayerId: conflict.tournamentPlayerId,
+      round: conflict.round,
+      hole: conflict.hole,
+      ...conflict.attempted,
+    });
+    flushScoreOutbox();
+  }
+}
+
+export function getRejectedScores(roomCode: string): RejectedScore[] {
+  return readRejections().filter(r => r.roomCode === roomCode);
+}
+
+// Send a rejected score again, e.g. once the director has fixed the course or the cut
+export function retryRejectedScore(rejection: RejectedScore) {
+  const { error: _error, queuedAt: _queued, ...score } = rejection;
+  enqueueScore(score);
+  flushScoreOutbox();
+}
+
+export function discardRejectedScore(rejection: RejectedScore) {
+  const key = scoreKey(rejection);
+  writeRejections(readRejections().filter(r => scoreKey(r) !== key));
+}
+
+function writeOutbox(scores: QueuedScore[]) {
+  if (scores.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scores));
+  }
+  listeners.forEach(listener => listener());
+}
+
+export function getPendingScoreCount(roomCode?: string): number {
+  const scores = readOutbox();
+  return roomCode ? scores.filter(s => s.roomCode === roomCode).length : scores.length;
+}
+
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function enqueueScore(score: Omit<QueuedScore, "queuedAt">) {
+  const key = scoreKey(score);
+  const scores = readOutbox().filter(s => scoreKey(s) !== key);
+  scores.push({ ...score, queuedAt: Date.now() });
+  writeOutbox(scores);
+  // A newer edit of the hole supersedes an earlier rejected one
+  const rejections = readRejections();
+  if (rejections.some(r => scoreKey(r) === key)) {
+    writeRejections(rejections.filter(r => scoreKey(r) !== key));
+  }
+}
+
+// Drops sent entries unless they were re-queued with a newer edit while the request was in flight
+function removeSent(sent: QueuedScore[]) {
+  const sentAt = new Map(sent.map(s => [scoreKey(s), s.queuedAt]));
+  writeOutbox(readOutbox().filter(s => sentAt.get(scoreKey(s)) !== s.queuedAt));
+}
+
+// Moves refused entries from the outbox to the rejected list, skipping any re-queued in flight
+function rejectSent(rejected: RejectedScore[]) {
+  const queuedAt = new Map(readOutbox().map(s => [scoreKey(s), s.queuedAt]));
+  const current = rejected.filter(r => queuedAt.get(scoreKey(r)) === r.queuedAt);
+  if (current.length === 0) return;
+  const keys = new Set(current.map(scoreKey));
+  writeRejections([...readRejections().filter(r => !keys.has(scoreKey(r))), ...current]);
+  removeSent(current);
+}
+
+// Entries the server reports as saved or conflicting, matched on the full entry key so a row saved
+// for a different round doesn't confirm the entry
+function confirmedBy(roomCode: string, sent: QueuedScore[], answered: { tournamentPlayerId: number; round: number; hole: number }[]): QueuedScore[] {
+  const keys = new Set(answered.map(a => scoreKey({ roomCode, ...a })));
+  return sent.filter(s => keys.has(scoreKey(s)));
+}
+
+function scheduleRetry() {
+  if (retryTimer) return;
+  const delay = Math.min(BASE_RETRY_MS * 2 ** (failedAttempts - 1), MAX_RETRY_MS);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushScoreOutbox();
+  }, delay);
+}
+
+export async function flushScoreOutbox(): Promise<void> {
+  if (isFlushing) {
+    flushAgain = true;
+    return;
+  }
+  const pending = readOutbox();
+  if (pending.length === 0) return;
+
+  isFlushing = true;
+  let failed = false;
+  try {
+    const byRoom = new Map<string, QueuedScore[]>();
+    for (const score of pending) {
+      byRoom.set(score.roomCode, [...(byRoom.get(score.roomCode) || []), score]);
+    }
+
+    for (const [roomCode, scores] of Array.from(byRoom.entries())) {
+      try {
+        const versions = readVersions();
+        const response = await fetch(`/api/tournaments/${roomCode}/scores/batch`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            // Identifies who made the change in the score history
+            deviceId: localStorage.getItem("deviceId") || undefined,
+            sessionToken: localStorage.getItem("playerSessionToken") || undefined,
+            scores: scores.map(({ roomCode: _room, queuedAt: _queued, ...score }) => ({
+              ...score,
+              version: versions[scoreKey({ roomCode, ...score })] ?? 0,
+            })),
+          }),
+        });
+        if (response.ok) {
+          const saved = await response.json();
+          rememberScoreVersions(roomCode, saved);
+          const confirmed = confirmedBy(roomCode, scores, saved);
+          removeSent(confirmed);
+          if (confirmed.length < scores.length) failed = true;
+          continue;
+        }
+        // 409: some holes conflict. 422: some entries were refused. Either way the rest were saved.
+        if (response.status === 409 || response.status === 422) {
+          const data = await response.json();
+          const saved = data.saved || [];
+          rememberScoreVersions(roomCode, saved);
+          const incoming: QueuedScoreConflict[] = (data.conflicts || []).map((c: ScoreConflict) => ({ ...c, roomCode }));
+          const incomingKeys = new Set(incoming.map(scoreKey));
+          writeConflicts([...readConflicts().filter(c => !incomingKeys.has(scoreKey(c))), ...incoming]);
+          const rejected: RejectedScore[] = (data.rejected || [])
+            .filter((r: ScoreRejection) => scores[r.index])
+            .map((r: ScoreRejection) => ({ ...scores[r.index], error: r.error }));
+          rejectSent(rejected);
+          const confirmed = confirmedBy(roomCode, scores, [...saved, ...incoming]);
+          removeSent(confirmed);
+          if (confirmed.length + rejected.length < scores.length) failed = true;
+          continue;
+        }
+        // A 4xx other than timeout/throttling will never succeed on retry (e.g. the room was deleted),
+        // so the whole batch waits on the rejected list for the scorer to retry or discard
+        const isPermanentFailure = response.status >= 400 && response.status < 500
+          && response.status !== 408 && response.status !== 429;
+        if (isPermanentFailure) {
+          const data = await response.json().catch(() => ({}));
+          const error = data.error || `Server refused the scores (HTTP ${response.status})`;
+          rejectSent(scores.map(score => ({ ...score, error })));
+        } else {
+          failed = true;
+        }
+      } catch (err) {
+        failed = true;
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+
+  if (failed) {
+    failedAttempts += 1;
+    scheduleRetry();
+  } else {
+    failedAttempts = 0;
+  }
+
+  if (flushAgain) {
+    flushAgain = false;
+    if (!failed) await flushScoreOutbox();
+  }
+}
+
+if (typeof window !== "undefined") {
+  // Connectivity is back: skip the remaining backoff and send immediately
+  window.addEventListener("online", () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+    failedAttempts = 0;
+    flushScoreOutbox();
+  });
+  // Keep the pending count in sync when another tab changes the outbox
+  window.addEventListener("storage", (event) => {
+    if (event.key === STORAGE_KEY || event.key === CONFLICTS_KEY || event.key === REJECTED_KEY) {
+      listeners.forEach(listener => listener());
+    }
+  });
+}
@@ -9,6 +9,7 @@ import express, {
 
 import { registerRoutes } from "./routes";
 import { initializeDatabase } from "./db";
+import { scheduleDuplicateScans } from "./matching";
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -22,6 +23,8 @@ export function log(message: string, source = "express") {
 }
 
 export const app = express();
+// Behind the hosting proxy; trust its X-Forwarded-For so req.ip is the real client (PIN lockouts key on it)
+app.set("trust proxy", 1);
 
 declare module 'http' {
   interface IncomingMessage {
@@ -73,6 +76,7 @@ export default async function runApp(
   await initializeDatabase();
   
   const server = await registerRoutes(app);
+  scheduleDuplicateScans();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
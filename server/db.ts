@@ -1,5 +1,6 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import pg from "pg";
+import bcrypt from "bcrypt";
 import * as schema from "@shared/schema";
 
 const { Pool } = pg;
@@ -41,6 +42,36 @@ export async function initializeDatabase() {
         END IF;
       END $$;
 
+      CREATE TABLE IF NOT EXISTS directors (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        email TEXT,
+        pin_hash TEXT NOT NULL,
+        is_admin BOOLEAN NOT NULL DEFAULT false,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        last_login_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS director_sessions (
+        id SERIAL PRIMARY KEY,
+        director_id INTEGER NOT NULL REFERENCES directors(id) ON DELETE CASCADE,
+        token_hash TEXT NOT NULL UNIQUE,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS player_sessions (
+        id SERIAL PRIMARY KEY,
+        universal_player_id INTEGER NOT NULL REFERENCES universal_players(id) ON DELETE CASCADE,
+        token_hash TEXT NOT NULL UNIQUE,
+        device_label TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        last_seen_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        expires_at TIMESTAMP NOT NULL
+      );
+
       CREATE TABLE IF NOT EXISTS tournaments (
         id SERIAL PRIMARY KEY,
         room_code TEXT NOT NULL UNIQUE,
@@ -72,10 +103,14 @@ export async function initializeDatabase() {
         is_active BOOLEAN NOT NULL DEFAULT true,
         is_started BOOLEAN NOT NULL DEFAULT false,
         is_handicapped BOOLEAN NOT NULL DEFAULT false,
-        director_pin TEXT NOT NULL,
+        director_id INTEGER REFERENCES directors(id),
+        director_pin TEXT,
         created_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
 
+      -- Legacy tournament PINs no longer sign anyone in, so the sessions they were traded for go too
+      DROP TABLE IF EXISTS tournament_pin_sessions;
+
       CREATE TABLE IF NOT EXISTS player_tournament_history (
         id SERIAL PRIMARY KEY,
         universal_player_id INTEGER NOT NULL REFERENCES universal_players(id),
@@ -103,13 +138,63 @@ export async function initializeDatabase() {
       CREATE TABLE IF NOT EXISTS tournament_scores (
         id SERIAL PRIMARY KEY,
         tournament_player_id INTEGER NOT NULL REFERENCES tournament_players(id),
+        round INTEGER NOT NULL DEFAULT 1,
         hole INTEGER NOT NULL,
         par INTEGER NOT NULL,
         strokes INTEGER NOT NULL,
         scratches INTEGER NOT NULL DEFAULT 0,
-        penalties INTEGER NOT NULL DEFAULT 0
+        penalties INTEGER NOT NULL DEFAULT 0,
+        version INTEGER NOT NULL DEFAULT 1,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS score_history (
+        id SERIAL PRIMARY KEY,
+        tournament_id INTEGER NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+        tournament_player_id INTEGER NOT NULL REFERENCES tournament_players(id) ON DELETE CASCADE,
+        round INTEGER NOT NULL DEFAULT 1,
+        hole INTEGER NOT NULL,
+        actor_type TEXT NOT NULL,
+        actor_id TEXT,
+        actor_name TEXT,
+        source TEXT NOT NULL,
+        previous_par INTEGER,
+        previous_strokes INTEGER,
+        previous_scratches INTEGER,
+        previous_penalties INTEGER,
+        new_par INTEGER NOT NULL,
+        new_strokes INTEGER NOT NULL,
+        new_scratches INTEGER NOT NULL,
+        new_penalties INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_score_history_player_hole ON score_history(tournament_player_id, hole);
+
+      CREATE TABLE IF NOT EXISTS tournament_playoffs (
+        id SERIAL PRIMARY KEY,
+        tournament_id INTEGER NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        player_ids JSONB NOT NULL,
+        holes JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        completed_at TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS playoff_scores (
+        id SERIAL PRIMARY KEY,
+        playoff_id INTEGER NOT NULL REFERENCES tournament_playoffs(id) ON DELETE CASCADE,
+        tournament_player_id INTEGER NOT NULL REFERENCES tournament_players(id) ON DELETE CASCADE,
+        round INTEGER NOT NULL,
+        strokes INTEGER NOT NULL,
+        scratches INTEGER NOT NULL DEFAULT 0,
+        penalties INTEGER NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
       );
 
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_playoff_scores_playoff_player_round ON playoff_scores(playoff_id, tournament_player_id, round);
+
       CREATE TABLE IF NOT EXISTS tournament_sponsors (
         id SERIAL PRIMARY KEY,
         tournament_id INTEGER NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
@@ -136,7 +221,8 @@ export async function initializeDatabase() {
       );
 
       CREATE TABLE IF NOT EXISTS director_content_defaults (
-        director_pin TEXT PRIMARY KEY,
+        director_id INTEGER UNIQUE REFERENCES directors(id),
+        director_pin TEXT,
         rules_text TEXT,
         faq_items JSONB NOT NULL DEFAULT '[]'::jsonb,
         faq_items_customized BOOLEAN NOT NULL DEFAULT false,
@@ -149,9 +235,20 @@ export async function initializeDatabase() {
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS tournament_divisions (
+        id SERIAL PRIMARY KEY,
+        tournament_id INTEGER NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        min_handicap REAL,
+        max_handicap REAL,
+        sort_order INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
       CREATE TABLE IF NOT EXISTS tournament_payouts (
         id SERIAL PRIMARY KEY,
-        tournament_id INTEGER NOT NULL UNIQUE REFERENCES tournaments(id),
+        tournament_id INTEGER NOT NULL REFERENCES tournaments(id),
+        division_id INTEGER REFERENCES tournament_divisions(id) ON DELETE CASCADE,
         num_players INTEGER NOT NULL,
         entry_fee REAL NOT NULL,
         green_fee REAL NOT NULL DEFAULT 0,
@@ -162,6 +259,19 @@ export async function initializeDatabase() {
         updated_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS payout_disbursements (
+        id SERIAL PRIMARY KEY,
+        payout_id INTEGER NOT NULL REFERENCES tournament_payouts(id) ON DELETE CASCADE,
+        tournament_player_id INTEGER NOT NULL REFERENCES tournament_players(id) ON DELETE CASCADE,
+        amount REAL NOT NULL,
+        method TEXT NOT NULL,
+        note TEXT,
+        paid_by_director_id INTEGER REFERENCES directors(id) ON DELETE SET NULL,
+        paid_by_name TEXT,
+        paid_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_disbursements_payout_player ON payout_disbursements(payout_id, tournament_player_id);
+
       CREATE TABLE IF NOT EXISTS push_subscriptions (
         id SERIAL PRIMARY KEY,
         endpoint TEXT NOT NULL UNIQUE,
@@ -174,6 +284,97 @@ export async function initializeDatabase() {
         created_at TIMESTAMP DEFAULT NOW() NOT NULL
       );
 
+      CREATE TABLE IF NOT EXISTS cheat_alerts (
+        id SERIAL PRIMARY KEY,
+        tournament_id INTEGER REFERENCES tournaments(id) ON DELETE CASCADE,
+        room_code TEXT,
+        tournament_player_id INTEGER,
+        player_name TEXT NOT NULL,
+        hole INTEGER,
+        par INTEGER,
+        scratches INTEGER,
+        alert_type TEXT NOT NULL,
+        message TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        review_note TEXT,
+        reviewed_by TEXT,
+        reviewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS tournament_staff (
+        id SERIAL PRIMARY KEY,
+        tournament_id INTEGER NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+        director_id INTEGER NOT NULL REFERENCES directors(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        granted_by INTEGER REFERENCES directors(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_staff_tournament_director ON tournament_staff(tournament_id, director_id);
+
+      CREATE TABLE IF NOT EXISTS hole_cards (
+        id SERIAL PRIMARY KEY,
+        director_id INTEGER NOT NULL REFERENCES directors(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        par INTEGER NOT NULL,
+        diagram JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS courses (
+        id SERIAL PRIMARY KEY,
+        director_id INTEGER NOT NULL REFERENCES directors(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        card_ids JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS handicap_revisions (
+        id SERIAL PRIMARY KEY,
+        universal_player_id INTEGER NOT NULL REFERENCES universal_players(id) ON DELETE CASCADE,
+        handicap REAL,
+        previous_handicap REAL,
+        is_provisional BOOLEAN NOT NULL,
+        reason TEXT NOT NULL,
+        actor_director_id INTEGER REFERENCES directors(id) ON DELETE SET NULL,
+        actor_name TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS duplicate_candidates (
+        id SERIAL PRIMARY KEY,
+        player_a_id INTEGER NOT NULL REFERENCES universal_players(id) ON DELETE CASCADE,
+        player_b_id INTEGER NOT NULL REFERENCES universal_players(id) ON DELETE CASCADE,
+        score REAL NOT NULL,
+        reasons JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        detected_at TIMESTAMP DEFAULT NOW() NOT NULL,
+        reviewed_by_director_id INTEGER REFERENCES directors(id) ON DELETE SET NULL,
+        reviewed_at TIMESTAMP
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_duplicate_candidates_pair ON duplicate_candidates(player_a_id, player_b_id);
+
+      CREATE TABLE IF NOT EXISTS handicap_settings (
+        id SERIAL PRIMARY KEY,
+        policy JSONB NOT NULL,
+        updated_by_director_id INTEGER REFERENCES directors(id) ON DELETE SET NULL,
+        updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS deck_draws (
+        id SERIAL PRIMARY KEY,
+        tournament_id INTEGER NOT NULL REFERENCES tournaments(id) ON DELETE CASCADE,
+        round INTEGER NOT NULL,
+        hole INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        par INTEGER NOT NULL,
+        hole_card_id INTEGER,
+        device_id TEXT NOT NULL,
+        drawn_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+
       DO $$
       BEGIN
         -- tournaments columns
@@ -264,7 +465,46 @@ export async function initializeDatabase() {
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'group_starting_holes') THEN
           ALTER TABLE tournaments ADD COLUMN group_starting_holes JSONB;
         END IF;
-        -- director_content_defaults columns
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'director_id') THEN
+          ALTER TABLE tournaments ADD COLUMN director_id INTEGER REFERENCES directors(id);
+          ALTER TABLE tournaments ALTER COLUMN director_pin DROP NOT NULL;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'cheat_rules') THEN
+          ALTER TABLE tournaments ADD COLUMN cheat_rules JSONB;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'tie_break_policy') THEN
+          ALTER TABLE tournaments ADD COLUMN tie_break_policy TEXT NOT NULL DEFAULT 'shared';
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'hole_count') THEN
+          ALTER TABLE tournaments ADD COLUMN hole_count INTEGER NOT NULL DEFAULT 18;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'round_count') THEN
+          ALTER TABLE tournaments ADD COLUMN round_count INTEGER NOT NULL DEFAULT 1;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'current_round') THEN
+          ALTER TABLE tournaments ADD COLUMN current_round INTEGER NOT NULL DEFAULT 1;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'cut_after_round') THEN
+          ALTER TABLE tournaments ADD COLUMN cut_after_round INTEGER;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'cut_size') THEN
+          ALTER TABLE tournaments ADD COLUMN cut_size INTEGER;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'course_layout') THEN
+          ALTER TABLE tournaments ADD COLUMN course_layout JSONB;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'deck_cards') THEN
+          ALTER TABLE tournaments ADD COLUMN deck_cards JSONB;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournaments' AND column_name = 'deck_seed') THEN
+          ALTER TABLE tournaments ADD COLUMN deck_seed TEXT;
+        END IF;
+        -- director_content_defaults columns (re-keyed from raw PIN to director account)
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'director_content_defaults' AND column_name = 'director_id') THEN
+          ALTER TABLE director_content_defaults DROP CONSTRAINT IF EXISTS director_content_defaults_pkey;
+          ALTER TABLE director_content_defaults ALTER COLUMN director_pin DROP NOT NULL;
+          ALTER TABLE director_content_defaults ADD COLUMN director_id INTEGER UNIQUE REFERENCES directors(id);
+        END IF;
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'director_content_defaults' AND column_name = 'faq_items_customized') THEN
           ALTER TABLE director_content_defaults ADD COLUMN faq_items_customized BOOLEAN NOT NULL DEFAULT false;
         END IF;
@@ -290,6 +530,27 @@ export async function initializeDatabase() {
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_players' AND column_name = 'is_dnf') THEN
           ALTER TABLE tournament_players ADD COLUMN is_dnf BOOLEAN NOT NULL DEFAULT false;
         END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_players' AND column_name = 'handicap_snapshot') THEN
+          ALTER TABLE tournament_players ADD COLUMN handicap_snapshot REAL;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_players' AND column_name = 'cut_after_round') THEN
+          ALTER TABLE tournament_players ADD COLUMN cut_after_round INTEGER;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_players' AND column_name = 'division_id') THEN
+          ALTER TABLE tournament_players ADD COLUMN division_id INTEGER REFERENCES tournament_divisions(id) ON DELETE SET NULL;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_players' AND column_name = 'division_assigned_manually') THEN
+          ALTER TABLE tournament_players ADD COLUMN division_assigned_manually BOOLEAN NOT NULL DEFAULT false;
+        END IF;
+        -- tournament_payouts columns: one payout per division, plus one for the whole field
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_payouts' AND column_name = 'division_id') THEN
+          ALTER TABLE tournament_payouts DROP CONSTRAINT IF EXISTS tournament_payouts_tournament_id_key;
+          ALTER TABLE tournament_payouts ADD COLUMN division_id INTEGER REFERENCES tournament_divisions(id) ON DELETE CASCADE;
+        END IF;
+        -- The whole-field payout has no division, so it is keyed as division 0; a plain UNIQUE would let
+        -- NULLs repeat, and NULLS NOT DISTINCT needs Postgres 15
+        ALTER TABLE tournament_payouts DROP CONSTRAINT IF EXISTS tournament_payouts_tournament_division_key;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_payouts_tournament_division ON tournament_payouts(tournament_id, COALESCE(division_id, 0));
         -- player_tournament_history columns
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'player_tournament_history' AND column_name = 'course_name') THEN
           ALTER TABLE player_tournament_history ADD COLUMN course_name TEXT;
@@ -303,6 +564,25 @@ export async function initializeDatabase() {
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'player_tournament_history' AND column_name = 'is_manual_entry') THEN
           ALTER TABLE player_tournament_history ADD COLUMN is_manual_entry BOOLEAN DEFAULT false;
         END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'player_tournament_history' AND column_name = 'superseded_at') THEN
+          ALTER TABLE player_tournament_history ADD COLUMN superseded_at TIMESTAMP;
+        END IF;
+        -- tournament_scores columns
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_scores' AND column_name = 'version') THEN
+          ALTER TABLE tournament_scores ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_scores' AND column_name = 'updated_at') THEN
+          ALTER TABLE tournament_scores ADD COLUMN updated_at TIMESTAMP NOT NULL DEFAULT NOW();
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tournament_scores' AND column_name = 'round') THEN
+          ALTER TABLE tournament_scores ADD COLUMN round INTEGER NOT NULL DEFAULT 1;
+        END IF;
+        -- Scores are unique per round, so the same hole can be played again in a later round
+        DROP INDEX IF EXISTS idx_tournament_scores_player_hole;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tournament_scores_player_round_hole ON tournament_scores(tournament_player_id, round, hole);
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'score_history' AND column_name = 'round') THEN
+          ALTER TABLE score_history ADD COLUMN round INTEGER NOT NULL DEFAULT 1;
+        END IF;
         -- universal_players columns
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'universal_players' AND column_name = 'phone_number') THEN
           ALTER TABLE universal_players ADD COLUMN phone_number TEXT;
@@ -310,6 +590,9 @@ export async function initializeDatabase() {
         IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'universal_players' AND column_name = 't_shirt_size') THEN
           ALTER TABLE universal_players ADD COLUMN t_shirt_size TEXT;
         END IF;
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'universal_players' AND column_name = 'handicap_calculation') THEN
+          ALTER TABLE universal_players ADD COLUMN handicap_calculation JSONB;
+        END IF;
         -- Make player_tournament_history.tournament_id nullable for manual entries
         ALTER TABLE player_tournament_history ALTER COLUMN tournament_id DROP NOT NULL;
       END $$;
@@ -319,6 +602,9 @@ export async function initializeDatabase() {
     
     // Migrate existing players without unique codes
     await migrateUniqueCodes();
+
+    // Migrate the old hard-coded director PINs to director accounts
+    await migrateDirectorAccounts();
   } catch (error) {
     console.error("Failed to initialize database tables:", error);
     throw error;
@@ -362,3 +648,45 @@ async function migrateUniqueCodes() {
     console.error("Error migrating unique codes:", error);
   }
 }
+
+// Migration: Seed the first admin director and report PIN-keyed tournaments and content defaults
+// still waiting for a director account
+async function migrateDirectorAccounts() {
+  try {
+    const existing = await pool.query(`SELECT COUNT(*)::int AS count FROM directors`);
+    if (existing.rows[0].count === 0) {
+      // No PIN ships with the app: the first admin comes from the environment, and signs in with it
+      // to add the other directors. Rotate it from the Directors panel once signed in.
+      const masterPin = process.env.MASTER_DIRECTOR_PIN?.trim();
+      if (!masterPin) {
+        console.warn("No director accounts exist and MASTER_DIRECTOR_PIN is not set; set it and restart to create the first admin");
+      } else if (!/^\d{4}$/.test(masterPin)) {
+        // Same rule as PINs set from the Directors panel
+        console.warn("MASTER_DIRECTOR_PIN must be exactly 4 digits; no admin director was created");
+      } else {
+        const name = process.env.MASTER_DIRECTOR_NAME?.trim() || "Administrator";
+        const pinHash = await bcrypt.hash(masterPin, 10);
+        await pool.query(
+          `INSERT INTO directors (name, pin_hash, is_admin) VALUES ($1, $2, true)`,
+          [name, pinHash]
+        );
+        console.log(`Created admin director "${name}" from MASTER_DIRECTOR_PIN`);
+      }
+    }
+
+    // Records from before director accounts were keyed by the built-in PINs, which are public, so
+    // the PINs grant nothing; an admin assigns the records to an account from Director Accounts
+    const legacy = await pool.query(`
+      SELECT
+        (SELECT COUNT(*)::int FROM tournaments WHERE director_id IS NULL AND director_pin IS NOT NULL) AS tournaments,
+        (SELECT COUNT(*)::int FROM director_content_defaults WHERE director_id IS NULL AND director_pin IS NOT NULL) AS defaults
+    `);
+    const { tournaments, defaults } = legacy.rows[0];
+    if (tournaments > 0 || defaults > 0) {
+      console.log(`  ${tournaments} legacy tournament(s) and ${defaults} legacy content default(s) await assignment to a director`);
+    }
+
+  } catch (error) {
+    console.error("Error migrating director accounts:", error);
+  }
+}
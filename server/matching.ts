@@ -0,0 +1,295 @@
+/**
+ * Player Matching Module
+ *
+ * Scores universal players against a tournament entrant so walk-up players can be
+ * linked to their existing identity instead of being skipped or duplicated, and scans
+ * the directory for pairs that look like the same person. Nothing here links or merges
+ * anything; the director confirms each suggestion.
+ */
+
+import { storage } from "./storage";
+import type { DuplicateCandidate, UniversalPlayer, UniversalPlayerMatch } from "@shared/schema";
+
+export interface MatchEntrant {
+  playerName: string;
+  contactInfo: string | null;
+}
+
+// Below this a candidate isn't worth showing; an exact name on its own scores 0.6
+export const MIN_MATCH_SCORE = 0.45;
+
+// Below this a directory pair isn't queued; an exact name on its own scores 0.5
+export const MIN_DUPLICATE_SCORE = 0.45;
+
+const DUPLICATE_SCAN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DUPLICATE_SCAN_STARTUP_DELAY_MS = 60 * 1000;
+// A name part shared by more players than this (a common surname) is too broad to compare within
+const MAX_DUPLICATE_BLOCK_SIZE = 200;
+
+// Common nicknames, mapped to the formal name they stand for
+const NICKNAMES: Record<string, string> = {
+  al: "albert", alex: "alexander", andy: "andrew", drew: "andrew", ben: "benjamin", bill: "william",
+  billy: "william", will: "william", liam: "william", bob: "robert", bobby: "robert", rob: "robert",
+  robbie: "robert", bert: "robert", cathy: "catherine", kate: "catherine", katie: "catherine",
+  chris: "christopher", chuck: "charles", charlie: "charles", dan: "daniel", danny: "daniel",
+  dave: "david", debbie: "deborah", deb: "deborah", dick: "richard", rick: "richard", rich: "richard",
+  ricky: "richard", ed: "edward", eddie: "edward", ted: "edward", greg: "gregory", jack: "john",
+  johnny: "john", jon: "jonathan", jim: "james", jimmy: "james", jamie: "james", jen: "jennifer",
+  jenny: "jennifer", joe: "joseph", joey: "joseph", josh: "joshua", kim: "kimberly", larry: "lawrence",
+  liz: "elizabeth", beth: "elizabeth", betty: "elizabeth", lizzie: "elizabeth", matt: "matthew",
+  meg: "margaret", peggy: "margaret", maggie: "margaret", mike: "michael", mikey: "michael",
+  mick: "michael", nate: "nathan", nick: "nicholas", pat: "patrick", patty: "patricia", pete: "peter",
+  phil: "phillip", ron: "ronald", ronnie: "ronald", sam: "samuel", steve: "steven", stevie: "steven",
+  sue: "susan", susie: "susan", tom: "thomas", tommy: "thomas", tony: "anthony", vicky: "victoria",
+  zach: "zachary", zack: "zachary",
+};
+
+const EMAIL_PATTERN = /[^\s@,;<>]+@[^\s@,;<>]+\.[^\s@,;<>]+/g;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{5,}\d/g;
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// Dice coefficient over character bigrams
+function diceSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const counts = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const pair = a.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const pair = b.slice(i, i + 2);
+    const count = counts.get(pair) ?? 0;
+    if (count > 0) {
+      counts.set(pair, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+// Ignores case, accents, punctuation and word order ("Smith, John" matches "John Smith")
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+  return Math.max(
+    diceSimilarity(tokensA.join(" "), tokensB.join(" ")),
+    diceSimilarity([...tokensA].sort().join(" "), [...tokensB].sort().join(" ")),
+  );
+}
+
+function extractEmails(text: string | null): string[] {
+  return (text?.match(EMAIL_PATTERN) ?? []).map(email => email.toLowerCase());
+}
+
+// Compared on the last 10 digits so "+1 (555) 123-4567" and "555.123.4567" are the same number
+function extractPhones(text: string | null): string[] {
+  return (text?.match(PHONE_PATTERN) ?? [])
+    .map(phone => phone.replace(/\D/g, ""))
+    .filter(digits => digits.length >= 7)
+    .map(digits => digits.slice(-10));
+}
+
+function canonicalTokens(name: string): string[] {
+  return nameTokens(name).map(token => NICKNAMES[token] ?? token);
+}
+
+// Emails and phone numbers found anywhere in either side's contact fields
+function contactEvidence(a: (string | null)[], b: (string | null)[]) {
+  const emailsB = b.flatMap(extractEmails);
+  const phonesB = b.flatMap(extractPhones);
+  return {
+    sameEmail: a.flatMap(extractEmails).some(email => emailsB.includes(email)),
+    samePhone: a.flatMap(extractPhones).some(phone => phonesB.includes(phone)),
+  };
+}
+
+function describeNameSimilarity(similarity: number, reasons: string[]) {
+  if (similarity === 1) reasons.push("same name");
+  else if (similarity >= 0.5) reasons.push(`name ${Math.round(similarity * 100)}% similar`);
+}
+
+export function scoreUniversalPlayerMatch(entrant: MatchEntrant, candidate: UniversalPlayer): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  const similarity = nameSimilarity(entrant.playerName, candidate.name);
+  let score = similarity * 0.6;
+  describeNameSimilarity(similarity, reasons);
+
+  const { sameEmail, samePhone } = contactEvidence([entrant.contactInfo], [candidate.email, candidate.phoneNumber, candidate.contactInfo]);
+  if (sameEmail) {
+    score += 0.4;
+    reasons.push("same email");
+  }
+  if (samePhone) {
+    score += 0.4;
+    reasons.push("same phone");
+  }
+  // Free-text contact info that held no matching email or phone only counts when identical
+  const contact = entrant.contactInfo?.trim().toLowerCase();
+  if (!sameEmail && !samePhone && contact && contact === candidate.contactInfo?.trim().toLowerCase()) {
+    score += 0.2;
+    reasons.push("same contact info");
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+export interface SharedAppearances {
+  enteredTwice: number; // events both were entered in where only one of them has a result
+  playedTogether: number; // events where both have a result, so they are probably two people
+}
+
+export function scoreDuplicatePair(a: UniversalPlayer, b: UniversalPlayer, shared: SharedAppearances): { score: number; reasons: string[] } {
+  const reasons: string[] = [];
+  const similarity = nameSimilarity(a.name, b.name);
+  const canonical = diceSimilarity([...canonicalTokens(a.name)].sort().join(" "), [...canonicalTokens(b.name)].sort().join(" "));
+  let score = Math.max(similarity, canonical) * 0.5;
+  if (canonical > similarity && canonical === 1) reasons.push(`nickname (${a.name} / ${b.name})`);
+  else describeNameSimilarity(similarity, reasons);
+
+  const { sameEmail, samePhone } = contactEvidence([a.email, a.phoneNumber, a.contactInfo], [b.email, b.phoneNumber, b.contactInfo]);
+  if (sameEmail) {
+    score += 0.4;
+    reasons.push("same email");
+  }
+  if (samePhone) {
+    score += 0.4;
+    reasons.push("same phone");
+  }
+  const contact = a.contactInfo?.trim().toLowerCase();
+  if (!sameEmail && !samePhone && contact && contact === b.contactInfo?.trim().toLowerCase()) {
+    score += 0.2;
+    reasons.push("same contact info");
+  }
+
+  if (shared.enteredTwice > 0) {
+    score += 0.2;
+    reasons.push(`entered in the same event ${shared.enteredTwice === 1 ? "once" : `${shared.enteredTwice} times`} with one result`);
+  }
+  if (shared.playedTogether > 0) {
+    score -= 0.3;
+    reasons.push(`both played in ${shared.playedTogether} of the same ${shared.playedTogether === 1 ? "event" : "events"}`);
+  }
+
+  return { score: Math.max(0, Math.min(1, Math.round(score * 100) / 100)), reasons };
+}
+
+// Candidates come from the director search, run for the full name, each longer name part,
+// each email and the last four digits of each phone number
+export async function suggestUniversalPlayers(entrant: MatchEntrant, excludeIds: number[] = [], limit = 3): Promise<UniversalPlayerMatch[]> {
+  const queries = new Set<string>([entrant.playerName.trim()]);
+  for (const token of nameTokens(entrant.playerName)) {
+    if (token.length >= 3) queries.add(token);
+  }
+  for (const email of extractEmails(entrant.contactInfo)) queries.add(email);
+  for (const phone of extractPhones(entrant.contactInfo)) queries.add(phone.slice(-4));
+
+  const candidates = new Map<number, UniversalPlayer>();
+  for (const query of Array.from(queries)) {
+    if (!query) continue;
+    for (const candidate of await storage.searchUniversalPlayers(query)) {
+      if (!excludeIds.includes(candidate.id)) candidates.set(candidate.id, candidate);
+    }
+  }
+
+  return Array.from(candidates.values())
+    .map(candidate => {
+      const { pin: _, ...universalPlayer } = candidate;
+      return { universalPlayer, ...scoreUniversalPlayerMatch(entrant, candidate) };
+    })
+    .filter(match => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Compares players only within blocks that share a name part, email or phone number, then
+// stores every pair above the threshold (lowest id first) as the new review queue
+async function scanForDuplicates(): Promise<number> {
+  const players = await storage.getAllUniversalPlayers();
+  const appearances = await storage.getUniversalPlayerAppearances();
+
+  const entriesByPlayer = new Map<number, Map<number, boolean>>();
+  for (const appearance of appearances) {
+    const entries = entriesByPlayer.get(appearance.universalPlayerId) ?? new Map<number, boolean>();
+    entries.set(appearance.tournamentId, (entries.get(appearance.tournamentId) ?? false) || appearance.played);
+    entriesByPlayer.set(appearance.universalPlayerId, entries);
+  }
+
+  const blocks = new Map<string, UniversalPlayer[]>();
+  for (const player of players) {
+    const keys = new Set<string>([
+      ...canonicalTokens(player.name).filter(token => token.length >= 3).map(token => `name:${token}`),
+      ...[player.email, player.contactInfo].flatMap(extractEmails).map(email => `email:${email}`),
+      ...[player.phoneNumber, player.contactInfo].flatMap(extractPhones).map(phone => `phone:${phone}`),
+    ]);
+    for (const key of Array.from(keys)) {
+      const block = blocks.get(key) ?? [];
+      block.push(player);
+      blocks.set(key, block);
+    }
+  }
+
+  const pairs = new Map<string, Pick<DuplicateCandidate, "playerAId" | "playerBId" | "score" | "reasons">>();
+  for (const [key, block] of Array.from(blocks.entries())) {
+    if (block.length < 2 || (key.startsWith("name:") && block.length > MAX_DUPLICATE_BLOCK_SIZE)) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const pairKey = `${a.id}:${b.id}`;
+        if (pairs.has(pairKey)) continue;
+
+        const shared: SharedAppearances = { enteredTwice: 0, playedTogether: 0 };
+        const entriesA = entriesByPlayer.get(a.id);
+        const entriesB = entriesByPlayer.get(b.id);
+        if (entriesA && entriesB) {
+          for (const [tournamentId, playedA] of Array.from(entriesA.entries())) {
+            const playedB = entriesB.get(tournamentId);
+            if (playedB === undefined) continue;
+            if (playedA && playedB) shared.playedTogether++;
+            else if (playedA || playedB) shared.enteredTwice++;
+          }
+        }
+
+        const { score, reasons } = scoreDuplicatePair(a, b, shared);
+        if (score >= MIN_DUPLICATE_SCORE) {
+          pairs.set(pairKey, { playerAId: a.id, playerBId: b.id, score, reasons });
+        }
+      }
+    }
+  }
+
+  return storage.saveDuplicateScan(Array.from(pairs.values()));
+}
+
+let duplicateScanInFlight: Promise<number> | null = null;
+
+// Concurrent requests share one scan; resolves to the number of pairs queued
+export function runDuplicateScan(): Promise<number> {
+  if (!duplicateScanInFlight) {
+    duplicateScanInFlight = scanForDuplicates().finally(() => {
+      duplicateScanInFlight = null;
+    });
+  }
+  return duplicateScanInFlight;
+}
+
+export function scheduleDuplicateScans() {
+  const scan = () => {
+    runDuplicateScan()
+      .then(count => console.log(`Duplicate scan: ${count} pairs queued for review`))
+      .catch(error => console.error("Duplicate scan failed:", error));
+  };
+  setTimeout(scan, DUPLICATE_SCAN_STARTUP_DELAY_MS);
+  setInterval(scan, DUPLICATE_SCAN_INTERVAL_MS);
+}
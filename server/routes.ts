@@ -1,106 +1,345 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import crypto from "crypto";
 import bcrypt from "bcrypt";
 import webpush from "web-push";
 import { eq, sql } from "drizzle-orm";
-import { storage } from "./storage";
+import { storage, resolvePlayoffStanding } from "./storage";
 import { db } from "./db";
-import { insertTournamentPlayerSchema, insertTournamentScoreSchema, batchUpdateGroupsSchema, insertUniversalPlayerSchema, universalPlayers, type TournamentScore } from "@shared/schema";
+import { insertTournamentPlayerSchema, insertTournamentScoreSchema, batchUpdateGroupsSchema, insertUniversalPlayerSchema, leaderboardRankingSchema, holeCountSchema, courseLayoutSchema, holeCardInputSchema, courseInputSchema, applyCourseSchema, deckSchema, deckDrawSchema, holeDifficultyScopeSchema, holeDifficultyGroupingSchema, roundSettingsSchema, advanceRoundSchema, setDivisionsSchema, setPlayerDivisionSchema, markPayoutPaidSchema, calculatePrizePool, allocatePlaceAmounts, splitPayoutsByStanding, tieBreakPolicySchema, createPlayoffSchema, playoffScoreSchema, reviewCheatAlertSchema, cheatAlertStatusSchema, cheatRulesSchema, handicapPolicySchema, universalPlayers, DEFAULT_CHEAT_RULES, DEFAULT_HANDICAP_POLICY, createDirectorSchema, updateDirectorSchema, rotateDirectorPinSchema, assignLegacyRecordsSchema, tournamentRoleSchema, grantStaffRoleSchema, type TournamentScore, type ScoreConflict, type ScoreRejection, type ScoreActorType, type Tournament, type Director, type PlayerSession, type TournamentRole, type CheatRules, type CheatAlert, type CheatAlertType, type TieBreakPolicy, type PlayoffStanding, type LeaderboardEntry, type CourseHole, type DeckCard, type HandicapRevisionReason, type HandicapRevisionContext, type CompletionPreviewEntry, type LinkSuggestion, type DuplicatePair, type DuplicatePlayerSummary, type UniversalPlayer, type TournamentDivision, type TournamentPayout, type PayoutResults, type PayoutMethod } from "@shared/schema";
 import { z } from "zod";
 import { createCheckoutSession, retrieveCheckoutSession, verifyWebhookSignature } from "./stripe";
+import { suggestUniversalPlayers, runDuplicateScan } from "./matching";
 
 const SALT_ROUNDS = 10;
 
-const playerSessions = new Map<string, { playerCode: string; createdAt: number }>();
+const PLAYER_SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
 
-
-function createPlayerSession(playerCode: string): string {
+// Player sessions live in player_sessions so they survive restarts and can be listed and
+// revoked per device; only the sha256 of the token is stored.
+async function createPlayerSession(universalPlayerId: number, deviceLabel: string | null): Promise<string> {
   const token = crypto.randomBytes(32).toString("hex");
-  playerSessions.set(token, { playerCode, createdAt: Date.now() });
+  await storage.createPlayerSession(universalPlayerId, hashSessionToken(token), deviceLabel, new Date(Date.now() + PLAYER_SESSION_MAX_AGE));
   return token;
 }
 
-function getPlayerSession(token: string): string | null {
-  const session = playerSessions.get(token);
-  if (!session) return null;
-  const MAX_AGE = 30 * 24 * 60 * 60 * 1000;
-  if (Date.now() - session.createdAt > MAX_AGE) {
-    playerSessions.delete(token);
-    return null;
+async function getPlayerSession(token: unknown): Promise<PlayerSession | null> {
+  if (typeof token !== "string" || !token) return null;
+  return (await storage.getPlayerSessionByTokenHash(hashSessionToken(token))) ?? null;
+}
+
+async function deletePlayerSession(token: string) {
+  await storage.deletePlayerSession(hashSessionToken(token));
+}
+
+// Short, human-readable device label from a User-Agent header, e.g. "Safari on iPhone"
+function describeUserAgent(userAgent: string | undefined): string | null {
+  if (!userAgent) return null;
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\/|Opera/.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\/|CriOS\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const platform = /iPhone/.test(userAgent) ? "iPhone"
+    : /iPad/.test(userAgent) ? "iPad"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Macintosh|Mac OS X/.test(userAgent) ? "Mac"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || userAgent.slice(0, 80);
+}
+
+const playerScoreTimestamps = new Map<string, number[]>();
+
+function resolveCheatRules(tournament: Tournament): CheatRules {
+  return { ...DEFAULT_CHEAT_RULES, ...(tournament.cheatRules ?? {}) };
+}
+
+function resolveTieBreakPolicy(tournament: Tournament): TieBreakPolicy {
+  const parsed = tieBreakPolicySchema.safeParse(tournament.tieBreakPolicy);
+  return parsed.success ? parsed.data : "shared";
+}
+
+// Every group gets the same card on hole N of a round. Each pass through the deck is a Fisher-Yates
+// shuffle whose swap indexes come from an HMAC of the seed, so the exported seed replays the deal.
+function shuffleDeck(cards: DeckCard[], seed: string, pass: number): DeckCard[] {
+  const order = [...cards];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = crypto.createHmac("sha256", seed).update(`${pass}:${i}`).digest().readUInt32BE(0) % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// A deck shorter than the event is reshuffled each time it runs out; position is 1-based within the pass
+function dealDeckCard(tournament: Tournament, round: number, hole: number): { card: DeckCard; position: number } | null {
+  const cards = tournament.deckCards;
+  if (!cards?.length || !tournament.deckSeed) return null;
+  const index = (round - 1) * tournament.holeCount + (hole - 1);
+  const position = index % cards.length;
+  return { card: shuffleDeck(cards, tournament.deckSeed, Math.floor(index / cards.length))[position], position: position + 1 };
+}
+
+// Scores are only taken for the round in play, so one entered offline before the round was
+// advanced can't land in the next round
+function getScoreRoundError(tournament: Tournament, round: number | undefined): string | null {
+  if (round === undefined || round === tournament.currentRound) return null;
+  return `Round ${round} is not in play; scores can only be entered for round ${tournament.currentRound}`;
+}
+
+// The course layout fixes par for the holes it lists and a dealt deck fixes it for every hole;
+// otherwise the par drawn on the device stands
+function resolveScorePar(tournament: Tournament, hole: number, par: number | undefined): { par: number } | { error: string } {
+  const coursePar = tournament.courseLayout?.find(h => h.hole === hole)?.par;
+  const official = coursePar ?? dealDeckCard(tournament, tournament.currentRound, hole)?.card.par;
+  if (official === undefined) {
+    return par === undefined ? { error: `Par is required for hole ${hole}` } : { par };
   }
-  return session.playerCode;
+  if (par !== undefined && par !== official) {
+    return { error: coursePar !== undefined ? `Hole ${hole} is a par ${official} on this course` : `Hole ${hole} was dealt a par ${official} card` };
+  }
+  return { par: official };
 }
 
-function deletePlayerSession(token: string) {
-  playerSessions.delete(token);
+// A course layout can't be changed under scores already recorded at a different par
+async function findCourseParConflict(tournament: Tournament, holes: CourseHole[]): Promise<string | null> {
+  const players = await storage.getPlayersInTournament(tournament.id);
+  for (const player of players) {
+    const scores = await storage.getPlayerScores(player.id);
+    const mismatch = scores.find(s => holes.some(h => h.hole === s.hole && h.par !== s.par));
+    if (mismatch) {
+      return `${player.playerName} already has hole ${mismatch.hole} scored at par ${mismatch.par}`;
+    }
+  }
+  return null;
 }
 
-type AlertType = "par_with_scratch" | "below_par_with_scratch" | "rapid_scoring" | "score_reduction";
+async function getActivePlayoffStanding(tournamentId: number): Promise<PlayoffStanding | null> {
+  const active = (await storage.getTournamentPlayoffs(tournamentId)).find(p => p.status === "active");
+  return active ? resolvePlayoffStanding(active, await storage.getPlayoffScores(active.id)) : null;
+}
 
-interface CheatAlert {
-  id: number;
-  roomCode: string;
-  playerName: string;
-  hole: number;
-  par: number;
-  scratches: number;
-  alertType: AlertType;
-  message: string;
-  timestamp: Date;
-  dismissed: boolean;
+// Reads an optional division id from a query string or body. null means the whole field; undefined
+// means the id doesn't name one of this tournament's divisions.
+async function resolveDivision(tournamentId: number, raw: unknown): Promise<TournamentDivision | null | undefined> {
+  if (raw === undefined || raw === null || raw === "") return null;
+  const divisionId = typeof raw === "number" ? raw : parseInt(String(raw));
+  return (await storage.getTournamentDivisions(tournamentId)).find(d => d.id === divisionId);
 }
 
-let cheatAlertIdCounter = 0;
-const cheatAlerts: CheatAlert[] = [];
+// Matches a payout config to the standings it covers: the whole field or one division, ranked the
+// way the leaderboard ranks by default. Players who missed the cut or never scored aren't paid.
+async function buildPayoutResults(tournament: Tournament, payout: TournamentPayout, division: TournamentDivision | null): Promise<PayoutResults> {
+  const ranking = tournament.isHandicapped ? "net" : "gross";
+  const leaderboard = await storage.getLeaderboard(tournament.id, ranking, resolveTieBreakPolicy(tournament), tournament.holeCount, undefined, division?.id);
+  const finishers = leaderboard.filter(e => e.cutAfterRound === null && e.holesCompleted > 0);
+  const pool = calculatePrizePool(payout);
+  const placeAmounts = allocatePlaceAmounts(pool, payout.percentages);
+  const disbursements = new Map((await storage.getPayoutDisbursements(payout.id)).map(d => [d.tournamentPlayerId, d]));
+
+  const results = splitPayoutsByStanding(placeAmounts, finishers)
+    .filter(split => split.amount > 0)
+    .map(split => {
+      const entry = finishers.find(e => e.playerId === split.playerId)!;
+      const paid = disbursements.get(split.playerId);
+      return {
+        tournamentPlayerId: split.playerId,
+        playerName: entry.playerName,
+        position: entry.position,
+        places: split.places,
+        amount: split.amount,
+        paid: paid
+          ? { amount: paid.amount, method: paid.method as PayoutMethod, note: paid.note, paidAt: paid.paidAt.toISOString(), paidBy: paid.paidByName }
+          : null,
+      };
+    });
 
-const playerScoreTimestamps = new Map<string, number[]>();
+  const players = await storage.getPlayersInTournament(tournament.id);
+  const stalePaid = Array.from(disbursements.values())
+    .filter(d => !results.some(r => r.tournamentPlayerId === d.tournamentPlayerId))
+    .map(d => ({
+      tournamentPlayerId: d.tournamentPlayerId,
+      playerName: players.find(p => p.id === d.tournamentPlayerId)?.playerName ?? "Unknown player",
+      amount: d.amount,
+      method: d.method as PayoutMethod,
+      paidAt: d.paidAt.toISOString(),
+    }));
+
+  return {
+    payout,
+    divisionName: division?.name ?? null,
+    ranking,
+    isFinal: !!tournament.completedAt,
+    pool,
+    placeAmounts,
+    results,
+    unassigned: Math.round((pool - results.reduce((sum, r) => sum + r.amount, 0)) * 100) / 100,
+    stalePaid,
+  };
+}
 
-function addCheatAlert(roomCode: string, playerName: string, hole: number, par: number, scratches: number, alertType: AlertType, message: string) {
-  cheatAlerts.push({
-    id: ++cheatAlertIdCounter,
-    roomCode,
+// Works out what completing a tournament would write for each leaderboard entry, without writing it.
+// History superseded by a reopen is rewritten from the current leaderboard, or removed if the player no longer has a result
+async function planTournamentCompletion(tournament: Tournament): Promise<CompletionPreviewEntry[]> {
+  const players = await storage.getTournamentPlayers(tournament.id);
+  const leaderboard = await storage.getLeaderboard(tournament.id);
+  const plan: CompletionPreviewEntry[] = [];
+
+  const applyPreview = async (planned: CompletionPreviewEntry) => {
+    const calculation = await storage.previewHandicap(planned.universalPlayerId!, planned.history, planned.previousHistory?.id ?? null);
+    planned.handicapAfter = calculation?.handicap ?? null;
+    planned.isProvisionalAfter = calculation?.isProvisional ?? true;
+  };
+
+  for (const entry of leaderboard) {
+    const player = players.find(p => p.id === entry.playerId);
+    let universalPlayer = player?.universalPlayerId ? await storage.getUniversalPlayer(player.universalPlayerId) : undefined;
+    const linkFromUniversalId = !universalPlayer && !!player?.universalId;
+    if (linkFromUniversalId) {
+      universalPlayer = await storage.getUniversalPlayerByCode(player!.universalId!);
+    }
+    const planned: CompletionPreviewEntry = {
+      tournamentPlayerId: entry.playerId,
+      playerName: entry.playerName,
+      action: "skip",
+      skipReason: null,
+      universalPlayerId: universalPlayer?.id ?? null,
+      universalPlayerName: universalPlayer?.name ?? null,
+      linkFromUniversalId: linkFromUniversalId && !!universalPlayer,
+      history: null,
+      previousHistory: null,
+      handicapBefore: universalPlayer?.handicap ?? null,
+      handicapAfter: universalPlayer?.handicap ?? null,
+      isProvisionalBefore: universalPlayer?.isProvisional ?? null,
+      isProvisionalAfter: universalPlayer?.isProvisional ?? null,
+    };
+    plan.push(planned);
+
+    if (!universalPlayer) {
+      planned.skipReason = linkFromUniversalId ? `universal ID ${player!.universalId} not found` : "no universal ID";
+      continue;
+    }
+    const existingHistory = await storage.getPlayerTournamentHistory(universalPlayer.id);
+    const existing = existingHistory.find(h => h.tournamentId === tournament.id);
+    if (entry.holesCompleted === 0) {
+      planned.skipReason = "no scores";
+      if (existing?.supersededAt) {
+        planned.action = "remove";
+        planned.previousHistory = existing;
+        await applyPreview(planned);
+      }
+      continue;
+    }
+    if (existing && !existing.supersededAt) {
+      planned.action = "already_recorded";
+      continue;
+    }
+
+    planned.action = existing ? "update" : "save";
+    planned.previousHistory = existing ?? null;
+    planned.history = {
+      universalPlayerId: universalPlayer.id,
+      tournamentId: tournament.id,
+      tournamentName: tournament.name,
+      totalStrokes: entry.totalStrokes,
+      totalPar: entry.totalPar,
+      holesPlayed: entry.holesCompleted,
+      relativeToPar: entry.relativeToPar,
+      totalScratches: entry.totalScratches,
+      totalPenalties: entry.totalPenalties,
+    };
+    await applyPreview(planned);
+  }
+
+  // Superseded rows nobody on the leaderboard accounts for any more (player removed or relinked)
+  const planned = new Set(plan.map(p => p.previousHistory?.id));
+  for (const row of await storage.getTournamentHistoryRows(tournament.id)) {
+    if (!row.supersededAt || planned.has(row.id)) continue;
+    const universalPlayer = await storage.getUniversalPlayer(row.universalPlayerId);
+    const removal: CompletionPreviewEntry = {
+      tournamentPlayerId: players.find(p => p.universalPlayerId === row.universalPlayerId)?.id ?? null,
+      playerName: universalPlayer?.name ?? `Player #${row.universalPlayerId}`,
+      action: "remove",
+      skipReason: "no longer on the leaderboard",
+      universalPlayerId: row.universalPlayerId,
+      universalPlayerName: universalPlayer?.name ?? null,
+      linkFromUniversalId: false,
+      history: null,
+      previousHistory: row,
+      handicapBefore: universalPlayer?.handicap ?? null,
+      handicapAfter: null,
+      isProvisionalBefore: universalPlayer?.isProvisional ?? null,
+      isProvisionalAfter: null,
+    };
+    await applyPreview(removal);
+    plan.push(removal);
+  }
+
+  return plan;
+}
+
+// One side of a duplicate pair for the side-by-side review
+async function summarizeDuplicatePlayer(player: UniversalPlayer): Promise<DuplicatePlayerSummary> {
+  const { pin, handicapCalculation: _, ...safePlayer } = player;
+  const history = await storage.getPlayerTournamentHistory(player.id, 3);
+  return {
+    player: safePlayer,
+    hasPin: !!pin,
+    recentTournaments: history.map(h => h.tournamentName),
+    lastPlayedAt: history[0]?.completedAt.toISOString() ?? null,
+  };
+}
+
+// "Sam (+3 → +1)" for a rewritten history row
+function describeHistoryChange(planned: CompletionPreviewEntry): string {
+  const format = (value: number) => (value > 0 ? `+${value}` : value === 0 ? "E" : `${value}`);
+  const before = planned.previousHistory;
+  const after = planned.history;
+  if (!before || !after) return planned.playerName;
+  if (before.relativeToPar === after.relativeToPar && before.holesPlayed === after.holesPlayed) {
+    return `${planned.playerName} (unchanged)`;
+  }
+  return `${planned.playerName} (${format(before.relativeToPar)} over ${before.holesPlayed} → ${format(after.relativeToPar)} over ${after.holesPlayed})`;
+}
+
+async function addCheatAlert(tournament: Tournament, tournamentPlayerId: number, playerName: string, hole: number, par: number, scratches: number, alertType: CheatAlertType, message: string) {
+  await storage.createCheatAlert({
+    tournamentId: tournament.id,
+    roomCode: tournament.roomCode,
+    tournamentPlayerId,
     playerName,
     hole,
     par,
     scratches,
     alertType,
     message,
-    timestamp: new Date(),
-    dismissed: false,
   });
-  if (cheatAlerts.length > 500) {
-    cheatAlerts.splice(0, cheatAlerts.length - 500);
-  }
 }
 
-function trackScoreTiming(playerId: number, roomCode: string): boolean {
+function trackScoreTiming(playerId: number, roomCode: string, rules: CheatRules): boolean {
   const key = `${roomCode}-${playerId}`;
   const now = Date.now();
   const timestamps = playerScoreTimestamps.get(key) || [];
   timestamps.push(now);
-  const twoMinutesAgo = now - 2 * 60 * 1000;
-  const recent = timestamps.filter(t => t > twoMinutesAgo);
+  const windowStart = now - rules.rapidScoringWindowSeconds * 1000;
+  const recent = timestamps.filter(t => t > windowStart);
   playerScoreTimestamps.set(key, recent);
-  return recent.length >= 3;
-}
-
-function getCheatAlertsForTournament(roomCode: string): CheatAlert[] {
-  return cheatAlerts.filter(a => a.roomCode === roomCode && !a.dismissed);
-}
-
-function getAllCheatAlerts(): CheatAlert[] {
-  return cheatAlerts.filter(a => !a.dismissed);
+  return recent.length >= rules.rapidScoringMinScores;
 }
 
-function dismissCheatAlert(id: number) {
-  const alert = cheatAlerts.find(a => a.id === id);
-  if (alert) alert.dismissed = true;
+function formatRuleWindow(seconds: number): string {
+  if (seconds % 60 === 0) {
+    const minutes = seconds / 60;
+    return `${minutes} minute${minutes > 1 ? "s" : ""}`;
+  }
+  return `${seconds} seconds`;
 }
 
 async function runCheatDetection(
-  roomCode: string,
-  tournamentId: number,
+  tournament: Tournament,
   tournamentPlayerId: number,
   hole: number,
   par: number,
@@ -109,42 +348,42 @@ async function runCheatDetection(
   playersCache?: any[]
 ) {
   try {
+    const rules = resolveCheatRules(tournament);
     let players = playersCache;
     if (!players) {
-      players = await storage.getPlayersInTournament(tournamentId);
+      players = await storage.getPlayersInTournament(tournament.id);
     }
     const player = players.find(p => p.id === tournamentPlayerId);
     const playerName = player?.playerName || "Unknown player";
     const total = strokes + scratches;
 
-    if (scratches > 0 && par > 0 && total < par) {
-      addCheatAlert(roomCode, playerName, hole, par, scratches, "below_par_with_scratch",
+    if (rules.belowParWithScratch && scratches > 0 && par > 0 && total < par) {
+      await addCheatAlert(tournament, tournamentPlayerId, playerName, hole, par, scratches, "below_par_with_scratch",
         `Scored ${total} (below par ${par}) with ${scratches} scratch${scratches > 1 ? "es" : ""}. Highly suspicious.`);
-    } else if (scratches > 0 && par > 0 && total === par) {
-      addCheatAlert(roomCode, playerName, hole, par, scratches, "par_with_scratch",
+    } else if (rules.parWithScratch && scratches > 0 && par > 0 && total === par) {
+      await addCheatAlert(tournament, tournamentPlayerId, playerName, hole, par, scratches, "par_with_scratch",
         `Scored par (${par}) with ${scratches} scratch${scratches > 1 ? "es" : ""}. Please verify.`);
     }
 
-    const existingScores = await storage.getPlayerScores(tournamentPlayerId);
-    const existingForHole = existingScores.find(s => s.hole === hole);
-    if (existingForHole) {
-      const oldTotal = existingForHole.strokes + existingForHole.scratches;
-      const newTotal = strokes + scratches;
-      if (newTotal < oldTotal) {
-        addCheatAlert(roomCode, playerName, hole, par, scratches, "score_reduction",
-          `Reduced hole ${hole} score from ${oldTotal} to ${newTotal}. Was this a legitimate correction?`);
+    if (rules.scoreReduction) {
+      const existingScores = await storage.getPlayerScores(tournamentPlayerId, tournament.currentRound);
+      const existingForHole = existingScores.find(s => s.hole === hole);
+      if (existingForHole) {
+        const oldTotal = existingForHole.strokes + existingForHole.scratches;
+        const newTotal = strokes + scratches;
+        if (newTotal < oldTotal) {
+          await addCheatAlert(tournament, tournamentPlayerId, playerName, hole, par, scratches, "score_reduction",
+            `Reduced hole ${hole} score from ${oldTotal} to ${newTotal}. Was this a legitimate correction?`);
+        }
       }
     }
 
-    if (trackScoreTiming(tournamentPlayerId, roomCode)) {
-      const alreadyFlagged = cheatAlerts.some(a =>
-        !a.dismissed && a.alertType === "rapid_scoring" &&
-        a.playerName === playerName && a.roomCode === roomCode &&
-        (Date.now() - a.timestamp.getTime()) < 2 * 60 * 1000
-      );
+    if (rules.rapidScoring && trackScoreTiming(tournamentPlayerId, tournament.roomCode, rules)) {
+      const windowStart = new Date(Date.now() - rules.rapidScoringWindowSeconds * 1000);
+      const alreadyFlagged = await storage.hasRecentCheatAlert(tournament.roomCode, tournamentPlayerId, "rapid_scoring", windowStart);
       if (!alreadyFlagged) {
-        addCheatAlert(roomCode, playerName, hole, par, scratches, "rapid_scoring",
-          `Submitted 3+ hole scores within 2 minutes. Possible bulk entry or suspicious pace.`);
+        await addCheatAlert(tournament, tournamentPlayerId, playerName, hole, par, scratches, "rapid_scoring",
+          `Submitted ${rules.rapidScoringMinScores}+ hole scores within ${formatRuleWindow(rules.rapidScoringWindowSeconds)}. Possible bulk entry or suspicious pace.`);
       }
     }
   } catch (err) {
@@ -152,6 +391,228 @@ async function runCheatDetection(
   }
 }
 
+// PIN brute-force protection. Failed guesses are counted in process memory per scope key
+// (player account, tournament room, client IP); crossing a scope's limit locks that key out,
+// and each repeat lockout doubles the cooldown up to LOGIN_MAX_LOCKOUT_MS.
+type LoginScope = "account" | "room" | "client";
+
+const LOGIN_FAILURE_LIMITS: Record<LoginScope, number> = { account: 5, room: 10, client: 20 };
+const LOGIN_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_BASE_LOCKOUT_MS = 60 * 1000;
+const LOGIN_MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// How long a key's lockout count is remembered once it goes quiet
+const LOGIN_LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+interface LoginAttemptState {
+  failures: number[];
+  lockouts: number;
+  lockedUntil: number;
+}
+
+interface LoginKey {
+  scope: LoginScope;
+  id: string;
+}
+
+const loginAttempts = new Map<string, LoginAttemptState>();
+
+function loginKey(key: LoginKey): string {
+  return `${key.scope}:${key.id.toUpperCase()}`;
+}
+
+function getClientKey(req: Request): LoginKey {
+  return { scope: "client", id: req.ip || req.socket.remoteAddress || "unknown" };
+}
+
+function pruneLoginAttempts(now: number) {
+  for (const [key, state] of Array.from(loginAttempts.entries())) {
+    const lastActivity = Math.max(state.lockedUntil, ...state.failures);
+    if (now - lastActivity > LOGIN_LOCKOUT_MEMORY_MS) loginAttempts.delete(key);
+  }
+}
+
+// Milliseconds until every key is unlocked (0 when none are locked)
+function getLoginLockoutRemaining(keys: LoginKey[]): number {
+  const now = Date.now();
+  return Math.max(0, ...keys.map(k => (loginAttempts.get(loginKey(k))?.lockedUntil ?? 0) - now));
+}
+
+// Records a failed guess against every key; returns the keys that just became locked
+function recordLoginFailure(keys: LoginKey[]): { key: LoginKey; lockoutMs: number }[] {
+  const now = Date.now();
+  pruneLoginAttempts(now);
+  const locked: { key: LoginKey; lockoutMs: number }[] = [];
+  for (const key of keys) {
+    const state = loginAttempts.get(loginKey(key)) ?? { failures: [], lockouts: 0, lockedUntil: 0 };
+    state.failures = state.failures.filter(t => now - t < LOGIN_FAILURE_WINDOW_MS);
+    state.failures.push(now);
+    if (state.failures.length >= LOGIN_FAILURE_LIMITS[key.scope]) {
+      const lockoutMs = Math.min(LOGIN_BASE_LOCKOUT_MS * 2 ** state.lockouts, LOGIN_MAX_LOCKOUT_MS);
+      state.lockouts += 1;
+      state.lockedUntil = now + lockoutMs;
+      state.failures = [];
+      locked.push({ key, lockoutMs });
+    }
+    loginAttempts.set(loginKey(key), state);
+  }
+  return locked;
+}
+
+// A successful sign-in clears the account/room failure count but keeps the lockout history.
+// Client keys are never cleared, so knowing one valid PIN doesn't buy more guesses at others.
+function clearLoginFailures(keys: LoginKey[]) {
+  for (const key of keys.filter(k => k.scope !== "client")) {
+    const state = loginAttempts.get(loginKey(key));
+    if (state) state.failures = [];
+  }
+}
+
+function formatLockout(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  return `${minutes} minute${minutes > 1 ? "s" : ""}`;
+}
+
+function sendLoginLockout(res: Response, remainingMs: number) {
+  const retryAfter = Math.ceil(remainingMs / 1000);
+  res.set("Retry-After", String(retryAfter));
+  return res.status(429).json({
+    error: `Too many incorrect PIN attempts. Try again in ${formatLockout(remainingMs)}.`,
+    retryAfter,
+  });
+}
+
+// Surface new lockouts in the director alert feed
+async function reportLoginLockouts(
+  locked: { key: LoginKey; lockoutMs: number }[],
+  context: { label: string; tournament?: Tournament | null },
+) {
+  for (const { key, lockoutMs } of locked) {
+    const target = key.scope === "account" ? `account ${key.id.toUpperCase()}`
+      : key.scope === "room" ? `room ${key.id.toUpperCase()}`
+      : `client ${key.id}`;
+    try {
+      await storage.createCheatAlert({
+        tournamentId: context.tournament?.id ?? null,
+        roomCode: context.tournament?.roomCode ?? null,
+        tournamentPlayerId: null,
+        playerName: context.label,
+        hole: null,
+        par: null,
+        scratches: null,
+        alertType: "login_lockout",
+        message: `Too many incorrect PINs for ${target}. Locked for ${formatLockout(lockoutMs)}.`,
+      });
+    } catch (err) {
+      console.error("Error recording login lockout alert:", err);
+    }
+  }
+}
+
+interface ScoreActor {
+  actorType: ScoreActorType;
+  actorId: string | null;
+  actorName: string | null;
+}
+
+// Who is writing a score, from the optional credentials sent with it: a director credential wins,
+// then a signed-in player, then the device (named after the players it scores for)
+async function resolveScoreActor(tournament: Tournament, body: Record<string, unknown>): Promise<ScoreActor> {
+  const director = await getDirectorForCredential(body.directorPin);
+  if (director) {
+    return { actorType: "director", actorId: String(director.id), actorName: director.name };
+  }
+  const session = await getPlayerSession(body.sessionToken);
+  const sessionPlayer = session ? await storage.getUniversalPlayer(session.universalPlayerId) : undefined;
+  if (sessionPlayer) {
+    return { actorType: "player", actorId: sessionPlayer.uniqueCode, actorName: sessionPlayer.name };
+  }
+  if (typeof body.deviceId === "string" && body.deviceId) {
+    const devicePlayers = await storage.getPlayersByDevice(tournament.id, body.deviceId);
+    return {
+      actorType: "device",
+      actorId: body.deviceId,
+      actorName: devicePlayers.length > 0 ? devicePlayers.map(p => p.playerName).join(", ") : null,
+    };
+  }
+  return { actorType: "unknown", actorId: null, actorName: null };
+}
+
+async function recordScoreHistory(
+  tournament: Tournament,
+  previous: TournamentScore | undefined,
+  saved: TournamentScore,
+  actor: ScoreActor,
+  source: string
+) {
+  // Re-sends of an unchanged score (outbox retries) are not history
+  if (previous && previous.par === saved.par && previous.strokes === saved.strokes
+    && previous.scratches === saved.scratches && previous.penalties === saved.penalties) {
+    return;
+  }
+  await storage.addScoreHistory({
+    tournamentId: tournament.id,
+    tournamentPlayerId: saved.tournamentPlayerId,
+    round: saved.round,
+    hole: saved.hole,
+    ...actor,
+    source,
+    previousPar: previous?.par ?? null,
+    previousStrokes: previous?.strokes ?? null,
+    previousScratches: previous?.scratches ?? null,
+    previousPenalties: previous?.penalties ?? null,
+    newPar: saved.par,
+    newStrokes: saved.strokes,
+    newScratches: saved.scratches,
+    newPenalties: saved.penalties,
+  });
+}
+
+// Saves a score from /scores or /scores/batch to the tournament's current round (callers turn away
+// scores sent for any other round) and logs it to score_history. When the client sends a version token the write is compare-and-set; stale writes
+// are turned away before cheat detection so they raise no alerts.
+async function writeSyncedScore(
+  tournament: Tournament,
+  data: z.infer<typeof syncScoreSchema> & { par: number },
+  change: { actor: ScoreActor; source: string },
+  playersCache?: any[]
+): Promise<{ score: TournamentScore } | { conflict: ScoreConflict }> {
+  const score = {
+    tournamentPlayerId: data.tournamentPlayerId,
+    round: tournament.currentRound,
+    hole: data.hole,
+    par: data.par,
+    strokes: data.strokes,
+    scratches: data.scratches || 0,
+    penalties: data.penalties || 0,
+  };
+  const toConflict = (current: TournamentScore): ScoreConflict => ({
+    tournamentPlayerId: score.tournamentPlayerId,
+    round: score.round,
+    hole: score.hole,
+    attempted: { par: score.par, strokes: score.strokes, scratches: score.scratches, penalties: score.penalties },
+    current,
+  });
+
+  const previous = await storage.getScore(score.tournamentPlayerId, score.hole, score.round);
+  if (data.version !== undefined && previous && previous.version !== data.version) {
+    return { conflict: toConflict(previous) };
+  }
+
+  await runCheatDetection(tournament, score.tournamentPlayerId, score.hole, score.par, score.strokes, score.scratches, playersCache);
+
+  let saved: TournamentScore;
+  if (data.version === undefined) {
+    saved = await storage.upsertScore(score);
+  } else {
+    const result = await storage.upsertScoreIfVersion(score, data.version);
+    if ("conflict" in result) return { conflict: toConflict(result.conflict) };
+    saved = result.score;
+  }
+
+  await recordScoreHistory(tournament, previous, saved, change.actor, change.source);
+  return { score: saved };
+}
+
 const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || "";
 const VAPID_SUBJECT = process.env.VAPID_SUBJECT || "mailto:admin@parforthecourse.app";
 
@@ -226,6 +687,11 @@ const searchUniversalPlayerSchema = z.object({
   query: z.string().min(1, "Search query is required"),
 });
 
+const matchUniversalPlayerSchema = z.object({
+  playerName: z.string().min(1, "Player name is required"),
+  contactInfo: z.string().nullable().optional(),
+});
+
 const linkUniversalPlayerSchema = z.object({
   universalPlayerId: z.number().int().positive(),
 });
@@ -251,6 +717,7 @@ const createTournamentSchema = z.object({
   name: z.string().min(1, "Name is required"),
   directorPin: z.string().min(1, "Director PIN is required"),
   isHandicapped: z.boolean().optional().default(false),
+  holeCount: holeCountSchema.optional().default(18),
 });
 
 const addPlayerSchema = z.object({
@@ -263,14 +730,19 @@ const addPlayerSchema = z.object({
 
 const syncScoreSchema = z.object({
   tournamentPlayerId: z.number().int().positive(),
+  // Round the score was entered in. Older clients leave it out, which is taken as the current round.
+  round: z.number().int().positive().optional(),
   hole: z.number().int().positive(),
-  par: z.number().int().min(0),
+  par: z.number().int().min(0).optional(), // may be left out for holes on the course layout
   strokes: z.number().int().min(0),
   scratches: z.number().int().min(0).optional(),
   penalties: z.number().int().min(0).optional(),
+  // Version of this hole the client last saw (0 = not scored yet). Omit to overwrite unconditionally.
+  version: z.number().int().min(0).optional(),
 });
 
 const verifyDirectorSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
   pin: z.string().min(1, "PIN is required"),
 });
 
@@ -278,8 +750,9 @@ const assignDeviceSchema = z.object({
   deviceId: z.string().min(1, "Device ID is required"),
 });
 
+// Entries are validated one by one so a single bad entry is rejected on its own
 const batchScoreSchema = z.object({
-  scores: z.array(syncScoreSchema),
+  scores: z.array(z.unknown()),
 });
 
 const directorActionSchema = z.object({
@@ -431,18 +904,110 @@ function generateRoomCode(): string {
   return code;
 }
 
-const DIRECTOR_PINS: Record<string, string> = {
-  "3141": "Alan Acevedo",
-  "3115": "Eric Berry",
-};
+const DIRECTOR_SESSION_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+function hashSessionToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Director credentials still travel in the `directorPin` field of requests. Since director
+// accounts replaced the hard-coded PIN map, that value is a session token from /api/director/verify.
+async function getDirectorForCredential(credential: unknown): Promise<Director | null> {
+  if (typeof credential !== "string" || !credential) return null;
+  const director = await storage.getDirectorBySessionTokenHash(hashSessionToken(credential));
+  return director?.isActive ? director : null;
+}
+
+async function isValidDirectorCredential(credential: unknown): Promise<boolean> {
+  return !!(await getDirectorForCredential(credential));
+}
+
+async function getDirectorName(credential: unknown): Promise<string> {
+  const director = await getDirectorForCredential(credential);
+  return director?.name || "Tournament Director";
+}
+
+async function getHandicapRevisionContext(credential: unknown, reason: HandicapRevisionReason): Promise<HandicapRevisionContext> {
+  const director = await getDirectorForCredential(credential);
+  return { reason, actorDirectorId: director?.id ?? null, actorName: director?.name || "Tournament Director" };
+}
+
+const normalizeDirectorName = (name: string) => name.trim().toLowerCase();
+
+// Directors sign in by name and PIN. PINs are hashed and need not be unique, so the PIN is only
+// compared against the active director going by that name
+async function findDirectorBySignIn(name: string, pin: string): Promise<Director | null> {
+  if (!name.trim() || !pin) return null;
+  const named = (await storage.getAllDirectors())
+    .filter(d => d.isActive && normalizeDirectorName(d.name) === normalizeDirectorName(name));
+  for (const director of named) {
+    if (await bcrypt.compare(pin, director.pinHash)) return director;
+  }
+  return null;
+}
+
+async function isDirectorNameInUse(name: string, excludeDirectorId?: number): Promise<boolean> {
+  return (await storage.getAllDirectors())
+    .some(d => d.id !== excludeDirectorId && normalizeDirectorName(d.name) === normalizeDirectorName(name));
+}
+
+function getDirectorAccountKey(name: string): LoginKey {
+  return { scope: "account", id: `director:${normalizeDirectorName(name)}` };
+}
+
+async function issueDirectorSession(director: Director): Promise<string> {
+  const token = crypto.randomBytes(32).toString("hex");
+  await storage.createDirectorSession(director.id, hashSessionToken(token), new Date(Date.now() + DIRECTOR_SESSION_MAX_AGE));
+  await storage.updateDirector(director.id, { lastLoginAt: new Date() });
+  return token;
+}
+
+const TOURNAMENT_ROLE_RANK: Record<TournamentRole, number> = { scorer: 1, assistant: 2, head: 3 };
+
+// Admins and the owning director act as head; everyone else needs a tournament_staff grant
+async function getDirectorTournamentRole(tournament: Tournament, director: Director): Promise<TournamentRole | null> {
+  if (director.isAdmin || director.id === tournament.directorId) return "head";
+  const staff = await storage.getTournamentStaffMember(tournament.id, director.id);
+  return staff ? tournamentRoleSchema.parse(staff.role) : null;
+}
+
+async function getTournamentRole(tournament: Tournament, credential: unknown): Promise<TournamentRole | null> {
+  const director = await getDirectorForCredential(credential);
+  return director ? getDirectorTournamentRole(tournament, director) : null;
+}
+
+async function hasTournamentRole(tournament: Tournament, credential: unknown, minimum: TournamentRole): Promise<boolean> {
+  const role = await getTournamentRole(tournament, credential);
+  return !!role && TOURNAMENT_ROLE_RANK[role] >= TOURNAMENT_ROLE_RANK[minimum];
+}
+
+// The player directory is shared: any director can search it and add entrants from it, but
+// changing a player takes an admin or assistant-and-up staff of a tournament the player entered
+async function canManageUniversalPlayer(credential: unknown, universalPlayerId: number): Promise<boolean> {
+  const director = await getDirectorForCredential(credential);
+  if (!director) return false;
+  if (director.isAdmin) return true;
+  for (const tournamentId of await storage.getTournamentIdsForUniversalPlayer(universalPlayerId)) {
+    const tournament = await storage.getTournament(tournamentId);
+    const role = tournament ? await getDirectorTournamentRole(tournament, director) : null;
+    if (role && TOURNAMENT_ROLE_RANK[role] >= TOURNAMENT_ROLE_RANK.assistant) return true;
+  }
+  return false;
+}
 
-function isValidDirectorPin(pin: string | undefined): boolean {
-  if (!pin) return false;
-  return pin in DIRECTOR_PINS;
+// Cheat alerts are settled by the head director of their tournament; alerts whose tournament is
+// gone are left to admins
+async function canReviewCheatAlert(alert: CheatAlert, credential: unknown): Promise<boolean> {
+  const tournament = alert.tournamentId !== null
+    ? await storage.getTournament(alert.tournamentId)
+    : alert.roomCode ? await storage.getTournamentByCode(alert.roomCode) : undefined;
+  if (tournament) return hasTournamentRole(tournament, credential, "head");
+  return !!(await getDirectorForCredential(credential))?.isAdmin;
 }
 
-function getDirectorName(pin: string): string {
-  return DIRECTOR_PINS[pin] || "Tournament Director";
+function toPublicDirector(director: Director) {
+  const { pinHash: _, ...safe } = director;
+  return safe;
 }
 
 function getPortalBaseUrl(): string {
@@ -624,9 +1189,6 @@ function toIsoString(value: unknown): string {
   return new Date().toISOString();
 }
 
-// Keep for backward compat — first/primary director pin
-const MASTER_DIRECTOR_PIN = Object.keys(DIRECTOR_PINS)[0];
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Public upcoming events feed for splash preview cards
   app.get("/api/events/upcoming", async (_req, res) => {
@@ -734,7 +1296,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const players = await storage.getPlayersInTournament(tournament.id);
     const registrationCounts = await getRegistrationCounts(tournament.id);
     const sponsors = await storage.getSponsorsForTournament(tournament.id);
-      const directorDefaults = await storage.getDirectorContentDefaults(tournament.directorPin);
+      const directorDefaults = tournament.directorId ? await storage.getDirectorContentDefaults(tournament.directorId) : undefined;
     let payout: Awaited<ReturnType<typeof storage.getTournamentPayout>> = undefined;
     try {
       payout = await storage.getTournamentPayout(tournament.id);
@@ -1017,13 +1579,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Verify master director PIN
+  // Director sign-in: verify name and PIN and issue a session token
   app.post("/api/director/verify", async (req, res) => {
     try {
-      const { pin } = req.body;
-      if (isValidDirectorPin(pin)) {
-        res.json({ isValid: true, directorName: getDirectorName(pin) });
+      const { name, pin } = req.body;
+      const keys = typeof name === "string" && name.trim() ? [getDirectorAccountKey(name), getClientKey(req)] : [getClientKey(req)];
+      const remaining = getLoginLockoutRemaining(keys);
+      if (remaining > 0) {
+        return sendLoginLockout(res, remaining);
+      }
+      const director = typeof name === "string" && typeof pin === "string" ? await findDirectorBySignIn(name, pin) : null;
+      if (director) {
+        clearLoginFailures(keys);
+        const token = await issueDirectorSession(director);
+        res.json({ isValid: true, directorName: director.name, token, director: toPublicDirector(director) });
       } else {
+        const locked = recordLoginFailure(keys);
+        await reportLoginLockouts(locked, { label: "Director sign-in" });
+        if (locked.length > 0) {
+          return sendLoginLockout(res, getLoginLockoutRemaining(keys));
+        }
         res.json({ isValid: false });
       }
     } catch (error) {
@@ -1032,19 +1607,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // List all tournaments (requires master director PIN)
+  // Director sign-out: revoke the session token
+  app.post("/api/director/logout", async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (typeof token === "string" && token) {
+        await storage.deleteDirectorSession(hashSessionToken(token));
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error signing out director:", error);
+      res.status(500).json({ error: "Failed to sign out" });
+    }
+  });
+
+  // ===== DIRECTOR ACCOUNTS API =====
+
+  // List director accounts (admin directors only)
+  app.get("/api/directors", async (req, res) => {
+    try {
+      const admin = await getDirectorForCredential(req.query.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      const all = await storage.getAllDirectors();
+      res.json(all.map(toPublicDirector));
+    } catch (error) {
+      console.error("Error listing directors:", error);
+      res.status(500).json({ error: "Failed to list directors" });
+    }
+  });
+
+  // Create a director account (admin directors only)
+  app.post("/api/directors", async (req, res) => {
+    try {
+      const parsed = createDirectorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const admin = await getDirectorForCredential(parsed.data.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      if (await isDirectorNameInUse(parsed.data.name)) {
+        return res.status(409).json({ error: "Another director already uses that name" });
+      }
+      const director = await storage.createDirector({
+        name: parsed.data.name,
+        email: parsed.data.email || null,
+        pinHash: await bcrypt.hash(parsed.data.pin, SALT_ROUNDS),
+        isAdmin: parsed.data.isAdmin ?? false,
+        isActive: true,
+      });
+      res.json(toPublicDirector(director));
+    } catch (error) {
+      console.error("Error creating director:", error);
+      res.status(500).json({ error: "Failed to create director" });
+    }
+  });
+
+  // Update a director's profile, admin flag or active state (admin directors only)
+  app.patch("/api/directors/:id", async (req, res) => {
+    try {
+      const parsed = updateDirectorSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const admin = await getDirectorForCredential(parsed.data.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      const director = await storage.getDirector(parseInt(req.params.id));
+      if (!director) {
+        return res.status(404).json({ error: "Director not found" });
+      }
+      const { name, email, isAdmin, isActive } = parsed.data;
+      if (director.id === admin.id && (isActive === false || isAdmin === false)) {
+        return res.status(400).json({ error: "You cannot disable or demote your own account" });
+      }
+      // Names are how directors sign in, so two accounts can't share one
+      if (name !== undefined && await isDirectorNameInUse(name, director.id)) {
+        return res.status(409).json({ error: "Another director already uses that name" });
+      }
+      const updated = await storage.updateDirector(director.id, {
+        ...(name !== undefined && { name }),
+        ...(email !== undefined && { email: email || null }),
+        ...(isAdmin !== undefined && { isAdmin }),
+        ...(isActive !== undefined && { isActive }),
+      });
+      if (isActive === false) {
+        await storage.deleteDirectorSessions(director.id);
+      }
+      res.json(toPublicDirector(updated));
+    } catch (error) {
+      console.error("Error updating director:", error);
+      res.status(500).json({ error: "Failed to update director" });
+    }
+  });
+
+  // Rotate a director's PIN and sign out their sessions (admins, or the director themselves)
+  app.post("/api/directors/:id/rotate-pin", async (req, res) => {
+    try {
+      const parsed = rotateDirectorPinSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const actor = await getDirectorForCredential(parsed.data.directorPin);
+      const directorId = parseInt(req.params.id);
+      if (!actor || (!actor.isAdmin && actor.id !== directorId)) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const director = await storage.getDirector(directorId);
+      if (!director) {
+        return res.status(404).json({ error: "Director not found" });
+      }
+      await storage.updateDirector(director.id, { pinHash: await bcrypt.hash(parsed.data.pin, SALT_ROUNDS) });
+      await storage.deleteDirectorSessions(director.id);
+      // Rotating your own PIN keeps you signed in on this device with a fresh token
+      const token = actor.id === director.id ? await issueDirectorSession(director) : undefined;
+      res.json({ success: true, token });
+    } catch (error) {
+      console.error("Error rotating director PIN:", error);
+      res.status(500).json({ error: "Failed to rotate PIN" });
+    }
+  });
+
+  // Tournaments and content defaults still keyed by a pre-account PIN (admin directors only)
+  app.get("/api/directors/legacy-records", async (req, res) => {
+    try {
+      const admin = await getDirectorForCredential(req.query.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      res.json(await storage.getLegacyDirectorRecords());
+    } catch (error) {
+      console.error("Error listing legacy director records:", error);
+      res.status(500).json({ error: "Failed to list legacy records" });
+    }
+  });
+
+  // Hand a legacy PIN's tournaments and content defaults to a director account (admin directors only)
+  app.post("/api/directors/:id/assign-legacy", async (req, res) => {
+    try {
+      const parsed = assignLegacyRecordsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const admin = await getDirectorForCredential(parsed.data.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      const director = await storage.getDirector(parseInt(req.params.id));
+      if (!director) {
+        return res.status(404).json({ error: "Director not found" });
+      }
+      const records = await storage.getLegacyDirectorRecords();
+      if (!records.some(r => r.legacyPin === parsed.data.legacyPin)) {
+        return res.status(404).json({ error: "No legacy records for that PIN" });
+      }
+      const result = await storage.assignLegacyDirectorRecords(parsed.data.legacyPin, director.id);
+      console.log(`Assigned ${result.tournaments} legacy tournament(s)${result.contentDefaults ? " and content defaults" : ""} to director ${director.id}`);
+      res.json(result);
+    } catch (error) {
+      console.error("Error assigning legacy director records:", error);
+      res.status(500).json({ error: "Failed to assign legacy records" });
+    }
+  });
+
+  // List tournaments the signed-in director owns or is staff on (admins see all)
   app.get("/api/tournaments", async (req, res) => {
     try {
-      const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
+      const director = await getDirectorForCredential(req.query.directorPin);
+      if (!director) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
       const tournaments = await storage.getAllTournamentsWithStats();
-      const safeTournaments = tournaments.map(t => {
-        const { directorPin: _, ...safe } = t;
-        return safe;
-      });
+      const staffTournamentIds = new Set(await storage.getStaffTournamentIds(director.id));
+      const safeTournaments = tournaments
+        .filter(t => director.isAdmin || t.directorId === director.id || staffTournamentIds.has(t.id))
+        .map(t => {
+          const { directorPin: _, ...safe } = t;
+          return safe;
+        });
       res.json(safeTournaments);
     } catch (error) {
       console.error("Error listing tournaments:", error);
@@ -1054,12 +1799,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/director/content-defaults", async (req, res) => {
     try {
-      const directorPin = String(req.query.directorPin || "");
-      if (!isValidDirectorPin(directorPin)) {
+      const director = await getDirectorForCredential(req.query.directorPin);
+      if (!director) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
 
-      const defaults = await storage.getDirectorContentDefaults(directorPin);
+      const defaults = await storage.getDirectorContentDefaults(director.id);
       res.json({
         rulesText: defaults?.rulesText || "",
         faqItems: getEditableDirectorFaqItems(defaults),
@@ -1083,7 +1828,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
       }
 
-      if (!isValidDirectorPin(parsed.data.directorPin)) {
+      const director = await getDirectorForCredential(parsed.data.directorPin);
+      if (!director) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
 
@@ -1095,7 +1841,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .filter((item) => item.question && item.answer);
       const sanitizedGalleryImages = sanitizeGalleryImages(parsed.data.galleryImages);
 
-      const defaults = await storage.upsertDirectorContentDefaults(parsed.data.directorPin, {
+      const defaults = await storage.upsertDirectorContentDefaults(director.id, {
         rulesText: parsed.data.rulesText?.trim() ? parsed.data.rulesText.trim() : null,
         faqItems: sanitizedFaqItems,
         faqItemsCustomized: true,
@@ -1107,7 +1853,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         galleryImages: sanitizedGalleryImages,
       });
 
-      await storage.syncDirectorManagedEventContent(parsed.data.directorPin, {
+      await storage.syncDirectorManagedEventContent(director.id, {
         eventDirectorName: defaults.directorName || null,
         eventDirectorEmail: defaults.directorEmail || null,
         eventDirectorPhone: defaults.directorPhone || null,
@@ -1132,25 +1878,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create a new tournament room (requires master director PIN)
-  app.post("/api/tournaments", async (req, res) => {
+  // ===== HOLE CARD LIBRARY API =====
+
+  app.get("/api/director/hole-cards", async (req, res) => {
     try {
-      const parsed = createTournamentSchema.safeParse(req.body);
+      const director = await getDirectorForCredential(req.query.directorPin);
+      if (!director) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      res.json(await storage.getHoleCards(director.id));
+    } catch (error) {
+      console.error("Error listing hole cards:", error);
+      res.status(500).json({ error: "Failed to list hole cards" });
+    }
+  });
+
+  app.post("/api/director/hole-cards", async (req, res) => {
+    try {
+      const parsed = holeCardInputSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
       }
-
-      // Verify master director PIN for creation
-      if (!isValidDirectorPin(parsed.data.directorPin)) {
+      const director = await getDirectorForCredential(parsed.data.directorPin);
+      if (!director) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
+      const { name, par, diagram } = parsed.data;
+      res.json(await storage.createHoleCard({ directorId: director.id, name, par, diagram }));
+    } catch (error) {
+      console.error("Error creating hole card:", error);
+      res.status(500).json({ error: "Failed to create hole card" });
+    }
+  });
 
-      let roomCode = generateRoomCode();
-      let attempts = 0;
-      while (await storage.getTournamentByCode(roomCode) && attempts < 10) {
-        roomCode = generateRoomCode();
-        attempts++;
-      }
+  app.put("/api/director/hole-cards/:id", async (req, res) => {
+    try {
+      const parsed = holeCardInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const director = await getDirectorForCredential(parsed.data.directorPin);
+      if (!director) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const [card] = await storage.getHoleCardsByIds([parseInt(req.params.id)]);
+      if (!card || card.directorId !== director.id) {
+        return res.status(404).json({ error: "Hole card not found" });
+      }
+      const { name, par, diagram } = parsed.data;
+      res.json(await storage.updateHoleCard(card.id, { name, par, diagram }));
+    } catch (error) {
+      console.error("Error updating hole card:", error);
+      res.status(500).json({ error: "Failed to update hole card" });
+    }
+  });
+
+  app.delete("/api/director/hole-cards/:id", async (req, res) => {
+    try {
+      const director = await getDirectorForCredential(req.body.directorPin);
+      if (!director) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const [card] = await storage.getHoleCardsByIds([parseInt(req.params.id)]);
+      if (!card || card.directorId !== director.id) {
+        return res.status(404).json({ error: "Hole card not found" });
+      }
+      const usedBy = (await storage.getCourses(director.id)).find(c => c.cardIds.includes(card.id));
+      if (usedBy) {
+        return res.status(409).json({ error: `${card.name} is used by ${usedBy.name}` });
+      }
+      await storage.deleteHoleCard(card.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting hole card:", error);
+      res.status(500).json({ error: "Failed to delete hole card" });
+    }
+  });
+
+  app.get("/api/director/courses", async (req, res) => {
+    try {
+      const director = await getDirectorForCredential(req.query.directorPin);
+      if (!director) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      res.json(await storage.getCourses(director.id));
+    } catch (error) {
+      console.error("Error listing courses:", error);
+      res.status(500).json({ error: "Failed to list courses" });
+    }
+  });
+
+  // Create a course (courseId null) or replace one; every card must be from the director's own library
+  const saveCourse = async (req: Request, res: Response, courseId: number | null) => {
+    const parsed = courseInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+    }
+    const director = await getDirectorForCredential(parsed.data.directorPin);
+    if (!director) {
+      return res.status(403).json({ error: "Invalid director credentials" });
+    }
+    const { name, cardIds } = parsed.data;
+    const owned = new Set((await storage.getHoleCards(director.id)).map(c => c.id));
+    if (cardIds.some(id => !owned.has(id))) {
+      return res.status(400).json({ error: "Unknown hole card" });
+    }
+    if (courseId === null) {
+      return res.json(await storage.createCourse({ directorId: director.id, name, cardIds }));
+    }
+    const course = await storage.getCourse(courseId);
+    if (!course || course.directorId !== director.id) {
+      return res.status(404).json({ error: "Course not found" });
+    }
+    res.json(await storage.updateCourse(course.id, { name, cardIds }));
+  };
+
+  app.post("/api/director/courses", async (req, res) => {
+    try {
+      await saveCourse(req, res, null);
+    } catch (error) {
+      console.error("Error creating course:", error);
+      res.status(500).json({ error: "Failed to create course" });
+    }
+  });
+
+  app.put("/api/director/courses/:id", async (req, res) => {
+    try {
+      await saveCourse(req, res, parseInt(req.params.id));
+    } catch (error) {
+      console.error("Error updating course:", error);
+      res.status(500).json({ error: "Failed to update course" });
+    }
+  });
+
+  app.delete("/api/director/courses/:id", async (req, res) => {
+    try {
+      const director = await getDirectorForCredential(req.body.directorPin);
+      if (!director) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const course = await storage.getCourse(parseInt(req.params.id));
+      if (!course || course.directorId !== director.id) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      await storage.deleteCourse(course.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting course:", error);
+      res.status(500).json({ error: "Failed to delete course" });
+    }
+  });
+
+  // Create a new tournament room owned by the signed-in director
+  app.post("/api/tournaments", async (req, res) => {
+    try {
+      const parsed = createTournamentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+
+      const director = await getDirectorForCredential(parsed.data.directorPin);
+      if (!director) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+
+      let roomCode = generateRoomCode();
+      let attempts = 0;
+      while (await storage.getTournamentByCode(roomCode) && attempts < 10) {
+        roomCode = generateRoomCode();
+        attempts++;
+      }
       if (attempts >= 10 && await storage.getTournamentByCode(roomCode)) {
         return res.status(500).json({ error: "Failed to generate unique room code" });
       }
@@ -1158,13 +2055,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tournament = await storage.createTournament({
         roomCode,
         name: parsed.data.name,
-        directorPin: parsed.data.directorPin,
+        directorId: director.id,
         isActive: true,
         isHandicapped: parsed.data.isHandicapped,
+        holeCount: parsed.data.holeCount,
       });
 
       // Auto-populate event details from director's global defaults
-      const directorDefaults = await storage.getDirectorContentDefaults(parsed.data.directorPin);
+      const directorDefaults = await storage.getDirectorContentDefaults(director.id);
       if (directorDefaults && (
         directorDefaults.directorName ||
         directorDefaults.directorEmail ||
@@ -1225,22 +2123,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Verify director PIN
+  // Verify a director's name and PIN for a tournament (owner, admin, or granted staff)
   app.post("/api/tournaments/:roomCode/verify-director", async (req, res) => {
     try {
       const parsed = verifyDirectorSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
       }
-      const isValid = await storage.verifyDirectorPin(req.params.roomCode, parsed.data.pin);
-      res.json({ isValid });
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const { name, pin } = parsed.data;
+      const keys: LoginKey[] = [{ scope: "room", id: tournament.roomCode }, getClientKey(req), getDirectorAccountKey(name)];
+      const remaining = getLoginLockoutRemaining(keys);
+      if (remaining > 0) {
+        return sendLoginLockout(res, remaining);
+      }
+      const director = await findDirectorBySignIn(name, pin);
+      const role = director ? await getDirectorTournamentRole(tournament, director) : null;
+      if (!director || !role) {
+        const locked = recordLoginFailure(keys);
+        await reportLoginLockouts(locked, { label: "Director sign-in", tournament });
+        if (locked.length > 0) {
+          return sendLoginLockout(res, getLoginLockoutRemaining(keys));
+        }
+        return res.json({ isValid: false });
+      }
+      clearLoginFailures(keys);
+      const token = await issueDirectorSession(director);
+      res.json({ isValid: true, token, directorName: director.name, role });
     } catch (error) {
       console.error("Error verifying PIN:", error);
       res.status(500).json({ error: "Failed to verify PIN" });
     }
   });
 
-  // Delete tournament (director only - master PIN or tournament PIN)
+  // Current director's role on a tournament (drives which DirectorPortal tabs are shown)
+  app.get("/api/tournaments/:roomCode/my-role", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const role = await getTournamentRole(tournament, req.query.directorPin);
+      if (!role) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      res.json({ role });
+    } catch (error) {
+      console.error("Error getting director role:", error);
+      res.status(500).json({ error: "Failed to get director role" });
+    }
+  });
+
+  // List staff grants and the directors that can be granted (head director only)
+  app.get("/api/tournaments/:roomCode/staff", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.query.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const staff = await storage.getTournamentStaff(tournament.id);
+      const directors = (await storage.getAllDirectors())
+        .filter(d => d.isActive && !d.isAdmin && d.id !== tournament.directorId)
+        .map(d => ({ id: d.id, name: d.name }));
+      res.json({ staff, directors });
+    } catch (error) {
+      console.error("Error listing tournament staff:", error);
+      res.status(500).json({ error: "Failed to list staff" });
+    }
+  });
+
+  // Grant or change a director's staff role on this tournament (head director only)
+  app.post("/api/tournaments/:roomCode/staff", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = grantStaffRoleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      if (!(await hasTournamentRole(tournament, parsed.data.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const grantee = await storage.getDirector(parsed.data.directorId);
+      if (!grantee || !grantee.isActive) {
+        return res.status(404).json({ error: "Director not found" });
+      }
+      if (grantee.isAdmin || grantee.id === tournament.directorId) {
+        return res.status(400).json({ error: "This director already has full access" });
+      }
+      const granter = await getDirectorForCredential(parsed.data.directorPin);
+      const staff = await storage.upsertTournamentStaff({
+        tournamentId: tournament.id,
+        directorId: grantee.id,
+        role: parsed.data.role,
+        grantedBy: granter?.id ?? null,
+      });
+      res.json({ ...staff, directorName: grantee.name });
+    } catch (error) {
+      console.error("Error granting staff role:", error);
+      res.status(500).json({ error: "Failed to grant staff role" });
+    }
+  });
+
+  // Revoke a director's staff role on this tournament (head director only)
+  app.delete("/api/tournaments/:roomCode/staff/:directorId", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.query.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      await storage.removeTournamentStaff(tournament.id, parseInt(req.params.directorId));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking staff role:", error);
+      res.status(500).json({ error: "Failed to revoke staff role" });
+    }
+  });
+
+  // Delete tournament (head director only)
   app.delete("/api/tournaments/:roomCode", async (req, res) => {
     try {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
@@ -1249,10 +2260,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { directorPin } = req.body;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
@@ -1273,10 +2281,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const directorPin = req.query.directorPin as string;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
@@ -1301,12 +2306,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Tournament not found" });
       }
       const directorPin = req.query.directorPin as string;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
-      const payout = await storage.getTournamentPayout(tournament.id);
+      const division = await resolveDivision(tournament.id, req.query.divisionId);
+      if (division === undefined) {
+        return res.status(404).json({ error: "Division not found" });
+      }
+      const payout = await storage.getTournamentPayout(tournament.id, division?.id ?? null);
       res.json(payout || null);
     } catch (error) {
       console.error("Error getting payout:", error);
@@ -1322,9 +2329,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const directorPin = req.query.directorPin as string;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
 
@@ -1362,9 +2367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const directorPin = req.body?.directorPin as string | undefined;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = directorPin ? await storage.verifyDirectorPin(req.params.roomCode, directorPin) : false;
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
 
@@ -1419,13 +2422,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         eventEntryFeeDetails,
         eventStripePriceId,
       } = parsed.data;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
 
-      const directorDefaults = await storage.getDirectorContentDefaults(tournament.directorPin);
+      const directorDefaults = tournament.directorId ? await storage.getDirectorContentDefaults(tournament.directorId) : undefined;
 
       // Public contact info and rules remain Settings-owned.
       // Hero image and section details are tournament-owned from this editor.
@@ -1468,14 +2469,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Tournament not found" });
       }
       const { directorPin, numPlayers, entryFee, greenFee, addedPrize, numSpots, percentages } = req.body;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       if (!numPlayers || !numSpots || !percentages || !Array.isArray(percentages)) {
         return res.status(400).json({ error: "Missing required payout fields" });
       }
+      const division = await resolveDivision(tournament.id, req.body.divisionId);
+      if (division === undefined) {
+        return res.status(404).json({ error: "Division not found" });
+      }
       const payout = await storage.upsertTournamentPayout(tournament.id, {
         numPlayers,
         entryFee: entryFee || 0,
@@ -1483,7 +2486,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         addedPrize: addedPrize || 0,
         numSpots,
         percentages,
-      });
+      }, division?.id ?? null);
       res.json(payout);
     } catch (error) {
       console.error("Error saving payout:", error);
@@ -1499,12 +2502,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Tournament not found" });
       }
       const directorPin = req.query.directorPin as string;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
-      await storage.deleteTournamentPayout(tournament.id);
+      const division = await resolveDivision(tournament.id, req.query.divisionId);
+      if (division === undefined) {
+        return res.status(404).json({ error: "Division not found" });
+      }
+      // Keep the record of money already handed out
+      const payout = await storage.getTournamentPayout(tournament.id, division?.id ?? null);
+      if (payout && (await storage.getPayoutDisbursements(payout.id)).length > 0) {
+        return res.status(409).json({ error: "Some of this payout is already marked paid" });
+      }
+      await storage.deleteTournamentPayout(tournament.id, division?.id ?? null);
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting payout:", error);
@@ -1512,6 +2522,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Payout sheet: the saved payout config applied to the current standings
+  app.get("/api/tournaments/:roomCode/payout/results", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.query.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const division = await resolveDivision(tournament.id, req.query.divisionId);
+      if (division === undefined) {
+        return res.status(404).json({ error: "Division not found" });
+      }
+      const payout = await storage.getTournamentPayout(tournament.id, division?.id ?? null);
+      if (!payout) {
+        return res.status(404).json({ error: "Save a payout for this tournament first" });
+      }
+      res.json(await buildPayoutResults(tournament, payout, division));
+    } catch (error) {
+      console.error("Error getting payout results:", error);
+      res.status(500).json({ error: "Failed to get payout results" });
+    }
+  });
+
+  // Mark a player's payout as handed out, recording the amount they are owed right now
+  app.post("/api/tournaments/:roomCode/payout/results/:playerId/paid", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = markPayoutPaidSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      if (!(await hasTournamentRole(tournament, parsed.data.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const division = await resolveDivision(tournament.id, parsed.data.divisionId);
+      if (division === undefined) {
+        return res.status(404).json({ error: "Division not found" });
+      }
+      const payout = await storage.getTournamentPayout(tournament.id, division?.id ?? null);
+      if (!payout) {
+        return res.status(404).json({ error: "Save a payout for this tournament first" });
+      }
+      const playerId = parseInt(req.params.playerId);
+      const result = (await buildPayoutResults(tournament, payout, division)).results.find(r => r.tournamentPlayerId === playerId);
+      if (!result) {
+        return res.status(400).json({ error: "That player doesn't finish in the money" });
+      }
+
+      const director = await getDirectorForCredential(parsed.data.directorPin);
+      await storage.markPayoutPaid({
+        payoutId: payout.id,
+        tournamentPlayerId: playerId,
+        amount: result.amount,
+        method: parsed.data.method,
+        note: parsed.data.note || null,
+        paidByDirectorId: director?.id ?? null,
+        paidByName: director?.name ?? null,
+      });
+      res.json(await buildPayoutResults(tournament, payout, division));
+    } catch (error) {
+      console.error("Error marking payout paid:", error);
+      res.status(500).json({ error: "Failed to mark payout paid" });
+    }
+  });
+
+  // Undo a paid mark, including one left on a player who has since dropped out of the money
+  app.delete("/api/tournaments/:roomCode/payout/results/:playerId/paid", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.query.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const division = await resolveDivision(tournament.id, req.query.divisionId);
+      if (division === undefined) {
+        return res.status(404).json({ error: "Division not found" });
+      }
+      const payout = await storage.getTournamentPayout(tournament.id, division?.id ?? null);
+      if (!payout) {
+        return res.status(404).json({ error: "Save a payout for this tournament first" });
+      }
+      await storage.unmarkPayoutPaid(payout.id, parseInt(req.params.playerId));
+      res.json(await buildPayoutResults(tournament, payout, division));
+    } catch (error) {
+      console.error("Error unmarking payout:", error);
+      res.status(500).json({ error: "Failed to update payout" });
+    }
+  });
+
+  // Divisions and flights (public, so leaderboards can label them)
+  app.get("/api/tournaments/:roomCode/divisions", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      res.json(await storage.getTournamentDivisions(tournament.id));
+    } catch (error) {
+      console.error("Error getting divisions:", error);
+      res.status(500).json({ error: "Failed to get divisions" });
+    }
+  });
+
+  // Replace the tournament's divisions, then re-flight everyone not placed by hand
+  app.put("/api/tournaments/:roomCode/divisions", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = setDivisionsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      if (!(await hasTournamentRole(tournament, parsed.data.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const names = parsed.data.divisions.map(d => d.name.toLowerCase());
+      if (new Set(names).size !== names.length) {
+        return res.status(400).json({ error: "Division names must be unique" });
+      }
+      const divisions = await storage.setTournamentDivisions(tournament.id, parsed.data.divisions);
+      const flights = await storage.assignFlights(tournament.id);
+      res.json({ divisions, ...flights });
+    } catch (error) {
+      console.error("Error saving divisions:", error);
+      res.status(500).json({ error: "Failed to save divisions" });
+    }
+  });
+
+  // Re-run handicap flighting, e.g. after handicaps changed before the start
+  app.post("/api/tournaments/:roomCode/divisions/assign", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.body.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      res.json(await storage.assignFlights(tournament.id));
+    } catch (error) {
+      console.error("Error assigning flights:", error);
+      res.status(500).json({ error: "Failed to assign flights" });
+    }
+  });
+
   // Start tournament (director only - master PIN or tournament PIN)
   app.post("/api/tournaments/:roomCode/start", async (req, res) => {
     try {
@@ -1521,14 +2685,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { directorPin } = req.body;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
       await storage.startTournament(tournament.id);
+      // Flights are drawn from the handicaps just frozen, leaving hand-placed players alone
+      await storage.assignFlights(tournament.id);
+      if (tournament.deckCards?.length && !tournament.deckSeed) {
+        await storage.setTournamentDeckSeed(tournament.id, crypto.randomBytes(16).toString("hex"));
+      }
       sendPushToTournament(req.params.roomCode, "Tournament Started!", `${tournament.name} is now live. Good luck!`, `start-${req.params.roomCode}`);
       res.json({ success: true });
     } catch (error) {
@@ -1546,10 +2712,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { directorPin } = req.body;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
@@ -1570,12 +2733,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { directorPin } = req.body;
-      if (!isValidDirectorPin(directorPin)) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
       await storage.reopenTournament(tournament.id);
-      res.json({ success: true });
+      // Completing again rewrites these from the corrected scores
+      const supersededHistory = await storage.supersedeTournamentHistory(tournament.id);
+      res.json({ success: true, supersededHistory });
     } catch (error) {
       console.error("Error reopening tournament:", error);
       res.status(500).json({ error: "Failed to reopen tournament" });
@@ -1586,7 +2751,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/tournaments/import", async (req, res) => {
     try {
       const { directorPin, backup } = req.body;
-      if (!isValidDirectorPin(directorPin)) {
+      const director = await getDirectorForCredential(directorPin);
+      if (!director) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
 
@@ -1604,10 +2770,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newTournament = await storage.createTournament({
         roomCode,
         name: backup.tournament.name + " (Imported)",
-        directorPin: MASTER_DIRECTOR_PIN,
+        directorId: director.id,
         isActive: backup.tournament.isActive ?? false,
         isHandicapped: backup.tournament.isHandicapped ?? false,
         isStarted: backup.tournament.isStarted ?? false,
+        holeCount: backup.tournament.holeCount ?? 18,
+        roundCount: backup.tournament.roundCount ?? 1,
+        currentRound: backup.tournament.currentRound ?? 1,
+        cutAfterRound: backup.tournament.cutAfterRound ?? null,
+        cutSize: backup.tournament.cutSize ?? null,
+        courseLayout: backup.tournament.courseLayout ?? null,
+        deckCards: backup.tournament.deckCards ?? null,
+        deckSeed: backup.tournament.deckSeed ?? null,
       });
 
       const playerIdMap: Record<number, number> = {};
@@ -1621,22 +2795,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
           universalId: player.universalId || null,
           universalPlayerId: player.universalPlayerId || null,
           contactInfo: player.contactInfo || null,
+          cutAfterRound: player.cutAfterRound ?? null,
+          handicapSnapshot: player.handicapSnapshot ?? null,
         });
         playerIdMap[player.id] = newPlayer.id;
       }
 
       if (backup.scores && Array.isArray(backup.scores)) {
+        const importActor: ScoreActor = { actorType: "director", actorId: String(director.id), actorName: director.name };
         for (const score of backup.scores) {
           const newPlayerId = playerIdMap[score.tournamentPlayerId];
           if (newPlayerId) {
-            await storage.upsertScore({
+            const saved = await storage.upsertScore({
               tournamentPlayerId: newPlayerId,
+              round: score.round ?? 1,
               hole: score.hole,
               par: score.par,
               strokes: score.strokes,
               scratches: score.scratches ?? 0,
               penalties: score.penalties ?? 0,
             });
+            await recordScoreHistory(newTournament, undefined, saved, importActor, "/tournaments/import");
           }
         }
       }
@@ -1654,12 +2833,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Full data export (all tournaments + all universal players)
+  // Full data export (all tournaments + all universal players; admin directors only)
   app.get("/api/export/full", async (req, res) => {
     try {
-      const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
+      const admin = await getDirectorForCredential(req.query.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
       }
 
       const allTournaments = await storage.getAllTournaments();
@@ -1697,12 +2876,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Player-only export (all universal players + history)
+  // Player-only export (all universal players + history; admin directors only)
   app.get("/api/export/players", async (req, res) => {
     try {
-      const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
+      const admin = await getDirectorForCredential(req.query.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
       }
 
       const allPlayers = await storage.getAllUniversalPlayers();
@@ -1728,7 +2907,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Player-only import (universal players + history)
+  // Player-only import (universal players + history; admin directors only)
   app.post("/api/import/players", async (req, res) => {
     try {
       const { directorPin, data } = req.body;
@@ -1738,9 +2917,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ? req.body.conflictPolicy
         : "skip";
 
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
+      const admin = await getDirectorForCredential(directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
       }
+      const historyEditContext = await getHandicapRevisionContext(directorPin, "history_edit");
 
       if (!data || !data.universalPlayers) {
         return res.status(400).json({ error: "Invalid import format - expected universalPlayers array" });
@@ -1928,7 +3109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
 
-        await storage.recalculateHandicap(targetPlayer.id);
+        await storage.recalculateHandicap(targetPlayer.id, historyEditContext);
 
         if (targetPlayer.uniqueCode) {
           existingByCode.set(targetPlayer.uniqueCode.toUpperCase(), targetPlayer);
@@ -1965,9 +3146,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ? req.body.conflictPolicy
         : "skip";
 
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
+      const admin = await getDirectorForCredential(directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
       }
+      const historyEditContext = await getHandicapRevisionContext(directorPin, "history_edit");
 
       if (!data || !data.universalPlayers) {
         return res.status(400).json({ error: "Invalid import format" });
@@ -2161,7 +3344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               }
             }
 
-            await storage.recalculateHandicap(targetPlayer.id);
+            await storage.recalculateHandicap(targetPlayer.id, historyEditContext);
 
             if (targetPlayer.uniqueCode) {
               existingByCode.set(targetPlayer.uniqueCode.toUpperCase(), targetPlayer);
@@ -2291,12 +3474,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Unassign device from player (director only)
   app.post("/api/tournaments/:roomCode/players/:playerId/unassign-device", async (req, res) => {
     try {
-      const directorPin = req.body.directorPin;
-      if (!isValidDirectorPin(directorPin)) {
-        const tournament = await storage.getTournamentByCode(req.params.roomCode);
-        if (!tournament || tournament.directorPin !== directorPin) {
-          return res.status(403).json({ error: "Invalid director credentials" });
-        }
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.body.directorPin, "assistant"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
       }
       
       await storage.unassignDeviceFromPlayer(parseInt(req.params.playerId));
@@ -2345,7 +3528,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const allScores: Record<number, TournamentScore[]> = {};
       
       for (const player of players) {
-        const scores = await storage.getPlayerScores(player.id);
+        const scores = await storage.getPlayerScores(player.id, tournament.currentRound);
         allScores[player.id] = scores;
       }
 
@@ -2374,14 +3557,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Tournament not found" });
       }
       const { directorPin, holes } = req.body;
-      const masterPin = process.env.MASTER_DIRECTOR_PIN || "3141";
-      const isValid = directorPin === masterPin || await storage.verifyDirectorPin(req.params.roomCode, directorPin);
+      const isValid = await hasTournamentRole(tournament, directorPin, "assistant");
       if (!isValid) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       if (typeof holes !== "object" || holes === null || Array.isArray(holes)) {
         return res.status(400).json({ error: "holes must be an object" });
       }
+      if (Object.values(holes).some(hole => !Number.isInteger(hole) || (hole as number) < 1 || (hole as number) > tournament.holeCount)) {
+        return res.status(400).json({ error: `Starting holes must be between 1 and ${tournament.holeCount}` });
+      }
       await storage.setTournamentStartingHoles(req.params.roomCode, holes as Record<string, number>);
       res.json({ ok: true, holes });
     } catch (error) {
@@ -2400,7 +3585,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const { directorPin, ...playerData } = req.body;
-      const isDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
+      const isDirector = await hasTournamentRole(tournament, directorPin, "assistant");
       if (!isDirector) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
@@ -2431,30 +3616,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Batch update player groups (director only)
-  app.post("/api/tournaments/:roomCode/players/batch-update-groups", async (req, res) => {
+  // Place a player in a division by hand, or hand them back to handicap flighting
+  app.put("/api/tournaments/:roomCode/players/:playerId/division", async (req, res) => {
     try {
-      // Validate request body with Zod schema
-      const parsed = batchUpdateGroupsSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
-      }
-      
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) {
         return res.status(404).json({ error: "Tournament not found" });
       }
-      
-      const { directorPin, updates } = parsed.data;
-      const isDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      if (!isDirector) {
+      const parsed = setPlayerDivisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      if (!(await hasTournamentRole(tournament, parsed.data.directorPin, "assistant"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
-      
-      // Verify all players belong to this tournament
+      const playerId = parseInt(req.params.playerId);
       const players = await storage.getPlayersInTournament(tournament.id);
-      const playerIds = new Set(players.map(p => p.id));
-      
+      if (!players.some(p => p.id === playerId)) {
+        return res.status(404).json({ error: "Player not found in this tournament" });
+      }
+
+      if (parsed.data.auto) {
+        await storage.setPlayerDivision(playerId, null, false);
+        await storage.assignFlights(tournament.id, [playerId]);
+      } else {
+        const division = await resolveDivision(tournament.id, parsed.data.divisionId);
+        if (division === undefined) {
+          return res.status(404).json({ error: "Division not found" });
+        }
+        await storage.setPlayerDivision(playerId, division?.id ?? null, true);
+      }
+      const player = (await storage.getPlayersInTournament(tournament.id)).find(p => p.id === playerId);
+      res.json(player);
+    } catch (error) {
+      console.error("Error setting player division:", error);
+      res.status(500).json({ error: "Failed to set player division" });
+    }
+  });
+
+  // Batch update player groups (director only)
+  app.post("/api/tournaments/:roomCode/players/batch-update-groups", async (req, res) => {
+    try {
+      // Validate request body with Zod schema
+      const parsed = batchUpdateGroupsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      
+      const { directorPin, updates } = parsed.data;
+      const isDirector = await hasTournamentRole(tournament, directorPin, "assistant");
+      if (!isDirector) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      
+      // Verify all players belong to this tournament
+      const players = await storage.getPlayersInTournament(tournament.id);
+      const playerIds = new Set(players.map(p => p.id));
+      
       for (const update of updates) {
         if (!playerIds.has(update.playerId)) {
           return res.status(404).json({ error: `Player ${update.playerId} not found in this tournament` });
@@ -2486,7 +3709,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const directorPin = req.query.directorPin as string;
-      const isDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
+      const isDirector = await hasTournamentRole(tournament, directorPin, "assistant");
       if (!isDirector) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
@@ -2548,28 +3771,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
       }
 
-      const scratches = parsed.data.scratches || 0;
-      const strokes = parsed.data.strokes;
-      const par = parsed.data.par;
-      const hole = parsed.data.hole;
-      const playerId = parsed.data.tournamentPlayerId;
+      if (parsed.data.hole > tournament.holeCount) {
+        return res.status(400).json({ error: `Maximum of ${tournament.holeCount} holes allowed` });
+      }
+
+      const roundError = getScoreRoundError(tournament, parsed.data.round);
+      if (roundError) {
+        return res.status(422).json({ error: roundError });
+      }
 
-      if (hole > 18) {
-        return res.status(400).json({ error: "Maximum of 18 holes allowed" });
+      const players = await storage.getPlayersInTournament(tournament.id);
+      const player = players.find(p => p.id === parsed.data.tournamentPlayerId);
+      if (!player) {
+        return res.status(404).json({ error: "Player is not in this tournament" });
+      }
+      if (player.cutAfterRound != null) {
+        return res.status(400).json({ error: "This player missed the cut" });
       }
 
-      await runCheatDetection(req.params.roomCode, tournament.id, playerId, hole, par, strokes, scratches);
+      const resolved = resolveScorePar(tournament, parsed.data.hole, parsed.data.par);
+      if ("error" in resolved) {
+        return res.status(400).json({ error: resolved.error });
+      }
 
-      const score = await storage.upsertScore({
-        tournamentPlayerId: playerId,
-        hole,
-        par,
-        strokes,
-        scratches,
-        penalties: parsed.data.penalties || 0,
-      });
+      const actor = await resolveScoreActor(tournament, req.body);
+      const result = await writeSyncedScore(tournament, { ...parsed.data, par: resolved.par }, { actor, source: "/scores" }, players);
+      if ("conflict" in result) {
+        return res.status(409).json({ error: "This hole was changed on another device", conflict: result.conflict });
+      }
 
-      res.json(score);
+      res.json(result.score);
     } catch (error) {
       console.error("Error syncing score:", error);
       res.status(500).json({ error: "Failed to sync score" });
@@ -2586,10 +3817,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Validate director PIN
       const directorPin = req.query.directorPin as string;
-      const isMasterDirector = isValidDirectorPin(directorPin);
-      const isTournamentDirector = await storage.verifyDirectorPin(req.params.roomCode, directorPin);
-      
-      if (!isMasterDirector && !isTournamentDirector) {
+      if (!(await hasTournamentRole(tournament, directorPin, "scorer"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
 
@@ -2605,7 +3833,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Player not found in this tournament" });
       }
 
-      const scores = await storage.getPlayerScores(playerId);
+      const scores = await storage.getPlayerScores(playerId, tournament.currentRound);
       res.json(scores);
     } catch (error) {
       console.error("Error getting player scores:", error);
@@ -2613,6 +3841,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Score change history for a player, newest first within each hole (optionally one hole)
+  app.get("/api/tournaments/:roomCode/players/:playerId/score-history", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+
+      const directorPin = req.query.directorPin as string;
+      if (!(await hasTournamentRole(tournament, directorPin, "assistant"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+
+      const playerId = parseInt(req.params.playerId);
+      if (isNaN(playerId)) {
+        return res.status(400).json({ error: "Invalid player ID" });
+      }
+      const hole = req.query.hole !== undefined ? parseInt(req.query.hole as string) : undefined;
+      if (hole !== undefined && isNaN(hole)) {
+        return res.status(400).json({ error: "Invalid hole" });
+      }
+
+      const players = await storage.getPlayersInTournament(tournament.id);
+      if (!players.some(p => p.id === playerId)) {
+        return res.status(404).json({ error: "Player not found in this tournament" });
+      }
+
+      const history = await storage.getPlayerScoreHistory(playerId, hole);
+      res.json(history);
+    } catch (error) {
+      console.error("Error getting score history:", error);
+      res.status(500).json({ error: "Failed to get score history" });
+    }
+  });
+
   // Get player scores (public - for spectators)
   app.get("/api/tournaments/:roomCode/players/:playerId/box-score", async (req, res) => {
     try {
@@ -2632,7 +3895,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Player not found in this tournament" });
       }
 
-      const scores = await storage.getPlayerScores(playerId);
+      // Defaults to the round in play; ?round=N shows an earlier one
+      const requestedRound = parseInt(req.query.round as string);
+      const round = requestedRound >= 1 && requestedRound <= tournament.currentRound ? requestedRound : tournament.currentRound;
+      const scores = await storage.getPlayerScores(playerId, round);
       const uniqueHoles = new Set(scores.map(s => s.hole));
       const dedupedScores = Array.from(uniqueHoles).map(hole => {
         const holeScores = scores.filter(s => s.hole === hole);
@@ -2643,6 +3909,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         playerId: player.id,
         playerName: player.playerName,
         groupName: player.groupName,
+        round,
         scores: dedupedScores.map(s => ({
           hole: s.hole,
           par: s.par,
@@ -2665,7 +3932,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Tournament not found" });
       }
 
-      const leaderboard = await storage.getLeaderboard(tournament.id);
+      // Handicapped events rank by net unless the viewer asks for gross
+      const parsedRanking = leaderboardRankingSchema.safeParse(req.query.ranking);
+      const ranking = parsedRanking.success ? parsedRanking.data : tournament.isHandicapped ? "net" : "gross";
+      const tieBreakPolicy = resolveTieBreakPolicy(tournament);
+      // Cumulative standings unless ?round=N asks for a single round
+      const requestedRound = parseInt(req.query.round as string);
+      const round = requestedRound >= 1 && requestedRound <= tournament.currentRound ? requestedRound : null;
+      // ?division=N ranks one division on its own; an unknown id falls back to the whole field
+      const divisions = await storage.getTournamentDivisions(tournament.id);
+      const division = divisions.find(d => d.id === parseInt(req.query.division as string)) ?? null;
+      const leaderboard = await storage.getLeaderboard(tournament.id, ranking, tieBreakPolicy, tournament.holeCount, round ?? undefined, division?.id);
       res.json({
         tournament: {
           id: tournament.id,
@@ -2673,88 +3950,774 @@ export async function registerRoutes(app: Express): Promise<Server> {
           roomCode: tournament.roomCode,
           isActive: tournament.isActive,
           isStarted: tournament.isStarted,
+          isHandicapped: tournament.isHandicapped,
+          holeCount: tournament.holeCount,
+          roundCount: tournament.roundCount,
+          currentRound: tournament.currentRound,
+          cutAfterRound: tournament.cutAfterRound,
+          cutSize: tournament.cutSize,
+          courseLayout: tournament.courseLayout,
+          deckCards: tournament.deckCards,
+          deckDealt: !!tournament.deckSeed,
           startedAt: tournament.startedAt,
           completedAt: tournament.completedAt,
         },
+        ranking,
+        round,
+        division: division?.id ?? null,
+        divisions: divisions.map(d => ({ id: d.id, name: d.name })),
+        tieBreakPolicy,
+        playoff: await getActivePlayoffStanding(tournament.id),
         leaderboard,
       });
     } catch (error) {
-      console.error("Error getting leaderboard:", error);
-      res.status(500).json({ error: "Failed to get leaderboard" });
+      console.error("Error getting leaderboard:", error);
+      res.status(500).json({ error: "Failed to get leaderboard" });
+    }
+  });
+
+  // Batch sync multiple scores at once
+  app.post("/api/tournaments/:roomCode/scores/batch", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+
+      const parsed = batchScoreSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+
+      const results: TournamentScore[] = [];
+      const conflicts: ScoreConflict[] = [];
+      const rejected: ScoreRejection[] = [];
+      const tournamentPlayersCache = await storage.getPlayersInTournament(tournament.id);
+      const actor = await resolveScoreActor(tournament, req.body);
+
+      for (let index = 0; index < parsed.data.scores.length; index++) {
+        const entry = syncScoreSchema.safeParse(parsed.data.scores[index]);
+        if (!entry.success) {
+          rejected.push({ index, tournamentPlayerId: null, hole: null, error: entry.error.errors[0]?.message || "Invalid score" });
+          continue;
+        }
+        const score = entry.data;
+        const reject = (error: string) => rejected.push({ index, tournamentPlayerId: score.tournamentPlayerId, hole: score.hole, error });
+
+        if (score.hole > tournament.holeCount) {
+          reject(`Maximum of ${tournament.holeCount} holes allowed`);
+          continue;
+        }
+        const roundError = getScoreRoundError(tournament, score.round);
+        if (roundError) {
+          reject(roundError);
+          continue;
+        }
+        const resolved = resolveScorePar(tournament, score.hole, score.par);
+        if ("error" in resolved) {
+          reject(resolved.error);
+          continue;
+        }
+        const player = tournamentPlayersCache.find(p => p.id === score.tournamentPlayerId);
+        if (!player) {
+          reject("Player is not in this tournament");
+          continue;
+        }
+        if (player.cutAfterRound != null) {
+          reject("This player missed the cut");
+          continue;
+        }
+        const result = await writeSyncedScore(tournament, { ...score, par: resolved.par }, { actor, source: "/scores/batch" }, tournamentPlayersCache);
+        if ("conflict" in result) {
+          conflicts.push(result.conflict);
+        } else {
+          results.push(result.score);
+        }
+      }
+
+      // Every other entry is still saved. Rejected entries can't be saved as sent, so they're
+      // listed with the reason rather than dropped; conflicts ride along for the client to resolve.
+      if (rejected.length > 0) {
+        const error = rejected.length === 1 ? rejected[0].error : `${rejected.length} scores were rejected`;
+        return res.status(422).json({ error, saved: results, conflicts, rejected });
+      }
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "Some holes were changed on another device", saved: results, conflicts });
+      }
+
+      res.json(results);
+    } catch (error) {
+      console.error("Error batch syncing scores:", error);
+      res.status(500).json({ error: "Failed to batch sync scores" });
+    }
+  });
+
+  // ===== CHEAT DETECTION ALERTS API =====
+
+  // Alerts for the tournaments the caller heads (every tournament for admins), or for one room
+  app.get("/api/alerts", async (req, res) => {
+    try {
+      const directorPin = req.query.directorPin as string;
+      const roomCode = req.query.roomCode as string | undefined;
+      if (roomCode) {
+        const tournament = await storage.getTournamentByCode(roomCode);
+        if (!tournament) {
+          return res.status(404).json({ error: "Tournament not found" });
+        }
+        if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+          return res.status(403).json({ error: "Invalid director PIN" });
+        }
+      } else if (!(await isValidDirectorCredential(directorPin))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      // Defaults to open alerts; pass status=all for the full review history
+      const statusParam = (req.query.status as string | undefined) ?? "open";
+      const parsedStatus = cheatAlertStatusSchema.safeParse(statusParam);
+      if (statusParam !== "all" && !parsedStatus.success) {
+        return res.status(400).json({ error: "Invalid status filter" });
+      }
+      const alerts = await storage.getCheatAlerts({
+        roomCode,
+        status: parsedStatus.success ? parsedStatus.data : undefined,
+      });
+      // Check each tournament once, however many alerts it has
+      const access = new Map<string, Promise<boolean>>();
+      const visible: CheatAlert[] = [];
+      for (const alert of alerts) {
+        const key = alert.tournamentId !== null ? `id:${alert.tournamentId}` : `room:${alert.roomCode ?? ""}`;
+        if (!access.has(key)) access.set(key, canReviewCheatAlert(alert, directorPin));
+        if (await access.get(key)) visible.push(alert);
+      }
+      res.json(visible);
+    } catch (error) {
+      console.error("Error fetching alerts:", error);
+      res.status(500).json({ error: "Failed to fetch alerts" });
+    }
+  });
+
+  app.post("/api/alerts/:id/review", async (req, res) => {
+    try {
+      const parsed = reviewCheatAlertSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const { directorPin, status, note } = parsed.data;
+      const existing = await storage.getCheatAlert(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      if (!(await canReviewCheatAlert(existing, directorPin))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      const alert = await storage.reviewCheatAlert(existing.id, status, note?.trim() || null, await getDirectorName(directorPin));
+      res.json(alert);
+    } catch (error) {
+      console.error("Error reviewing alert:", error);
+      res.status(500).json({ error: "Failed to review alert" });
+    }
+  });
+
+  app.post("/api/alerts/:id/dismiss", async (req, res) => {
+    try {
+      const directorPin = req.body.directorPin as string;
+      const alert = await storage.getCheatAlert(parseInt(req.params.id));
+      if (!alert) {
+        return res.status(404).json({ error: "Alert not found" });
+      }
+      if (!(await canReviewCheatAlert(alert, directorPin))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      const note = typeof req.body.note === "string" ? req.body.note.trim() : "";
+      await storage.reviewCheatAlert(alert.id, "dismissed", note || null, await getDirectorName(directorPin));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error dismissing alert:", error);
+      res.status(500).json({ error: "Failed to dismiss alert" });
+    }
+  });
+
+  // Get cheat detection rules for a tournament (director only)
+  app.get("/api/tournaments/:roomCode/cheat-rules", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const directorPin = req.query.directorPin as string;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      res.json({ rules: resolveCheatRules(tournament), defaults: DEFAULT_CHEAT_RULES });
+    } catch (error) {
+      console.error("Error fetching cheat rules:", error);
+      res.status(500).json({ error: "Failed to fetch cheat rules" });
+    }
+  });
+
+  // Update cheat detection rules for a tournament (director only)
+  app.put("/api/tournaments/:roomCode/cheat-rules", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const { directorPin, rules } = req.body;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      const parsed = cheatRulesSchema.partial().safeParse(rules);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid rules" });
+      }
+      const merged = { ...(tournament.cheatRules ?? {}), ...parsed.data };
+      await storage.setTournamentCheatRules(tournament.id, merged);
+      res.json({ rules: { ...DEFAULT_CHEAT_RULES, ...merged } });
+    } catch (error) {
+      console.error("Error updating cheat rules:", error);
+      res.status(500).json({ error: "Failed to update cheat rules" });
+    }
+  });
+
+  // Set how players level on score are ordered (head director only)
+  app.put("/api/tournaments/:roomCode/tie-break-policy", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const { directorPin, policy } = req.body;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      const parsed = tieBreakPolicySchema.safeParse(policy);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid tie-break policy" });
+      }
+      await storage.setTournamentTieBreakPolicy(tournament.id, parsed.data);
+      res.json({ tieBreakPolicy: parsed.data });
+    } catch (error) {
+      console.error("Error updating tie-break policy:", error);
+      res.status(500).json({ error: "Failed to update tie-break policy" });
+    }
+  });
+
+  // Change the number of holes in a round (head director only)
+  app.put("/api/tournaments/:roomCode/hole-count", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const { directorPin, holeCount } = req.body;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      const parsed = holeCountSchema.safeParse(holeCount);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Hole count must be between 1 and 36" });
+      }
+      // Shrinking the round must not orphan scores or group starts already past the new last hole
+      const players = await storage.getPlayersInTournament(tournament.id);
+      for (const player of players) {
+        const scores = await storage.getPlayerScores(player.id);
+        if (scores.some(s => s.hole > parsed.data)) {
+          return res.status(409).json({ error: `${player.playerName} already has a score beyond hole ${parsed.data}` });
+        }
+      }
+      const startingHoles = await storage.getTournamentStartingHoles(tournament.roomCode);
+      const lateStart = Object.entries(startingHoles).find(([, hole]) => hole > parsed.data);
+      if (lateStart) {
+        return res.status(409).json({ error: `${lateStart[0]} starts on hole ${lateStart[1]}` });
+      }
+      const lateHole = tournament.courseLayout?.find(h => h.hole > parsed.data);
+      if (lateHole) {
+        return res.status(409).json({ error: `The course layout defines hole ${lateHole.hole}` });
+      }
+      if (tournament.deckSeed) {
+        return res.status(409).json({ error: "The deck has already been dealt for this hole count" });
+      }
+      await storage.setTournamentHoleCount(tournament.id, parsed.data);
+      res.json({ holeCount: parsed.data });
+    } catch (error) {
+      console.error("Error updating hole count:", error);
+      res.status(500).json({ error: "Failed to update hole count" });
+    }
+  });
+
+  // Set the official par per hole (head director only); an empty list clears the layout
+  app.put("/api/tournaments/:roomCode/course", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = courseLayoutSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const { directorPin, holes } = parsed.data;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      if (tournament.deckCards && holes.length > 0) {
+        return res.status(409).json({ error: "Remove the par-card deck before setting a course" });
+      }
+      const beyond = holes.find(h => h.hole > tournament.holeCount);
+      if (beyond) {
+        return res.status(400).json({ error: `Hole ${beyond.hole} is past the last hole (${tournament.holeCount})` });
+      }
+      const conflict = await findCourseParConflict(tournament, holes);
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+      const layout = holes.length > 0 ? [...holes].sort((a, b) => a.hole - b.hole) : null;
+      await storage.setTournamentCourseLayout(tournament.id, layout);
+      res.json({ courseLayout: layout });
+    } catch (error) {
+      console.error("Error updating course layout:", error);
+      res.status(500).json({ error: "Failed to update course layout" });
+    }
+  });
+
+  // Replace the course layout with a course from the director's library (head director only)
+  app.post("/api/tournaments/:roomCode/course/apply", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = applyCourseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const { directorPin, courseId } = parsed.data;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      if (tournament.deckCards) {
+        return res.status(409).json({ error: "Remove the par-card deck before setting a course" });
+      }
+      const director = await getDirectorForCredential(directorPin);
+      const course = await storage.getCourse(courseId);
+      if (!course || !director || (course.directorId !== director.id && !director.isAdmin)) {
+        return res.status(404).json({ error: "Course not found" });
+      }
+      if (course.cardIds.length > tournament.holeCount) {
+        return res.status(400).json({ error: `${course.name} has ${course.cardIds.length} holes but this tournament plays ${tournament.holeCount}` });
+      }
+      const cards = await storage.getHoleCardsByIds(course.cardIds);
+      if (course.cardIds.some(id => !cards.some(c => c.id === id))) {
+        return res.status(409).json({ error: `A card in ${course.name} no longer exists` });
+      }
+      const holes: CourseHole[] = course.cardIds.map((cardId, index) => {
+        const card = cards.find(c => c.id === cardId)!;
+        return { hole: index + 1, par: card.par, cardId: null, description: card.name, holeCardId: card.id };
+      });
+      const conflict = await findCourseParConflict(tournament, holes);
+      if (conflict) {
+        return res.status(409).json({ error: conflict });
+      }
+      await storage.setTournamentCourseLayout(tournament.id, holes);
+      res.json({ courseLayout: holes });
+    } catch (error) {
+      console.error("Error applying course:", error);
+      res.status(500).json({ error: "Failed to apply course" });
+    }
+  });
+
+  // Hole cards on the tournament's course layout, so devices can draw the table setup (public)
+  app.get("/api/tournaments/:roomCode/hole-cards", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const ids = (tournament.courseLayout ?? []).flatMap(h => h.holeCardId ? [h.holeCardId] : []);
+      const cards = await storage.getHoleCardsByIds(ids);
+      res.json(cards.map(({ id, name, par, diagram }) => ({ id, name, par, diagram })));
+    } catch (error) {
+      console.error("Error fetching hole cards:", error);
+      res.status(500).json({ error: "Failed to fetch hole cards" });
+    }
+  });
+
+  // Set the par-card deck dealt to every group (head director only); an empty deck goes back to physical cards
+  app.put("/api/tournaments/:roomCode/deck", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = deckSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const { directorPin, cards } = parsed.data;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      if (tournament.isStarted) {
+        return res.status(409).json({ error: "The deck is shuffled when the tournament starts and can't be changed afterward" });
+      }
+      if (tournament.courseLayout && cards.length > 0) {
+        return res.status(409).json({ error: "Clear the course layout before using a par-card deck" });
+      }
+      // Library cards keep their own par so the diagram and the score always agree
+      const libraryCards = await storage.getHoleCardsByIds(Array.from(new Set(cards.flatMap(c => c.holeCardId ? [c.holeCardId] : []))));
+      if (cards.some(c => c.holeCardId && !libraryCards.some(lc => lc.id === c.holeCardId))) {
+        return res.status(400).json({ error: "Unknown hole card" });
+      }
+      const deck = cards.length > 0
+        ? cards.map(c => ({ par: libraryCards.find(lc => lc.id === c.holeCardId)?.par ?? c.par, holeCardId: c.holeCardId }))
+        : null;
+      await storage.setTournamentDeck(tournament.id, deck);
+      res.json({ deckCards: deck });
+    } catch (error) {
+      console.error("Error updating deck:", error);
+      res.status(500).json({ error: "Failed to update deck" });
+    }
+  });
+
+  // Deal this round's card for a hole to a playing device; repeat draws by the same device are logged once
+  app.post("/api/tournaments/:roomCode/deck/draw", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = deckDrawSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const { deviceId, hole } = parsed.data;
+      if (hole > tournament.holeCount) {
+        return res.status(400).json({ error: `Maximum of ${tournament.holeCount} holes allowed` });
+      }
+      const dealt = dealDeckCard(tournament, tournament.currentRound, hole);
+      if (!dealt) {
+        return res.status(409).json({ error: tournament.deckCards ? "The deck is shuffled when the tournament starts" : "This tournament has no par-card deck" });
+      }
+      const players = await storage.getPlayersInTournament(tournament.id);
+      if (!players.some(p => p.deviceId === deviceId)) {
+        return res.status(403).json({ error: "This device has no players in the tournament" });
+      }
+      const round = tournament.currentRound;
+      if (!(await storage.findDeckDraw(tournament.id, round, hole, deviceId))) {
+        await storage.createDeckDraw({
+          tournamentId: tournament.id,
+          round,
+          hole,
+          position: dealt.position,
+          par: dealt.card.par,
+          holeCardId: dealt.card.holeCardId,
+          deviceId,
+        });
+      }
+      const [holeCard] = await storage.getHoleCardsByIds(dealt.card.holeCardId ? [dealt.card.holeCardId] : []);
+      res.json({
+        round,
+        hole,
+        position: dealt.position,
+        deckSize: tournament.deckCards!.length,
+        par: dealt.card.par,
+        holeCard: holeCard ? { id: holeCard.id, name: holeCard.name, par: holeCard.par, diagram: holeCard.diagram } : null,
+      });
+    } catch (error) {
+      console.error("Error drawing deck card:", error);
+      res.status(500).json({ error: "Failed to draw card" });
+    }
+  });
+
+  // Seed, full deal and draw log for auditing a deck event afterward (head director only)
+  app.get("/api/tournaments/:roomCode/deck/export", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.query.directorPin as string, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      if (!tournament.deckCards) {
+        return res.status(404).json({ error: "This tournament has no par-card deck" });
+      }
+      const players = await storage.getPlayersInTournament(tournament.id);
+      const draws = await storage.getDeckDraws(tournament.id);
+      const deal = tournament.deckSeed
+        ? Array.from({ length: tournament.roundCount * tournament.holeCount }, (_, i) => {
+            const round = Math.floor(i / tournament.holeCount) + 1;
+            const hole = (i % tournament.holeCount) + 1;
+            const { card, position } = dealDeckCard(tournament, round, hole)!;
+            return { round, hole, position, par: card.par, holeCardId: card.holeCardId };
+          })
+        : [];
+      res.json({
+        roomCode: tournament.roomCode,
+        name: tournament.name,
+        seed: tournament.deckSeed,
+        shuffle: "Fisher-Yates from the last card down; on pass p (0-based) card i swaps with HMAC-SHA256(seed, \"p:i\") read as a big-endian uint32, modulo i + 1",
+        cards: tournament.deckCards,
+        deal,
+        draws: draws.map(({ round, hole, position, par, holeCardId, deviceId, drawnAt }) => ({
+          round,
+          hole,
+          position,
+          par,
+          holeCardId,
+          deviceId,
+          players: players.filter(p => p.deviceId === deviceId).map(p => p.playerName),
+          drawnAt,
+        })),
+        exportedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error("Error exporting deck:", error);
+      res.status(500).json({ error: "Failed to export deck" });
+    }
+  });
+
+  // Per-hole or per-card difficulty with a stroke index, for this tournament or across the
+  // owning director's completed tournaments (assistant or above)
+  app.get("/api/tournaments/:roomCode/hole-difficulty", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.query.directorPin as string, "assistant"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const parsedScope = holeDifficultyScopeSchema.safeParse(req.query.scope);
+      const scope = parsedScope.success ? parsedScope.data : "tournament";
+      const parsedGrouping = holeDifficultyGroupingSchema.safeParse(req.query.by);
+      const groupBy = parsedGrouping.success ? parsedGrouping.data : "hole";
+      const tournamentIds = scope === "tournament"
+        ? [tournament.id]
+        : (await storage.getAllTournaments())
+            .filter(t => t.completedAt && (tournament.directorId ? t.directorId === tournament.directorId : t.id === tournament.id))
+            .map(t => t.id);
+      res.json({
+        scope,
+        by: groupBy,
+        tournamentCount: tournamentIds.length,
+        holes: await storage.getHoleDifficulty(tournamentIds, groupBy),
+      });
+    } catch (error) {
+      console.error("Error computing hole difficulty:", error);
+      res.status(500).json({ error: "Failed to compute hole difficulty" });
+    }
+  });
+
+  // Number of rounds and the optional cut (head director only)
+  app.put("/api/tournaments/:roomCode/rounds", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = roundSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      const { directorPin, ...settings } = parsed.data;
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      if (settings.roundCount < tournament.currentRound) {
+        return res.status(409).json({ error: `Round ${tournament.currentRound} is already under way` });
+      }
+      // A cut that has been made stays made
+      const cutChanged = settings.cutAfterRound !== tournament.cutAfterRound || settings.cutSize !== tournament.cutSize;
+      const pastCut = [settings.cutAfterRound, tournament.cutAfterRound].some(r => r !== null && r < tournament.currentRound);
+      if (cutChanged && pastCut) {
+        return res.status(409).json({ error: "The cut has already been made" });
+      }
+      await storage.setTournamentRoundSettings(tournament.id, settings);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating rounds:", error);
+      res.status(500).json({ error: "Failed to update rounds" });
+    }
+  });
+
+  // Close the current round and start the next one: make the cut if it falls here, then optionally
+  // re-pair the remaining field by cumulative standings (head director only)
+  app.post("/api/tournaments/:roomCode/rounds/advance", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = advanceRoundSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      if (!(await hasTournamentRole(tournament, parsed.data.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      if (tournament.currentRound >= tournament.roundCount) {
+        return res.status(409).json({ error: "This is already the final round" });
+      }
+
+      const completedRound = tournament.currentRound;
+      const ranking = tournament.isHandicapped ? "net" : "gross";
+      const rankedScore = (entry: LeaderboardEntry) => ranking === "net" ? entry.netRelativeToPar : entry.relativeToPar;
+      const leaderboard = await storage.getLeaderboard(tournament.id, ranking, resolveTieBreakPolicy(tournament), tournament.holeCount);
+      let field = leaderboard.filter(e => e.cutAfterRound === null);
+
+      // Top cutSize plus ties: everyone level with the last player inside the cut goes through
+      let missedCut: LeaderboardEntry[] = [];
+      if (tournament.cutAfterRound === completedRound && tournament.cutSize !== null && field.length > tournament.cutSize) {
+        const cutLine = rankedScore(field[tournament.cutSize - 1]);
+        missedCut = field.filter(e => rankedScore(e) > cutLine);
+        field = field.filter(e => rankedScore(e) <= cutLine);
+        await storage.markPlayersCut(missedCut.map(e => e.playerId), completedRound);
+      }
+
+      // Re-pair into the groups the field already uses, so their starting holes carry over.
+      // Leaders go out in the last group and group sizes differ by at most one.
+      if (parsed.data.pairing === "standings") {
+        const groupNames = Array.from(new Set(field.map(e => e.groupName).filter((g): g is string => !!g)))
+          .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+        const order = [...field].reverse();
+        if (groupNames.length > 0) {
+          for (let i = 0; i < order.length; i++) {
+            const groupName = groupNames[Math.floor(i * groupNames.length / order.length)];
+            if (order[i].groupName !== groupName) {
+              await storage.updatePlayer(order[i].playerId, { groupName });
+            }
+          }
+        }
+      }
+
+      const nextRound = completedRound + 1;
+      await storage.setTournamentCurrentRound(tournament.id, nextRound);
+      const cutNote = missedCut.length > 0 ? ` ${field.length} players made the cut.` : "";
+      sendPushToTournament(req.params.roomCode, `Round ${nextRound}`, `Round ${nextRound} of ${tournament.name} is starting.${cutNote}`, `round-${req.params.roomCode}-${nextRound}`);
+      res.json({ currentRound: nextRound, madeCut: field.length, missedCut: missedCut.map(e => e.playerId) });
+    } catch (error) {
+      console.error("Error advancing round:", error);
+      res.status(500).json({ error: "Failed to start the next round" });
+    }
+  });
+
+  // Start a sudden-death playoff between every player tied on one position (head director only)
+  app.post("/api/tournaments/:roomCode/playoffs", async (req, res) => {
+    try {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      const parsed = createPlayoffSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      if (!(await hasTournamentRole(tournament, parsed.data.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director PIN" });
+      }
+      if (await getActivePlayoffStanding(tournament.id)) {
+        return res.status(409).json({ error: "A playoff is already in progress" });
+      }
+      // Earlier results whose tie has since been broken give way to this one
+      await storage.markStalePlayoffs(tournament.id);
+
+      const playerIds = Array.from(new Set(parsed.data.playerIds));
+      const leaderboard = await storage.getLeaderboard(tournament.id, tournament.isHandicapped ? "net" : "gross", resolveTieBreakPolicy(tournament), tournament.holeCount);
+      const selected = leaderboard.filter(e => playerIds.includes(e.playerId));
+      if (selected.length !== playerIds.length || selected.some(e => e.position !== selected[0].position)) {
+        return res.status(400).json({ error: "Playoff players must be tied on the leaderboard" });
+      }
+      const tiedCount = leaderboard.filter(e => e.position === selected[0].position).length;
+      if (tiedCount !== playerIds.length) {
+        return res.status(400).json({ error: `All ${tiedCount} players tied for position ${selected[0].position} must be in the playoff` });
+      }
+
+      const playoff = await storage.createPlayoff({
+        tournamentId: tournament.id,
+        position: selected[0].position,
+        playerIds,
+        holes: parsed.data.holes,
+      });
+      const names = selected.map(e => e.playerName).join(", ");
+      sendPushToTournament(req.params.roomCode, "Playoff!", `${names} are heading to a sudden-death playoff`, `playoff-${playoff.id}`);
+      res.json(resolvePlayoffStanding(playoff, []));
+    } catch (error) {
+      console.error("Error starting playoff:", error);
+      res.status(500).json({ error: "Failed to start playoff" });
     }
   });
 
-  // Batch sync multiple scores at once
-  app.post("/api/tournaments/:roomCode/scores/batch", async (req, res) => {
+  // Record a playoff hole for a player still in the playoff
+  app.post("/api/tournaments/:roomCode/playoffs/:playoffId/scores", async (req, res) => {
     try {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) {
         return res.status(404).json({ error: "Tournament not found" });
       }
-
-      const parsed = batchScoreSchema.safeParse(req.body);
+      const playoff = await storage.getPlayoff(parseInt(req.params.playoffId));
+      if (!playoff || playoff.tournamentId !== tournament.id) {
+        return res.status(404).json({ error: "Playoff not found" });
+      }
+      if (playoff.status !== "active") {
+        return res.status(409).json({ error: "This playoff is over" });
+      }
+      const parsed = playoffScoreSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
       }
 
-      const results = [];
-      let tournamentPlayersCache: any[] | null = null;
-
-      for (const score of parsed.data.scores) {
-        if (score.hole > 18) continue;
-        const sc = score.scratches || 0;
-
-        if (!tournamentPlayersCache) {
-          tournamentPlayersCache = await storage.getPlayersInTournament(tournament.id);
-        }
-        await runCheatDetection(req.params.roomCode, tournament.id, score.tournamentPlayerId, score.hole, score.par, score.strokes, sc, tournamentPlayersCache);
-
-        const saved = await storage.upsertScore({
-          tournamentPlayerId: score.tournamentPlayerId,
-          hole: score.hole,
-          par: score.par,
-          strokes: score.strokes,
-          scratches: sc,
-          penalties: score.penalties || 0,
-        });
-        results.push(saved);
+      const standing = resolvePlayoffStanding(playoff, await storage.getPlayoffScores(playoff.id));
+      if (!standing.remainingPlayerIds.includes(parsed.data.tournamentPlayerId)) {
+        return res.status(400).json({ error: "Player is not in this playoff" });
+      }
+      if (parsed.data.round !== standing.currentRound) {
+        return res.status(409).json({ error: `Playoff is on hole ${standing.currentRound}` });
       }
 
-      res.json(results);
-    } catch (error) {
-      console.error("Error batch syncing scores:", error);
-      res.status(500).json({ error: "Failed to batch sync scores" });
-    }
-  });
-
-  // ===== CHEAT DETECTION ALERTS API =====
-
-  app.get("/api/alerts", async (req, res) => {
-    try {
-      const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director PIN" });
+      await storage.upsertPlayoffScore({
+        playoffId: playoff.id,
+        tournamentPlayerId: parsed.data.tournamentPlayerId,
+        round: parsed.data.round,
+        strokes: parsed.data.strokes,
+        scratches: parsed.data.scratches ?? 0,
+        penalties: parsed.data.penalties ?? 0,
+      });
+      let updated = resolvePlayoffStanding(playoff, await storage.getPlayoffScores(playoff.id));
+      if (updated.finishOrder) {
+        const completed = await storage.setPlayoffStatus(playoff.id, "complete");
+        updated = { ...updated, playoff: completed ?? playoff };
+        const winner = (await storage.getTournamentPlayers(tournament.id)).find(p => p.id === updated.finishOrder![0][0]);
+        sendPushToTournament(req.params.roomCode, "Playoff decided", `${winner?.playerName ?? "A player"} wins the playoff`, `playoff-${playoff.id}`);
       }
-      const roomCode = req.query.roomCode as string | undefined;
-      const alerts = roomCode ? getCheatAlertsForTournament(roomCode) : getAllCheatAlerts();
-      res.json(alerts);
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching alerts:", error);
-      res.status(500).json({ error: "Failed to fetch alerts" });
+      console.error("Error saving playoff score:", error);
+      res.status(500).json({ error: "Failed to save playoff score" });
     }
   });
 
-  app.post("/api/alerts/:id/dismiss", async (req, res) => {
+  // Call off an unfinished playoff; the players go back to sharing their position (head director only)
+  app.post("/api/tournaments/:roomCode/playoffs/:playoffId/cancel", async (req, res) => {
     try {
-      const directorPin = req.body.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.body.directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director PIN" });
       }
-      dismissCheatAlert(parseInt(req.params.id));
+      const playoff = await storage.getPlayoff(parseInt(req.params.playoffId));
+      if (!playoff || playoff.tournamentId !== tournament.id) {
+        return res.status(404).json({ error: "Playoff not found" });
+      }
+      if (playoff.status !== "active") {
+        return res.status(409).json({ error: "Only a playoff in progress can be cancelled" });
+      }
+      await storage.setPlayoffStatus(playoff.id, "cancelled");
       res.json({ success: true });
     } catch (error) {
-      console.error("Error dismissing alert:", error);
-      res.status(500).json({ error: "Failed to dismiss alert" });
+      console.error("Error cancelling playoff:", error);
+      res.status(500).json({ error: "Failed to cancel playoff" });
     }
   });
 
@@ -2764,7 +4727,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/universal-players", async (req, res) => {
     try {
       const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
+      if (!(await isValidDirectorCredential(directorPin))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
@@ -2796,7 +4759,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/universal-players/search", async (req, res) => {
     try {
       const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
+      if (!(await isValidDirectorCredential(directorPin))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
@@ -2813,11 +4776,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Universal players who might be this entrant, before they are added or linked
+  app.post("/api/universal-players/match", async (req, res) => {
+    try {
+      if (!(await isValidDirectorCredential(req.body.directorPin))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      
+      const parsed = matchUniversalPlayerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+      }
+      
+      const matches = await suggestUniversalPlayers({ playerName: parsed.data.playerName, contactInfo: parsed.data.contactInfo ?? null });
+      res.json(matches);
+    } catch (error) {
+      console.error("Error matching universal players:", error);
+      res.status(500).json({ error: "Failed to match universal players" });
+    }
+  });
+
   // Create a universal player
   app.post("/api/universal-players", async (req, res) => {
     try {
       const directorPin = req.body.directorPin;
-      if (!isValidDirectorPin(directorPin)) {
+      if (!(await isValidDirectorCredential(directorPin))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
@@ -2859,15 +4842,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
       }
       
-      if (!isValidDirectorPin(parsed.data.directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
-      
       const playerId = parseInt(req.params.id);
       if (isNaN(playerId)) {
         return res.status(400).json({ error: "Invalid player ID" });
       }
       
+      if (!(await canManageUniversalPlayer(parsed.data.directorPin, playerId))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      
       const { name, email, contactInfo, phoneNumber, tShirtSize, handicap, isProvisional } = parsed.data;
       const updateData: Record<string, any> = {};
       if (name !== undefined) updateData.name = name;
@@ -2875,10 +4858,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (contactInfo !== undefined) updateData.contactInfo = contactInfo;
       if (phoneNumber !== undefined) updateData.phoneNumber = phoneNumber;
       if (tShirtSize !== undefined) updateData.tShirtSize = tShirtSize;
-      if (handicap !== undefined) updateData.handicap = handicap;
+      if (handicap !== undefined) {
+        // A handicap set by hand no longer follows from the stored calculation
+        updateData.handicap = handicap;
+        updateData.handicapCalculation = null;
+      }
       if (isProvisional !== undefined) updateData.isProvisional = isProvisional;
       
+      const previous = await storage.getUniversalPlayer(playerId);
       const player = await storage.updateUniversalPlayer(playerId, updateData);
+      if (previous && (previous.handicap !== player.handicap || previous.isProvisional !== player.isProvisional)) {
+        await storage.createHandicapRevision(player, previous.handicap, await getHandicapRevisionContext(parsed.data.directorPin, "manual_override"));
+      }
       res.json(player);
     } catch (error) {
       console.error("Error updating universal player:", error);
@@ -2889,16 +4880,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete a universal player
   app.delete("/api/universal-players/:id", async (req, res) => {
     try {
-      const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
-      
       const playerId = parseInt(req.params.id);
       if (isNaN(playerId)) {
         return res.status(400).json({ error: "Invalid player ID" });
       }
       
+      if (!(await canManageUniversalPlayer(req.query.directorPin, playerId))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      
       await storage.deleteUniversalPlayer(playerId);
       res.json({ success: true });
     } catch (error) {
@@ -2907,6 +4897,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Duplicate review queue, most likely pairs first
+  app.get("/api/universal-players/duplicates", async (req, res) => {
+    try {
+      const admin = await getDirectorForCredential(req.query.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      
+      const pairs: DuplicatePair[] = [];
+      for (const candidate of await storage.getDuplicateCandidates("pending")) {
+        const playerA = await storage.getUniversalPlayer(candidate.playerAId);
+        const playerB = await storage.getUniversalPlayer(candidate.playerBId);
+        if (!playerA || !playerB) continue;
+        pairs.push({
+          id: candidate.id,
+          score: candidate.score,
+          reasons: candidate.reasons,
+          detectedAt: candidate.detectedAt.toISOString(),
+          playerA: await summarizeDuplicatePlayer(playerA),
+          playerB: await summarizeDuplicatePlayer(playerB),
+        });
+      }
+      res.json(pairs);
+    } catch (error) {
+      console.error("Error getting duplicate players:", error);
+      res.status(500).json({ error: "Failed to get duplicate players" });
+    }
+  });
+
+  // Rescan now instead of waiting for the background scan
+  app.post("/api/universal-players/duplicates/scan", async (req, res) => {
+    try {
+      const admin = await getDirectorForCredential(req.body.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      
+      const queued = await runDuplicateScan();
+      res.json({ queued });
+    } catch (error) {
+      console.error("Error scanning for duplicate players:", error);
+      res.status(500).json({ error: "Failed to scan for duplicate players" });
+    }
+  });
+
+  // Mark a pair as not a duplicate so later scans leave it out
+  app.post("/api/universal-players/duplicates/:id/dismiss", async (req, res) => {
+    try {
+      const admin = await getDirectorForCredential(req.body.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      
+      const candidateId = parseInt(req.params.id);
+      if (isNaN(candidateId)) {
+        return res.status(400).json({ error: "Invalid duplicate pair ID" });
+      }
+      
+      const dismissed = await storage.dismissDuplicateCandidate(candidateId, admin.id);
+      if (!dismissed) {
+        return res.status(404).json({ error: "Duplicate pair not found" });
+      }
+      res.json(dismissed);
+    } catch (error) {
+      console.error("Error dismissing duplicate pair:", error);
+      res.status(500).json({ error: "Failed to dismiss duplicate pair" });
+    }
+  });
+
   // Merge two universal players (source into target)
   app.post("/api/universal-players/merge", async (req, res) => {
     try {
@@ -2915,15 +4974,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
       }
       
-      if (!isValidDirectorPin(parsed.data.directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
+      // Merging rewrites history across every tournament either player entered
+      const admin = await getDirectorForCredential(parsed.data.directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
       }
       
       if (parsed.data.sourceId === parsed.data.targetId) {
         return res.status(400).json({ error: "Cannot merge a player into themselves" });
       }
       
-      const mergedPlayer = await storage.mergeUniversalPlayers(parsed.data.sourceId, parsed.data.targetId);
+      const mergedPlayer = await storage.mergeUniversalPlayers(parsed.data.sourceId, parsed.data.targetId, await getHandicapRevisionContext(parsed.data.directorPin, "merge"));
       res.json(mergedPlayer);
     } catch (error) {
       console.error("Error merging universal players:", error);
@@ -2935,7 +4996,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/universal-players/:id", async (req, res) => {
     try {
       const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
+      if (!(await isValidDirectorCredential(directorPin))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
@@ -2951,8 +5012,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const history = await storage.getPlayerTournamentHistory(playerId);
       const liveTournaments = await storage.getLiveTournamentStats(playerId);
+      const handicapRevisions = await storage.getHandicapRevisions(playerId);
       
-      res.json({ ...player, recentHistory: history, liveTournaments });
+      res.json({ ...player, recentHistory: history, liveTournaments, handicapRevisions });
     } catch (error) {
       console.error("Error getting universal player:", error);
       res.status(500).json({ error: "Failed to get universal player" });
@@ -2963,15 +5025,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/universal-players/:playerId/history", async (req, res) => {
     try {
       const directorPin = req.body.directorPin;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
-
       const playerId = parseInt(req.params.playerId);
       if (isNaN(playerId)) {
         return res.status(400).json({ error: "Invalid player ID" });
       }
 
+      if (!(await canManageUniversalPlayer(directorPin, playerId))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+
       const player = await storage.getUniversalPlayer(playerId);
       if (!player) {
         return res.status(404).json({ error: "Player not found" });
@@ -3000,7 +5062,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Recalculate handicap after adding history
-      await storage.recalculateHandicap(playerId);
+      await storage.recalculateHandicap(playerId, await getHandicapRevisionContext(directorPin, "history_edit"));
 
       res.json(history);
     } catch (error) {
@@ -3013,10 +5075,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/universal-players/:playerId/history/:historyId", async (req, res) => {
     try {
       const directorPin = req.body.directorPin;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
-
       const playerId = parseInt(req.params.playerId);
       const historyId = parseInt(req.params.historyId);
       
@@ -3024,10 +5082,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid IDs" });
       }
 
+      if (!(await canManageUniversalPlayer(directorPin, playerId))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      const history = await storage.getPlayerTournamentHistory(playerId);
+      if (!history.some(h => h.id === historyId)) {
+        return res.status(404).json({ error: "History entry not found" });
+      }
+
       await storage.deleteTournamentHistory(historyId);
       
       // Recalculate handicap after deleting history
-      await storage.recalculateHandicap(playerId);
+      await storage.recalculateHandicap(playerId, await getHandicapRevisionContext(directorPin, "history_edit"));
 
       res.json({ success: true });
     } catch (error) {
@@ -3036,18 +5102,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Link a tournament player to a universal player
-  app.post("/api/tournaments/:roomCode/players/:playerId/link-universal", async (req, res) => {
+  // Suggested universal players for entrants completion would skip (no link and no resolvable universal ID)
+  app.get("/api/tournaments/:roomCode/link-suggestions", async (req, res) => {
     try {
-      const directorPin = req.body.directorPin;
-      if (!isValidDirectorPin(directorPin)) {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, req.query.directorPin as string, "assistant"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
       
+      const playerId = req.query.playerId ? parseInt(req.query.playerId as string) : null;
+      const players = await storage.getTournamentPlayers(tournament.id);
+      // Someone already in this tournament can't be a second entrant
+      const linkedIds = players.flatMap(p => (p.universalPlayerId ? [p.universalPlayerId] : []));
+      
+      const suggestions: LinkSuggestion[] = [];
+      for (const player of players) {
+        if (player.universalPlayerId || (playerId !== null && player.id !== playerId)) continue;
+        if (player.universalId && (await storage.getUniversalPlayerByCode(player.universalId))) continue;
+        const matches = await suggestUniversalPlayers({ playerName: player.playerName, contactInfo: player.contactInfo }, linkedIds);
+        suggestions.push({ tournamentPlayerId: player.id, playerName: player.playerName, matches });
+      }
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error getting link suggestions:", error);
+      res.status(500).json({ error: "Failed to get link suggestions" });
+    }
+  });
+
+  // Link a tournament player to a universal player
+  app.post("/api/tournaments/:roomCode/players/:playerId/link-universal", async (req, res) => {
+    try {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) {
         return res.status(404).json({ error: "Tournament not found" });
       }
+      if (!(await hasTournamentRole(tournament, req.body.directorPin, "assistant"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
       
       const playerId = parseInt(req.params.playerId);
       if (isNaN(playerId)) {
@@ -3067,87 +5161,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Complete tournament - saves results to history and updates handicaps
+  // Complete tournament - saves results to history and updates handicaps (dryRun: true only returns the plan)
   app.post("/api/tournaments/:roomCode/complete", async (req, res) => {
     try {
-      const directorPin = req.body.directorPin;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
-      
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) {
         return res.status(404).json({ error: "Tournament not found" });
       }
+      if (!(await hasTournamentRole(tournament, req.body.directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
       
-      const players = await storage.getTournamentPlayers(tournament.id);
-      const leaderboard = await storage.getLeaderboard(tournament.id);
-      
-      console.log(`Completing tournament ${tournament.name} (${req.params.roomCode}): ${players.length} players, ${leaderboard.length} leaderboard entries`);
-      
-      const saved: string[] = [];
-      const skipped: string[] = [];
-      const alreadyRecorded: string[] = [];
-      
-      for (const entry of leaderboard) {
-        const player = players.find(p => p.id === entry.playerId);
-        
-        console.log(`  Player: ${entry.playerName} (id=${entry.playerId}) universalPlayerId=${player?.universalPlayerId} universalId=${player?.universalId} holes=${entry.holesCompleted} strokes=${entry.totalStrokes}`);
-        
-        let resolvedUniversalPlayerId = player?.universalPlayerId || null;
-        if (!resolvedUniversalPlayerId && player?.universalId) {
-          const universalPlayer = await storage.getUniversalPlayerByCode(player.universalId);
-          if (universalPlayer) {
-            resolvedUniversalPlayerId = universalPlayer.id;
-            await storage.linkTournamentPlayerToUniversal(player.id, universalPlayer.id);
-            console.log(`    Resolved universalId ${player.universalId} -> universalPlayerId ${universalPlayer.id}`);
-          } else {
-            console.log(`    Could not resolve universalId ${player.universalId} to any universal player`);
-          }
+      const plan = await planTournamentCompletion(tournament);
+      const describeSkip = (planned: CompletionPreviewEntry) => `${planned.playerName} (${planned.skipReason})`;
+      const saved = plan.filter(p => p.action === "save").map(p => p.playerName);
+      const updated = plan.filter(p => p.action === "update").map(describeHistoryChange);
+      const removed = plan.filter(p => p.action === "remove").map(describeSkip);
+      const skipped = plan.filter(p => p.action === "skip").map(describeSkip);
+      const alreadyRecorded = plan.filter(p => p.action === "already_recorded").map(p => p.playerName);
+      const summary = { entries: plan, saved, updated, removed, skipped, alreadyRecorded };
+      
+      // Dry run: show the director exactly what would be written before anything is
+      if (req.body.dryRun === true) {
+        return res.json({ dryRun: true, ...summary });
+      }
+      
+      const completionContext = await getHandicapRevisionContext(req.body.directorPin, "tournament_completion");
+      console.log(`Completing tournament ${tournament.name} (${req.params.roomCode}): ${plan.length} plan entries`);
+      
+      for (const planned of plan) {
+        if (planned.linkFromUniversalId && planned.universalPlayerId && planned.tournamentPlayerId) {
+          await storage.linkTournamentPlayerToUniversal(planned.tournamentPlayerId, planned.universalPlayerId);
         }
-        
-        if (!resolvedUniversalPlayerId || entry.holesCompleted === 0) {
-          skipped.push(entry.playerName + (!resolvedUniversalPlayerId ? " (no universal ID)" : " (no scores)"));
-          console.log(`    SKIPPED: ${!resolvedUniversalPlayerId ? "no universal ID" : "no scores"}`);
+        if (!planned.universalPlayerId) {
+          console.log(`  ${planned.playerName}: SKIPPED (${planned.skipReason})`);
           continue;
         }
-        
-        const existingHistory = await storage.getPlayerTournamentHistory(resolvedUniversalPlayerId);
-        const alreadyHas = existingHistory.some(h => h.tournamentId === tournament.id);
-        if (alreadyHas) {
-          alreadyRecorded.push(entry.playerName);
-          console.log(`    ALREADY RECORDED`);
+        if (planned.action === "save" && planned.history) {
+          await storage.addTournamentHistory(planned.history);
+        } else if (planned.action === "update" && planned.history && planned.previousHistory) {
+          await storage.rewriteTournamentHistory(planned.previousHistory.id, planned.history);
+        } else if (planned.action === "remove" && planned.previousHistory) {
+          await storage.deleteTournamentHistory(planned.previousHistory.id);
+        } else {
+          console.log(`  ${planned.playerName}: ${planned.action === "skip" ? `SKIPPED (${planned.skipReason})` : "ALREADY RECORDED"}`);
           continue;
         }
-        
-        await storage.addTournamentHistory({
-          universalPlayerId: resolvedUniversalPlayerId,
-          tournamentId: tournament.id,
-          tournamentName: tournament.name,
-          totalStrokes: entry.totalStrokes,
-          totalPar: entry.totalPar,
-          holesPlayed: entry.holesCompleted,
-          relativeToPar: entry.relativeToPar,
-          totalScratches: entry.totalScratches,
-          totalPenalties: entry.totalPenalties,
-        });
-        
-        await storage.recalculateHandicap(resolvedUniversalPlayerId);
-        saved.push(entry.playerName);
-        console.log(`    SAVED to history`);
+        await storage.recalculateHandicap(planned.universalPlayerId, completionContext);
+        console.log(`  ${planned.playerName}: ${planned.action.toUpperCase()}`);
       }
       
+      // Final scores are in, so a playoff whose tie no longer holds is set aside for good
+      for (const playoff of await storage.markStalePlayoffs(tournament.id)) {
+        console.log(`  Playoff ${playoff.id}: STALE (players no longer tied)`);
+      }
       await storage.closeTournament(tournament.id);
       
-      console.log(`Tournament complete: saved=${saved.length} skipped=${skipped.length} alreadyRecorded=${alreadyRecorded.length}`);
+      console.log(`Tournament complete: saved=${saved.length} updated=${updated.length} removed=${removed.length} skipped=${skipped.length} alreadyRecorded=${alreadyRecorded.length}`);
       
       sendPushToTournament(req.params.roomCode, "Tournament Complete!", `${tournament.name} has finished. Check the final leaderboard!`, `complete-${req.params.roomCode}`);
       res.json({ 
         success: true, 
         message: "Tournament completed and handicaps updated",
-        saved,
-        skipped,
-        alreadyRecorded,
+        ...summary,
       });
     } catch (error) {
       console.error("Error completing tournament:", error);
@@ -3158,15 +5234,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/recalculate-handicaps", async (req, res) => {
     try {
       const directorPin = req.body.directorPin;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
+      const admin = await getDirectorForCredential(directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
       }
       
       const allPlayers = await storage.getAllUniversalPlayers();
+      const bulkContext = await getHandicapRevisionContext(directorPin, "bulk_recalculation");
       let updated = 0;
       
       for (const player of allPlayers) {
-        await storage.recalculateHandicap(player.id);
+        await storage.recalculateHandicap(player.id, bulkContext);
         updated++;
       }
       
@@ -3177,6 +5255,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Site-wide handicap policy (any director can read it)
+  app.get("/api/handicap-policy", async (req, res) => {
+    try {
+      if (!(await isValidDirectorCredential(req.query.directorPin as string))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
+      res.json({ policy: await storage.getHandicapPolicy(), defaults: DEFAULT_HANDICAP_POLICY });
+    } catch (error) {
+      console.error("Error fetching handicap policy:", error);
+      res.status(500).json({ error: "Failed to fetch handicap policy" });
+    }
+  });
+
+  // Update the handicap policy (admin only); recalculate: true reruns every player under it
+  app.put("/api/handicap-policy", async (req, res) => {
+    try {
+      const { directorPin, policy, recalculate } = req.body;
+      const admin = await getDirectorForCredential(directorPin);
+      if (!admin?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
+      const parsed = handicapPolicySchema.partial().safeParse(policy);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid policy" });
+      }
+      const merged = { ...(await storage.getHandicapPolicy()), ...parsed.data };
+      if (merged.bestRounds > merged.recentRounds) {
+        return res.status(400).json({ error: "Best rounds can't be more than the recent rounds considered" });
+      }
+      const saved = await storage.setHandicapPolicy(parsed.data, admin.id);
+      let recalculated = 0;
+      if (recalculate === true) {
+        const bulkContext = await getHandicapRevisionContext(directorPin, "bulk_recalculation");
+        for (const player of await storage.getAllUniversalPlayers()) {
+          await storage.recalculateHandicap(player.id, bulkContext);
+          recalculated++;
+        }
+      }
+      res.json({ policy: saved, recalculated });
+    } catch (error) {
+      console.error("Error updating handicap policy:", error);
+      res.status(500).json({ error: "Failed to update handicap policy" });
+    }
+  });
+
   // ==================== PLAYER LOGIN ENDPOINTS ====================
 
   // Player login - verify player code + PIN
@@ -3188,8 +5311,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Player code and PIN are required" });
       }
       
+      const keys: LoginKey[] = [{ scope: "account", id: playerCode }, getClientKey(req)];
+      const remaining = getLoginLockoutRemaining(keys);
+      if (remaining > 0) {
+        return sendLoginLockout(res, remaining);
+      }
+      
       const player = await storage.getUniversalPlayerByCode(playerCode.toUpperCase());
       if (!player) {
+        // Unknown codes count against the client so codes can't be enumerated for free
+        const locked = recordLoginFailure([getClientKey(req)]);
+        await reportLoginLockouts(locked, { label: "Player sign-in" });
+        if (locked.length > 0) {
+          return sendLoginLockout(res, getLoginLockoutRemaining(keys));
+        }
         return res.status(404).json({ error: "Player not found" });
       }
       
@@ -3200,13 +5335,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Verify PIN using bcrypt
       const isPinValid = await bcrypt.compare(pin, player.pin);
       if (!isPinValid) {
+        const locked = recordLoginFailure(keys);
+        await reportLoginLockouts(locked, { label: player.name });
+        if (locked.length > 0) {
+          return sendLoginLockout(res, getLoginLockoutRemaining(keys));
+        }
         return res.status(401).json({ error: "Invalid PIN" });
       }
+      clearLoginFailures(keys);
       
       // Return player profile without the PIN hash
       const { pin: _, ...safePlayer } = player;
       const history = await storage.getPlayerTournamentHistory(player.id, 5);
-      const sessionToken = createPlayerSession(player.uniqueCode!);
+      await storage.deleteExpiredPlayerSessions();
+      const deviceLabel = typeof req.body.deviceLabel === "string" && req.body.deviceLabel.trim()
+        ? req.body.deviceLabel.trim().slice(0, 80)
+        : describeUserAgent(req.headers["user-agent"]);
+      const sessionToken = await createPlayerSession(player.id, deviceLabel);
       
       res.json({ player: safePlayer, recentHistory: history, sessionToken });
     } catch (error) {
@@ -3222,14 +5367,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Session token required" });
       }
       
-      const playerCode = getPlayerSession(sessionToken);
-      if (!playerCode) {
+      const session = await getPlayerSession(sessionToken);
+      if (!session) {
         return res.status(401).json({ error: "Session expired" });
       }
       
-      const player = await storage.getUniversalPlayerByCode(playerCode);
+      const player = await storage.getUniversalPlayer(session.universalPlayerId);
       if (!player) {
-        deletePlayerSession(sessionToken);
+        await deletePlayerSession(sessionToken);
         return res.status(404).json({ error: "Player not found" });
       }
       
@@ -3244,11 +5389,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post("/api/player/logout", async (req, res) => {
-    const { sessionToken } = req.body;
-    if (sessionToken) {
-      deletePlayerSession(sessionToken);
+    try {
+      const { sessionToken } = req.body;
+      if (sessionToken) {
+        await deletePlayerSession(sessionToken);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error during player logout:", error);
+      res.status(500).json({ error: "Failed to logout" });
+    }
+  });
+
+  // List the devices a player is signed in on
+  app.post("/api/player/sessions", async (req, res) => {
+    try {
+      const session = await getPlayerSession(req.body.sessionToken);
+      if (!session) {
+        return res.status(401).json({ error: "Session expired" });
+      }
+
+      const sessions = await storage.getPlayerSessions(session.universalPlayerId);
+      res.json(sessions.map(s => ({
+        id: s.id,
+        deviceLabel: s.deviceLabel,
+        createdAt: s.createdAt,
+        lastSeenAt: s.lastSeenAt,
+        expiresAt: s.expiresAt,
+        isCurrent: s.id === session.id,
+      })));
+    } catch (error) {
+      console.error("Error fetching player sessions:", error);
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out a single device
+  app.post("/api/player/sessions/revoke", async (req, res) => {
+    try {
+      const session = await getPlayerSession(req.body.sessionToken);
+      if (!session) {
+        return res.status(401).json({ error: "Session expired" });
+      }
+
+      const sessionId = Number(req.body.sessionId);
+      if (!Number.isInteger(sessionId)) {
+        return res.status(400).json({ error: "Session ID is required" });
+      }
+
+      const removed = await storage.deletePlayerSessionById(session.universalPlayerId, sessionId);
+      if (!removed) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking player session:", error);
+      res.status(500).json({ error: "Failed to revoke session" });
+    }
+  });
+
+  // Sign out everywhere, including the device making the request
+  app.post("/api/player/sessions/revoke-all", async (req, res) => {
+    try {
+      const session = await getPlayerSession(req.body.sessionToken);
+      if (!session) {
+        return res.status(401).json({ error: "Session expired" });
+      }
+
+      await storage.deletePlayerSessions(session.universalPlayerId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking player sessions:", error);
+      res.status(500).json({ error: "Failed to revoke sessions" });
     }
-    res.json({ success: true });
   });
 
   app.patch("/api/player/:code/profile", async (req, res) => {
@@ -3268,8 +5481,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let authenticated = false;
       
       if (sessionToken) {
-        const sessionCode = getPlayerSession(sessionToken);
-        if (sessionCode && sessionCode.toUpperCase() === code) {
+        const session = await getPlayerSession(sessionToken);
+        if (session && session.universalPlayerId === player.id) {
           authenticated = true;
         }
       }
@@ -3278,10 +5491,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!player.pin) {
           return res.status(400).json({ error: "No PIN set" });
         }
+        // PIN checks here count toward the same lockout as /api/player/login
+        const keys: LoginKey[] = [{ scope: "account", id: player.uniqueCode ?? code }, getClientKey(req)];
+        const remaining = getLoginLockoutRemaining(keys);
+        if (remaining > 0) {
+          return sendLoginLockout(res, remaining);
+        }
         const isPinValid = await bcrypt.compare(pin, player.pin);
-        if (isPinValid) {
-          authenticated = true;
+        if (!isPinValid) {
+          const locked = recordLoginFailure(keys);
+          await reportLoginLockouts(locked, { label: player.name });
+          if (locked.length > 0) {
+            return sendLoginLockout(res, getLoginLockoutRemaining(keys));
+          }
+          return res.status(401).json({ error: "Invalid credentials" });
         }
+        clearLoginFailures(keys);
+        authenticated = true;
       }
       
       if (!authenticated) {
@@ -3307,7 +5533,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Set or update player PIN (by player code, authenticated with current PIN or director PIN)
   app.post("/api/player/set-pin", async (req, res) => {
     try {
-      const { playerCode, currentPin, newPin, directorPin } = req.body;
+      const { playerCode, currentPin, newPin, directorPin, sessionToken } = req.body;
       
       if (!playerCode || !newPin) {
         return res.status(400).json({ error: "Player code and new PIN are required" });
@@ -3322,11 +5548,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Player not found" });
       }
       
-      // Verify authorization: director PIN, current PIN (hashed), or no PIN set yet
-      const isDirector = isValidDirectorPin(directorPin);
+      // Verify authorization: a director who can manage the player, current PIN (hashed), or no PIN set yet
+      const isDirector = await canManageUniversalPlayer(directorPin, player.id);
       let isCurrentPinValid = false;
-      if (player.pin && currentPin) {
+      if (!isDirector && player.pin && currentPin) {
+        // A guessed current PIN takes over the account, so it shares the login lockout
+        const keys: LoginKey[] = [{ scope: "account", id: player.uniqueCode ?? playerCode }, getClientKey(req)];
+        const remaining = getLoginLockoutRemaining(keys);
+        if (remaining > 0) {
+          return sendLoginLockout(res, remaining);
+        }
         isCurrentPinValid = await bcrypt.compare(currentPin, player.pin);
+        if (!isCurrentPinValid) {
+          const locked = recordLoginFailure(keys);
+          await reportLoginLockouts(locked, { label: player.name });
+          if (locked.length > 0) {
+            return sendLoginLockout(res, getLoginLockoutRemaining(keys));
+          }
+        } else {
+          clearLoginFailures(keys);
+        }
       }
       const noPinSet = !player.pin;
       
@@ -3337,6 +5578,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Hash the new PIN before storing
       const hashedPin = await bcrypt.hash(newPin, SALT_ROUNDS);
       await storage.updateUniversalPlayerPin(player.id, hashedPin);
+
+      // A PIN change signs out every other device; the caller's own session (if any) survives
+      const currentSession = await getPlayerSession(sessionToken);
+      const keepTokenHash = currentSession?.universalPlayerId === player.id ? currentSession.tokenHash : undefined;
+      await storage.deletePlayerSessions(player.id, keepTokenHash);
       
       res.json({ success: true, message: "PIN updated successfully" });
     } catch (error) {
@@ -3349,16 +5595,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/player/:code/remove-pin", async (req, res) => {
     try {
       const { directorPin } = req.body;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
-
       const player = await storage.getUniversalPlayerByCode(req.params.code.toUpperCase());
       if (!player) {
         return res.status(404).json({ error: "Player not found" });
       }
+      if (!(await canManageUniversalPlayer(directorPin, player.id))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
 
       await storage.updateUniversalPlayerPin(player.id, null);
+      await storage.deletePlayerSessions(player.id);
       res.json({ success: true, message: "PIN removed successfully" });
     } catch (error) {
       console.error("Error removing player PIN:", error);
@@ -3385,6 +5631,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Handicap revisions for the trend chart (public, director ids left out)
+  app.get("/api/player/:code/handicap-revisions", async (req, res) => {
+    try {
+      const player = await storage.getUniversalPlayerByCode(req.params.code.toUpperCase());
+      if (!player) {
+        return res.status(404).json({ error: "Player not found" });
+      }
+      
+      const revisions = await storage.getHandicapRevisions(player.id);
+      res.json(revisions.map(({ actorDirectorId: _, ...revision }) => revision));
+    } catch (error) {
+      console.error("Error getting handicap revisions:", error);
+      res.status(500).json({ error: "Failed to get handicap revisions" });
+    }
+  });
+
   // Check if player has PIN set (for login flow)
   app.get("/api/player/:code/has-pin", async (req, res) => {
     try {
@@ -3414,11 +5676,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       let isDirector = false;
       if (tournamentRoomCode && directorPin) {
-        if (isValidDirectorPin(directorPin)) {
-          isDirector = true;
-        } else {
-          isDirector = await storage.verifyDirectorPin(tournamentRoomCode, directorPin);
-        }
+        const tournament = await storage.getTournamentByCode(tournamentRoomCode);
+        isDirector = !!tournament && await hasTournamentRole(tournament, directorPin, "scorer");
       }
       await storage.upsertPushSubscription({
         endpoint: subscription.endpoint,
@@ -3452,14 +5711,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/push/player-status/:playerId", async (req, res) => {
     try {
-      const directorPin = req.query.directorPin as string;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
       const playerId = parseInt(req.params.playerId);
       if (isNaN(playerId)) {
         return res.status(400).json({ error: "Invalid player ID" });
       }
+      if (!(await canManageUniversalPlayer(req.query.directorPin, playerId))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
       const subs = await storage.getSubscriptionsForPlayer(playerId);
       res.json({ hasSubscription: subs.length > 0, subscriptionCount: subs.length });
     } catch (error) {
@@ -3472,10 +5730,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/push/tournament-subscribers/:roomCode", async (req, res) => {
     try {
       const { directorPin } = req.query as { directorPin?: string };
-      if (!isValidDirectorPin(directorPin)) {
+      const tournament = await storage.getTournamentByCode(req.params.roomCode);
+      if (!tournament) {
+        return res.status(404).json({ error: "Tournament not found" });
+      }
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director credentials" });
       }
-      const subs = await storage.getSubscriptionsForTournament(req.params.roomCode);
+      const subs = await storage.getSubscriptionsForTournament(tournament.roomCode);
       const deviceIds = subs.map(s => s.deviceId).filter(Boolean) as string[];
       const universalPlayerIds = subs.map(s => s.universalPlayerId).filter(Boolean) as number[];
       res.json({ deviceIds, universalPlayerIds });
@@ -3489,19 +5751,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/push/send-to-players", async (req, res) => {
     try {
       const { directorPin, tournamentRoomCode, tournamentPlayerIds, title, body } = req.body;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
       if (!title || !body || !tournamentRoomCode || !Array.isArray(tournamentPlayerIds) || tournamentPlayerIds.length === 0) {
         return res.status(400).json({ error: "Title, body, room code, and player IDs are required" });
       }
+      const tournament = await storage.getTournamentByCode(tournamentRoomCode);
+      if (!tournament) return res.status(404).json({ error: "Tournament not found" });
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
       if (!pushEnabled) {
         return res.status(503).json({ error: "Push notifications are not configured" });
       }
 
-      const tournament = await storage.getTournamentByCode(tournamentRoomCode);
-      if (!tournament) return res.status(404).json({ error: "Tournament not found" });
-
       const allPlayers = await storage.getPlayersInTournament(tournament.id);
       const selected = allPlayers.filter(p => tournamentPlayerIds.includes(p.id));
 
@@ -3558,12 +5819,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/push/send-to-player", async (req, res) => {
     try {
       const { directorPin, universalPlayerId, title, body } = req.body;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
       if (!title || !body || !universalPlayerId) {
         return res.status(400).json({ error: "Title, body, and player ID are required" });
       }
+      if (!(await canManageUniversalPlayer(directorPin, universalPlayerId))) {
+        return res.status(403).json({ error: "Invalid director credentials" });
+      }
       if (!pushEnabled) {
         return res.status(503).json({ error: "Push notifications are not configured" });
       }
@@ -3607,12 +5868,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/push/send", async (req, res) => {
     try {
       const { directorPin, title, body, tournamentRoomCode } = req.body;
-      if (!isValidDirectorPin(directorPin)) {
-        return res.status(403).json({ error: "Invalid director credentials" });
-      }
       if (!title || !body) {
         return res.status(400).json({ error: "Title and body are required" });
       }
+      // A tournament's head director can message its room; only admins can message everyone
+      if (tournamentRoomCode) {
+        const tournament = await storage.getTournamentByCode(tournamentRoomCode);
+        if (!tournament) return res.status(404).json({ error: "Tournament not found" });
+        if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
+          return res.status(403).json({ error: "Invalid director credentials" });
+        }
+      } else if (!(await getDirectorForCredential(directorPin))?.isAdmin) {
+        return res.status(403).json({ error: "Admin director credentials required" });
+      }
       if (!pushEnabled) {
         return res.status(503).json({ error: "Push notifications are not configured" });
       }
@@ -3676,7 +5944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) return res.status(404).json({ error: "Tournament not found" });
       const { directorPin, sponsorName, donationType, blurb, logoUrl } = req.body;
-      if (!isValidDirectorPin(directorPin) && directorPin !== tournament.directorPin) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director PIN" });
       }
       if (!sponsorName?.trim()) return res.status(400).json({ error: "sponsorName is required" });
@@ -3702,7 +5970,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) return res.status(404).json({ error: "Tournament not found" });
       const { directorPin, sponsorName, donationType, blurb, logoUrl, isActive } = req.body;
-      if (!isValidDirectorPin(directorPin) && directorPin !== tournament.directorPin) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director PIN" });
       }
       const updateData: Record<string, unknown> = {};
@@ -3725,7 +5993,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) return res.status(404).json({ error: "Tournament not found" });
       const { directorPin } = req.body;
-      if (!isValidDirectorPin(directorPin) && directorPin !== tournament.directorPin) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director PIN" });
       }
       await storage.deleteSponsor(parseInt(req.params.id));
@@ -3742,7 +6010,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) return res.status(404).json({ error: "Tournament not found" });
       const { directorPin, enabled } = req.body;
-      if (!isValidDirectorPin(directorPin) && directorPin !== tournament.directorPin) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director PIN" });
       }
       await storage.setSponsorPagesEnabled(tournament.id, Boolean(enabled));
@@ -3759,7 +6027,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tournament = await storage.getTournamentByCode(req.params.roomCode);
       if (!tournament) return res.status(404).json({ error: "Tournament not found" });
       const { directorPin, orderedIds } = req.body;
-      if (!isValidDirectorPin(directorPin) && directorPin !== tournament.directorPin) {
+      if (!(await hasTournamentRole(tournament, directorPin, "head"))) {
         return res.status(403).json({ error: "Invalid director PIN" });
       }
       if (!Array.isArray(orderedIds)) return res.status(400).json({ error: "orderedIds must be an array" });
@@ -6,8 +6,28 @@ import {
   playerTournamentHistory,
   pushSubscriptions,
   tournamentPayouts,
+  tournamentDivisions,
+  payoutDisbursements,
   tournamentSponsors,
   directorContentDefaults,
+  cheatAlerts,
+  directors,
+  directorSessions,
+  playerSessions,
+  scoreHistory,
+  tournamentPlayoffs,
+  playoffScores,
+  tournamentStaff,
+  holeCards,
+  deckDraws,
+  courses,
+  handicapSettings,
+  handicapRevisions,
+  duplicateCandidates,
+  DEFAULT_HANDICAP_POLICY,
+  rankLeaderboard,
+  calculateHandicap,
+  tieBreakPolicySchema,
   type Tournament,
   type InsertTournament,
   type TournamentPlayer,
@@ -15,19 +35,54 @@ import {
   type TournamentScore,
   type InsertTournamentScore,
   type LeaderboardEntry,
+  type LeaderboardRanking,
+  type TieBreakPolicy,
   type UniversalPlayer,
   type InsertUniversalPlayer,
   type PlayerTournamentHistory,
+  type HandicapPolicy,
+  type HandicapCalculation,
+  type HandicapRevision,
+  type HandicapRevisionContext,
   type InsertPlayerTournamentHistory,
   type PushSubscription,
   type InsertPushSubscription,
   type TournamentPayout,
+  type TournamentDivision,
+  type PayoutDisbursement,
   type TournamentSponsor,
   type InsertTournamentSponsor,
   type DirectorContentDefaults,
+  type LegacyDirectorRecords,
+  type Director,
+  type InsertDirector,
+  type PlayerSession,
+  type ScoreHistoryEntry,
+  type InsertScoreHistoryEntry,
+  type TournamentPlayoff,
+  type PlayoffScore,
+  type InsertPlayoffScore,
+  type PlayoffHole,
+  type CourseHole,
+  type DeckCard,
+  type DeckDraw,
+  type HoleDifficulty,
+  type HoleDifficultyGrouping,
+  type PlayoffStatus,
+  type PlayoffStanding,
+  type TournamentStaff,
+  type InsertTournamentStaff,
+  type CheatAlert,
+  type InsertCheatAlert,
+  type CheatAlertStatus,
+  type CheatRules,
+  type HoleCard,
+  type Course,
+  type TableDiagram,
+  type DuplicateCandidate,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, sql, desc, ilike, or } from "drizzle-orm";
+import { eq, and, sql, desc, ilike, or, gte, lt, ne, inArray, isNull, isNotNull, asc } from "drizzle-orm";
 
 // Normalizes ORM rows and raw SQL rows to the app's Tournament shape.
 function normalizeTournamentRecord(tournament: any): Tournament | undefined {
@@ -63,15 +118,100 @@ function normalizeTournamentRecord(tournament: any): Tournament | undefined {
     isActive: tournament.isActive ?? tournament.is_active ?? true,
     isStarted: tournament.isStarted ?? tournament.is_started ?? false,
     isHandicapped: tournament.isHandicapped ?? tournament.is_handicapped ?? false,
-    directorPin: tournament.directorPin ?? tournament.director_pin,
+    directorId: tournament.directorId ?? tournament.director_id ?? null,
+    directorPin: tournament.directorPin ?? tournament.director_pin ?? null,
     createdAt: tournament.createdAt ?? tournament.created_at,
     startedAt: tournament.startedAt ?? tournament.started_at ?? null,
     completedAt: tournament.completedAt ?? tournament.completed_at ?? null,
     groupStartingHoles: tournament.groupStartingHoles ?? tournament.group_starting_holes ?? null,
     sponsorPagesEnabled: tournament.sponsorPagesEnabled ?? tournament.sponsor_pages_enabled ?? false,
+    cheatRules: tournament.cheatRules ?? tournament.cheat_rules ?? null,
+    tieBreakPolicy: tournament.tieBreakPolicy ?? tournament.tie_break_policy ?? "shared",
+    holeCount: tournament.holeCount ?? tournament.hole_count ?? 18,
+    roundCount: tournament.roundCount ?? tournament.round_count ?? 1,
+    currentRound: tournament.currentRound ?? tournament.current_round ?? 1,
+    cutAfterRound: tournament.cutAfterRound ?? tournament.cut_after_round ?? null,
+    cutSize: tournament.cutSize ?? tournament.cut_size ?? null,
+    courseLayout: tournament.courseLayout ?? tournament.course_layout ?? null,
+    deckCards: tournament.deckCards ?? tournament.deck_cards ?? null,
+    deckSeed: tournament.deckSeed ?? tournament.deck_seed ?? null,
   } as Tournament;
 }
 
+// Sudden death: once every remaining player has scored a round, anyone above the best total
+// for that round is out. The playoff is decided when a single player is left.
+export function resolvePlayoffStanding(playoff: TournamentPlayoff, scores: PlayoffScore[]): PlayoffStanding {
+  let remaining = [...playoff.playerIds];
+  const eliminated: { tournamentPlayerId: number; round: number }[] = [];
+  let round = 1;
+
+  while (remaining.length > 1) {
+    const roundScores = remaining.map(id => scores.find(s => s.tournamentPlayerId === id && s.round === round));
+    if (roundScores.some(s => !s)) break;
+    const totals = roundScores.map(s => s!.strokes + s!.scratches + s!.penalties);
+    const best = Math.min(...totals);
+    const out = remaining.filter((_, i) => totals[i] > best);
+    eliminated.push(...out.map(id => ({ tournamentPlayerId: id, round })));
+    remaining = remaining.filter(id => !out.includes(id));
+    round++;
+  }
+
+  const isDecided = remaining.length === 1;
+  const knockedOutRounds = Array.from(new Set(eliminated.map(e => e.round))).sort((a, b) => b - a);
+  return {
+    playoff,
+    scores,
+    remainingPlayerIds: remaining,
+    eliminated,
+    currentRound: isDecided ? null : round,
+    currentHole: isDecided ? null : playoff.holes[(round - 1) % playoff.holes.length],
+    finishOrder: isDecided
+      ? [remaining, ...knockedOutRounds.map(r => eliminated.filter(e => e.round === r).map(e => e.tournamentPlayerId))]
+      : null,
+  };
+}
+
+// First flight (in display order) whose handicap band holds the player. Divisions without a band
+// are filled by hand, and a player with no handicap can't be flighted.
+export function findFlight(divisions: TournamentDivision[], handicap: number | null): TournamentDivision | undefined {
+  if (handicap === null) return undefined;
+  return divisions.find(d =>
+    (d.minHandicap !== null || d.maxHandicap !== null) &&
+    (d.minHandicap === null || handicap >= d.minHandicap) &&
+    (d.maxHandicap === null || handicap < d.maxHandicap)
+  );
+}
+
+// Payouts are keyed by tournament and division; a null division is the payout for the whole field
+function payoutKey(tournamentId: number, divisionId: number | null) {
+  return and(
+    eq(tournamentPayouts.tournamentId, tournamentId),
+    divisionId === null ? isNull(tournamentPayouts.divisionId) : eq(tournamentPayouts.divisionId, divisionId)
+  );
+}
+
+// Freezes the universal handicap of a tournament's players (or just one of them) so net standings don't
+// shift if it's recalculated mid-event. A player who only carries a universal ID code is linked by it first
+async function freezeHandicaps(tournamentId: number, tournamentPlayerId?: number) {
+  await db.execute(sql`
+    UPDATE tournament_players tp
+    SET universal_player_id = up.id, handicap_snapshot = up.handicap
+    FROM universal_players up
+    WHERE tp.tournament_id = ${tournamentId}
+      AND (up.id = tp.universal_player_id OR (tp.universal_player_id IS NULL AND up.unique_code = UPPER(tp.universal_id)))
+      ${tournamentPlayerId === undefined ? sql`` : sql`AND tp.id = ${tournamentPlayerId}`}
+  `);
+}
+
+// Players added or linked after the start miss the freeze in startTournament, so they get theirs as they join
+async function freezeLateHandicap(player: TournamentPlayer): Promise<TournamentPlayer> {
+  const [tournament] = await db.select({ isStarted: tournaments.isStarted }).from(tournaments).where(eq(tournaments.id, player.tournamentId));
+  if (!tournament?.isStarted) return player;
+  await freezeHandicaps(player.tournamentId, player.id);
+  const [frozen] = await db.select().from(tournamentPlayers).where(eq(tournamentPlayers.id, player.id));
+  return frozen ?? player;
+}
+
 export interface TournamentStats {
   playerCount: number;
   mostHolesCompleted: number;
@@ -93,7 +233,6 @@ export interface IStorage {
   reopenTournament(id: number): Promise<void>;
   startTournament(id: number): Promise<void>;
   deleteTournament(id: number): Promise<void>;
-  verifyDirectorPin(roomCode: string, pin: string): Promise<boolean>;
   updateTournamentEventDetails(id: number, data: {
     eventVenue: string | null;
     eventStartAt: Date | null;
@@ -119,8 +258,12 @@ export interface IStorage {
     eventEntryFee: number | null;
     eventEntryFeeDetails: string | null;
   }): Promise<Tournament>;
-  getTournamentBackup(tournamentId: number): Promise<{ tournament: Tournament; players: TournamentPlayer[]; scores: TournamentScore[] }>;
+  getTournamentBackup(tournamentId: number): Promise<{ tournament: Tournament; players: TournamentPlayer[]; scores: TournamentScore[]; scoreHistory: ScoreHistoryEntry[] }>;
   setTournamentStartingHoles(roomCode: string, holes: Record<string, number>): Promise<void>;
+  setTournamentHoleCount(tournamentId: number, holeCount: number): Promise<void>;
+  setTournamentCourseLayout(tournamentId: number, holes: CourseHole[] | null): Promise<void>;
+  setTournamentDeck(tournamentId: number, cards: DeckCard[] | null): Promise<void>;
+  setTournamentDeckSeed(tournamentId: number, seed: string): Promise<void>;
   getTournamentStartingHoles(roomCode: string): Promise<Record<string, number>>;
 
   // Tournament player operations
@@ -133,10 +276,44 @@ export interface IStorage {
   removePlayerFromTournament(playerId: number): Promise<void>;
   markPlayerDnf(playerId: number): Promise<void>;
 
+  // Division operations
+  getTournamentDivisions(tournamentId: number): Promise<TournamentDivision[]>;
+  setTournamentDivisions(tournamentId: number, divisions: { id?: number; name: string; minHandicap: number | null; maxHandicap: number | null }[]): Promise<TournamentDivision[]>;
+  setPlayerDivision(playerId: number, divisionId: number | null, manual: boolean): Promise<TournamentPlayer>;
+  assignFlights(tournamentId: number, playerIds?: number[]): Promise<{ assigned: number; unflighted: number }>;
+
   // Score operations
   upsertScore(score: InsertTournamentScore): Promise<TournamentScore>;
-  getPlayerScores(tournamentPlayerId: number): Promise<TournamentScore[]>;
-  getLeaderboard(tournamentId: number): Promise<LeaderboardEntry[]>;
+  upsertScoreIfVersion(score: InsertTournamentScore, expectedVersion: number): Promise<{ score: TournamentScore } | { conflict: TournamentScore }>;
+  getScore(tournamentPlayerId: number, hole: number, round?: number): Promise<TournamentScore | undefined>;
+  getPlayerScores(tournamentPlayerId: number, round?: number): Promise<TournamentScore[]>;
+  addScoreHistory(entry: InsertScoreHistoryEntry): Promise<ScoreHistoryEntry>;
+  getPlayerScoreHistory(tournamentPlayerId: number, hole?: number): Promise<ScoreHistoryEntry[]>;
+  getTournamentScoreHistory(tournamentId: number): Promise<ScoreHistoryEntry[]>;
+  getLeaderboard(tournamentId: number, ranking?: LeaderboardRanking, tieBreakPolicy?: TieBreakPolicy, holeCount?: number, round?: number, divisionId?: number): Promise<LeaderboardEntry[]>;
+  markStalePlayoffs(tournamentId: number): Promise<TournamentPlayoff[]>;
+  setTournamentTieBreakPolicy(tournamentId: number, policy: TieBreakPolicy): Promise<void>;
+
+  // Round operations
+  setTournamentRoundSettings(tournamentId: number, settings: { roundCount: number; cutAfterRound: number | null; cutSize: number | null }): Promise<void>;
+  setTournamentCurrentRound(tournamentId: number, round: number): Promise<void>;
+  markPlayersCut(playerIds: number[], afterRound: number): Promise<void>;
+
+  // Playoff operations
+  createPlayoff(playoff: { tournamentId: number; position: number; playerIds: number[]; holes: PlayoffHole[] }): Promise<TournamentPlayoff>;
+  getPlayoff(id: number): Promise<TournamentPlayoff | undefined>;
+  getTournamentPlayoffs(tournamentId: number): Promise<TournamentPlayoff[]>;
+  setPlayoffStatus(id: number, status: PlayoffStatus): Promise<TournamentPlayoff | undefined>;
+  getPlayoffScores(playoffId: number): Promise<PlayoffScore[]>;
+  upsertPlayoffScore(score: InsertPlayoffScore): Promise<PlayoffScore>;
+
+  // Cheat alert operations
+  createCheatAlert(alert: InsertCheatAlert): Promise<CheatAlert>;
+  getCheatAlerts(filter?: { roomCode?: string; status?: CheatAlertStatus }): Promise<CheatAlert[]>;
+  getCheatAlert(id: number): Promise<CheatAlert | undefined>;
+  hasRecentCheatAlert(roomCode: string, tournamentPlayerId: number, alertType: string, since: Date): Promise<boolean>;
+  reviewCheatAlert(id: number, status: CheatAlertStatus, note: string | null, reviewedBy: string): Promise<CheatAlert | undefined>;
+  setTournamentCheatRules(tournamentId: number, rules: Partial<CheatRules>): Promise<void>;
 
   // Universal player operations
   getNextUniqueCode(): Promise<string>;
@@ -144,23 +321,37 @@ export interface IStorage {
   getAllUniversalPlayers(): Promise<UniversalPlayer[]>;
   getUniversalPlayer(id: number): Promise<UniversalPlayer | undefined>;
   getUniversalPlayerByCode(uniqueCode: string): Promise<UniversalPlayer | undefined>;
+  getTournamentIdsForUniversalPlayer(universalPlayerId: number): Promise<number[]>;
   searchUniversalPlayers(query: string): Promise<UniversalPlayer[]>;
-  updateUniversalPlayer(id: number, data: Partial<Pick<UniversalPlayer, "name" | "email" | "phoneNumber" | "tShirtSize" | "contactInfo" | "handicap" | "isProvisional">>): Promise<UniversalPlayer>;
+  updateUniversalPlayer(id: number, data: Partial<Pick<UniversalPlayer, "name" | "email" | "phoneNumber" | "tShirtSize" | "contactInfo" | "handicap" | "isProvisional" | "handicapCalculation">>): Promise<UniversalPlayer>;
   updateUniversalPlayerPin(id: number, pin: string | null): Promise<void>;
   deleteUniversalPlayer(id: number): Promise<void>;
-  mergeUniversalPlayers(sourceId: number, targetId: number): Promise<UniversalPlayer>;
+  mergeUniversalPlayers(sourceId: number, targetId: number, context: HandicapRevisionContext): Promise<UniversalPlayer>;
   linkTournamentPlayerToUniversal(tournamentPlayerId: number, universalPlayerId: number): Promise<TournamentPlayer>;
   addTournamentHistory(history: InsertPlayerTournamentHistory): Promise<PlayerTournamentHistory>;
   getPlayerTournamentHistory(universalPlayerId: number, limit?: number): Promise<PlayerTournamentHistory[]>;
   deleteTournamentHistory(historyId: number): Promise<void>;
-  recalculateHandicap(universalPlayerId: number): Promise<UniversalPlayer>;
+  getTournamentHistoryRows(tournamentId: number): Promise<PlayerTournamentHistory[]>;
+  supersedeTournamentHistory(tournamentId: number): Promise<number>;
+  rewriteTournamentHistory(historyId: number, history: InsertPlayerTournamentHistory): Promise<PlayerTournamentHistory>;
+  recalculateHandicap(universalPlayerId: number, context: HandicapRevisionContext): Promise<UniversalPlayer>;
+  previewHandicap(universalPlayerId: number, round: InsertPlayerTournamentHistory | null, replacesHistoryId?: number | null): Promise<HandicapCalculation | null>;
+  createHandicapRevision(player: UniversalPlayer, previousHandicap: number | null, context: HandicapRevisionContext): Promise<HandicapRevision>;
+  getHandicapRevisions(universalPlayerId: number): Promise<HandicapRevision[]>;
+  getHandicapPolicy(): Promise<HandicapPolicy>;
+  setHandicapPolicy(policy: Partial<HandicapPolicy>, directorId: number): Promise<HandicapPolicy>;
   getTournamentPlayers(tournamentId: number): Promise<TournamentPlayer[]>;
   getLiveTournamentStats(universalPlayerId: number): Promise<LiveTournamentStat[]>;
+  getUniversalPlayerAppearances(): Promise<{ universalPlayerId: number; tournamentId: number; played: boolean }[]>;
 
   // Payout operations
-  upsertTournamentPayout(tournamentId: number, data: { numPlayers: number; entryFee: number; greenFee: number; addedPrize: number; numSpots: number; percentages: number[] }): Promise<TournamentPayout>;
-  getTournamentPayout(tournamentId: number): Promise<TournamentPayout | undefined>;
-  deleteTournamentPayout(tournamentId: number): Promise<void>;
+  upsertTournamentPayout(tournamentId: number, data: { numPlayers: number; entryFee: number; greenFee: number; addedPrize: number; numSpots: number; percentages: number[] }, divisionId?: number | null): Promise<TournamentPayout>;
+  getTournamentPayout(tournamentId: number, divisionId?: number | null): Promise<TournamentPayout | undefined>;
+  getTournamentPayouts(tournamentId: number): Promise<TournamentPayout[]>;
+  deleteTournamentPayout(tournamentId: number, divisionId?: number | null): Promise<void>;
+  getPayoutDisbursements(payoutId: number): Promise<PayoutDisbursement[]>;
+  markPayoutPaid(disbursement: { payoutId: number; tournamentPlayerId: number; amount: number; method: string; note: string | null; paidByDirectorId: number | null; paidByName: string | null }): Promise<PayoutDisbursement>;
+  unmarkPayoutPaid(payoutId: number, tournamentPlayerId: number): Promise<boolean>;
 
   // Push subscription operations
   upsertPushSubscription(sub: InsertPushSubscription): Promise<PushSubscription>;
@@ -179,9 +370,63 @@ export interface IStorage {
   reorderSponsors(tournamentId: number, orderedIds: number[]): Promise<void>;
   setSponsorPagesEnabled(tournamentId: number, enabled: boolean): Promise<void>;
 
+  // Hole card library operations
+  getHoleCards(directorId: number): Promise<HoleCard[]>;
+  getHoleCardsByIds(ids: number[]): Promise<HoleCard[]>;
+  createHoleCard(card: { directorId: number; name: string; par: number; diagram: TableDiagram }): Promise<HoleCard>;
+  updateHoleCard(id: number, data: { name: string; par: number; diagram: TableDiagram }): Promise<HoleCard>;
+  deleteHoleCard(id: number): Promise<void>;
+  getCourses(directorId: number): Promise<Course[]>;
+  getCourse(id: number): Promise<Course | undefined>;
+  createCourse(course: { directorId: number; name: string; cardIds: number[] }): Promise<Course>;
+  updateCourse(id: number, data: { name: string; cardIds: number[] }): Promise<Course>;
+  deleteCourse(id: number): Promise<void>;
+
+  // Deck draw operations
+  getDeckDraws(tournamentId: number): Promise<DeckDraw[]>;
+  findDeckDraw(tournamentId: number, round: number, hole: number, deviceId: string): Promise<DeckDraw | undefined>;
+  createDeckDraw(draw: Omit<DeckDraw, "id" | "drawnAt">): Promise<DeckDraw>;
+
+  // Analytics operations
+  getHoleDifficulty(tournamentIds: number[], groupBy: HoleDifficultyGrouping): Promise<HoleDifficulty[]>;
+
+  // Duplicate candidate operations
+  getDuplicateCandidates(status: "pending" | "dismissed"): Promise<DuplicateCandidate[]>;
+  getDuplicateCandidate(id: number): Promise<DuplicateCandidate | undefined>;
+  saveDuplicateScan(pairs: Pick<DuplicateCandidate, "playerAId" | "playerBId" | "score" | "reasons">[]): Promise<number>;
+  dismissDuplicateCandidate(id: number, directorId: number | null): Promise<DuplicateCandidate | undefined>;
+
+  // Director account operations
+  getAllDirectors(): Promise<Director[]>;
+  getDirector(id: number): Promise<Director | undefined>;
+  createDirector(director: InsertDirector): Promise<Director>;
+  updateDirector(id: number, data: Partial<Pick<Director, "name" | "email" | "pinHash" | "isAdmin" | "isActive" | "lastLoginAt">>): Promise<Director>;
+  createDirectorSession(directorId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  getDirectorBySessionTokenHash(tokenHash: string): Promise<Director | undefined>;
+  deleteDirectorSession(tokenHash: string): Promise<void>;
+  deleteDirectorSessions(directorId: number): Promise<void>;
+  getLegacyDirectorRecords(): Promise<LegacyDirectorRecords[]>;
+  assignLegacyDirectorRecords(legacyPin: string, directorId: number): Promise<{ tournaments: number; contentDefaults: boolean }>;
+
+  // Player session operations
+  createPlayerSession(universalPlayerId: number, tokenHash: string, deviceLabel: string | null, expiresAt: Date): Promise<PlayerSession>;
+  getPlayerSessionByTokenHash(tokenHash: string): Promise<PlayerSession | undefined>;
+  getPlayerSessions(universalPlayerId: number): Promise<PlayerSession[]>;
+  deletePlayerSession(tokenHash: string): Promise<void>;
+  deletePlayerSessionById(universalPlayerId: number, sessionId: number): Promise<boolean>;
+  deletePlayerSessions(universalPlayerId: number, exceptTokenHash?: string): Promise<void>;
+  deleteExpiredPlayerSessions(): Promise<void>;
+
+  // Tournament staff operations
+  getTournamentStaff(tournamentId: number): Promise<Array<TournamentStaff & { directorName: string }>>;
+  getTournamentStaffMember(tournamentId: number, directorId: number): Promise<TournamentStaff | undefined>;
+  getStaffTournamentIds(directorId: number): Promise<number[]>;
+  upsertTournamentStaff(staff: InsertTournamentStaff): Promise<TournamentStaff>;
+  removeTournamentStaff(tournamentId: number, directorId: number): Promise<void>;
+
   // Director-wide content defaults
-  getDirectorContentDefaults(directorPin: string): Promise<DirectorContentDefaults | undefined>;
-  upsertDirectorContentDefaults(directorPin: string, data: {
+  getDirectorContentDefaults(directorId: number): Promise<DirectorContentDefaults | undefined>;
+  upsertDirectorContentDefaults(directorId: number, data: {
     rulesText: string | null;
     faqItems: Array<{ question: string; answer: string }>;
     faqItemsCustomized: boolean;
@@ -192,7 +437,7 @@ export interface IStorage {
     youtubeUrl: string | null;
     galleryImages: string[];
   }): Promise<DirectorContentDefaults>;
-  syncDirectorManagedEventContent(directorPin: string, data: {
+  syncDirectorManagedEventContent(directorId: number, data: {
     eventDirectorName: string | null;
     eventDirectorEmail: string | null;
     eventDirectorPhone: string | null;
@@ -307,9 +552,9 @@ export class DatabaseStorage implements IStorage {
         .where(eq(tournamentScores.tournamentPlayerId, player.id));
       
       if (scores.length > 0) {
-        const uniqueHoles = new Set(scores.map(s => s.hole));
-        const dedupedScores = Array.from(uniqueHoles).map(hole => {
-          const holeScores = scores.filter(s => s.hole === hole);
+        const uniqueHoles = new Set(scores.map(s => `${s.round}-${s.hole}`));
+        const dedupedScores = Array.from(uniqueHoles).map(key => {
+          const holeScores = scores.filter(s => `${s.round}-${s.hole}` === key);
           return holeScores[holeScores.length - 1];
         });
         const totalStrokes = dedupedScores.reduce((sum, s) => sum + s.strokes + s.scratches + s.penalties, 0);
@@ -382,7 +627,7 @@ export class DatabaseStorage implements IStorage {
                    event_format_text, event_expected_duration_minutes, event_venue_address,
                    event_payout_structure_note, event_venue_description, event_parking_info,
                    event_food_and_drinks_info, event_accessibility_notes, event_entry_fee,
-                   event_entry_fee_details, is_active, is_started, is_handicapped, director_pin,
+                   event_entry_fee_details, is_active, is_started, is_handicapped, director_id, director_pin,
                    created_at, started_at, completed_at, group_starting_holes, sponsor_pages_enabled
             FROM tournaments WHERE room_code = ${roomCode.toUpperCase()}
           `);
@@ -412,7 +657,7 @@ export class DatabaseStorage implements IStorage {
                    event_format_text, event_expected_duration_minutes, event_venue_address,
                    event_payout_structure_note, event_venue_description, event_parking_info,
                    event_food_and_drinks_info, event_accessibility_notes, event_entry_fee,
-                   event_entry_fee_details, is_active, is_started, is_handicapped, director_pin,
+                   event_entry_fee_details, is_active, is_started, is_handicapped, director_id, director_pin,
                    created_at, started_at, completed_at, group_starting_holes, sponsor_pages_enabled
             FROM tournaments WHERE id = ${id}
           `);
@@ -437,6 +682,7 @@ export class DatabaseStorage implements IStorage {
 
   async startTournament(id: number): Promise<void> {
     await db.update(tournaments).set({ isStarted: true, startedAt: new Date() }).where(eq(tournaments.id, id));
+    await freezeHandicaps(id);
   }
 
   async deleteTournament(id: number): Promise<void> {
@@ -448,11 +694,6 @@ export class DatabaseStorage implements IStorage {
     await db.delete(tournaments).where(eq(tournaments.id, id));
   }
 
-  async verifyDirectorPin(roomCode: string, pin: string): Promise<boolean> {
-    const tournament = await this.getTournamentByCode(roomCode);
-    return tournament?.directorPin === pin;
-  }
-
   async updateTournamentEventDetails(id: number, data: {
     eventVenue: string | null;
     eventStartAt: Date | null;
@@ -553,7 +794,7 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getTournamentBackup(tournamentId: number): Promise<{ tournament: Tournament; players: TournamentPlayer[]; scores: TournamentScore[] }> {
+  async getTournamentBackup(tournamentId: number): Promise<{ tournament: Tournament; players: TournamentPlayer[]; scores: TournamentScore[]; scoreHistory: ScoreHistoryEntry[] }> {
     const tournament = await this.getTournament(tournamentId);
     if (!tournament) {
       throw new Error("Tournament not found");
@@ -564,7 +805,8 @@ export class DatabaseStorage implements IStorage {
       const playerScores = await this.getPlayerScores(player.id);
       scores.push(...playerScores);
     }
-    return { tournament, players, scores };
+    const history = await this.getTournamentScoreHistory(tournamentId);
+    return { tournament, players, scores, scoreHistory: history };
   }
 
   async setTournamentStartingHoles(roomCode: string, holes: Record<string, number>): Promise<void> {
@@ -573,6 +815,22 @@ export class DatabaseStorage implements IStorage {
       .where(eq(tournaments.roomCode, roomCode));
   }
 
+  async setTournamentHoleCount(tournamentId: number, holeCount: number): Promise<void> {
+    await db.update(tournaments).set({ holeCount }).where(eq(tournaments.id, tournamentId));
+  }
+
+  async setTournamentCourseLayout(tournamentId: number, holes: CourseHole[] | null): Promise<void> {
+    await db.update(tournaments).set({ courseLayout: holes }).where(eq(tournaments.id, tournamentId));
+  }
+
+  async setTournamentDeck(tournamentId: number, cards: DeckCard[] | null): Promise<void> {
+    await db.update(tournaments).set({ deckCards: cards }).where(eq(tournaments.id, tournamentId));
+  }
+
+  async setTournamentDeckSeed(tournamentId: number, seed: string): Promise<void> {
+    await db.update(tournaments).set({ deckSeed: seed }).where(eq(tournaments.id, tournamentId));
+  }
+
   async getTournamentStartingHoles(roomCode: string): Promise<Record<string, number>> {
     const tournament = await this.getTournamentByCode(roomCode);
     return (tournament?.groupStartingHoles as Record<string, number>) || {};
@@ -580,7 +838,9 @@ export class DatabaseStorage implements IStorage {
 
   async addPlayerToTournament(player: InsertTournamentPlayer): Promise<TournamentPlayer> {
     const [created] = await db.insert(tournamentPlayers).values(player).returning();
-    return created;
+    // A restored backup brings the snapshot it was frozen with
+    if (created.handicapSnapshot !== null) return created;
+    return freezeLateHandicap(created);
   }
 
   async getPlayersInTournament(tournamentId: number): Promise<TournamentPlayer[]> {
@@ -628,6 +888,7 @@ export class DatabaseStorage implements IStorage {
       .set(updateData)
       .where(eq(tournamentPlayers.id, playerId))
       .returning();
+    if (data.universalId && updated && updated.universalPlayerId === null) return freezeLateHandicap(updated);
     return updated;
   }
 
@@ -640,6 +901,68 @@ export class DatabaseStorage implements IStorage {
     await db.update(tournamentPlayers).set({ isDnf: true, deviceId: null }).where(eq(tournamentPlayers.id, playerId));
   }
 
+  async getTournamentDivisions(tournamentId: number): Promise<TournamentDivision[]> {
+    return db
+      .select()
+      .from(tournamentDivisions)
+      .where(eq(tournamentDivisions.tournamentId, tournamentId))
+      .orderBy(asc(tournamentDivisions.sortOrder), asc(tournamentDivisions.id));
+  }
+
+  async setTournamentDivisions(tournamentId: number, divisions: { id?: number; name: string; minHandicap: number | null; maxHandicap: number | null }[]): Promise<TournamentDivision[]> {
+    const existing = await this.getTournamentDivisions(tournamentId);
+    const keptIds = new Set(divisions.map(d => d.id).filter((id): id is number => id !== undefined));
+    const removed = existing.filter(d => !keptIds.has(d.id)).map(d => d.id);
+    // Players drop back to unassigned and the division's payout goes with it
+    if (removed.length > 0) {
+      await db.delete(tournamentDivisions).where(inArray(tournamentDivisions.id, removed));
+    }
+
+    for (const [sortOrder, division] of Array.from(divisions.entries())) {
+      const values = { name: division.name, minHandicap: division.minHandicap, maxHandicap: division.maxHandicap, sortOrder };
+      if (division.id !== undefined && existing.some(d => d.id === division.id)) {
+        await db.update(tournamentDivisions).set(values).where(eq(tournamentDivisions.id, division.id));
+      } else {
+        await db.insert(tournamentDivisions).values({ tournamentId, ...values });
+      }
+    }
+    return this.getTournamentDivisions(tournamentId);
+  }
+
+  async setPlayerDivision(playerId: number, divisionId: number | null, manual: boolean): Promise<TournamentPlayer> {
+    const [updated] = await db
+      .update(tournamentPlayers)
+      .set({ divisionId, divisionAssignedManually: manual })
+      .where(eq(tournamentPlayers.id, playerId))
+      .returning();
+    return updated;
+  }
+
+  // Flights players by the handicap frozen at start, or their current universal handicap before
+  // then. Players a director placed by hand keep their division.
+  async assignFlights(tournamentId: number, playerIds?: number[]): Promise<{ assigned: number; unflighted: number }> {
+    const divisions = await this.getTournamentDivisions(tournamentId);
+    const rows = await db
+      .select({ player: tournamentPlayers, universalHandicap: universalPlayers.handicap })
+      .from(tournamentPlayers)
+      .leftJoin(universalPlayers, eq(tournamentPlayers.universalPlayerId, universalPlayers.id))
+      .where(eq(tournamentPlayers.tournamentId, tournamentId));
+
+    let assigned = 0;
+    let unflighted = 0;
+    for (const { player, universalHandicap } of rows) {
+      if (player.divisionAssignedManually) continue;
+      if (playerIds && !playerIds.includes(player.id)) continue;
+      const flight = findFlight(divisions, player.handicapSnapshot ?? universalHandicap ?? null);
+      if (flight) assigned++;
+      else unflighted++;
+      if ((flight?.id ?? null) !== player.divisionId) {
+        await db.update(tournamentPlayers).set({ divisionId: flight?.id ?? null }).where(eq(tournamentPlayers.id, player.id));
+      }
+    }
+    return { assigned, unflighted };
+  }
+
   async upsertScore(score: InsertTournamentScore): Promise<TournamentScore> {
     const existing = await db
       .select()
@@ -647,6 +970,7 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(tournamentScores.tournamentPlayerId, score.tournamentPlayerId),
+          eq(tournamentScores.round, score.round ?? 1),
           eq(tournamentScores.hole, score.hole)
         )
       );
@@ -659,6 +983,8 @@ export class DatabaseStorage implements IStorage {
           strokes: score.strokes,
           scratches: score.scratches,
           penalties: score.penalties,
+          version: sql`${tournamentScores.version} + 1`,
+          updatedAt: new Date(),
         })
         .where(eq(tournamentScores.id, existing[0].id))
         .returning();
@@ -669,29 +995,148 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async getPlayerScores(tournamentPlayerId: number): Promise<TournamentScore[]> {
+  // Compare-and-set write: expectedVersion 0 means "this hole has no score yet".
+  // Returns the current row as a conflict when another write got there first.
+  async upsertScoreIfVersion(score: InsertTournamentScore, expectedVersion: number): Promise<{ score: TournamentScore } | { conflict: TournamentScore }> {
+    if (expectedVersion === 0) {
+      const [created] = await db
+        .insert(tournamentScores)
+        .values(score)
+        .onConflictDoNothing({ target: [tournamentScores.tournamentPlayerId, tournamentScores.round, tournamentScores.hole] })
+        .returning();
+      if (created) return { score: created };
+    } else {
+      const [updated] = await db
+        .update(tournamentScores)
+        .set({
+          par: score.par,
+          strokes: score.strokes,
+          scratches: score.scratches,
+          penalties: score.penalties,
+          version: sql`${tournamentScores.version} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(tournamentScores.tournamentPlayerId, score.tournamentPlayerId),
+            eq(tournamentScores.round, score.round ?? 1),
+            eq(tournamentScores.hole, score.hole),
+            eq(tournamentScores.version, expectedVersion)
+          )
+        )
+        .returning();
+      if (updated) return { score: updated };
+    }
+
+    const current = await this.getScore(score.tournamentPlayerId, score.hole, score.round ?? 1);
+    // The row the client knew about was deleted since; nothing to conflict with
+    if (!current) return { score: await this.upsertScore(score) };
+    return { conflict: current };
+  }
+
+  async addScoreHistory(entry: InsertScoreHistoryEntry): Promise<ScoreHistoryEntry> {
+    const [created] = await db.insert(scoreHistory).values(entry).returning();
+    return created;
+  }
+
+  async getPlayerScoreHistory(tournamentPlayerId: number, hole?: number): Promise<ScoreHistoryEntry[]> {
+    const conditions = [eq(scoreHistory.tournamentPlayerId, tournamentPlayerId)];
+    if (hole !== undefined) conditions.push(eq(scoreHistory.hole, hole));
     return db
+      .select()
+      .from(scoreHistory)
+      .where(and(...conditions))
+      .orderBy(scoreHistory.round, scoreHistory.hole, desc(scoreHistory.createdAt), desc(scoreHistory.id));
+  }
+
+  async getTournamentScoreHistory(tournamentId: number): Promise<ScoreHistoryEntry[]> {
+    return db
+      .select()
+      .from(scoreHistory)
+      .where(eq(scoreHistory.tournamentId, tournamentId))
+      .orderBy(scoreHistory.createdAt, scoreHistory.id);
+  }
+
+  async getScore(tournamentPlayerId: number, hole: number, round = 1): Promise<TournamentScore | undefined> {
+    const [score] = await db
       .select()
       .from(tournamentScores)
-      .where(eq(tournamentScores.tournamentPlayerId, tournamentPlayerId));
+      .where(and(
+        eq(tournamentScores.tournamentPlayerId, tournamentPlayerId),
+        eq(tournamentScores.round, round),
+        eq(tournamentScores.hole, hole)
+      ));
+    return score;
   }
 
-  async getLeaderboard(tournamentId: number): Promise<LeaderboardEntry[]> {
-    const players = await this.getPlayersInTournament(tournamentId);
+  // Every round's scores unless a round is given
+  async getPlayerScores(tournamentPlayerId: number, round?: number): Promise<TournamentScore[]> {
+    const conditions = [eq(tournamentScores.tournamentPlayerId, tournamentPlayerId)];
+    if (round !== undefined) conditions.push(eq(tournamentScores.round, round));
+    return db
+      .select()
+      .from(tournamentScores)
+      .where(and(...conditions))
+      .orderBy(tournamentScores.round, tournamentScores.hole);
+  }
+
+  // Cumulative over every round unless a round is given. Players who missed a cut rank below
+  // the rest of the field and drop out of the leaderboards for later rounds. Playoffs settle the
+  // event as a whole, so single-round leaderboards ignore them.
+  async getLeaderboard(tournamentId: number, ranking: LeaderboardRanking = "gross", tieBreakPolicy: TieBreakPolicy = "shared", holeCount = 18, round?: number, divisionId?: number): Promise<LeaderboardEntry[]> {
+    const leaderboard = await this.rankPlayers(tournamentId, ranking, tieBreakPolicy, holeCount, round, divisionId);
+    if (round === undefined) await this.applyPlayoffs(tournamentId, leaderboard, divisionId);
+    return leaderboard;
+  }
+
+  // Marks decided playoffs stale once their players are no longer tied exactly as they were on the
+  // leaderboard the playoff was started from (whole field, default ranking and tie-break). Only run
+  // from write paths, so reading a leaderboard mid-correction never throws a result away.
+  async markStalePlayoffs(tournamentId: number): Promise<TournamentPlayoff[]> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) return [];
+    const policy = tieBreakPolicySchema.safeParse(tournament.tieBreakPolicy);
+    const leaderboard = await this.rankPlayers(tournamentId, tournament.isHandicapped ? "net" : "gross", policy.success ? policy.data : "shared", tournament.holeCount);
+    const marked: TournamentPlayoff[] = [];
+    for (const playoff of await this.applyPlayoffs(tournamentId, leaderboard)) {
+      const updated = await this.setPlayoffStatus(playoff.id, "stale");
+      if (updated) marked.push(updated);
+    }
+    return marked;
+  }
+
+  async rankPlayers(tournamentId: number, ranking: LeaderboardRanking, tieBreakPolicy: TieBreakPolicy, holeCount: number, round?: number, divisionId?: number): Promise<LeaderboardEntry[]> {
+    // A division is ranked on its own, so positions restart at 1 within it
+    const players = (await this.getPlayersInTournament(tournamentId))
+      .filter(player => divisionId === undefined || player.divisionId === divisionId);
     const leaderboard: LeaderboardEntry[] = [];
+    const playerScores = new Map<number, TournamentScore[]>();
 
     for (const player of players) {
       if (player.isDnf) continue;
-      const scores = await this.getPlayerScores(player.id);
-      const uniqueHoles = new Set(scores.map(s => s.hole));
-      const dedupedScores = Array.from(uniqueHoles).map(hole => {
-        const holeScores = scores.filter(s => s.hole === hole);
-        return holeScores[holeScores.length - 1];
+      if (round !== undefined && player.cutAfterRound != null && player.cutAfterRound < round) continue;
+      const scores = await this.getPlayerScores(player.id, round);
+      playerScores.set(player.id, scores);
+      const totalStrokes = scores.reduce((sum, s) => sum + s.strokes + s.scratches + s.penalties, 0);
+      const totalPar = scores.reduce((sum, s) => sum + s.par, 0);
+      const totalScratches = scores.reduce((sum, s) => sum + s.scratches, 0);
+      const totalPenalties = scores.reduce((sum, s) => sum + s.penalties, 0);
+      // Handicaps are per 18-hole round, so pro-rate the allowance over holes played
+      const handicap = player.handicapSnapshot ?? null;
+      const allowance = handicap != null ? Math.round(handicap * scores.length / 18 * 10) / 10 : 0;
+      const netStrokes = Math.round((totalStrokes - allowance) * 10) / 10;
+
+      const roundNumbers = Array.from(new Set(scores.map(s => s.round))).sort((a, b) => a - b);
+      const rounds = roundNumbers.map(roundNumber => {
+        const roundScores = scores.filter(s => s.round === roundNumber);
+        const roundStrokes = roundScores.reduce((sum, s) => sum + s.strokes + s.scratches + s.penalties, 0);
+        return {
+          round: roundNumber,
+          totalStrokes: roundStrokes,
+          relativeToPar: roundStrokes - roundScores.reduce((sum, s) => sum + s.par, 0),
+          holesCompleted: roundScores.length,
+        };
       });
-      const totalStrokes = dedupedScores.reduce((sum, s) => sum + s.strokes + s.scratches + s.penalties, 0);
-      const totalPar = dedupedScores.reduce((sum, s) => sum + s.par, 0);
-      const totalScratches = dedupedScores.reduce((sum, s) => sum + s.scratches, 0);
-      const totalPenalties = dedupedScores.reduce((sum, s) => sum + s.penalties, 0);
 
       leaderboard.push({
         playerId: player.id,
@@ -699,22 +1144,136 @@ export class DatabaseStorage implements IStorage {
         groupName: player.groupName,
         totalStrokes,
         totalPar,
-        holesCompleted: uniqueHoles.size,
+        holesCompleted: scores.length,
         relativeToPar: totalStrokes - totalPar,
         totalScratches,
         totalPenalties,
+        handicap,
+        netStrokes,
+        netRelativeToPar: Math.round((netStrokes - totalPar) * 10) / 10,
+        position: 0,
+        tieBreak: null,
+        cutAfterRound: player.cutAfterRound ?? null,
+        divisionId: player.divisionId ?? null,
+        rounds,
       });
     }
 
-    return leaderboard.sort((a, b) => {
-      if (a.relativeToPar !== b.relativeToPar) {
-        return a.relativeToPar - b.relativeToPar;
+    // Countback looks at the round being ranked: the given one, or the latest in play
+    const countbackRound = round ?? Math.max(1, ...Array.from(playerScores.values()).flat().map(s => s.round));
+    const holeScores = new Map(Array.from(playerScores.entries()).map(([playerId, scores]) =>
+      [playerId, scores.filter(s => s.round === countbackRound)] as const
+    ));
+    rankLeaderboard(leaderboard, holeScores, ranking, tieBreakPolicy, holeCount, round);
+    return leaderboard;
+  }
+
+  // A decided playoff reorders the players it was played between, but only while they are tied
+  // with each other and with nobody else; a division applies one only when every playoff player is
+  // in it. Returns the decided playoffs whose tie a score correction or policy change has broken.
+  // Nothing is written here: a broken tie may be a correction still in progress.
+  async applyPlayoffs(tournamentId: number, leaderboard: LeaderboardEntry[], divisionId?: number): Promise<TournamentPlayoff[]> {
+    const broken: TournamentPlayoff[] = [];
+    for (const playoff of await this.getTournamentPlayoffs(tournamentId)) {
+      if (playoff.status !== "complete") continue;
+      const { finishOrder } = resolvePlayoffStanding(playoff, await this.getPlayoffScores(playoff.id));
+      if (!finishOrder) continue;
+      const tied = leaderboard.filter(e => playoff.playerIds.includes(e.playerId));
+      if (divisionId !== undefined && tied.length !== playoff.playerIds.length) continue;
+      const position = tied[0]?.position;
+      const isExactTie = tied.length === playoff.playerIds.length
+        && leaderboard.filter(e => e.position === position).length === tied.length
+        && tied.every(e => e.position === position);
+      if (!isExactTie) {
+        broken.push(playoff);
+        continue;
       }
-      if (a.totalStrokes !== b.totalStrokes) {
-        return a.totalStrokes - b.totalStrokes;
+
+      // The tied players sit together, so they take their slots in playoff finish order
+      const start = leaderboard.indexOf(tied[0]);
+      const order = new Map(leaderboard.map((entry, index) => [entry.playerId, index]));
+      let placed = 0;
+      for (const group of finishOrder) {
+        const groupPosition = position + placed;
+        group.forEach((playerId, i) => {
+          const entry = tied.find(e => e.playerId === playerId)!;
+          entry.position = groupPosition;
+          if (placed > 0) entry.tieBreak = i > 0 ? "shared" : "playoff";
+          order.set(playerId, start + placed);
+          placed++;
+        });
       }
-      return b.holesCompleted - a.holesCompleted;
-    });
+      leaderboard.sort((a, b) => order.get(a.playerId)! - order.get(b.playerId)!);
+    }
+    return broken;
+  }
+
+  async setTournamentTieBreakPolicy(tournamentId: number, policy: TieBreakPolicy): Promise<void> {
+    await db.update(tournaments).set({ tieBreakPolicy: policy }).where(eq(tournaments.id, tournamentId));
+  }
+
+  // Round operations
+  async setTournamentRoundSettings(tournamentId: number, settings: { roundCount: number; cutAfterRound: number | null; cutSize: number | null }): Promise<void> {
+    await db.update(tournaments).set(settings).where(eq(tournaments.id, tournamentId));
+  }
+
+  async setTournamentCurrentRound(tournamentId: number, round: number): Promise<void> {
+    await db.update(tournaments).set({ currentRound: round }).where(eq(tournaments.id, tournamentId));
+  }
+
+  async markPlayersCut(playerIds: number[], afterRound: number): Promise<void> {
+    if (playerIds.length === 0) return;
+    await db.update(tournamentPlayers).set({ cutAfterRound: afterRound }).where(inArray(tournamentPlayers.id, playerIds));
+  }
+
+  // Playoff operations
+  async createPlayoff(playoff: { tournamentId: number; position: number; playerIds: number[]; holes: PlayoffHole[] }): Promise<TournamentPlayoff> {
+    const [created] = await db.insert(tournamentPlayoffs).values(playoff).returning();
+    return created;
+  }
+
+  async getPlayoff(id: number): Promise<TournamentPlayoff | undefined> {
+    const [playoff] = await db.select().from(tournamentPlayoffs).where(eq(tournamentPlayoffs.id, id));
+    return playoff;
+  }
+
+  async getTournamentPlayoffs(tournamentId: number): Promise<TournamentPlayoff[]> {
+    return db
+      .select()
+      .from(tournamentPlayoffs)
+      .where(eq(tournamentPlayoffs.tournamentId, tournamentId))
+      .orderBy(desc(tournamentPlayoffs.createdAt));
+  }
+
+  async setPlayoffStatus(id: number, status: PlayoffStatus): Promise<TournamentPlayoff | undefined> {
+    const [updated] = await db
+      .update(tournamentPlayoffs)
+      // A stale playoff keeps the time it was decided
+      .set(status === "stale" ? { status } : { status, completedAt: status === "active" ? null : new Date() })
+      .where(eq(tournamentPlayoffs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPlayoffScores(playoffId: number): Promise<PlayoffScore[]> {
+    return db.select().from(playoffScores).where(eq(playoffScores.playoffId, playoffId));
+  }
+
+  async upsertPlayoffScore(score: InsertPlayoffScore): Promise<PlayoffScore> {
+    const [saved] = await db
+      .insert(playoffScores)
+      .values(score)
+      .onConflictDoUpdate({
+        target: [playoffScores.playoffId, playoffScores.tournamentPlayerId, playoffScores.round],
+        set: {
+          strokes: score.strokes,
+          scratches: score.scratches,
+          penalties: score.penalties,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
   }
 
   // Alias for routes.ts compatibility
@@ -722,6 +1281,61 @@ export class DatabaseStorage implements IStorage {
     return this.getPlayersInTournament(tournamentId);
   }
 
+  // Cheat alert operations
+  async createCheatAlert(alert: InsertCheatAlert): Promise<CheatAlert> {
+    const [created] = await db.insert(cheatAlerts).values(alert).returning();
+    return created;
+  }
+
+  async getCheatAlerts(filter: { roomCode?: string; status?: CheatAlertStatus } = {}): Promise<CheatAlert[]> {
+    const conditions = [];
+    if (filter.roomCode) conditions.push(eq(cheatAlerts.roomCode, filter.roomCode));
+    if (filter.status) conditions.push(eq(cheatAlerts.status, filter.status));
+    return db
+      .select()
+      .from(cheatAlerts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(cheatAlerts.createdAt));
+  }
+
+  async getCheatAlert(id: number): Promise<CheatAlert | undefined> {
+    const [alert] = await db.select().from(cheatAlerts).where(eq(cheatAlerts.id, id));
+    return alert || undefined;
+  }
+
+  async hasRecentCheatAlert(roomCode: string, tournamentPlayerId: number, alertType: string, since: Date): Promise<boolean> {
+    const [existing] = await db
+      .select({ id: cheatAlerts.id })
+      .from(cheatAlerts)
+      .where(and(
+        eq(cheatAlerts.roomCode, roomCode),
+        eq(cheatAlerts.tournamentPlayerId, tournamentPlayerId),
+        eq(cheatAlerts.alertType, alertType),
+        eq(cheatAlerts.status, "open"),
+        gte(cheatAlerts.createdAt, since),
+      ))
+      .limit(1);
+    return !!existing;
+  }
+
+  async reviewCheatAlert(id: number, status: CheatAlertStatus, note: string | null, reviewedBy: string): Promise<CheatAlert | undefined> {
+    const [updated] = await db
+      .update(cheatAlerts)
+      .set({
+        status,
+        reviewNote: note,
+        reviewedBy: status === "open" ? null : reviewedBy,
+        reviewedAt: status === "open" ? null : new Date(),
+      })
+      .where(eq(cheatAlerts.id, id))
+      .returning();
+    return updated;
+  }
+
+  async setTournamentCheatRules(tournamentId: number, rules: Partial<CheatRules>): Promise<void> {
+    await db.update(tournaments).set({ cheatRules: rules }).where(eq(tournaments.id, tournamentId));
+  }
+
   // Universal player operations
   async getNextUniqueCode(): Promise<string> {
     // Use MAX to get the highest numeric code, then increment
@@ -749,6 +1363,14 @@ export class DatabaseStorage implements IStorage {
     return player || undefined;
   }
 
+  async getTournamentIdsForUniversalPlayer(universalPlayerId: number): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({ tournamentId: tournamentPlayers.tournamentId })
+      .from(tournamentPlayers)
+      .where(eq(tournamentPlayers.universalPlayerId, universalPlayerId));
+    return rows.map(r => r.tournamentId);
+  }
+
   async getUniversalPlayerByCode(uniqueCode: string): Promise<UniversalPlayer | undefined> {
     const [player] = await db.select().from(universalPlayers).where(eq(universalPlayers.uniqueCode, uniqueCode.toUpperCase()));
     return player || undefined;
@@ -763,14 +1385,16 @@ export class DatabaseStorage implements IStorage {
         or(
           ilike(universalPlayers.name, searchPattern),
           ilike(universalPlayers.email, searchPattern),
-          ilike(universalPlayers.uniqueCode, searchPattern)
+          ilike(universalPlayers.uniqueCode, searchPattern),
+          ilike(universalPlayers.phoneNumber, searchPattern),
+          ilike(universalPlayers.contactInfo, searchPattern)
         )
       )
       .orderBy(universalPlayers.name)
       .limit(20);
   }
 
-  async updateUniversalPlayer(id: number, data: Partial<Pick<UniversalPlayer, "name" | "email" | "phoneNumber" | "tShirtSize" | "contactInfo" | "handicap" | "isProvisional">>): Promise<UniversalPlayer> {
+  async updateUniversalPlayer(id: number, data: Partial<Pick<UniversalPlayer, "name" | "email" | "phoneNumber" | "tShirtSize" | "contactInfo" | "handicap" | "isProvisional" | "handicapCalculation">>): Promise<UniversalPlayer> {
     const [updated] = await db
       .update(universalPlayers)
       .set({ ...data, updatedAt: new Date() })
@@ -792,11 +1416,12 @@ export class DatabaseStorage implements IStorage {
     await db.delete(universalPlayers).where(eq(universalPlayers.id, id));
   }
 
-  async mergeUniversalPlayers(sourceId: number, targetId: number): Promise<UniversalPlayer> {
+  async mergeUniversalPlayers(sourceId: number, targetId: number, context: HandicapRevisionContext): Promise<UniversalPlayer> {
     await db.update(tournamentPlayers).set({ universalPlayerId: targetId }).where(eq(tournamentPlayers.universalPlayerId, sourceId));
     await db.update(playerTournamentHistory).set({ universalPlayerId: targetId }).where(eq(playerTournamentHistory.universalPlayerId, sourceId));
+    await db.update(handicapRevisions).set({ universalPlayerId: targetId }).where(eq(handicapRevisions.universalPlayerId, sourceId));
     await db.delete(universalPlayers).where(eq(universalPlayers.id, sourceId));
-    const target = await this.recalculateHandicap(targetId);
+    const target = await this.recalculateHandicap(targetId, context);
     return target;
   }
 
@@ -806,7 +1431,8 @@ export class DatabaseStorage implements IStorage {
       .set({ universalPlayerId })
       .where(eq(tournamentPlayers.id, tournamentPlayerId))
       .returning();
-    return updated;
+    // Relinking a started player swaps in the new identity's handicap
+    return updated ? freezeLateHandicap(updated) : updated;
   }
 
   async addTournamentHistory(history: InsertPlayerTournamentHistory): Promise<PlayerTournamentHistory> {
@@ -830,42 +1456,114 @@ export class DatabaseStorage implements IStorage {
     await db.delete(playerTournamentHistory).where(eq(playerTournamentHistory.id, historyId));
   }
 
-  async recalculateHandicap(universalPlayerId: number): Promise<UniversalPlayer> {
+  async getTournamentHistoryRows(tournamentId: number): Promise<PlayerTournamentHistory[]> {
+    return db.select().from(playerTournamentHistory).where(eq(playerTournamentHistory.tournamentId, tournamentId));
+  }
+
+  // Reopening leaves the rows counting toward handicaps until the tournament is completed again
+  async supersedeTournamentHistory(tournamentId: number): Promise<number> {
+    const rows = await db
+      .update(playerTournamentHistory)
+      .set({ supersededAt: new Date() })
+      .where(and(eq(playerTournamentHistory.tournamentId, tournamentId), sql`${playerTournamentHistory.supersededAt} IS NULL`))
+      .returning({ id: playerTournamentHistory.id });
+    return rows.length;
+  }
+
+  async rewriteTournamentHistory(historyId: number, history: InsertPlayerTournamentHistory): Promise<PlayerTournamentHistory> {
+    const [updated] = await db
+      .update(playerTournamentHistory)
+      .set({ ...history, supersededAt: null })
+      .where(eq(playerTournamentHistory.id, historyId))
+      .returning();
+    return updated;
+  }
+
+  async recalculateHandicap(universalPlayerId: number, context: HandicapRevisionContext): Promise<UniversalPlayer> {
     const history = await this.getPlayerTournamentHistory(universalPlayerId);
-    
-    if (history.length === 0) {
-      const [updated] = await db
-        .update(universalPlayers)
-        .set({ 
-          handicap: null, 
-          isProvisional: true, 
-          completedTournaments: 0,
-          updatedAt: new Date()
-        })
-        .where(eq(universalPlayers.id, universalPlayerId))
-        .returning();
-      return updated;
-    }
-    
-    const totalRelativeToPar = history.reduce((sum, r) => sum + (r.totalStrokes - r.totalPar), 0);
-    const handicap = Math.round((totalRelativeToPar / history.length) * 10) / 10;
-    
-    const isProvisional = history.length < 5;
+    const previous = await this.getUniversalPlayer(universalPlayerId);
+    const calculation = history.length > 0 ? calculateHandicap(history, await this.getHandicapPolicy()) : null;
     
     const [updated] = await db
       .update(universalPlayers)
       .set({ 
-        handicap,
-        isProvisional,
+        handicap: calculation?.handicap ?? null,
+        isProvisional: calculation?.isProvisional ?? true,
         completedTournaments: history.length,
+        handicapCalculation: calculation,
         updatedAt: new Date()
       })
       .where(eq(universalPlayers.id, universalPlayerId))
       .returning();
     
+    // Only changes are revisions; recalculations that land on the same number leave no row
+    if (previous && (previous.handicap !== updated.handicap || previous.isProvisional !== updated.isProvisional)) {
+      await this.createHandicapRevision(updated, previous.handicap, context);
+    }
+    
     return updated;
   }
 
+  // What recalculateHandicap would produce after adding this round, or putting it in place of an existing row
+  // (a null round removes that row), without saving anything
+  async previewHandicap(universalPlayerId: number, round: InsertPlayerTournamentHistory | null, replacesHistoryId: number | null = null): Promise<HandicapCalculation | null> {
+    let history = await this.getPlayerTournamentHistory(universalPlayerId);
+    if (replacesHistoryId !== null) {
+      history = round
+        ? history.map(row => (row.id === replacesHistoryId ? { ...row, ...round, supersededAt: null } : row))
+        : history.filter(row => row.id !== replacesHistoryId);
+    } else if (round) {
+      const pending: PlayerTournamentHistory = {
+        id: 0,
+        tournamentId: null,
+        courseName: null,
+        totalScratches: 0,
+        totalPenalties: 0,
+        isManualEntry: false,
+        ...round,
+        completedAt: new Date(),
+        supersededAt: null,
+      };
+      history = [pending, ...history];
+    }
+    return history.length > 0 ? calculateHandicap(history, await this.getHandicapPolicy()) : null;
+  }
+
+  async createHandicapRevision(player: UniversalPlayer, previousHandicap: number | null, context: HandicapRevisionContext): Promise<HandicapRevision> {
+    const [created] = await db.insert(handicapRevisions).values({
+      universalPlayerId: player.id,
+      handicap: player.handicap,
+      previousHandicap,
+      isProvisional: player.isProvisional,
+      ...context,
+    }).returning();
+    return created;
+  }
+
+  async getHandicapRevisions(universalPlayerId: number): Promise<HandicapRevision[]> {
+    return db
+      .select()
+      .from(handicapRevisions)
+      .where(eq(handicapRevisions.universalPlayerId, universalPlayerId))
+      .orderBy(handicapRevisions.createdAt, handicapRevisions.id);
+  }
+
+  async getHandicapPolicy(): Promise<HandicapPolicy> {
+    const [settings] = await db.select().from(handicapSettings).orderBy(handicapSettings.id).limit(1);
+    return { ...DEFAULT_HANDICAP_POLICY, ...(settings?.policy ?? {}) };
+  }
+
+  async setHandicapPolicy(policy: Partial<HandicapPolicy>, directorId: number): Promise<HandicapPolicy> {
+    const [settings] = await db.select().from(handicapSettings).orderBy(handicapSettings.id).limit(1);
+    const merged = { ...(settings?.policy ?? {}), ...policy };
+    if (settings) {
+      await db.update(handicapSettings).set({ policy: merged, updatedByDirectorId: directorId, updatedAt: new Date() }).where(eq(handicapSettings.id, settings.id));
+    } else {
+      await db.insert(handicapSettings).values({ policy: merged, updatedByDirectorId: directorId });
+    }
+    return { ...DEFAULT_HANDICAP_POLICY, ...merged };
+  }
+
   async getLiveTournamentStats(universalPlayerId: number): Promise<LiveTournamentStat[]> {
     const results = await db
       .select({
@@ -893,9 +1591,9 @@ export class DatabaseStorage implements IStorage {
 
       if (scores.length === 0) continue;
 
-      const uniqueHoles = new Set(scores.map(s => s.hole));
-      const dedupedScores = Array.from(uniqueHoles).map(hole => {
-        const holeScores = scores.filter(s => s.hole === hole);
+      const uniqueHoles = new Set(scores.map(s => `${s.round}-${s.hole}`));
+      const dedupedScores = Array.from(uniqueHoles).map(key => {
+        const holeScores = scores.filter(s => `${s.round}-${s.hole}` === key);
         return holeScores[holeScores.length - 1];
       });
 
@@ -926,6 +1624,24 @@ export class DatabaseStorage implements IStorage {
     return stats;
   }
 
+  // Every tournament each universal player was entered in, and whether a result was saved for them there
+  async getUniversalPlayerAppearances(): Promise<{ universalPlayerId: number; tournamentId: number; played: boolean }[]> {
+    const entries = await db
+      .select({ universalPlayerId: tournamentPlayers.universalPlayerId, tournamentId: tournamentPlayers.tournamentId })
+      .from(tournamentPlayers)
+      .where(sql`${tournamentPlayers.universalPlayerId} IS NOT NULL`);
+    const results = await db
+      .select({ universalPlayerId: playerTournamentHistory.universalPlayerId, tournamentId: playerTournamentHistory.tournamentId })
+      .from(playerTournamentHistory)
+      .where(sql`${playerTournamentHistory.tournamentId} IS NOT NULL`);
+    const played = new Set(results.map(r => `${r.universalPlayerId}:${r.tournamentId}`));
+    return entries.map(entry => ({
+      universalPlayerId: entry.universalPlayerId!,
+      tournamentId: entry.tournamentId,
+      played: played.has(`${entry.universalPlayerId}:${entry.tournamentId}`),
+    }));
+  }
+
   async upsertPushSubscription(sub: InsertPushSubscription): Promise<PushSubscription> {
     const [result] = await db
       .insert(pushSubscriptions)
@@ -998,26 +1714,55 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(pushSubscriptions);
   }
 
-  async upsertTournamentPayout(tournamentId: number, data: { numPlayers: number; entryFee: number; greenFee: number; addedPrize: number; numSpots: number; percentages: number[] }): Promise<TournamentPayout> {
-    const existing = await db.select().from(tournamentPayouts).where(eq(tournamentPayouts.tournamentId, tournamentId));
+  async upsertTournamentPayout(tournamentId: number, data: { numPlayers: number; entryFee: number; greenFee: number; addedPrize: number; numSpots: number; percentages: number[] }, divisionId: number | null = null): Promise<TournamentPayout> {
+    const existing = await db.select().from(tournamentPayouts).where(payoutKey(tournamentId, divisionId));
     if (existing.length > 0) {
       const [updated] = await db.update(tournamentPayouts)
         .set({ ...data, updatedAt: new Date() })
-        .where(eq(tournamentPayouts.tournamentId, tournamentId))
+        .where(eq(tournamentPayouts.id, existing[0].id))
         .returning();
       return updated;
     }
-    const [created] = await db.insert(tournamentPayouts).values({ tournamentId, ...data }).returning();
+    const [created] = await db.insert(tournamentPayouts).values({ tournamentId, divisionId, ...data }).returning();
     return created;
   }
 
-  async getTournamentPayout(tournamentId: number): Promise<TournamentPayout | undefined> {
-    const [payout] = await db.select().from(tournamentPayouts).where(eq(tournamentPayouts.tournamentId, tournamentId));
+  async getTournamentPayout(tournamentId: number, divisionId: number | null = null): Promise<TournamentPayout | undefined> {
+    const [payout] = await db.select().from(tournamentPayouts).where(payoutKey(tournamentId, divisionId));
     return payout;
   }
 
-  async deleteTournamentPayout(tournamentId: number): Promise<void> {
-    await db.delete(tournamentPayouts).where(eq(tournamentPayouts.tournamentId, tournamentId));
+  async getTournamentPayouts(tournamentId: number): Promise<TournamentPayout[]> {
+    return db.select().from(tournamentPayouts).where(eq(tournamentPayouts.tournamentId, tournamentId));
+  }
+
+  async deleteTournamentPayout(tournamentId: number, divisionId: number | null = null): Promise<void> {
+    await db.delete(tournamentPayouts).where(payoutKey(tournamentId, divisionId));
+  }
+
+  async getPayoutDisbursements(payoutId: number): Promise<PayoutDisbursement[]> {
+    return db.select().from(payoutDisbursements).where(eq(payoutDisbursements.payoutId, payoutId));
+  }
+
+  // Marking a player paid again replaces the earlier record, e.g. to correct the method
+  async markPayoutPaid(disbursement: { payoutId: number; tournamentPlayerId: number; amount: number; method: string; note: string | null; paidByDirectorId: number | null; paidByName: string | null }): Promise<PayoutDisbursement> {
+    const [saved] = await db
+      .insert(payoutDisbursements)
+      .values(disbursement)
+      .onConflictDoUpdate({
+        target: [payoutDisbursements.payoutId, payoutDisbursements.tournamentPlayerId],
+        set: { amount: disbursement.amount, method: disbursement.method, note: disbursement.note, paidByDirectorId: disbursement.paidByDirectorId, paidByName: disbursement.paidByName, paidAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async unmarkPayoutPaid(payoutId: number, tournamentPlayerId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(payoutDisbursements)
+      .where(and(eq(payoutDisbursements.payoutId, payoutId), eq(payoutDisbursements.tournamentPlayerId, tournamentPlayerId)))
+      .returning();
+    return deleted.length > 0;
   }
 
   async getSponsorsForTournament(tournamentId: number): Promise<TournamentSponsor[]> {
@@ -1056,15 +1801,401 @@ export class DatabaseStorage implements IStorage {
     await db.update(tournaments).set({ sponsorPagesEnabled: enabled }).where(eq(tournaments.id, tournamentId));
   }
 
-  async getDirectorContentDefaults(directorPin: string): Promise<DirectorContentDefaults | undefined> {
+  // Hole card library operations
+  async getHoleCards(directorId: number): Promise<HoleCard[]> {
+    return db.select().from(holeCards).where(eq(holeCards.directorId, directorId)).orderBy(holeCards.name);
+  }
+
+  async getHoleCardsByIds(ids: number[]): Promise<HoleCard[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(holeCards).where(inArray(holeCards.id, ids));
+  }
+
+  async createHoleCard(card: { directorId: number; name: string; par: number; diagram: TableDiagram }): Promise<HoleCard> {
+    const [created] = await db.insert(holeCards).values(card).returning();
+    return created;
+  }
+
+  async updateHoleCard(id: number, data: { name: string; par: number; diagram: TableDiagram }): Promise<HoleCard> {
+    const [updated] = await db.update(holeCards).set({ ...data, updatedAt: new Date() }).where(eq(holeCards.id, id)).returning();
+    return updated;
+  }
+
+  async deleteHoleCard(id: number): Promise<void> {
+    await db.delete(holeCards).where(eq(holeCards.id, id));
+  }
+
+  async getCourses(directorId: number): Promise<Course[]> {
+    return db.select().from(courses).where(eq(courses.directorId, directorId)).orderBy(courses.name);
+  }
+
+  async getCourse(id: number): Promise<Course | undefined> {
+    const [course] = await db.select().from(courses).where(eq(courses.id, id));
+    return course;
+  }
+
+  async createCourse(course: { directorId: number; name: string; cardIds: number[] }): Promise<Course> {
+    const [created] = await db.insert(courses).values(course).returning();
+    return created;
+  }
+
+  async updateCourse(id: number, data: { name: string; cardIds: number[] }): Promise<Course> {
+    const [updated] = await db.update(courses).set({ ...data, updatedAt: new Date() }).where(eq(courses.id, id)).returning();
+    return updated;
+  }
+
+  async deleteCourse(id: number): Promise<void> {
+    await db.delete(courses).where(eq(courses.id, id));
+  }
+
+  // Deck draw operations
+  async getDeckDraws(tournamentId: number): Promise<DeckDraw[]> {
+    return db.select().from(deckDraws).where(eq(deckDraws.tournamentId, tournamentId)).orderBy(deckDraws.drawnAt, deckDraws.id);
+  }
+
+  async findDeckDraw(tournamentId: number, round: number, hole: number, deviceId: string): Promise<DeckDraw | undefined> {
+    const [draw] = await db.select().from(deckDraws).where(and(
+      eq(deckDraws.tournamentId, tournamentId),
+      eq(deckDraws.round, round),
+      eq(deckDraws.hole, hole),
+      eq(deckDraws.deviceId, deviceId),
+    ));
+    return draw;
+  }
+
+  async createDeckDraw(draw: Omit<DeckDraw, "id" | "drawnAt">): Promise<DeckDraw> {
+    const [created] = await db.insert(deckDraws).values(draw).returning();
+    return created;
+  }
+
+  // Analytics operations
+  async getHoleDifficulty(tournamentIds: number[], groupBy: HoleDifficultyGrouping): Promise<HoleDifficulty[]> {
+    if (tournamentIds.length === 0) return [];
+    const rows = await db
+      .select({
+        tournamentId: tournamentPlayers.tournamentId,
+        round: tournamentScores.round,
+        hole: tournamentScores.hole,
+        par: tournamentScores.par,
+        strokes: tournamentScores.strokes,
+        scratches: tournamentScores.scratches,
+        penalties: tournamentScores.penalties,
+      })
+      .from(tournamentScores)
+      .innerJoin(tournamentPlayers, eq(tournamentScores.tournamentPlayerId, tournamentPlayers.id))
+      .where(and(inArray(tournamentPlayers.tournamentId, tournamentIds), gte(tournamentScores.strokes, 1)));
+
+    // By card, each score is credited to the card its hole was played with: the course layout's
+    // card, or the deck card dealt for that round. Holes played from physical draws are left out.
+    const layouts = new Map<number, CourseHole[]>();
+    let draws: DeckDraw[] = [];
+    if (groupBy === "card") {
+      const events = await db.select().from(tournaments).where(inArray(tournaments.id, tournamentIds));
+      events.forEach(t => layouts.set(t.id, t.courseLayout ?? []));
+      draws = await db.select().from(deckDraws).where(inArray(deckDraws.tournamentId, tournamentIds));
+    }
+    const keyFor = (row: typeof rows[number]): { key: string; hole: number | null; holeCardId: number | null; cardId?: string } | null => {
+      if (groupBy === "hole") return { key: `hole:${row.hole}`, hole: row.hole, holeCardId: null };
+      const courseHole = layouts.get(row.tournamentId)?.find(h => h.hole === row.hole);
+      const holeCardId = courseHole?.holeCardId
+        ?? draws.find(d => d.tournamentId === row.tournamentId && d.round === row.round && d.hole === row.hole)?.holeCardId
+        ?? null;
+      if (holeCardId) return { key: `card:${holeCardId}`, hole: null, holeCardId };
+      if (courseHole?.cardId) return { key: `card:${courseHole.cardId}`, hole: null, holeCardId: null, cardId: courseHole.cardId };
+      return null;
+    };
+
+    const groups = new Map<string, { hole: number | null; holeCardId: number | null; cardId?: string; rows: typeof rows }>();
+    for (const row of rows) {
+      const group = keyFor(row);
+      if (!group) continue;
+      const existing = groups.get(group.key);
+      if (existing) existing.rows.push(row);
+      else groups.set(group.key, { ...group, rows: [row] });
+    }
+
+    const cards = await this.getHoleCardsByIds(Array.from(groups.values()).flatMap(g => g.holeCardId ? [g.holeCardId] : []));
+    const toHundredths = (value: number) => Math.round(value * 100) / 100;
+    const stats = Array.from(groups.entries()).map(([key, group]) => {
+      const count = group.rows.length;
+      const distribution: Record<number, number> = {};
+      let toPar = 0;
+      for (const r of group.rows) {
+        const diff = r.strokes + r.scratches + r.penalties - r.par;
+        distribution[diff] = (distribution[diff] ?? 0) + 1;
+        toPar += diff;
+      }
+      return {
+        key,
+        hole: group.hole,
+        holeCardId: group.holeCardId,
+        label: group.hole !== null
+          ? `Hole ${group.hole}`
+          : group.holeCardId !== null
+            ? cards.find(c => c.id === group.holeCardId)?.name ?? "Deleted card"
+            : `Card ${group.cardId}`,
+        scoreCount: count,
+        averagePar: toHundredths(group.rows.reduce((sum, r) => sum + r.par, 0) / count),
+        averageToPar: toHundredths(toPar / count),
+        scratchRate: toHundredths(group.rows.filter(r => r.scratches > 0).length / count),
+        distribution,
+        strokeIndex: 0,
+      };
+    });
+
+    // Stroke index: hardest relative to par first, then the one scratched on more often
+    [...stats]
+      .sort((a, b) => b.averageToPar - a.averageToPar || b.scratchRate - a.scratchRate || (a.hole ?? 0) - (b.hole ?? 0) || a.label.localeCompare(b.label))
+      .forEach((entry, i) => { entry.strokeIndex = i + 1; });
+    return groupBy === "hole"
+      ? stats.sort((a, b) => a.hole! - b.hole!)
+      : stats.sort((a, b) => a.strokeIndex - b.strokeIndex);
+  }
+
+  // Duplicate candidate operations
+  async getDuplicateCandidates(status: "pending" | "dismissed"): Promise<DuplicateCandidate[]> {
+    return db
+      .select()
+      .from(duplicateCandidates)
+      .where(eq(duplicateCandidates.status, status))
+      .orderBy(desc(duplicateCandidates.score), desc(duplicateCandidates.detectedAt));
+  }
+
+  async getDuplicateCandidate(id: number): Promise<DuplicateCandidate | undefined> {
+    const [candidate] = await db.select().from(duplicateCandidates).where(eq(duplicateCandidates.id, id));
+    return candidate;
+  }
+
+  // Replaces the pending queue with a fresh scan; dismissed pairs stay dismissed and are never requeued
+  async saveDuplicateScan(pairs: Pick<DuplicateCandidate, "playerAId" | "playerBId" | "score" | "reasons">[]): Promise<number> {
+    const pairKey = (a: number, b: number) => `${a}:${b}`;
+    const dismissed = new Set((await this.getDuplicateCandidates("dismissed")).map(c => pairKey(c.playerAId, c.playerBId)));
+    const queued = pairs.filter(pair => !dismissed.has(pairKey(pair.playerAId, pair.playerBId)));
+    const found = new Set(queued.map(pair => pairKey(pair.playerAId, pair.playerBId)));
+
+    for (const stale of await this.getDuplicateCandidates("pending")) {
+      if (!found.has(pairKey(stale.playerAId, stale.playerBId))) {
+        await db.delete(duplicateCandidates).where(eq(duplicateCandidates.id, stale.id));
+      }
+    }
+    for (const pair of queued) {
+      await db
+        .insert(duplicateCandidates)
+        .values(pair)
+        .onConflictDoUpdate({
+          target: [duplicateCandidates.playerAId, duplicateCandidates.playerBId],
+          set: { score: pair.score, reasons: pair.reasons },
+        });
+    }
+    return queued.length;
+  }
+
+  async dismissDuplicateCandidate(id: number, directorId: number | null): Promise<DuplicateCandidate | undefined> {
+    const [updated] = await db
+      .update(duplicateCandidates)
+      .set({ status: "dismissed", reviewedByDirectorId: directorId, reviewedAt: new Date() })
+      .where(eq(duplicateCandidates.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Director account operations
+  async getAllDirectors(): Promise<Director[]> {
+    return db.select().from(directors).orderBy(directors.name);
+  }
+
+  async getDirector(id: number): Promise<Director | undefined> {
+    const [director] = await db.select().from(directors).where(eq(directors.id, id));
+    return director;
+  }
+
+  async createDirector(director: InsertDirector): Promise<Director> {
+    const [created] = await db.insert(directors).values(director).returning();
+    return created;
+  }
+
+  async updateDirector(id: number, data: Partial<Pick<Director, "name" | "email" | "pinHash" | "isAdmin" | "isActive" | "lastLoginAt">>): Promise<Director> {
+    const [updated] = await db
+      .update(directors)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(directors.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createDirectorSession(directorId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.insert(directorSessions).values({ directorId, tokenHash, expiresAt });
+  }
+
+  async getDirectorBySessionTokenHash(tokenHash: string): Promise<Director | undefined> {
+    const [row] = await db
+      .select({ director: directors, expiresAt: directorSessions.expiresAt })
+      .from(directorSessions)
+      .innerJoin(directors, eq(directorSessions.directorId, directors.id))
+      .where(eq(directorSessions.tokenHash, tokenHash));
+    if (!row) return undefined;
+    if (row.expiresAt.getTime() < Date.now()) {
+      await this.deleteDirectorSession(tokenHash);
+      return undefined;
+    }
+    return row.director;
+  }
+
+  async deleteDirectorSession(tokenHash: string): Promise<void> {
+    await db.delete(directorSessions).where(eq(directorSessions.tokenHash, tokenHash));
+  }
+
+  async deleteDirectorSessions(directorId: number): Promise<void> {
+    await db.delete(directorSessions).where(eq(directorSessions.directorId, directorId));
+  }
+
+  async getLegacyDirectorRecords(): Promise<LegacyDirectorRecords[]> {
+    const legacyTournaments = await db
+      .select()
+      .from(tournaments)
+      .where(and(isNull(tournaments.directorId), isNotNull(tournaments.directorPin)));
+    const legacyDefaults = await db
+      .select()
+      .from(directorContentDefaults)
+      .where(and(isNull(directorContentDefaults.directorId), isNotNull(directorContentDefaults.directorPin)));
+    const pins = Array.from(new Set([...legacyTournaments, ...legacyDefaults].map(r => r.directorPin!))).sort();
+    return pins.map(legacyPin => {
+      const defaults = legacyDefaults.find(d => d.directorPin === legacyPin);
+      return {
+        legacyPin,
+        directorName: defaults?.directorName ?? null,
+        tournaments: legacyTournaments.filter(t => t.directorPin === legacyPin).map(t => ({ roomCode: t.roomCode, name: t.name })),
+        hasContentDefaults: !!defaults,
+      };
+    });
+  }
+
+  // A legacy PIN's content defaults only move to a director who has none of their own yet
+  async assignLegacyDirectorRecords(legacyPin: string, directorId: number): Promise<{ tournaments: number; contentDefaults: boolean }> {
+    const moved = await db
+      .update(tournaments)
+      .set({ directorId, directorPin: null })
+      .where(and(isNull(tournaments.directorId), eq(tournaments.directorPin, legacyPin)))
+      .returning({ id: tournaments.id });
+    let contentDefaults = false;
+    if (!(await this.getDirectorContentDefaults(directorId))) {
+      // Legacy defaults were keyed by PIN, so there is at most one row per PIN
+      const updated = await db
+        .update(directorContentDefaults)
+        .set({ directorId, directorPin: null })
+        .where(and(isNull(directorContentDefaults.directorId), eq(directorContentDefaults.directorPin, legacyPin)))
+        .returning({ directorId: directorContentDefaults.directorId });
+      contentDefaults = updated.length > 0;
+    }
+    return { tournaments: moved.length, contentDefaults };
+  }
+
+  // Player session operations
+  async createPlayerSession(universalPlayerId: number, tokenHash: string, deviceLabel: string | null, expiresAt: Date): Promise<PlayerSession> {
+    const [session] = await db.insert(playerSessions).values({ universalPlayerId, tokenHash, deviceLabel, expiresAt }).returning();
+    return session;
+  }
+
+  // Returns the live session and bumps its last-seen time; expired sessions are deleted on sight
+  async getPlayerSessionByTokenHash(tokenHash: string): Promise<PlayerSession | undefined> {
+    const [session] = await db.select().from(playerSessions).where(eq(playerSessions.tokenHash, tokenHash));
+    if (!session) return undefined;
+    if (session.expiresAt.getTime() < Date.now()) {
+      await this.deletePlayerSession(tokenHash);
+      return undefined;
+    }
+    const [touched] = await db
+      .update(playerSessions)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(playerSessions.id, session.id))
+      .returning();
+    return touched ?? session;
+  }
+
+  async getPlayerSessions(universalPlayerId: number): Promise<PlayerSession[]> {
+    return db
+      .select()
+      .from(playerSessions)
+      .where(and(eq(playerSessions.universalPlayerId, universalPlayerId), gte(playerSessions.expiresAt, new Date())))
+      .orderBy(desc(playerSessions.lastSeenAt));
+  }
+
+  async deletePlayerSession(tokenHash: string): Promise<void> {
+    await db.delete(playerSessions).where(eq(playerSessions.tokenHash, tokenHash));
+  }
+
+  async deletePlayerSessionById(universalPlayerId: number, sessionId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(playerSessions)
+      .where(and(eq(playerSessions.id, sessionId), eq(playerSessions.universalPlayerId, universalPlayerId)))
+      .returning({ id: playerSessions.id });
+    return deleted.length > 0;
+  }
+
+  async deletePlayerSessions(universalPlayerId: number, exceptTokenHash?: string): Promise<void> {
+    const conditions = [eq(playerSessions.universalPlayerId, universalPlayerId)];
+    if (exceptTokenHash) conditions.push(ne(playerSessions.tokenHash, exceptTokenHash));
+    await db.delete(playerSessions).where(and(...conditions));
+  }
+
+  async deleteExpiredPlayerSessions(): Promise<void> {
+    await db.delete(playerSessions).where(lt(playerSessions.expiresAt, new Date()));
+  }
+
+  // Tournament staff operations
+  async getTournamentStaff(tournamentId: number): Promise<Array<TournamentStaff & { directorName: string }>> {
+    const rows = await db
+      .select({ staff: tournamentStaff, directorName: directors.name })
+      .from(tournamentStaff)
+      .innerJoin(directors, eq(tournamentStaff.directorId, directors.id))
+      .where(eq(tournamentStaff.tournamentId, tournamentId))
+      .orderBy(directors.name);
+    return rows.map(r => ({ ...r.staff, directorName: r.directorName }));
+  }
+
+  async getTournamentStaffMember(tournamentId: number, directorId: number): Promise<TournamentStaff | undefined> {
+    const [staff] = await db
+      .select()
+      .from(tournamentStaff)
+      .where(and(eq(tournamentStaff.tournamentId, tournamentId), eq(tournamentStaff.directorId, directorId)));
+    return staff;
+  }
+
+  async getStaffTournamentIds(directorId: number): Promise<number[]> {
+    const rows = await db
+      .select({ tournamentId: tournamentStaff.tournamentId })
+      .from(tournamentStaff)
+      .where(eq(tournamentStaff.directorId, directorId));
+    return rows.map(r => r.tournamentId);
+  }
+
+  async upsertTournamentStaff(staff: InsertTournamentStaff): Promise<TournamentStaff> {
+    const [saved] = await db
+      .insert(tournamentStaff)
+      .values(staff)
+      .onConflictDoUpdate({
+        target: [tournamentStaff.tournamentId, tournamentStaff.directorId],
+        set: { role: staff.role, grantedBy: staff.grantedBy ?? null },
+      })
+      .returning();
+    return saved;
+  }
+
+  async removeTournamentStaff(tournamentId: number, directorId: number): Promise<void> {
+    await db
+      .delete(tournamentStaff)
+      .where(and(eq(tournamentStaff.tournamentId, tournamentId), eq(tournamentStaff.directorId, directorId)));
+  }
+
+  async getDirectorContentDefaults(directorId: number): Promise<DirectorContentDefaults | undefined> {
     const [defaults] = await db
       .select()
       .from(directorContentDefaults)
-      .where(eq(directorContentDefaults.directorPin, directorPin));
+      .where(eq(directorContentDefaults.directorId, directorId));
     return defaults;
   }
 
-  async upsertDirectorContentDefaults(directorPin: string, data: {
+  async upsertDirectorContentDefaults(directorId: number, data: {
     rulesText: string | null;
     faqItems: Array<{ question: string; answer: string }>;
     faqItemsCustomized: boolean;
@@ -1078,7 +2209,7 @@ export class DatabaseStorage implements IStorage {
     const [result] = await db
       .insert(directorContentDefaults)
       .values({
-        directorPin,
+        directorId,
         rulesText: data.rulesText,
         faqItems: data.faqItems,
         faqItemsCustomized: data.faqItemsCustomized,
@@ -1091,7 +2222,7 @@ export class DatabaseStorage implements IStorage {
         updatedAt: new Date(),
       })
       .onConflictDoUpdate({
-        target: directorContentDefaults.directorPin,
+        target: directorContentDefaults.directorId,
         set: {
           rulesText: data.rulesText,
           faqItems: data.faqItems,
@@ -1109,7 +2240,7 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async syncDirectorManagedEventContent(directorPin: string, data: {
+  async syncDirectorManagedEventContent(directorId: number, data: {
     eventDirectorName: string | null;
     eventDirectorEmail: string | null;
     eventDirectorPhone: string | null;
@@ -1127,7 +2258,7 @@ export class DatabaseStorage implements IStorage {
         eventYoutubeUrl: data.eventYoutubeUrl,
         eventGalleryImages: data.eventGalleryImages,
       })
-      .where(eq(tournaments.directorPin, directorPin));
+      .where(eq(tournaments.directorId, directorId));
   }
 }
 
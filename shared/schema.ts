@@ -17,6 +17,7 @@ export const universalPlayers = pgTable("universal_players", {
   handicap: real("handicap"),
   isProvisional: boolean("is_provisional").notNull().default(true),
   completedTournaments: integer("completed_tournaments").notNull().default(0),
+  handicapCalculation: jsonb("handicap_calculation").$type<HandicapCalculation>(), // inputs behind the current handicap
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -26,6 +27,35 @@ export const universalPlayersRelations = relations(universalPlayers, ({ many })
   tournamentPlayers: many(tournamentPlayers),
 }));
 
+// Handicap revisions - every change to a player's handicap, why it happened and who caused it
+export const handicapRevisions = pgTable("handicap_revisions", {
+  id: serial("id").primaryKey(),
+  universalPlayerId: integer("universal_player_id").notNull().references(() => universalPlayers.id, { onDelete: "cascade" }),
+  handicap: real("handicap"),
+  previousHandicap: real("previous_handicap"),
+  isProvisional: boolean("is_provisional").notNull(),
+  reason: text("reason").notNull(), // see HandicapRevisionReason
+  actorDirectorId: integer("actor_director_id").references(() => directors.id, { onDelete: "set null" }),
+  actorName: text("actor_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Duplicate candidates - pairs of universal players the background scan thinks are one person.
+// Pairs are stored lowest id first; a dismissed pair is never queued again
+export const duplicateCandidates = pgTable("duplicate_candidates", {
+  id: serial("id").primaryKey(),
+  playerAId: integer("player_a_id").notNull().references(() => universalPlayers.id, { onDelete: "cascade" }),
+  playerBId: integer("player_b_id").notNull().references(() => universalPlayers.id, { onDelete: "cascade" }),
+  score: real("score").notNull(),
+  reasons: jsonb("reasons").$type<string[]>().notNull(),
+  status: text("status").notNull().default("pending"), // pending | dismissed
+  detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  reviewedByDirectorId: integer("reviewed_by_director_id").references(() => directors.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+}, (table) => [
+  uniqueIndex("idx_duplicate_candidates_pair").on(table.playerAId, table.playerBId),
+]);
+
 // Player Tournament History - stores completed tournament results for handicap calculation
 export const playerTournamentHistory = pgTable("player_tournament_history", {
   id: serial("id").primaryKey(),
@@ -41,6 +71,7 @@ export const playerTournamentHistory = pgTable("player_tournament_history", {
   totalPenalties: integer("total_penalties").default(0),
   completedAt: timestamp("completed_at").defaultNow().notNull(),
   isManualEntry: boolean("is_manual_entry").default(false),
+  supersededAt: timestamp("superseded_at"), // set when the tournament is reopened; re-completing rewrites or removes the row
 });
 
 export const playerTournamentHistoryRelations = relations(playerTournamentHistory, ({ one }) => ({
@@ -54,6 +85,39 @@ export const playerTournamentHistoryRelations = relations(playerTournamentHistor
   }),
 }));
 
+// Directors - tournament director accounts, signed in with a bcrypt-hashed PIN
+export const directors = pgTable("directors", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email"),
+  pinHash: text("pin_hash").notNull(),
+  isAdmin: boolean("is_admin").notNull().default(false), // can create, rotate and disable directors
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Director sessions - issued on sign-in; only a SHA-256 of the token is stored
+export const directorSessions = pgTable("director_sessions", {
+  id: serial("id").primaryKey(),
+  directorId: integer("director_id").notNull().references(() => directors.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+// Player sessions - issued on player login; only a SHA-256 of the token is stored
+export const playerSessions = pgTable("player_sessions", {
+  id: serial("id").primaryKey(),
+  universalPlayerId: integer("universal_player_id").notNull().references(() => universalPlayers.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  deviceLabel: text("device_label"), // e.g. "Safari on iPhone"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
 // Tournament/Room table - for live leaderboard sync
 export const tournaments = pgTable("tournaments", {
   id: serial("id").primaryKey(),
@@ -87,12 +151,23 @@ export const tournaments = pgTable("tournaments", {
   isActive: boolean("is_active").notNull().default(true),
   isStarted: boolean("is_started").notNull().default(false),
   isHandicapped: boolean("is_handicapped").notNull().default(false),
-  directorPin: text("director_pin").notNull(),
+  directorId: integer("director_id").references(() => directors.id), // owning director
+  directorPin: text("director_pin"), // legacy per-tournament PIN, grants nothing; cleared once an admin assigns a director
   createdAt: timestamp("created_at").defaultNow().notNull(),
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   groupStartingHoles: jsonb("group_starting_holes").$type<Record<string, number>>(),
   sponsorPagesEnabled: boolean("sponsor_pages_enabled").notNull().default(false),
+  cheatRules: jsonb("cheat_rules").$type<Partial<CheatRules>>(),
+  tieBreakPolicy: text("tie_break_policy").notNull().default("shared"), // how players level on score are ordered
+  holeCount: integer("hole_count").notNull().default(18), // holes in a round; scores above it are rejected
+  roundCount: integer("round_count").notNull().default(1),
+  currentRound: integer("current_round").notNull().default(1), // round that new scores are written to
+  cutAfterRound: integer("cut_after_round"), // null when the event has no cut
+  cutSize: integer("cut_size"), // players kept at the cut, plus anyone tied with the last of them
+  courseLayout: jsonb("course_layout").$type<CourseHole[]>(), // official par per hole; null lets devices draw par
+  deckCards: jsonb("deck_cards").$type<DeckCard[]>(), // par-card deck dealt from the server; null when groups draw physical cards
+  deckSeed: text("deck_seed"), // chosen when the tournament starts; fixes the deck order for every group
 });
 
 export const tournamentsRelations = relations(tournaments, ({ many }) => ({
@@ -111,6 +186,10 @@ export const tournamentPlayers = pgTable("tournament_players", {
   universalPlayerId: integer("universal_player_id").references(() => universalPlayers.id),
   contactInfo: text("contact_info"),
   isDnf: boolean("is_dnf").notNull().default(false),
+  handicapSnapshot: real("handicap_snapshot"), // universal handicap captured when the tournament starts, or when a player joins or is linked after it
+  cutAfterRound: integer("cut_after_round"), // set when the player missed the cut made after this round
+  divisionId: integer("division_id").references(() => tournamentDivisions.id, { onDelete: "set null" }),
+  divisionAssignedManually: boolean("division_assigned_manually").notNull().default(false), // kept when flights are re-run
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -126,6 +205,19 @@ export const tournamentPlayersRelations = relations(tournamentPlayers, ({ one, m
   scores: many(tournamentScores),
 }));
 
+// Flights or divisions within a tournament, each with its own leaderboard and payout. A handicap
+// band (min inclusive, max exclusive, either end open when null) makes it a flight that players are
+// sorted into at start; a division without a band, such as juniors, is only filled by hand.
+export const tournamentDivisions = pgTable("tournament_divisions", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  minHandicap: real("min_handicap"),
+  maxHandicap: real("max_handicap"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const tournamentRegistrations = pgTable("tournament_registrations", {
   id: serial("id").primaryKey(),
   tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
@@ -140,7 +232,8 @@ export const tournamentRegistrations = pgTable("tournament_registrations", {
 });
 
 export const directorContentDefaults = pgTable("director_content_defaults", {
-  directorPin: text("director_pin").primaryKey(),
+  directorId: integer("director_id").unique().references(() => directors.id),
+  directorPin: text("director_pin"), // legacy key from before director accounts, cleared once migrated
   rulesText: text("rules_text"),
   faqItems: jsonb("faq_items").$type<Array<{ question: string; answer: string }>>().notNull().default(sql`'[]'::jsonb`),
   faqItemsCustomized: boolean("faq_items_customized").notNull().default(false),
@@ -157,13 +250,16 @@ export const directorContentDefaults = pgTable("director_content_defaults", {
 export const tournamentScores = pgTable("tournament_scores", {
   id: serial("id").primaryKey(),
   tournamentPlayerId: integer("tournament_player_id").notNull().references(() => tournamentPlayers.id),
+  round: integer("round").notNull().default(1),
   hole: integer("hole").notNull(),
   par: integer("par").notNull(),
   strokes: integer("strokes").notNull(),
   scratches: integer("scratches").notNull().default(0),
   penalties: integer("penalties").notNull().default(0),
+  version: integer("version").notNull().default(1), // bumped on every write; clients echo it back
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
-  uniqueIndex("idx_tournament_scores_player_hole").on(table.tournamentPlayerId, table.hole),
+  uniqueIndex("idx_tournament_scores_player_round_hole").on(table.tournamentPlayerId, table.round, table.hole),
 ]);
 
 export const tournamentScoresRelations = relations(tournamentScores, ({ one }) => ({
@@ -173,6 +269,54 @@ export const tournamentScoresRelations = relations(tournamentScores, ({ one }) =
   }),
 }));
 
+// Append-only log of score writes: who changed which hole, through which route, and from what
+export const scoreHistory = pgTable("score_history", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id, { onDelete: "cascade" }),
+  tournamentPlayerId: integer("tournament_player_id").notNull().references(() => tournamentPlayers.id, { onDelete: "cascade" }),
+  round: integer("round").notNull().default(1),
+  hole: integer("hole").notNull(),
+  actorType: text("actor_type").notNull(), // see ScoreActorType
+  actorId: text("actor_id"), // device ID, player code or director ID
+  actorName: text("actor_name"),
+  source: text("source").notNull(), // route that made the change, e.g. "/scores/batch"
+  previousPar: integer("previous_par"),
+  previousStrokes: integer("previous_strokes"),
+  previousScratches: integer("previous_scratches"),
+  previousPenalties: integer("previous_penalties"),
+  newPar: integer("new_par").notNull(),
+  newStrokes: integer("new_strokes").notNull(),
+  newScratches: integer("new_scratches").notNull(),
+  newPenalties: integer("new_penalties").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Sudden-death playoffs between players level on the final leaderboard. Playoff holes are
+// scored in playoff_scores, never tournament_scores, so they don't touch relativeToPar or handicaps.
+export const tournamentPlayoffs = pgTable("tournament_playoffs", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // leaderboard position the players were tied on
+  playerIds: jsonb("player_ids").$type<number[]>().notNull(),
+  holes: jsonb("holes").$type<PlayoffHole[]>().notNull(), // played in order, repeating while still tied
+  status: text("status").notNull().default("active"), // see PlayoffStatus
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const playoffScores = pgTable("playoff_scores", {
+  id: serial("id").primaryKey(),
+  playoffId: integer("playoff_id").notNull().references(() => tournamentPlayoffs.id, { onDelete: "cascade" }),
+  tournamentPlayerId: integer("tournament_player_id").notNull().references(() => tournamentPlayers.id, { onDelete: "cascade" }),
+  round: integer("round").notNull(), // 1-based playoff hole number
+  strokes: integer("strokes").notNull(),
+  scratches: integer("scratches").notNull().default(0),
+  penalties: integer("penalties").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_playoff_scores_playoff_player_round").on(table.playoffId, table.tournamentPlayerId, table.round),
+]);
+
 // Tournament sponsors - sponsor cards shown to players on join
 export const tournamentSponsors = pgTable("tournament_sponsors", {
   id: serial("id").primaryKey(),
@@ -196,7 +340,8 @@ export const tournamentSponsorsRelations = relations(tournamentSponsors, ({ one
 // Tournament payouts - payout calculations linked to tournaments
 export const tournamentPayouts = pgTable("tournament_payouts", {
   id: serial("id").primaryKey(),
-  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id).unique(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id),
+  divisionId: integer("division_id").references(() => tournamentDivisions.id, { onDelete: "cascade" }), // null for the whole field
   numPlayers: integer("num_players").notNull(),
   entryFee: real("entry_fee").notNull(),
   greenFee: real("green_fee").notNull().default(0),
@@ -205,7 +350,26 @@ export const tournamentPayouts = pgTable("tournament_payouts", {
   percentages: jsonb("percentages").notNull().$type<number[]>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Division 0 stands in for the whole field so it is unique too, without Postgres 15's NULLS NOT DISTINCT
+  uniqueIndex("idx_tournament_payouts_tournament_division").on(table.tournamentId, sql`COALESCE(${table.divisionId}, 0)`),
+]);
+
+// Money actually handed out from a payout: one row per player marked paid, with the amount
+// recorded at the time so a later change in standings can't silently rewrite what was paid
+export const payoutDisbursements = pgTable("payout_disbursements", {
+  id: serial("id").primaryKey(),
+  payoutId: integer("payout_id").notNull().references(() => tournamentPayouts.id, { onDelete: "cascade" }),
+  tournamentPlayerId: integer("tournament_player_id").notNull().references(() => tournamentPlayers.id, { onDelete: "cascade" }),
+  amount: real("amount").notNull(),
+  method: text("method").notNull(), // see PayoutMethod
+  note: text("note"),
+  paidByDirectorId: integer("paid_by_director_id").references(() => directors.id, { onDelete: "set null" }),
+  paidByName: text("paid_by_name"),
+  paidAt: timestamp("paid_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_payout_disbursements_payout_player").on(table.payoutId, table.tournamentPlayerId),
+]);
 
 export const tournamentPayoutsRelations = relations(tournamentPayouts, ({ one }) => ({
   tournament: one(tournaments, {
@@ -214,6 +378,79 @@ export const tournamentPayoutsRelations = relations(tournamentPayouts, ({ one })
   }),
 }));
 
+// Cheat alerts - suspicious scoring flagged by the detection rules, reviewed by directors
+export const cheatAlerts = pgTable("cheat_alerts", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").references(() => tournaments.id, { onDelete: "cascade" }),
+  roomCode: text("room_code"),
+  tournamentPlayerId: integer("tournament_player_id"),
+  playerName: text("player_name").notNull(),
+  hole: integer("hole"),
+  par: integer("par"),
+  scratches: integer("scratches"),
+  alertType: text("alert_type").notNull(), // see CheatAlertType
+  message: text("message").notNull(),
+  status: text("status").notNull().default("open"), // open | confirmed | dismissed
+  reviewNote: text("review_note"),
+  reviewedBy: text("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Tournament staff - directors delegated assistant or scorer access by the head director
+export const tournamentStaff = pgTable("tournament_staff", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id, { onDelete: "cascade" }),
+  directorId: integer("director_id").notNull().references(() => directors.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // assistant | scorer
+  grantedBy: integer("granted_by").references(() => directors.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_tournament_staff_tournament_director").on(table.tournamentId, table.directorId),
+]);
+
+// Hole cards - a director's reusable par cards, each with the table layout players set up
+export const holeCards = pgTable("hole_cards", {
+  id: serial("id").primaryKey(),
+  directorId: integer("director_id").notNull().references(() => directors.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  par: integer("par").notNull(),
+  diagram: jsonb("diagram").$type<TableDiagram>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Courses - named, ordered sets of hole cards that tournaments load as their course layout
+export const courses = pgTable("courses", {
+  id: serial("id").primaryKey(),
+  directorId: integer("director_id").notNull().references(() => directors.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  cardIds: jsonb("card_ids").$type<number[]>().notNull(), // hole 1 first
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Deck draws - every card a device drew from a tournament's deck, kept for auditing the draw
+export const deckDraws = pgTable("deck_draws", {
+  id: serial("id").primaryKey(),
+  tournamentId: integer("tournament_id").notNull().references(() => tournaments.id, { onDelete: "cascade" }),
+  round: integer("round").notNull(),
+  hole: integer("hole").notNull(),
+  position: integer("position").notNull(), // 1-based place of the card in the shuffled deck
+  par: integer("par").notNull(),
+  holeCardId: integer("hole_card_id"),
+  deviceId: text("device_id").notNull(),
+  drawnAt: timestamp("drawn_at").defaultNow().notNull(),
+});
+
+// Handicap settings - the single site-wide handicap policy, edited by admin directors
+export const handicapSettings = pgTable("handicap_settings", {
+  id: serial("id").primaryKey(),
+  policy: jsonb("policy").$type<Partial<HandicapPolicy>>().notNull(),
+  updatedByDirectorId: integer("updated_by_director_id").references(() => directors.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Push notification subscriptions
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: serial("id").primaryKey(),
@@ -228,16 +465,21 @@ export const pushSubscriptions = pgTable("push_subscriptions", {
 });
 
 // Insert schemas for database operations
-export const insertUniversalPlayerSchema = createInsertSchema(universalPlayers).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertPlayerTournamentHistorySchema = createInsertSchema(playerTournamentHistory).omit({ id: true, completedAt: true });
+export const insertUniversalPlayerSchema = createInsertSchema(universalPlayers).omit({ id: true, handicapCalculation: true, createdAt: true, updatedAt: true });
+export const insertPlayerTournamentHistorySchema = createInsertSchema(playerTournamentHistory).omit({ id: true, completedAt: true, supersededAt: true });
 export const insertTournamentSchema = createInsertSchema(tournaments).omit({ id: true, createdAt: true });
 export const insertTournamentPlayerSchema = createInsertSchema(tournamentPlayers).omit({ id: true, createdAt: true });
-export const insertTournamentScoreSchema = createInsertSchema(tournamentScores).omit({ id: true });
+export const insertTournamentScoreSchema = createInsertSchema(tournamentScores).omit({ id: true, version: true, updatedAt: true });
 export const insertTournamentPayoutSchema = createInsertSchema(tournamentPayouts).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({ id: true, createdAt: true });
 export const insertTournamentSponsorSchema = createInsertSchema(tournamentSponsors).omit({ id: true, createdAt: true });
 export const insertTournamentRegistrationSchema = createInsertSchema(tournamentRegistrations).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertDirectorContentDefaultsSchema = createInsertSchema(directorContentDefaults).omit({ updatedAt: true });
+export const insertDirectorSchema = createInsertSchema(directors).omit({ id: true, createdAt: true, updatedAt: true, lastLoginAt: true });
+export const insertTournamentStaffSchema = createInsertSchema(tournamentStaff).omit({ id: true, createdAt: true });
+export const insertScoreHistorySchema = createInsertSchema(scoreHistory).omit({ id: true, createdAt: true });
+export const insertPlayoffScoreSchema = createInsertSchema(playoffScores).omit({ id: true, updatedAt: true });
+export const insertCheatAlertSchema = createInsertSchema(cheatAlerts).omit({ id: true, createdAt: true, status: true, reviewNote: true, reviewedBy: true, reviewedAt: true });
 
 // Types from database
 export type UniversalPlayer = typeof universalPlayers.$inferSelect;
@@ -250,16 +492,37 @@ export type TournamentPlayer = typeof tournamentPlayers.$inferSelect;
 export type InsertTournamentPlayer = z.infer<typeof insertTournamentPlayerSchema>;
 export type TournamentScore = typeof tournamentScores.$inferSelect;
 export type InsertTournamentScore = z.infer<typeof insertTournamentScoreSchema>;
+export type ScoreHistoryEntry = typeof scoreHistory.$inferSelect;
+export type InsertScoreHistoryEntry = z.infer<typeof insertScoreHistorySchema>;
+export type TournamentPlayoff = typeof tournamentPlayoffs.$inferSelect;
+export type PlayoffScore = typeof playoffScores.$inferSelect;
+export type InsertPlayoffScore = z.infer<typeof insertPlayoffScoreSchema>;
+export type TournamentDivision = typeof tournamentDivisions.$inferSelect;
 export type TournamentPayout = typeof tournamentPayouts.$inferSelect;
+export type PayoutDisbursement = typeof payoutDisbursements.$inferSelect;
 export type InsertTournamentPayout = z.infer<typeof insertTournamentPayoutSchema>;
 export type TournamentRegistration = typeof tournamentRegistrations.$inferSelect;
 export type InsertTournamentRegistration = z.infer<typeof insertTournamentRegistrationSchema>;
+export type Director = typeof directors.$inferSelect;
+export type InsertDirector = z.infer<typeof insertDirectorSchema>;
+export type DirectorSession = typeof directorSessions.$inferSelect;
+export type PlayerSession = typeof playerSessions.$inferSelect;
 export type DirectorContentDefaults = typeof directorContentDefaults.$inferSelect;
 export type InsertDirectorContentDefaults = z.infer<typeof insertDirectorContentDefaultsSchema>;
+export type CheatAlert = typeof cheatAlerts.$inferSelect;
+export type InsertCheatAlert = z.infer<typeof insertCheatAlertSchema>;
+export type TournamentStaff = typeof tournamentStaff.$inferSelect;
+export type InsertTournamentStaff = z.infer<typeof insertTournamentStaffSchema>;
 export type PushSubscription = typeof pushSubscriptions.$inferSelect;
 export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
 export type TournamentSponsor = typeof tournamentSponsors.$inferSelect;
 export type InsertTournamentSponsor = z.infer<typeof insertTournamentSponsorSchema>;
+export type HoleCard = typeof holeCards.$inferSelect;
+export type Course = typeof courses.$inferSelect;
+export type DeckDraw = typeof deckDraws.$inferSelect;
+export type HandicapSettings = typeof handicapSettings.$inferSelect;
+export type HandicapRevision = typeof handicapRevisions.$inferSelect;
+export type DuplicateCandidate = typeof duplicateCandidates.$inferSelect;
 
 // Zod schemas for local game state (not stored in DB - kept in localStorage)
 export const playerSchema = z.object({
@@ -288,6 +551,7 @@ export const gameSessionSchema = z.object({
   currentPlayerIndex: z.number(),
   holesCompleted: z.number().default(0),
   startingHole: z.number().default(1),
+  holeCount: z.number().default(18),
   scores: z.record(z.string(), z.array(holeScoreSchema)),
   isComplete: z.boolean(),
   createdAt: z.string(),
@@ -321,6 +585,126 @@ export const setupTimeSchema = z.object({
 
 export type SetupTime = z.infer<typeof setupTimeSchema>;
 
+export const holeCountSchema = z.number().int().min(1).max(36);
+
+// One hole of a tournament's course layout. Holes left out of the layout keep the drawn par.
+export const courseHoleSchema = z.object({
+  hole: z.number().int().min(1),
+  par: z.number().int().min(1).max(5),
+  cardId: z.string().trim().max(40).nullable().default(null),
+  description: z.string().trim().max(200).nullable().default(null),
+  holeCardId: z.number().int().positive().nullable().default(null), // library card whose diagram players set up
+});
+export type CourseHole = z.infer<typeof courseHoleSchema>;
+
+export const courseLayoutSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  holes: z.array(courseHoleSchema).max(36),
+}).refine(l => new Set(l.holes.map(h => h.hole)).size === l.holes.length, {
+  message: "Each hole can only appear once in the course layout",
+});
+
+// A ball on a hole card's table diagram. x and y are fractions of the playing surface,
+// x running along the long rail from the head of the table.
+export const tableBallSchema = z.object({
+  ball: z.number().int().min(0).max(15), // 0 is the cue ball
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+export type TableBall = z.infer<typeof tableBallSchema>;
+
+export const tableDiagramSchema = z.object({
+  balls: z.array(tableBallSchema).max(16),
+}).refine(d => new Set(d.balls.map(b => b.ball)).size === d.balls.length, {
+  message: "Each ball can only be placed once",
+});
+export type TableDiagram = z.infer<typeof tableDiagramSchema>;
+
+export const holeCardInputSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  name: z.string().trim().min(1, "Card name is required").max(60),
+  par: z.number().int().min(1).max(5),
+  diagram: tableDiagramSchema,
+});
+
+export const courseInputSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  name: z.string().trim().min(1, "Course name is required").max(60),
+  cardIds: z.array(z.number().int().positive()).min(1, "Add at least one hole card").max(36),
+});
+
+export const applyCourseSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  courseId: z.number().int().positive(),
+});
+
+// One card in a tournament's par-card deck; library cards bring their table diagram along
+export const deckCardSchema = z.object({
+  par: z.number().int().min(1).max(5),
+  holeCardId: z.number().int().positive().nullable().default(null),
+});
+export type DeckCard = z.infer<typeof deckCardSchema>;
+
+export const deckSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  cards: z.array(deckCardSchema).max(104),
+});
+
+export const deckDrawSchema = z.object({
+  deviceId: z.string().min(1, "Device ID is required"),
+  hole: z.number().int().min(1),
+});
+
+export const roundSettingsSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  roundCount: z.number().int().min(1).max(8),
+  cutAfterRound: z.number().int().min(1).nullable().default(null),
+  cutSize: z.number().int().min(1).nullable().default(null),
+}).refine(s => (s.cutAfterRound === null) === (s.cutSize === null), {
+  message: "Set both the cut round and the number of players kept, or neither",
+}).refine(s => s.cutAfterRound === null || s.cutAfterRound < s.roundCount, {
+  message: "The cut must come before the final round",
+});
+
+// "keep" leaves groups as they are; "standings" re-pairs the field by cumulative score, leaders last
+export const roundPairingSchema = z.enum(["keep", "standings"]);
+export type RoundPairing = z.infer<typeof roundPairingSchema>;
+
+export const advanceRoundSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  pairing: roundPairingSchema.default("keep"),
+});
+
+// Divisions are saved as a whole list in display order; entries with an id update that division,
+// the rest are created, and divisions left out are deleted along with their payouts
+export const divisionInputSchema = z.object({
+  id: z.number().int().optional(),
+  name: z.string().trim().min(1, "Division name is required").max(40),
+  minHandicap: z.number().nullable().default(null),
+  maxHandicap: z.number().nullable().default(null),
+}).refine(d => d.minHandicap === null || d.maxHandicap === null || d.minHandicap < d.maxHandicap, {
+  message: "A flight's minimum handicap must be below its maximum",
+});
+
+export const setDivisionsSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  divisions: z.array(divisionInputSchema).max(12),
+});
+
+// "auto" hands the player back to handicap flighting instead of pinning them to divisionId
+export const setPlayerDivisionSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  divisionId: z.number().int().nullable().default(null),
+  auto: z.boolean().default(false),
+});
+
+export const tieBreakPolicySchema = z.enum(["shared", "countback", "fewest_scratches", "fewest_penalties"]);
+export type TieBreakPolicy = z.infer<typeof tieBreakPolicySchema>;
+
+// "shared" means the policy ran out of rules and both players hold the same position
+export const tieBreakRuleSchema = z.enum(["countback_9", "countback_6", "countback_3", "countback_1", "fewest_scratches", "fewest_penalties", "playoff", "shared"]);
+export type TieBreakRule = z.infer<typeof tieBreakRuleSchema>;
+
 // Leaderboard entry type for API responses
 export const leaderboardEntrySchema = z.object({
   playerId: z.number(),
@@ -332,10 +716,273 @@ export const leaderboardEntrySchema = z.object({
   relativeToPar: z.number(),
   totalScratches: z.number(),
   totalPenalties: z.number(),
+  handicap: z.number().nullable(),
+  netStrokes: z.number(),
+  netRelativeToPar: z.number(),
+  position: z.number(), // shared by players the tie-break policy could not separate
+  tieBreak: tieBreakRuleSchema.nullable(), // rule deciding the order against the player above, when level on score
+  cutAfterRound: z.number().nullable(), // missed the cut made after this round; listed below everyone who made it
+  divisionId: z.number().nullable(),
+  rounds: z.array(z.object({
+    round: z.number(),
+    totalStrokes: z.number(),
+    relativeToPar: z.number(),
+    holesCompleted: z.number(),
+  })),
 });
 
+export const leaderboardRankingSchema = z.enum(["gross", "net"]);
+export type LeaderboardRanking = z.infer<typeof leaderboardRankingSchema>;
+
 export type LeaderboardEntry = z.infer<typeof leaderboardEntrySchema>;
 
+// Sorts a leaderboard into finishing order and numbers its positions. Players who missed the cut
+// go below everyone who made it when ranking the whole event (no round given). Players level on
+// score are split by the tie-break policy, with tieBreak naming the rule that separated each one
+// from the player above, or share the position. holeScores holds each player's scores for the
+// round countback looks at.
+export function rankLeaderboard(leaderboard: LeaderboardEntry[], holeScores: Map<number, TournamentScore[]>, ranking: LeaderboardRanking, tieBreakPolicy: TieBreakPolicy, holeCount = 18, round?: number): void {
+  const missedCut = (entry: LeaderboardEntry) => round === undefined && entry.cutAfterRound != null;
+
+  const rankedScore = (entry: LeaderboardEntry) => ranking === "net" ? entry.netRelativeToPar : entry.relativeToPar;
+
+  // Score over the last `count` holes of the round, counting only holes both players have
+  // finished so a group that started elsewhere on the course isn't judged on unplayed holes
+  const countback = (a: LeaderboardEntry, b: LeaderboardEntry, count: number) => {
+    const aScores = holeScores.get(a.playerId) ?? [];
+    const bScores = holeScores.get(b.playerId) ?? [];
+    const shared = new Set(aScores.map(s => s.hole).filter(hole => hole > holeCount - count && bScores.some(s => s.hole === hole)));
+    const score = (entry: LeaderboardEntry, scores: TournamentScore[]) => {
+      const gross = scores
+        .filter(s => shared.has(s.hole))
+        .reduce((sum, s) => sum + s.strokes + s.scratches + s.penalties - s.par, 0);
+      return ranking === "net" && entry.handicap != null ? gross - entry.handicap * shared.size / 18 : gross;
+    };
+    return score(a, aScores) - score(b, bScores);
+  };
+
+  const tieBreakRules: { rule: TieBreakRule; compare: (a: LeaderboardEntry, b: LeaderboardEntry) => number }[] =
+    tieBreakPolicy === "countback"
+      ? ([9, 6, 3, 1] as const).map(count => ({
+          rule: `countback_${count}` as TieBreakRule,
+          compare: (a: LeaderboardEntry, b: LeaderboardEntry) => countback(a, b, count),
+        }))
+      : tieBreakPolicy === "fewest_scratches"
+        ? [{ rule: "fewest_scratches", compare: (a, b) => a.totalScratches - b.totalScratches }]
+        : tieBreakPolicy === "fewest_penalties"
+          ? [{ rule: "fewest_penalties", compare: (a, b) => a.totalPenalties - b.totalPenalties }]
+          : [];
+
+  // First rule that separates two players level on score, or "shared" if none does
+  const breakTie = (a: LeaderboardEntry, b: LeaderboardEntry): { rule: TieBreakRule; diff: number } => {
+    for (const { rule, compare } of tieBreakRules) {
+      const diff = compare(a, b);
+      if (diff !== 0) return { rule, diff };
+    }
+    return { rule: "shared", diff: 0 };
+  };
+
+  leaderboard.sort((a, b) => {
+    if (missedCut(a) !== missedCut(b)) {
+      return missedCut(a) ? 1 : -1;
+    }
+    if (rankedScore(a) !== rankedScore(b)) {
+      return rankedScore(a) - rankedScore(b);
+    }
+    const { diff } = breakTie(a, b);
+    if (diff !== 0) {
+      return diff;
+    }
+    // Players sharing a position are listed by who is furthest through the round
+    if (b.holesCompleted !== a.holesCompleted) {
+      return b.holesCompleted - a.holesCompleted;
+    }
+    return a.totalStrokes - b.totalStrokes;
+  });
+
+  leaderboard.forEach((entry, index) => {
+    const above = leaderboard[index - 1];
+    if (!above || missedCut(above) !== missedCut(entry) || rankedScore(above) !== rankedScore(entry)) {
+      entry.position = index + 1;
+      return;
+    }
+    entry.tieBreak = breakTie(above, entry).rule;
+    entry.position = entry.tieBreak === "shared" ? above.position : index + 1;
+  });
+}
+
+export const scoreActorTypeSchema = z.enum(["director", "player", "device", "unknown"]);
+export type ScoreActorType = z.infer<typeof scoreActorTypeSchema>;
+
+// Returned when a score write carries a stale version: what the client tried to save
+// alongside what the server currently holds for that player/hole
+export interface ScoreConflict {
+  tournamentPlayerId: number;
+  round: number;
+  hole: number;
+  attempted: { par: number; strokes: number; scratches: number; penalties: number };
+  current: TournamentScore;
+}
+
+// A /scores/batch entry the server refused outright (malformed, past the last hole, a round not in
+// play, wrong par, missed cut). Resending it unchanged fails the same way. index is the entry's position in the request.
+export interface ScoreRejection {
+  index: number;
+  tournamentPlayerId: number | null;
+  hole: number | null;
+  error: string;
+}
+
+export const holeDifficultyScopeSchema = z.enum(["tournament", "completed"]);
+export type HoleDifficultyScope = z.infer<typeof holeDifficultyScopeSchema>;
+
+export const holeDifficultyGroupingSchema = z.enum(["hole", "card"]);
+export type HoleDifficultyGrouping = z.infer<typeof holeDifficultyGroupingSchema>;
+
+// How one hole or card has played. Relative to par counts strokes, scratches and penalties like the
+// leaderboard; distribution is keyed by that difference so clients can bucket it with their callouts.
+export interface HoleDifficulty {
+  key: string; // "hole:3", "card:12" for a library card, or "card:A7" for a physical card ID
+  hole: number | null;
+  holeCardId: number | null;
+  label: string;
+  scoreCount: number;
+  averagePar: number;
+  averageToPar: number;
+  scratchRate: number; // share of scores with at least one scratch
+  distribution: Record<number, number>;
+  strokeIndex: number; // 1 is the hardest
+}
+
+// Handicap strokes per hole, given each hole's stroke index (strokeIndex[0] is hole 1's). The
+// per-18 handicap is scaled to the round, every hole gets the even share, and the hardest holes
+// take the remainder; plus handicaps give strokes back on the easiest holes first.
+export function allocateHandicapStrokes(handicap: number, strokeIndex: number[]): number[] {
+  const holes = strokeIndex.length;
+  const total = Math.round(handicap * holes / 18);
+  const base = holes > 0 ? Math.trunc(total / holes) : 0;
+  const extra = total - base * holes;
+  return strokeIndex.map(index => base + (extra > 0 && index <= extra ? 1 : extra < 0 && index > holes + extra ? -1 : 0));
+}
+
+// Prize pool from a payout config: every entry fee less the green fee, plus any added money
+export function calculatePrizePool(payout: Pick<TournamentPayout, "numPlayers" | "entryFee" | "greenFee" | "addedPrize">): number {
+  return payout.numPlayers * Math.max(0, payout.entryFee - payout.greenFee) + payout.addedPrize;
+}
+
+// Dollar amount for each paid place. Amounts snap to $5 and the largest place absorbs the
+// rounding, so the places always add up to the pool.
+export function allocatePlaceAmounts(pool: number, percentages: number[]): number[] {
+  const snapped = percentages.map(pct => Math.round((pct / 100) * pool / 5) * 5);
+  const diff = pool - snapped.reduce((sum, v) => sum + v, 0);
+  if (diff !== 0 && snapped.length > 0) {
+    let maxIdx = 0;
+    for (let i = 1; i < snapped.length; i++) {
+      if (snapped[i] > snapped[maxIdx]) maxIdx = i;
+    }
+    snapped[maxIdx] += diff;
+  }
+  return snapped;
+}
+
+// Hands out place amounts down the final standings. Players sharing a position pool the money
+// for every place they span (places past the last paid one add nothing) and split it evenly,
+// with leftover cents going to whoever is listed first. Standings must be in leaderboard order.
+export function splitPayoutsByStanding(placeAmounts: number[], standings: { playerId: number; position: number }[]): { playerId: number; places: number[]; amount: number }[] {
+  const results: { playerId: number; places: number[]; amount: number }[] = [];
+  let nextPlace = 1;
+  for (let i = 0; i < standings.length;) {
+    let end = i + 1;
+    while (end < standings.length && standings[end].position === standings[i].position) end++;
+    const group = standings.slice(i, end);
+    const places = group.map((_, n) => nextPlace + n);
+    const totalCents = Math.round(places.reduce((sum, place) => sum + (placeAmounts[place - 1] ?? 0), 0) * 100);
+    const shareCents = Math.floor(totalCents / group.length);
+    group.forEach((entry, n) => {
+      const cents = shareCents + (n < totalCents - shareCents * group.length ? 1 : 0);
+      results.push({ playerId: entry.playerId, places, amount: cents / 100 });
+    });
+    nextPlace += group.length;
+    i = end;
+  }
+  return results;
+}
+
+export const payoutMethodSchema = z.enum(["cash", "venmo", "paypal", "zelle", "check", "other"]);
+export type PayoutMethod = z.infer<typeof payoutMethodSchema>;
+
+export const markPayoutPaidSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  divisionId: z.number().int().nullable().default(null),
+  method: payoutMethodSchema,
+  note: z.string().trim().max(200).nullable().default(null),
+});
+
+export interface PayoutResultEntry {
+  tournamentPlayerId: number;
+  playerName: string;
+  position: number;
+  places: number[]; // places whose money this player shares, more than one when tied
+  amount: number;
+  paid: {
+    amount: number; // as recorded when marked paid; may differ if standings changed since
+    method: PayoutMethod;
+    note: string | null;
+    paidAt: string;
+    paidBy: string | null;
+  } | null;
+}
+
+// Payout sheet for one payout config (the whole field or one division)
+export interface PayoutResults {
+  payout: TournamentPayout;
+  divisionName: string | null;
+  ranking: LeaderboardRanking;
+  isFinal: boolean; // tournament completed, so standings won't move
+  pool: number;
+  placeAmounts: number[];
+  results: PayoutResultEntry[]; // everyone in the money
+  unassigned: number; // money for places no finisher reached
+  // Paid to players who no longer finish in the money
+  stalePaid: { tournamentPlayerId: number; playerName: string; amount: number; method: PayoutMethod; paidAt: string }[];
+}
+
+// A playoff hole is either a course hole or just a drawn par card
+export const playoffHoleSchema = z.object({
+  hole: z.number().int().min(1).nullable(),
+  par: z.number().int().min(1).max(5),
+});
+export type PlayoffHole = z.infer<typeof playoffHoleSchema>;
+
+// stale: decided, but the players are no longer tied exactly as they were, so the result is not applied
+export const playoffStatusSchema = z.enum(["active", "complete", "cancelled", "stale"]);
+export type PlayoffStatus = z.infer<typeof playoffStatusSchema>;
+
+export const createPlayoffSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  playerIds: z.array(z.number().int().positive()).min(2, "Pick at least two tied players"),
+  holes: z.array(playoffHoleSchema).min(1, "Pick at least one playoff hole").max(18),
+});
+
+export const playoffScoreSchema = z.object({
+  tournamentPlayerId: z.number().int().positive(),
+  round: z.number().int().positive(),
+  strokes: z.number().int().min(1),
+  scratches: z.number().int().min(0).optional(),
+  penalties: z.number().int().min(0).optional(),
+});
+
+// Where a playoff stands after applying sudden death to the scores entered so far
+export interface PlayoffStanding {
+  playoff: TournamentPlayoff;
+  scores: PlayoffScore[];
+  remainingPlayerIds: number[];
+  eliminated: { tournamentPlayerId: number; round: number }[];
+  currentRound: number | null; // round still being scored, null once decided
+  currentHole: PlayoffHole | null;
+  finishOrder: number[][] | null; // best first; players knocked out on the same round share a group
+}
+
 // Batch update schema for group assignments
 export const batchUpdateGroupsSchema = z.object({
   directorPin: z.string().min(1, "Director PIN is required"),
@@ -346,3 +993,242 @@ export const batchUpdateGroupsSchema = z.object({
 });
 
 export type BatchUpdateGroups = z.infer<typeof batchUpdateGroupsSchema>;
+
+// Cheat detection rules - stored per tournament, missing keys fall back to the defaults
+export const cheatAlertTypeSchema = z.enum(["par_with_scratch", "below_par_with_scratch", "rapid_scoring", "score_reduction", "login_lockout"]);
+export type CheatAlertType = z.infer<typeof cheatAlertTypeSchema>;
+
+export const cheatAlertStatusSchema = z.enum(["open", "confirmed", "dismissed"]);
+export type CheatAlertStatus = z.infer<typeof cheatAlertStatusSchema>;
+
+export const cheatRulesSchema = z.object({
+  parWithScratch: z.boolean(),
+  belowParWithScratch: z.boolean(),
+  scoreReduction: z.boolean(),
+  rapidScoring: z.boolean(),
+  rapidScoringWindowSeconds: z.number().int().min(10).max(3600),
+  rapidScoringMinScores: z.number().int().min(2).max(18),
+});
+
+export type CheatRules = z.infer<typeof cheatRulesSchema>;
+
+export const DEFAULT_CHEAT_RULES: CheatRules = {
+  parWithScratch: true,
+  belowParWithScratch: true,
+  scoreReduction: true,
+  rapidScoring: true,
+  rapidScoringWindowSeconds: 120,
+  rapidScoringMinScores: 3,
+};
+
+// How handicaps are worked out from history rows. Established players count their best
+// bestRounds of the last recentRounds; provisional players (fewer than provisionalRounds rounds)
+// count their best provisionalBestRounds, or all of them when that is null.
+export const handicapPolicySchema = z.object({
+  recentRounds: z.number().int().min(1).max(100),
+  bestRounds: z.number().int().min(1).max(100),
+  normalizeTo18: z.boolean(), // scale each round's relative-to-par to 18 holes using holesPlayed
+  maxIncrease: z.number().min(0).max(54).nullable(), // cap above the lowest handicap of the past year; null for no cap
+  provisionalRounds: z.number().int().min(1).max(50),
+  provisionalBestRounds: z.number().int().min(1).max(100).nullable(),
+  capProvisional: z.boolean(),
+});
+
+export type HandicapPolicy = z.infer<typeof handicapPolicySchema>;
+
+export const DEFAULT_HANDICAP_POLICY: HandicapPolicy = {
+  recentRounds: 20,
+  bestRounds: 8,
+  normalizeTo18: true,
+  maxIncrease: 3,
+  provisionalRounds: 5,
+  provisionalBestRounds: null,
+  capProvisional: false,
+};
+
+export const handicapRevisionReasonSchema = z.enum(["tournament_completion", "history_edit", "merge", "manual_override", "bulk_recalculation"]);
+export type HandicapRevisionReason = z.infer<typeof handicapRevisionReasonSchema>;
+
+// Why a handicap is being recalculated and who asked; a null director is the system or a legacy PIN
+export interface HandicapRevisionContext {
+  reason: HandicapRevisionReason;
+  actorDirectorId: number | null;
+  actorName: string | null;
+}
+
+// A universal player that might be the same person as a tournament entrant, best first
+export interface UniversalPlayerMatch {
+  universalPlayer: Omit<UniversalPlayer, "pin">;
+  score: number; // 0-1
+  reasons: string[];
+}
+
+// One side of a duplicate pair, with enough history to compare the two
+export interface DuplicatePlayerSummary {
+  player: Omit<UniversalPlayer, "pin" | "handicapCalculation">;
+  hasPin: boolean;
+  recentTournaments: string[];
+  lastPlayedAt: string | null;
+}
+
+export interface DuplicatePair {
+  id: number;
+  score: number;
+  reasons: string[];
+  detectedAt: string;
+  playerA: DuplicatePlayerSummary;
+  playerB: DuplicatePlayerSummary;
+}
+
+export interface LinkSuggestion {
+  tournamentPlayerId: number;
+  playerName: string;
+  matches: UniversalPlayerMatch[];
+}
+
+// One entry in a tournament completion plan; a dry run returns these without writing anything.
+// "update" and "remove" act on history rows superseded when the tournament was reopened
+export type CompletionAction = "save" | "update" | "remove" | "skip" | "already_recorded";
+
+export interface CompletionPreviewEntry {
+  tournamentPlayerId: number | null; // null for a superseded row whose player has left the tournament
+  playerName: string;
+  action: CompletionAction;
+  skipReason: string | null;
+  universalPlayerId: number | null;
+  universalPlayerName: string | null;
+  linkFromUniversalId: boolean; // resolved from the typed-in universal code; completing links it
+  history: InsertPlayerTournamentHistory | null;
+  previousHistory: PlayerTournamentHistory | null;
+  handicapBefore: number | null;
+  handicapAfter: number | null;
+  isProvisionalBefore: boolean | null;
+  isProvisionalAfter: boolean | null;
+}
+
+// Stored with each recalculation so players can see why their handicap is what it is
+export interface HandicapCalculation {
+  calculatedAt: string;
+  policy: HandicapPolicy;
+  isProvisional: boolean;
+  rounds: {
+    historyId: number;
+    tournamentName: string;
+    completedAt: string;
+    holesPlayed: number;
+    relativeToPar: number;
+    adjusted: number; // relative to par after normalization
+    counted: boolean;
+  }[]; // the most recent rounds considered, newest first
+  average: number | null; // mean of the counted rounds
+  lowHandicap: number | null; // lowest handicap of the past year, the base for the cap
+  capped: boolean;
+  handicap: number | null;
+}
+
+const roundHandicap = (value: number) => Math.round(value * 10) / 10;
+
+// Mean of the best rounds the policy counts from history rows (newest first), before any cap
+function averageBestRounds(history: PlayerTournamentHistory[], policy: HandicapPolicy) {
+  const isProvisional = history.length < policy.provisionalRounds;
+  const considered = history.slice(0, policy.recentRounds).map(row => ({
+    row,
+    adjusted: policy.normalizeTo18 && row.holesPlayed > 0
+      ? (row.totalStrokes - row.totalPar) * 18 / row.holesPlayed
+      : row.totalStrokes - row.totalPar,
+  }));
+  const bestCount = isProvisional ? policy.provisionalBestRounds ?? considered.length : policy.bestRounds;
+  const counted = [...considered].sort((a, b) => a.adjusted - b.adjusted).slice(0, bestCount);
+  const average = counted.length > 0 ? roundHandicap(counted.reduce((sum, c) => sum + c.adjusted, 0) / counted.length) : null;
+  return { isProvisional, considered, counted, average };
+}
+
+// Handicap under a policy. Upward movement is capped against the lowest handicap the player held
+// over the past year, worked out again from the history as it stood after each earlier round, so
+// running a recalculation twice never ratchets the number.
+export function calculateHandicap(history: PlayerTournamentHistory[], policy: HandicapPolicy, now = new Date()): HandicapCalculation {
+  const { isProvisional, considered, counted, average } = averageBestRounds(history, policy);
+  const yearAgo = now.getTime() - 365 * 24 * 60 * 60 * 1000;
+  const earlier = history
+    .map((row, i) => ({ row, i }))
+    .filter(({ row, i }) => i > 0 && new Date(row.completedAt).getTime() >= yearAgo)
+    .map(({ i }) => averageBestRounds(history.slice(i), policy))
+    .filter(state => !state.isProvisional && state.average !== null)
+    .map(state => state.average!);
+  const lowHandicap = earlier.length > 0 ? Math.min(...earlier) : null;
+  const capApplies = policy.maxIncrease !== null && lowHandicap !== null && (!isProvisional || policy.capProvisional);
+  const capped = capApplies && average !== null && average > lowHandicap! + policy.maxIncrease!;
+
+  return {
+    calculatedAt: now.toISOString(),
+    policy,
+    isProvisional,
+    rounds: considered.map(({ row, adjusted }) => ({
+      historyId: row.id,
+      tournamentName: row.tournamentName,
+      completedAt: new Date(row.completedAt).toISOString(),
+      holesPlayed: row.holesPlayed,
+      relativeToPar: row.totalStrokes - row.totalPar,
+      adjusted: roundHandicap(adjusted),
+      counted: counted.some(c => c.row.id === row.id),
+    })),
+    average,
+    lowHandicap,
+    capped,
+    handicap: capped ? roundHandicap(lowHandicap! + policy.maxIncrease!) : average,
+  };
+}
+
+export const reviewCheatAlertSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  status: cheatAlertStatusSchema,
+  note: z.string().max(1000).optional(),
+});
+
+// Director account management
+const directorPinSchema = z.string().regex(/^\d{4}$/, "PIN must be exactly 4 digits");
+
+export const createDirectorSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  email: z.string().trim().email().optional().or(z.literal("")),
+  pin: directorPinSchema,
+  isAdmin: z.boolean().optional(),
+});
+
+export const updateDirectorSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  name: z.string().trim().min(1).max(100).optional(),
+  email: z.string().trim().email().optional().or(z.literal("")),
+  isAdmin: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const rotateDirectorPinSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  pin: directorPinSchema,
+});
+
+export const assignLegacyRecordsSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  legacyPin: z.string().min(1, "Legacy PIN is required"),
+});
+
+// Tournaments and content defaults from before director accounts, grouped by the PIN they were
+// keyed by until an admin assigns them to an account
+export interface LegacyDirectorRecords {
+  legacyPin: string;
+  directorName: string | null; // from the content defaults, when there are any
+  tournaments: { roomCode: string; name: string }[];
+  hasContentDefaults: boolean;
+}
+
+// Per-tournament staff roles - head is the owning director (or an admin); the others are granted
+export const tournamentRoleSchema = z.enum(["head", "assistant", "scorer"]);
+export type TournamentRole = z.infer<typeof tournamentRoleSchema>;
+
+export const grantStaffRoleSchema = z.object({
+  directorPin: z.string().min(1, "Director PIN is required"),
+  directorId: z.number().int().positive(),
+  role: tournamentRoleSchema.exclude(["head"]),
+});